@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "todos" ADD COLUMN     "parent_id" INTEGER,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "todos_parent_id_idx" ON "todos"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "todos" ADD CONSTRAINT "todos_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "todos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "todos" ADD COLUMN     "occurrence" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "recurrence" JSONB;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "SharePermission" AS ENUM ('VIEWER', 'EDITOR');
+
+-- CreateEnum
+CREATE TYPE "ShareStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- CreateTable
+CREATE TABLE "shares" (
+    "id" SERIAL NOT NULL,
+    "permission" "SharePermission" NOT NULL DEFAULT 'VIEWER',
+    "status" "ShareStatus" NOT NULL DEFAULT 'PENDING',
+    "todo_id" INTEGER,
+    "project_id" INTEGER,
+    "owner_id" INTEGER NOT NULL,
+    "invitee_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "responded_at" TIMESTAMP(3),
+
+    CONSTRAINT "shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shares_invitee_id_status_idx" ON "shares"("invitee_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shares_todo_id_invitee_id_key" ON "shares"("todo_id", "invitee_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shares_project_id_invitee_id_key" ON "shares"("project_id", "invitee_id");
+
+-- AddForeignKey
+ALTER TABLE "shares" ADD CONSTRAINT "shares_todo_id_fkey" FOREIGN KEY ("todo_id") REFERENCES "todos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shares" ADD CONSTRAINT "shares_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shares" ADD CONSTRAINT "shares_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shares" ADD CONSTRAINT "shares_invitee_id_fkey" FOREIGN KEY ("invitee_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
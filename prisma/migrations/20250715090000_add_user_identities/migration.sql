@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "user_identities" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_user_id" TEXT,
+    "email" TEXT,
+    "linked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_provider_provider_user_id_key" ON "user_identities"("provider", "provider_user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_user_id_provider_key" ON "user_identities"("user_id", "provider");
+
+-- AddForeignKey
+ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over the provider recorded on each OAuth account. The provider user
+-- id was never stored, so it is filled in on the next sign-in.
+INSERT INTO "user_identities" ("provider", "email", "linked_at", "user_id")
+SELECT "auth_provider", "email", "updated_at", "id"
+FROM "users"
+WHERE "auth_provider" IN ('google', 'amazon');
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "todos" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "todos_deleted_at_idx" ON "todos"("deleted_at");
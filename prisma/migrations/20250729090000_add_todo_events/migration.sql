@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "TodoEventType" AS ENUM ('CREATED', 'UPDATED', 'DELETED', 'RESTORED', 'REVERTED');
+
+-- CreateTable
+CREATE TABLE "todo_events" (
+    "id" SERIAL NOT NULL,
+    "type" "TodoEventType" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "todo_id" INTEGER,
+    "user_id" INTEGER NOT NULL,
+    "actor_id" INTEGER,
+
+    CONSTRAINT "todo_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "todo_events_todo_id_id_idx" ON "todo_events"("todo_id", "id");
+
+-- CreateIndex
+CREATE INDEX "todo_events_user_id_id_idx" ON "todo_events"("user_id", "id");
+
+-- CreateIndex
+CREATE INDEX "todo_events_actor_id_id_idx" ON "todo_events"("actor_id", "id");
+
+-- AddForeignKey
+ALTER TABLE "todo_events" ADD CONSTRAINT "todo_events_todo_id_fkey" FOREIGN KEY ("todo_id") REFERENCES "todos"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "todo_events" ADD CONSTRAINT "todo_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "todo_events" ADD CONSTRAINT "todo_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
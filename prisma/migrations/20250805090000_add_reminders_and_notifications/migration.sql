@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannelType" AS ENUM ('EMAIL', 'WEBHOOK', 'IN_APP');
+
+-- CreateTable
+CREATE TABLE "reminders" (
+    "id" SERIAL NOT NULL,
+    "remind_at" TIMESTAMP(3),
+    "offset_minutes" INTEGER,
+    "channels" "NotificationChannelType"[] DEFAULT ARRAY['IN_APP']::"NotificationChannelType"[],
+    "webhook_url" TEXT,
+    "delivered_channels" "NotificationChannelType"[] DEFAULT ARRAY[]::"NotificationChannelType"[],
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "claimed_until" TIMESTAMP(3),
+    "sent_at" TIMESTAMP(3),
+    "failed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "todo_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "dedupe_key" TEXT,
+    "read_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "todo_id" INTEGER,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reminders_todo_id_idx" ON "reminders"("todo_id");
+
+-- CreateIndex
+CREATE INDEX "reminders_user_id_idx" ON "reminders"("user_id");
+
+-- CreateIndex
+CREATE INDEX "reminders_sent_at_failed_at_idx" ON "reminders"("sent_at", "failed_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_dedupe_key_key" ON "notifications"("dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_read_at_idx" ON "notifications"("user_id", "read_at");
+
+-- AddForeignKey
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_todo_id_fkey" FOREIGN KEY ("todo_id") REFERENCES "todos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_todo_id_fkey" FOREIGN KEY ("todo_id") REFERENCES "todos"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE "todos" ADD COLUMN     "client_id" TEXT,
+ADD COLUMN     "field_versions" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "version" SERIAL NOT NULL;
+
+-- CreateTable
+CREATE TABLE "todo_tombstones" (
+    "id" SERIAL NOT NULL,
+    "todo_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT nextval('todos_version_seq'::regclass),
+    "deleted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "todo_tombstones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "todos_user_id_version_idx" ON "todos"("user_id", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "todos_client_id_key" ON "todos"("client_id");
+
+-- CreateIndex
+CREATE INDEX "todo_tombstones_user_id_version_idx" ON "todo_tombstones"("user_id", "version");
+
+-- CreateIndex
+CREATE INDEX "todo_tombstones_deleted_at_idx" ON "todo_tombstones"("deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "todo_tombstones" ADD CONSTRAINT "todo_tombstones_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every change to a todo takes the next value of the shared sequence, so
+-- versions grow across all todos and double as sync change tokens.
+-- field_versions keeps the version at which each synced field last changed,
+-- which is what per-field conflict detection compares against.
+CREATE FUNCTION "todos_bump_version"() RETURNS TRIGGER AS $$
+DECLARE
+    field TEXT[];
+BEGIN
+    -- Touching only updated_at is not a change
+    IF to_jsonb(NEW) - 'updated_at' = to_jsonb(OLD) - 'updated_at' THEN
+        RETURN NEW;
+    END IF;
+
+    NEW."version" := nextval('todos_version_seq');
+
+    FOREACH field SLICE 1 IN ARRAY ARRAY[
+        ['title', 'title'],
+        ['description', 'description'],
+        ['completed', 'completed'],
+        ['dueDate', 'due_date'],
+        ['projectId', 'project_id'],
+        ['recurrence', 'recurrence'],
+        ['parentId', 'parent_id'],
+        ['position', 'position'],
+        ['deletedAt', 'deleted_at']
+    ] LOOP
+        IF to_jsonb(NEW) -> field[2] IS DISTINCT FROM to_jsonb(OLD) -> field[2] THEN
+            NEW."field_versions" := jsonb_set(
+                NEW."field_versions", ARRAY[field[1]], to_jsonb(NEW."version")
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "todos_bump_version"
+    BEFORE UPDATE ON "todos"
+    FOR EACH ROW EXECUTE FUNCTION "todos_bump_version"();
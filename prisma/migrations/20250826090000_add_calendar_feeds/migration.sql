@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "CalendarEntryType" AS ENUM ('TODO', 'EVENT');
+
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" SERIAL NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "entry_type" "CalendarEntryType" NOT NULL DEFAULT 'EVENT',
+    "include_completed" BOOLEAN NOT NULL DEFAULT false,
+    "tag_ids" INTEGER[],
+    "project_ids" INTEGER[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_token_hash_key" ON "calendar_feeds"("token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_user_id_key" ON "calendar_feeds"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "UserTokenType" ADD VALUE 'EMAIL_CHANGE';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "pending_email" TEXT;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "auth_method" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "ip" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "sessions"("user_id");
+
+-- Backfill a session for every existing refresh token family
+INSERT INTO "sessions" ("id", "auth_method", "created_at", "last_seen_at", "user_id")
+SELECT rt."family_id", u."auth_provider", MIN(rt."created_at"), MAX(rt."created_at"), rt."user_id"
+FROM "refresh_tokens" rt
+JOIN "users" u ON u."id" = rt."user_id"
+GROUP BY rt."family_id", rt."user_id", u."auth_provider";
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_family_id_fkey" FOREIGN KEY ("family_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
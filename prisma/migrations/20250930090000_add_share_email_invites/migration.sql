@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "shares" ADD COLUMN "email" TEXT;
+
+-- Invitations so far always went to registered users
+UPDATE "shares" SET "email" = "users"."email"
+FROM "users"
+WHERE "users"."id" = "shares"."invitee_id";
+
+-- AlterTable
+ALTER TABLE "shares" ALTER COLUMN "email" SET NOT NULL,
+ALTER COLUMN "invitee_id" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "shares_email_idx" ON "shares"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shares_todo_id_email_key" ON "shares"("todo_id", "email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shares_project_id_email_key" ON "shares"("project_id", "email");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "password" DROP NOT NULL;
+
+-- Accounts without a password used to store an empty string
+UPDATE "users" SET "password" = NULL WHERE "password" = '';
@@ -0,0 +1,144 @@
+-- AlterTable
+ALTER TABLE "todos" ADD COLUMN     "change_xid" xid8 NOT NULL DEFAULT pg_current_xact_id();
+
+-- AlterTable
+ALTER TABLE "todo_tombstones" ADD COLUMN     "change_xid" xid8 NOT NULL DEFAULT pg_current_xact_id();
+
+-- DropIndex
+DROP INDEX "todos_client_id_key";
+
+-- DropIndex
+DROP INDEX "todos_user_id_version_idx";
+
+-- DropIndex
+DROP INDEX "todo_tombstones_user_id_version_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "todos_user_id_client_id_key" ON "todos"("user_id", "client_id");
+
+-- CreateIndex
+CREATE INDEX "todos_user_id_change_xid_version_idx" ON "todos"("user_id", "change_xid", "version");
+
+-- CreateIndex
+CREATE INDEX "todo_tombstones_user_id_change_xid_version_idx" ON "todo_tombstones"("user_id", "change_xid", "version");
+
+-- Versions are taken when a row is written but become visible when the
+-- transaction commits, so a long transaction can commit a version lower than
+-- one a reader already saw. change_xid records the writing transaction; the
+-- sync feed is ordered by it and only includes transactions older than every
+-- one still running, which can no longer add anything before them.
+CREATE OR REPLACE FUNCTION "todos_bump_version"() RETURNS TRIGGER AS $$
+DECLARE
+    field TEXT[];
+BEGIN
+    -- Touching only updated_at is not a change
+    IF to_jsonb(NEW) - 'updated_at' = to_jsonb(OLD) - 'updated_at' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Tag changes version the todo themselves, see todos_bump_tags_version
+    IF NEW."version" IS DISTINCT FROM OLD."version" THEN
+        RETURN NEW;
+    END IF;
+
+    NEW."version" := nextval('todos_version_seq');
+    NEW."change_xid" := pg_current_xact_id();
+
+    FOREACH field SLICE 1 IN ARRAY ARRAY[
+        ['title', 'title'],
+        ['description', 'description'],
+        ['completed', 'completed'],
+        ['dueDate', 'due_date'],
+        ['projectId', 'project_id'],
+        ['recurrence', 'recurrence'],
+        ['parentId', 'parent_id'],
+        ['position', 'position'],
+        ['deletedAt', 'deleted_at']
+    ] LOOP
+        IF to_jsonb(NEW) -> field[2] IS DISTINCT FROM to_jsonb(OLD) -> field[2] THEN
+            NEW."field_versions" := jsonb_set(
+                NEW."field_versions", ARRAY[field[1]], to_jsonb(NEW."version")
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tags live in their own tables, so assigning, removing, renaming or
+-- recolouring one does not touch the todo row. These triggers give every
+-- affected todo a new version and record it as the version of "tags".
+CREATE FUNCTION "todos_bump_tags_version"(todo_ids INTEGER[]) RETURNS VOID AS $$
+BEGIN
+    UPDATE "todos" t
+    SET "version" = v."version",
+        "field_versions" = jsonb_set(
+            t."field_versions", ARRAY['tags'], to_jsonb(v."version")
+        ),
+        "change_xid" = pg_current_xact_id(),
+        "updated_at" = CURRENT_TIMESTAMP
+    FROM (
+        SELECT "id", nextval('todos_version_seq')::INTEGER AS "version"
+        FROM "todos"
+        WHERE "id" = ANY(todo_ids)
+    ) v
+    WHERE t."id" = v."id";
+END;
+$$ LANGUAGE plpgsql;
+
+-- Statement level, so assigning several tags to a todo bumps it once
+CREATE FUNCTION "todo_tags_bump_version"() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM "todos_bump_tags_version"(
+            ARRAY(SELECT DISTINCT "todo_id" FROM "new_rows")
+        );
+    ELSIF TG_OP = 'DELETE' THEN
+        PERFORM "todos_bump_tags_version"(
+            ARRAY(SELECT DISTINCT "todo_id" FROM "old_rows")
+        );
+    ELSE
+        PERFORM "todos_bump_tags_version"(
+            ARRAY(
+                SELECT "todo_id" FROM "old_rows"
+                UNION
+                SELECT "todo_id" FROM "new_rows"
+            )
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "todo_tags_insert_bump_version"
+    AFTER INSERT ON "todo_tags"
+    REFERENCING NEW TABLE AS "new_rows"
+    FOR EACH STATEMENT EXECUTE FUNCTION "todo_tags_bump_version"();
+
+CREATE TRIGGER "todo_tags_update_bump_version"
+    AFTER UPDATE ON "todo_tags"
+    REFERENCING OLD TABLE AS "old_rows" NEW TABLE AS "new_rows"
+    FOR EACH STATEMENT EXECUTE FUNCTION "todo_tags_bump_version"();
+
+CREATE TRIGGER "todo_tags_delete_bump_version"
+    AFTER DELETE ON "todo_tags"
+    REFERENCING OLD TABLE AS "old_rows"
+    FOR EACH STATEMENT EXECUTE FUNCTION "todo_tags_bump_version"();
+
+CREATE FUNCTION "tags_bump_todo_versions"() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM "todos_bump_tags_version"(
+        ARRAY(SELECT "todo_id" FROM "todo_tags" WHERE "tag_id" = NEW."id")
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tags_bump_todo_versions"
+    AFTER UPDATE OF "name", "color" ON "tags"
+    FOR EACH ROW
+    WHEN (OLD."name" IS DISTINCT FROM NEW."name" OR OLD."color" IS DISTINCT FROM NEW."color")
+    EXECUTE FUNCTION "tags_bump_todo_versions"();
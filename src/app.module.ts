@@ -2,24 +2,56 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { APP_FILTER, APP_GUARD } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from '@core/database/prisma/prisma.module';
 import { AuthModule } from '@modules/auth/auth.module';
 import { TodosModule } from '@modules/todos/todos.module';
+import { ProjectsModule } from '@modules/projects/projects.module';
+import { TagsModule } from '@modules/tags/tags.module';
+import { AdminModule } from '@modules/admin/admin.module';
+import { SharesModule } from '@modules/shares/shares.module';
+import { NotificationsModule } from '@modules/notifications/notifications.module';
+import { RemindersModule } from '@modules/reminders/reminders.module';
+import { WebhooksModule } from '@modules/webhooks/webhooks.module';
+import { RealtimeModule } from '@modules/realtime/realtime.module';
+import { CalendarModule } from '@modules/calendar/calendar.module';
+import { UsersModule } from '@modules/users/users.module';
 import { LoggerModule } from '@common/logger/logger.module';
+import { RateLimitModule } from '@common/rate-limit/rate-limit.module';
+import { RateLimitGuard } from '@common/rate-limit/rate-limit.guard';
+import { TooManyRequestsFilter } from '@common/rate-limit/too-many-requests.filter';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     LoggerModule,
+    RateLimitModule,
     AuthModule,
     TodosModule,
+    ProjectsModule,
+    TagsModule,
+    AdminModule,
+    SharesModule,
+    NotificationsModule,
+    RemindersModule,
+    WebhooksModule,
+    RealtimeModule,
+    CalendarModule,
+    UsersModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    // Every route is rate limited; @RateLimit() overrides the defaults
+    { provide: APP_GUARD, useExisting: RateLimitGuard },
+    { provide: APP_FILTER, useClass: TooManyRequestsFilter },
+  ],
 })
 export class AppModule {}
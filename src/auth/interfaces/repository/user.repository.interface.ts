@@ -1,18 +1,13 @@
 import { User } from '@prisma/client';
 import { RegisterDto } from '../../../modules/auth/dto/auth.dto';
+import { OAuthProfile } from '../../../modules/auth/interfaces/identity.interface';
 
 export interface UserRepositoryInterface {
+  findById(id: number): Promise<User | null>;
   findByEmail(email: string): Promise<User | null>;
   createUser(registerDto: RegisterDto): Promise<User>;
   updateUser(id: number, data: Partial<User>): Promise<User>;
-  createGoogleUser(
-    email: string,
-    name: string,
-    picture: string | null,
-  ): Promise<User>;
-  createAmazonUser(
-    email: string,
-    name: string,
-    picture: string | null,
-  ): Promise<User>;
+  createOAuthUser(profile: OAuthProfile): Promise<User>;
+  claimTwoFactorStep(id: number, step: number): Promise<boolean>;
+  deleteUser(id: number): Promise<void>;
 }
@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { User } from '@prisma/client';
 // import { PrismaService } from '../../prisma/prisma.service';
 import { RegisterDto } from '../../modules/auth/dto/auth.dto';
+import { OAuthProfile } from '../../modules/auth/interfaces/identity.interface';
 import { UserRepositoryInterface } from '../interfaces/repository/user.repository.interface';
 import { AppLogger } from '../../common/logger/app-logger.service';
 import * as bcrypt from 'bcrypt';
@@ -16,6 +17,13 @@ export class UserRepository implements UserRepositoryInterface {
     this.logger.setContext(UserRepository.name);
   }
 
+  async findById(id: number): Promise<User | null> {
+    this.logger.debug(`Finding user by ID: ${id}`);
+    return this.prisma.user.findUnique({
+      where: { id },
+    });
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     this.logger.debug(`Finding user by email: ${email}`);
     return this.prisma.user.findUnique({
@@ -47,39 +55,49 @@ export class UserRepository implements UserRepositoryInterface {
     });
   }
 
-  async createGoogleUser(
-    email: string,
-    name: string,
-    picture: string | null,
-  ): Promise<User> {
-    this.logger.debug(`Creating Google user with email: ${email}`);
+  async createOAuthUser(profile: OAuthProfile): Promise<User> {
+    this.logger.debug(
+      `Creating ${profile.provider} user with email: ${profile.email}`,
+    );
 
     return this.prisma.user.create({
       data: {
-        email,
-        name,
-        password: '',
-        authProvider: 'google',
-        profilePicture: picture,
+        email: profile.email,
+        name: profile.name,
+        authProvider: profile.provider,
+        profilePicture: profile.picture,
+        // The provider has already confirmed the address
+        emailVerifiedAt: new Date(),
+        identities: {
+          create: {
+            provider: profile.provider,
+            providerUserId: profile.providerUserId,
+            email: profile.email,
+          },
+        },
       },
     });
   }
 
-  async createAmazonUser(
-    email: string,
-    name: string,
-    picture: string | null,
-  ): Promise<User> {
-    this.logger.debug(`Creating Amazon user with email: ${email}`);
-
-    return this.prisma.user.create({
-      data: {
-        email,
-        name,
-        password: '',
-        authProvider: 'amazon',
-        profilePicture: picture,
+  /**
+   * Records the time step of an accepted TOTP code. Fails when that step or
+   * a later one was already used, so every code works only once.
+   */
+  async claimTwoFactorStep(id: number, step: number): Promise<boolean> {
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
       },
+      data: { twoFactorLastStep: step },
     });
+
+    return count > 0;
+  }
+
+  /** Everything the user owns goes with them through cascading deletes. */
+  async deleteUser(id: number): Promise<void> {
+    this.logger.debug(`Deleting user with ID: ${id}`);
+    await this.prisma.user.delete({ where: { id } });
   }
 }
@@ -1,3 +1,17 @@
 export * from './logger/logger.module';
 export * from './logger/app-logger.service';
+export * from './interfaces/paginated-result.interface';
+export * from './transformers/to-boolean.transformer';
+export * from './transformers/to-string-array.transformer';
+export * from './utils/token.util';
+export * from './utils/csv.util';
+export * from './utils/json-stream.util';
+export * from './utils/outbound-url.util';
+export * from './validators/is-outbound-url.validator';
+export * from './mailer/mailer.module';
+export * from './mailer/mailer.interface';
+export * from './rate-limit/rate-limit.module';
+export * from './rate-limit/rate-limit.interface';
+export * from './rate-limit/rate-limit.decorator';
+export * from './rate-limit/too-many-requests.exception';
 // Export other common components as they are added
@@ -0,0 +1,5 @@
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  nextCursor: number | null;
+}
@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppLogger } from '../logger/app-logger.service';
+import { FileMailerService } from './file-mailer.service';
+
+describe('FileMailerService', () => {
+  let outputDir: string;
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const message = {
+    to: 'ada@example.com',
+    subject: 'Reset your password',
+    text: 'Choose a new one here',
+  };
+
+  const createMailer = (dir?: string) =>
+    new FileMailerService(
+      { get: () => dir } as unknown as ConfigService,
+      mockLogger as unknown as AppLogger,
+    );
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write each message to MAIL_OUTPUT_DIR as JSON', async () => {
+    await createMailer(path.join(outputDir, 'outbox')).send(message);
+
+    const [file] = await fs.promises.readdir(path.join(outputDir, 'outbox'));
+
+    expect(file).toMatch(/^\d+-ada@example\.com\.json$/);
+    expect(
+      JSON.parse(
+        await fs.promises.readFile(
+          path.join(outputDir, 'outbox', file),
+          'utf8',
+        ),
+      ),
+    ).toEqual(message);
+  });
+
+  it('should keep the recipient from escaping the directory', async () => {
+    await createMailer(outputDir).send({ ...message, to: '../../evil' });
+
+    const [file] = await fs.promises.readdir(outputDir);
+
+    expect(file).toMatch(/^\d+-\.\._\.\._evil\.json$/);
+  });
+
+  it('should log messages when no directory is set', async () => {
+    await createMailer().send(message);
+
+    expect(mockLogger.log).toHaveBeenCalledWith(
+      expect.stringContaining('Reset your password'),
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppLogger } from '../logger/app-logger.service';
+import { MailerService, MailMessage } from './mailer.interface';
+
+/**
+ * Mailer for local development and tests: messages are written to
+ * MAIL_OUTPUT_DIR as JSON files, or logged when no directory is set.
+ */
+@Injectable()
+export class FileMailerService implements MailerService {
+  private readonly outputDir?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.outputDir = configService.get<string>('MAIL_OUTPUT_DIR') || undefined;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.outputDir) {
+      this.logger.log(
+        `Mail to ${message.to}: ${message.subject}\n${message.text}`,
+      );
+      return;
+    }
+
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+
+    const file = path.join(
+      this.outputDir,
+      `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`,
+    );
+    await fs.promises.writeFile(file, JSON.stringify(message, null, 2));
+
+    this.logger.debug(`Mail to ${message.to} written to ${file}`);
+  }
+}
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Sends transactional email. Injected with the 'MailerService' token so the
+ * transport can be swapped through configuration.
+ */
+export interface MailerService {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CommonModule } from '../common.module';
+import { AppLogger } from '../logger/app-logger.service';
+import { SmtpMailerService } from './smtp-mailer.service';
+import { FileMailerService } from './file-mailer.service';
+
+@Module({
+  imports: [CommonModule],
+  providers: [
+    {
+      provide: 'MailerService',
+      inject: [ConfigService, AppLogger],
+      useFactory: (configService: ConfigService, logger: AppLogger) =>
+        configService.get<string>('MAIL_TRANSPORT') === 'smtp'
+          ? new SmtpMailerService(configService, logger)
+          : new FileMailerService(configService, logger),
+    },
+  ],
+  exports: ['MailerService'],
+})
+export class MailerModule {}
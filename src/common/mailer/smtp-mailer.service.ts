@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { AppLogger } from '../logger/app-logger.service';
+import { MailerService, MailMessage } from './mailer.interface';
+
+@Injectable()
+export class SmtpMailerService implements MailerService {
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    const host = configService.get<string>('SMTP_HOST');
+
+    if (!host) {
+      throw new Error('SMTP_HOST environment variable is not set');
+    }
+
+    const user = configService.get<string>('SMTP_USER');
+
+    this.transporter = createTransport({
+      host,
+      port: Number(configService.get<string>('SMTP_PORT') || 587),
+      secure: configService.get<string>('SMTP_SECURE') === 'true',
+      auth: user
+        ? { user, pass: configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+    this.from = configService.get<string>('MAIL_FROM') || 'no-reply@localhost';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.debug(`Sending "${message.subject}" to ${message.to} via SMTP`);
+
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
@@ -0,0 +1,83 @@
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('increment', () => {
+    it('starts a counter that expires after the ttl', async () => {
+      await expect(store.increment('key', 1000)).resolves.toEqual({
+        value: 1,
+        expiresAt: now + 1000,
+      });
+    });
+
+    it('counts within the window without extending it', async () => {
+      await store.increment('key', 1000);
+      now += 500;
+
+      await expect(store.increment('key', 1000)).resolves.toEqual({
+        value: 2,
+        expiresAt: 1_001_000,
+      });
+    });
+
+    it('counts concurrent increments one by one', async () => {
+      const counters = await Promise.all(
+        Array.from({ length: 5 }, () => store.increment('key', 1000)),
+      );
+
+      expect(counters.map((counter) => counter.value)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('starts over once the window has passed', async () => {
+      await store.increment('key', 1000);
+      await store.increment('key', 1000);
+      now += 1000;
+
+      await expect(store.increment('key', 1000)).resolves.toEqual({
+        value: 1,
+        expiresAt: now + 1000,
+      });
+    });
+  });
+
+  describe('get', () => {
+    it('returns null for unknown and expired keys', async () => {
+      await store.set('key', 3, 1000);
+
+      await expect(store.get('other')).resolves.toBeNull();
+      await expect(store.get('key')).resolves.toEqual({
+        value: 3,
+        expiresAt: now + 1000,
+      });
+
+      now += 1000;
+      await expect(store.get('key')).resolves.toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('removes every given key', async () => {
+      await store.increment('a', 1000);
+      await store.increment('b', 1000);
+      await store.increment('c', 1000);
+
+      await store.delete(['a', 'b']);
+
+      await expect(store.get('a')).resolves.toBeNull();
+      await expect(store.get('b')).resolves.toBeNull();
+      await expect(store.get('c')).resolves.not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { RateLimitCounter, RateLimitStore } from './rate-limit.interface';
+
+// Expired counters are only swept once there are this many
+const SWEEP_THRESHOLD = 10_000;
+
+/** Counters in process memory; each instance of the app counts on its own. */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, RateLimitCounter>();
+
+  /**
+   * Reads and writes without yielding in between, so concurrent requests
+   * cannot both see the same count.
+   */
+  increment(key: string, ttlMs: number): Promise<RateLimitCounter> {
+    const current = this.read(key);
+    const counter = current
+      ? { ...current, value: current.value + 1 }
+      : { value: 1, expiresAt: Date.now() + ttlMs };
+
+    this.counters.set(key, counter);
+    this.sweep();
+
+    return Promise.resolve(counter);
+  }
+
+  get(key: string): Promise<RateLimitCounter | null> {
+    return Promise.resolve(this.read(key));
+  }
+
+  set(key: string, value: number, ttlMs: number): Promise<void> {
+    this.counters.set(key, { value, expiresAt: Date.now() + ttlMs });
+    this.sweep();
+
+    return Promise.resolve();
+  }
+
+  delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.counters.delete(key));
+
+    return Promise.resolve();
+  }
+
+  private read(key: string): RateLimitCounter | null {
+    const counter = this.counters.get(key);
+
+    if (counter && counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return null;
+    }
+
+    return counter ?? null;
+  }
+
+  private sweep(): void {
+    if (this.counters.size < SWEEP_THRESHOLD) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
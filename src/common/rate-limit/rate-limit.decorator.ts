@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitOptions } from './rate-limit.interface';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Gives a route, or every route of a controller, its own request limit per
+ * client instead of the global one.
+ */
+export const RateLimit = (options: RateLimitOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { AppLogger } from '../logger/app-logger.service';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RateLimit } from './rate-limit.decorator';
+import { RateLimitGuard } from './rate-limit.guard';
+import { TooManyRequestsException } from './too-many-requests.exception';
+
+class TodosController {
+  findAll() {}
+
+  @RateLimit({ limit: 1, windowSeconds: 60 })
+  export() {}
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let store: MemoryRateLimitStore;
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildContext = (
+    handler: keyof TodosController,
+    ip: string,
+    headers: Record<string, string> = {},
+  ) => {
+    const response = { setHeader: jest.fn() };
+    const context = {
+      getType: () => 'http',
+      getHandler: () => TodosController.prototype[handler],
+      getClass: () => TodosController,
+      switchToHttp: () => ({
+        getRequest: () => ({ ip, headers, socket: {} }),
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext;
+
+    return { context, response };
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockConfigService.get.mockImplementation((key: string) =>
+      key === 'RATE_LIMIT_MAX' ? '2' : undefined,
+    );
+    store = new MemoryRateLimitStore();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        Reflector,
+        { provide: 'RateLimitStore', useValue: store },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    guard = module.get<RateLimitGuard>(RateLimitGuard);
+  });
+
+  it('should let requests through up to the limit and report what is left', async () => {
+    const { context, response } = buildContext('findAll', '203.0.113.7');
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+
+    expect(response.setHeader).toHaveBeenCalledWith('RateLimit-Limit', '2');
+    expect(response.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', '1');
+    expect(response.setHeader).toHaveBeenCalledWith('RateLimit-Reset', '60');
+  });
+
+  it('should answer 429 over the limit, also for concurrent requests', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () =>
+        guard.canActivate(buildContext('findAll', '203.0.113.7').context),
+      ),
+    );
+
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+    ]);
+    expect((results[2] as PromiseRejectedResult).reason).toBeInstanceOf(
+      TooManyRequestsException,
+    );
+  });
+
+  it('should count clients by request IP, not forwarding headers', async () => {
+    for (const forwarded of ['198.51.100.1', '198.51.100.2']) {
+      await guard.canActivate(
+        buildContext('findAll', '203.0.113.7', {
+          'x-forwarded-for': forwarded,
+        }).context,
+      );
+    }
+
+    await expect(
+      guard.canActivate(buildContext('findAll', '203.0.113.7').context),
+    ).rejects.toBeInstanceOf(TooManyRequestsException);
+    await expect(
+      guard.canActivate(buildContext('findAll', '203.0.113.8').context),
+    ).resolves.toBe(true);
+  });
+
+  it('should count routes with their own limit apart', async () => {
+    await guard.canActivate(buildContext('findAll', '203.0.113.7').context);
+
+    await expect(
+      guard.canActivate(buildContext('export', '203.0.113.7').context),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(buildContext('export', '203.0.113.7').context),
+    ).rejects.toBeInstanceOf(TooManyRequestsException);
+  });
+
+  it('should let requests through when the store fails', async () => {
+    jest.spyOn(store, 'increment').mockRejectedValue(new Error('offline'));
+
+    await expect(
+      guard.canActivate(buildContext('findAll', '203.0.113.7').context),
+    ).resolves.toBe(true);
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { AppLogger } from '../logger/app-logger.service';
+import { RATE_LIMIT_KEY } from './rate-limit.decorator';
+import { RateLimitOptions, RateLimitStore } from './rate-limit.interface';
+import { TooManyRequestsException } from './too-many-requests.exception';
+
+/**
+ * Counts requests per client IP in fixed windows and answers 429 over the
+ * limit. Every response carries the RateLimit-Limit, RateLimit-Remaining and
+ * RateLimit-Reset headers. Routes with their own limit are counted apart
+ * from the global limit.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    @Inject('RateLimitStore')
+    private readonly store: RateLimitStore,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const override = this.reflector.getAllAndOverride<
+      RateLimitOptions | undefined
+    >(RATE_LIMIT_KEY, [context.getHandler(), context.getClass()]);
+    const { limit, windowSeconds } = override ?? this.getDefaults();
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const client = request.ip ?? request.socket.remoteAddress ?? 'unknown';
+    const key = override
+      ? `requests:${client}:${context.getClass().name}.${context.getHandler().name}`
+      : `requests:${client}`;
+
+    let count: number;
+    let resetSeconds: number;
+    try {
+      const counter = await this.store.increment(key, windowSeconds * 1000);
+      count = counter.value;
+      resetSeconds = Math.max(
+        0,
+        Math.ceil((counter.expiresAt - Date.now()) / 1000),
+      );
+    } catch (error) {
+      // An unreachable store must not take the whole API down with it
+      this.logger.error(
+        `Rate limit store failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return true;
+    }
+
+    response.setHeader('RateLimit-Limit', String(limit));
+    response.setHeader(
+      'RateLimit-Remaining',
+      String(Math.max(0, limit - count)),
+    );
+    response.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (count > limit) {
+      this.logger.warn(`Rate limit exceeded for client: ${client} (${key})`);
+      throw new TooManyRequestsException(resetSeconds);
+    }
+
+    return true;
+  }
+
+  private getDefaults(): RateLimitOptions {
+    return {
+      limit: Number(this.configService.get<string>('RATE_LIMIT_MAX') || 100),
+      windowSeconds: Number(
+        this.configService.get<string>('RATE_LIMIT_WINDOW_SECONDS') || 60,
+      ),
+    };
+  }
+}
@@ -0,0 +1,23 @@
+export interface RateLimitCounter {
+  value: number;
+  /** When the counter expires, in milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/**
+ * Keeps expiring counters for rate limits and lockouts. Injected with the
+ * 'RateLimitStore' token so counters can live in this process or be shared
+ * between instances through Redis.
+ */
+export interface RateLimitStore {
+  /** Adds one; the first increment starts a window of `ttlMs`. */
+  increment(key: string, ttlMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitCounter | null>;
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+}
+
+export interface RateLimitOptions {
+  limit: number;
+  windowSeconds: number;
+}
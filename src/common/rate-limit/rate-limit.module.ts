@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CommonModule } from '../common.module';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RedisRateLimitStore } from './redis-rate-limit.store';
+import { RateLimitGuard } from './rate-limit.guard';
+
+@Module({
+  imports: [CommonModule],
+  providers: [
+    {
+      provide: 'RateLimitStore',
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('RATE_LIMIT_STORE') === 'redis'
+          ? new RedisRateLimitStore(
+              configService.get<string>('REDIS_URL') ||
+                'redis://localhost:6379',
+            )
+          : new MemoryRateLimitStore(),
+    },
+    RateLimitGuard,
+  ],
+  exports: ['RateLimitStore', RateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,68 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { RateLimitCounter, RateLimitStore } from './rate-limit.interface';
+
+// Increments and starts the window in one step, so concurrent requests
+// can neither lose counts nor leave a counter without an expiry
+const INCREMENT_SCRIPT = `
+local value = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {value, ttl}
+`;
+
+/**
+ * Counters in Redis, or anything speaking its protocol, shared by every
+ * instance of the app.
+ */
+export class RedisRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly redis: Redis;
+
+  constructor(url: string) {
+    // Fail fast while Redis is unreachable instead of queueing requests
+    this.redis = new Redis(url, {
+      keyPrefix: 'rate-limit:',
+      maxRetriesPerRequest: 1,
+    });
+  }
+
+  async increment(key: string, ttlMs: number): Promise<RateLimitCounter> {
+    const [value, ttl] = (await this.redis.eval(
+      INCREMENT_SCRIPT,
+      1,
+      key,
+      ttlMs,
+    )) as [number, number];
+
+    return { value, expiresAt: Date.now() + ttl };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const [[, value], [, ttl]] = (await this.redis
+      .multi()
+      .get(key)
+      .pttl(key)
+      .exec()) as [[null, string | null], [null, number]];
+
+    return value === null || ttl < 0
+      ? null
+      : { value: Number(value), expiresAt: Date.now() + ttl };
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    await this.redis.set(key, value, 'PX', ttlMs);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.redis.del(...keys);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.redis.quit();
+  }
+}
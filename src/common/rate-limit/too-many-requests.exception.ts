@@ -0,0 +1,11 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/** A 429 that tells the client when to retry through the Retry-After header. */
+export class TooManyRequestsException extends HttpException {
+  constructor(
+    readonly retryAfterSeconds: number,
+    message = 'Too many requests, please try again later',
+  ) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+}
@@ -0,0 +1,16 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { Response } from 'express';
+import { TooManyRequestsException } from './too-many-requests.exception';
+
+@Catch(TooManyRequestsException)
+export class TooManyRequestsFilter extends BaseExceptionFilter {
+  catch(exception: TooManyRequestsException, host: ArgumentsHost): void {
+    host
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader('Retry-After', String(exception.retryAfterSeconds));
+
+    super.catch(exception, host);
+  }
+}
@@ -0,0 +1,20 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * Parses "true"/"false" query string values into booleans.
+ * Implicit conversion would otherwise turn the string "false" into `true`.
+ */
+export function ToBoolean(): PropertyDecorator {
+  return Transform(({ obj, key }) => {
+    const value = (obj as Record<string, unknown>)[key];
+
+    if (value === 'true' || value === true) {
+      return true;
+    }
+    if (value === 'false' || value === false) {
+      return false;
+    }
+
+    return value;
+  });
+}
@@ -0,0 +1,21 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * Parses comma separated query string values ("a,b") into string arrays.
+ * Repeated parameters (?tag=a&tag=b) are accepted as well.
+ */
+export function ToStringArray(): PropertyDecorator {
+  return Transform(({ obj, key }) => {
+    const value = (obj as Record<string, unknown>)[key];
+    const parts = Array.isArray(value) ? value : [value];
+
+    if (parts.some((part) => typeof part !== 'string')) {
+      return value;
+    }
+
+    return (parts as string[])
+      .flatMap((part) => part.split(','))
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0);
+  });
+}
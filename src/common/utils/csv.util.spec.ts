@@ -0,0 +1,56 @@
+import { Readable } from 'stream';
+import { parseCsv, toCsvRow } from './csv.util';
+
+function chunks(...parts: string[]): AsyncIterable<string> {
+  return Readable.from(parts);
+}
+
+async function collect(source: AsyncIterable<string[]>): Promise<string[][]> {
+  const records: string[][] = [];
+  for await (const record of source) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('csv', () => {
+  describe('toCsvRow', () => {
+    it('should quote cells with separators, quotes and line breaks', () => {
+      expect(toCsvRow(['a,b', 'say "hi"', 'one\ntwo', 3, true, null])).toBe(
+        '"a,b","say ""hi""","one\ntwo",3,true,\r\n',
+      );
+    });
+
+    it('should defuse cells spreadsheets would run as formulas', () => {
+      expect(toCsvRow(['=SUM(A1)', '@cmd', -5])).toBe("'=SUM(A1),'@cmd,-5\r\n");
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should parse quoted fields split across chunks', async () => {
+      expect(
+        await collect(
+          parseCsv(
+            chunks('\uFEFFtitle,notes\r\n"Buy ', 'milk","a ""b""\nc"\r\n'),
+          ),
+        ),
+      ).toEqual([
+        ['title', 'notes'],
+        ['Buy milk', 'a "b"\nc'],
+      ]);
+    });
+
+    it('should skip blank lines and read a last line without a break', async () => {
+      expect(await collect(parseCsv(chunks('a,b\n\n1,2')))).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should reject an unterminated quoted field', async () => {
+      await expect(collect(parseCsv(chunks('a,"b\n')))).rejects.toThrow(
+        'Unterminated',
+      );
+    });
+  });
+});
@@ -0,0 +1,103 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats one CSV record (RFC 4180) terminated by CRLF. Cells that would be
+ * read as a formula are prefixed with a quote so exports are safe to open.
+ */
+export function toCsvRow(values: CsvValue[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) {
+          return '';
+        }
+
+        let text = value instanceof Date ? value.toISOString() : String(value);
+        if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+          text = `'${text}`;
+        }
+
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Parses CSV (RFC 4180) incrementally, yielding one record at a time, so
+ * large files never have to be held in memory. Blank lines are skipped.
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  // A quote inside a quoted field either escapes the next one or ends it
+  let quoteSeen = false;
+  let first = true;
+
+  const endRecord = () => {
+    record.push(field);
+    field = '';
+    const done = record;
+    record = [];
+
+    return done.length === 1 && done[0] === '' ? null : done;
+  };
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (first) {
+        first = false;
+        if (char === '\uFEFF') {
+          continue;
+        }
+      }
+
+      if (quoteSeen) {
+        quoteSeen = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          quoteSeen = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n') {
+        const done = endRecord();
+        if (done) {
+          yield done;
+        }
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (quoted && !quoteSeen) {
+    throw new Error('Unterminated quoted field at the end of the CSV');
+  }
+
+  const done = endRecord();
+  if (done) {
+    yield done;
+  }
+}
@@ -0,0 +1,47 @@
+import { Readable } from 'stream';
+import { splitJsonArray } from './json-stream.util';
+
+function chunks(...parts: string[]): AsyncIterable<string> {
+  return Readable.from(parts);
+}
+
+async function collect(source: AsyncIterable<string>): Promise<string[]> {
+  const elements: string[] = [];
+  for await (const element of source) {
+    elements.push(element);
+  }
+  return elements;
+}
+
+describe('splitJsonArray', () => {
+  it('should yield each element across chunk boundaries', async () => {
+    expect(
+      await collect(
+        splitJsonArray(chunks(' [{"a":"x,]"', ',"b":[1,2]}, 3 ,', '"s"]\n')),
+      ),
+    ).toEqual(['{"a":"x,]","b":[1,2]}', '3', '"s"']);
+  });
+
+  it('should handle escaped quotes in strings', async () => {
+    expect(await collect(splitJsonArray(chunks('["a\\"],", 1]')))).toEqual([
+      '"a\\"],"',
+      '1',
+    ]);
+  });
+
+  it('should accept an empty array', async () => {
+    expect(await collect(splitJsonArray(chunks('[]')))).toEqual([]);
+  });
+
+  it('should reject anything but a single array', async () => {
+    await expect(collect(splitJsonArray(chunks('{"a":1}')))).rejects.toThrow(
+      'Expected a JSON array',
+    );
+    await expect(collect(splitJsonArray(chunks('[1] 2')))).rejects.toThrow(
+      'Unexpected data after the JSON array',
+    );
+    await expect(collect(splitJsonArray(chunks('[1, 2')))).rejects.toThrow(
+      'Unexpected end of the JSON array',
+    );
+  });
+});
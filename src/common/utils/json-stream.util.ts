@@ -0,0 +1,75 @@
+/**
+ * Splits a top-level JSON array into the source text of its elements as the
+ * text streams in, so huge arrays can be processed one element at a time.
+ * Elements are not parsed here; callers can report a malformed one without
+ * giving up on the rest.
+ */
+export async function* splitJsonArray(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<string> {
+  let started = false;
+  let ended = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let element = '';
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (!started || ended) {
+        if (/[\s\uFEFF]/.test(char)) {
+          continue;
+        }
+        if (ended || char !== '[') {
+          throw new Error(
+            ended
+              ? 'Unexpected data after the JSON array'
+              : 'Expected a JSON array',
+          );
+        }
+
+        started = true;
+        depth = 1;
+        continue;
+      }
+
+      if (inString) {
+        element += char;
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      }
+
+      // The closing bracket of the array or a comma between its elements
+      if (depth === 0 || (depth === 1 && char === ',')) {
+        ended = depth === 0;
+        if (element.trim() !== '') {
+          yield element.trim();
+        }
+        element = '';
+        continue;
+      }
+
+      element += char;
+    }
+  }
+
+  if (!ended) {
+    throw new Error(
+      started ? 'Unexpected end of the JSON array' : 'Expected a JSON array',
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { lookup } from 'dns/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  assertPublicUrl,
+  fetchPublicUrl,
+  isInternalAddress,
+} from './outbound-url.util';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('outbound-url', () => {
+  describe('isInternalAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '224.0.0.1',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+      'not-an-address',
+    ])('should flag %s', (address) => {
+      expect(isInternalAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:808:808'])(
+      'should let %s through',
+      (address) => {
+        expect(isInternalAddress(address)).toBe(false);
+      },
+    );
+  });
+
+  describe('assertPublicUrl', () => {
+    const mockLookup = lookup as unknown as jest.Mock;
+
+    beforeEach(() => {
+      mockLookup.mockReset();
+    });
+
+    it('should accept hosts that only resolve to public addresses', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '2606:2800:220:1::1', family: 6 },
+      ]);
+
+      await expect(
+        assertPublicUrl('https://hooks.example.com/todos'),
+      ).resolves.toBeUndefined();
+      expect(mockLookup).toHaveBeenCalledWith('hooks.example.com', {
+        all: true,
+        verbatim: true,
+      });
+    });
+
+    it('should reject hosts with any internal address', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ]);
+
+      await expect(
+        assertPublicUrl('https://internal.example.com'),
+      ).rejects.toThrow('internal.example.com resolves to the internal');
+    });
+
+    it('should check address literals without a lookup', async () => {
+      await expect(
+        assertPublicUrl('http://169.254.169.254/latest/meta-data'),
+      ).rejects.toThrow();
+      await expect(assertPublicUrl('http://[::1]:8080/')).rejects.toThrow();
+      await expect(assertPublicUrl('http://2130706433/')).rejects.toThrow();
+      expect(mockLookup).not.toHaveBeenCalled();
+    });
+
+    it('should reject other protocols', async () => {
+      await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow(
+        'Unsupported protocol',
+      );
+    });
+  });
+
+  describe('fetchPublicUrl', () => {
+    const mockLookup = lookup as unknown as jest.Mock;
+    const nodeEnv = process.env.NODE_ENV;
+    let server: Server;
+    let url: string;
+
+    beforeAll((done) => {
+      server = createServer((_, response) => response.end('internal'));
+      server.listen(0, '127.0.0.1', () => {
+        url = `http://localhost:${(server.address() as AddressInfo).port}/`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.closeAllConnections();
+      server.close(done);
+    });
+
+    afterEach(() => {
+      mockLookup.mockReset();
+      process.env.NODE_ENV = nodeEnv;
+    });
+
+    // The name passes the check, then resolves to localhost for the request
+    it('should check the address it connects to', async () => {
+      mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+
+      await expect(fetchPublicUrl(url, { method: 'POST' })).rejects.toThrow(
+        expect.objectContaining({
+          cause: expect.objectContaining({
+            message: expect.stringContaining(
+              'resolves to the internal address',
+            ) as string,
+          }) as Error,
+        }) as Error,
+      );
+    });
+
+    it('should reach local receivers while developing', async () => {
+      process.env.NODE_ENV = 'development';
+
+      const response = await fetchPublicUrl(url, { method: 'POST' });
+
+      await expect(response.text()).resolves.toBe('internal');
+    });
+  });
+});
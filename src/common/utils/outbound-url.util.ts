@@ -0,0 +1,135 @@
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Agent } from 'undici';
+
+// Addresses that lead back into the host or its network rather than to the
+// internet: loopback, private, link-local (cloud metadata services live at
+// 169.254.169.254), shared, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const INTERNAL_ADDRESSES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Receivers on the local machine or network are only allowed while
+ * developing, where webhooks are usually tested against localhost.
+ */
+export function allowsInternalTargets(): boolean {
+  return process.env.NODE_ENV === 'development';
+}
+
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+
+  // Anything that is not an IP address cannot be checked, so it is refused
+  if (family === 0) {
+    return true;
+  }
+
+  return INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves the host of a user-supplied URL and throws unless every address
+ * it resolves to is public. Call it right before each request, since what a
+ * name resolves to can change after the URL was saved.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new Error(`Unsupported protocol ${protocol}`);
+  }
+
+  if (allowsInternalTargets()) {
+    return;
+  }
+
+  // IPv6 literals come bracketed, e.g. [::1]
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true, verbatim: true })).map(
+        ({ address }) => address,
+      );
+  const internal = addresses.find(isInternalAddress);
+
+  if (internal !== undefined) {
+    throw new Error(`${host} resolves to the internal address ${internal}`);
+  }
+}
+
+/**
+ * dns.lookup that fails for hosts resolving to an internal address. It runs
+ * when the connection is made, so the address that is checked is the one
+ * connected to.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const internal = allowsInternalTargets()
+      ? undefined
+      : addresses.find(({ address }) => isInternalAddress(address));
+
+    if (internal !== undefined) {
+      callback(
+        new Error(
+          `${hostname} resolves to the internal address ${internal.address}`,
+        ),
+        '',
+      );
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Checks every connection, including ones made for redirects
+const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Fetches a user-supplied URL that must lead to the internet. The host is
+ * checked up front and again as the connection is made, so it cannot pass
+ * the check and then resolve to an internal address for the request.
+ */
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit,
+): Promise<Response> {
+  await assertPublicUrl(url);
+
+  // The fetch of Node takes an undici dispatcher, which RequestInit lacks
+  const pinned = { ...init, dispatcher: publicDispatcher };
+
+  return fetch(url, pinned);
+}
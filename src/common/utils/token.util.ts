@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generates a URL-safe random token suitable for handing out to clients.
+ */
+export function generateSecureToken(bytes = 48): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage so a leaked table cannot be replayed.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
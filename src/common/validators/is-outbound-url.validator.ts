@@ -0,0 +1,34 @@
+import { isURL, ValidateBy, ValidationOptions } from 'class-validator';
+import { allowsInternalTargets } from '../utils/outbound-url.util';
+
+/**
+ * Validates a URL the server will post to on the user's behalf. Only https
+ * with a public host name is accepted, except while developing where plain
+ * http and local hosts are allowed. Delivery still resolves the host with
+ * `assertPublicUrl`, since a public name can point at an internal address.
+ */
+export function IsOutboundUrl(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isOutboundUrl',
+      validator: {
+        validate: (value: unknown) => {
+          const development = allowsInternalTargets();
+
+          return (
+            typeof value === 'string' &&
+            isURL(value, {
+              protocols: development ? ['http', 'https'] : ['https'],
+              require_protocol: true,
+              require_tld: !development,
+            })
+          );
+        },
+        defaultMessage: () => '$property must be an https URL',
+      },
+    },
+    validationOptions,
+  );
+}
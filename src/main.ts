@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe, LoggerService } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppLogger } from '@common/logger/app-logger.service';
 import * as session from 'express-session';
@@ -11,16 +12,33 @@ async function bootstrap() {
   const bootstrapLogger = AppLogger.forRoot('NestJS-App') as LoggerService;
 
   // Use the bootstrap logger for app creation
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: bootstrapLogger,
   });
 
+  // Behind a proxy every request comes from the proxy's address; trusting
+  // it makes request.ip the client's, which rate limits and lockouts key on.
+  // Only trust proxies that overwrite X-Forwarded-For, as clients can set it.
+  const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+  if (trustProxy !== undefined) {
+    app.set('trust proxy', trustProxy);
+  }
+
   // Get the application logger instance for the running app
   // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call
   const logger = app.get(AppLogger);
 
-  // Enable CORS
-  app.enableCors();
+  // Enable CORS; clients read ETags to send back in If-Match/If-None-Match
+  // and the rate limit headers to pace themselves
+  app.enableCors({
+    exposedHeaders: [
+      'ETag',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'Retry-After',
+    ],
+  });
 
   // Add express-session middleware for Passport authentication
   app.use(
@@ -71,5 +89,25 @@ async function bootstrap() {
   );
 }
 
+/**
+ * TRUST_PROXY takes what Express accepts: true, a number of hops, or
+ * comma-separated addresses, subnets and names such as "loopback".
+ */
+function parseTrustProxy(value: string | undefined) {
+  const trimmed = value?.trim();
+
+  if (!trimmed || trimmed === 'false') {
+    return undefined;
+  }
+  if (trimmed === 'true') {
+    return true;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  return trimmed.split(',').map((entry) => entry.trim());
+}
+
 // Start the application
 bootstrap();
@@ -0,0 +1,129 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { AdminUserQueryDto, UpdateUserRoleDto } from './dto/admin.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RolesGuard } from '@modules/auth/guards/roles.guard';
+import { Roles } from '@modules/auth/decorators/roles.decorator';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@Roles(Role.ADMIN)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(AdminController.name);
+  }
+
+  @Get('users')
+  @ApiOperation({ summary: 'List and search users with their todo counts' })
+  @ApiResponse({ status: 200, description: 'Return a page of users' })
+  @ApiResponse({ status: 403, description: 'Admin role required' })
+  findUsers(@Query() query: AdminUserQueryDto) {
+    this.logger.log('Listing users');
+    return this.adminService.findUsers(query);
+  }
+
+  @Get('users/:id')
+  @ApiOperation({ summary: 'Get a user with their todo counts' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Return the user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  findUser(@Param('id') id: string) {
+    this.logger.log(`Finding user with id: ${id}`);
+    return this.adminService.findUser(+id);
+  }
+
+  @Post('users/:id/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Disable a user account',
+    description: 'Disabled users cannot sign in and all their sessions end',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'User disabled' })
+  @ApiResponse({ status: 400, description: 'Cannot disable yourself' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  disable(@Param('id') id: string, @CurrentUser() admin: AuthUser) {
+    this.logger.log(`Disabling user with id: ${id}`);
+    return this.adminService.disable(+id, admin.id);
+  }
+
+  @Post('users/:id/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Re-enable a disabled user account' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'User enabled' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  enable(@Param('id') id: string, @CurrentUser() admin: AuthUser) {
+    this.logger.log(`Enabling user with id: ${id}`);
+    return this.adminService.enable(+id, admin.id);
+  }
+
+  @Post('users/:id/unlock')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Lift a sign-in lockout',
+    description: 'Also forgets failed attempts, so the next lockout is short',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 204, description: 'User can sign in again' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  unlock(@Param('id') id: string, @CurrentUser() admin: AuthUser) {
+    this.logger.log(`Unlocking user with id: ${id}`);
+    return this.adminService.unlock(+id, admin.id);
+  }
+
+  @Patch('users/:id/role')
+  @ApiOperation({ summary: 'Change the role of a user' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Role updated' })
+  @ApiResponse({ status: 400, description: 'Cannot demote yourself' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  updateRole(
+    @Param('id') id: string,
+    @CurrentUser() admin: AuthUser,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+  ) {
+    this.logger.log(`Updating role of user with id: ${id}`);
+    return this.adminService.updateRole(+id, updateUserRoleDto.role, admin.id);
+  }
+
+  @Delete('users/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a user account and all of its data' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 204, description: 'User deleted' })
+  @ApiResponse({ status: 400, description: 'Cannot delete yourself' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  remove(@Param('id') id: string, @CurrentUser() admin: AuthUser) {
+    this.logger.log(`Deleting user with id: ${id}`);
+    return this.adminService.remove(+id, admin.id);
+  }
+}
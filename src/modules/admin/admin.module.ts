@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { AdminService } from './admin.service';
+import { AdminController } from './admin.controller';
+import { AdminRepository } from './repositories/admin.repository';
+import { CommonModule } from '@common/common.module';
+import { AuthModule } from '@modules/auth/auth.module';
+
+@Module({
+  imports: [CommonModule, AuthModule],
+  controllers: [AdminController],
+  providers: [
+    AdminService,
+    AdminRepository,
+    {
+      provide: 'AdminRepositoryInterface',
+      useClass: AdminRepository,
+    },
+  ],
+})
+export class AdminModule {}
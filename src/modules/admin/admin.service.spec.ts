@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { LoginThrottleService } from '@modules/auth/login-throttle.service';
+import { AdminService } from './admin.service';
+
+describe('AdminService', () => {
+  let service: AdminService;
+
+  const mockRepository = {
+    findUser: jest.fn(),
+    setDisabled: jest.fn(),
+    setRole: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockLoginThrottle = {
+    unlock: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: 'AdminRepositoryInterface', useValue: mockRepository },
+        { provide: LoginThrottleService, useValue: mockLoginThrottle },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+    mockRepository.findUser.mockResolvedValue({
+      id: 2,
+      email: 'ada@example.com',
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should set the role of another user', async () => {
+      await service.updateRole(2, Role.ADMIN, 1);
+
+      expect(mockRepository.setRole).toHaveBeenCalledWith(2, Role.ADMIN);
+    });
+
+    it('should not let admins demote themselves', async () => {
+      await expect(service.updateRole(1, Role.USER, 1)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockRepository.setRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disable', () => {
+    it('should not let admins disable themselves', async () => {
+      await expect(service.disable(1, 1)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockRepository.setDisabled).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for unknown users', async () => {
+      mockRepository.findUser.mockResolvedValue(null);
+
+      await expect(service.disable(2, 1)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(mockRepository.setDisabled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should not let admins delete themselves', async () => {
+      await expect(service.remove(1, 1)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlock', () => {
+    it('should lift the lockout of the user address', async () => {
+      await service.unlock(2, 1);
+
+      expect(mockLoginThrottle.unlock).toHaveBeenCalledWith('ada@example.com');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { AdminRepositoryInterface } from '@modules/admin/interfaces/repository/admin.repository.interface';
+import { LoginThrottleService } from '@modules/auth/login-throttle.service';
+import { AdminUserQueryDto } from './dto/admin.dto';
+
+@Injectable()
+export class AdminService {
+  constructor(
+    @Inject('AdminRepositoryInterface')
+    private readonly adminRepository: AdminRepositoryInterface,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(AdminService.name);
+  }
+
+  async findUsers(query: AdminUserQueryDto) {
+    this.logger.log('Finding users');
+    return this.adminRepository.findUsers(query);
+  }
+
+  async findUser(id: number) {
+    this.logger.log(`Finding user with id: ${id}`);
+
+    const user = await this.adminRepository.findUser(id);
+
+    if (!user) {
+      this.logger.warn(`User with id: ${id} not found`);
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  async disable(id: number, adminId: number) {
+    this.logger.log(`Disabling user: ${id} by admin: ${adminId}`);
+
+    this.assertNotSelf(id, adminId, 'disable');
+    await this.findUser(id);
+
+    return this.adminRepository.setDisabled(id, true);
+  }
+
+  async enable(id: number, adminId: number) {
+    this.logger.log(`Enabling user: ${id} by admin: ${adminId}`);
+
+    await this.findUser(id);
+
+    return this.adminRepository.setDisabled(id, false);
+  }
+
+  /** Lifts a lockout caused by failed sign-ins. */
+  async unlock(id: number, adminId: number): Promise<void> {
+    this.logger.log(`Unlocking user: ${id} by admin: ${adminId}`);
+
+    const user = await this.findUser(id);
+
+    await this.loginThrottle.unlock(user.email);
+  }
+
+  async updateRole(id: number, role: Role, adminId: number) {
+    this.logger.log(
+      `Setting role ${role} for user: ${id} by admin: ${adminId}`,
+    );
+
+    // Demoting yourself could leave the system without any admin
+    if (role !== Role.ADMIN) {
+      this.assertNotSelf(id, adminId, 'demote');
+    }
+    await this.findUser(id);
+
+    return this.adminRepository.setRole(id, role);
+  }
+
+  async remove(id: number, adminId: number) {
+    this.logger.log(`Deleting user: ${id} by admin: ${adminId}`);
+
+    this.assertNotSelf(id, adminId, 'delete');
+    await this.findUser(id);
+
+    await this.adminRepository.remove(id);
+  }
+
+  private assertNotSelf(id: number, adminId: number, action: string): void {
+    if (id === adminId) {
+      this.logger.warn(`Admin ${adminId} tried to ${action} their own account`);
+      throw new BadRequestException(`You cannot ${action} your own account`);
+    }
+  }
+}
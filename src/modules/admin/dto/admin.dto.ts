@@ -0,0 +1,63 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { ToBoolean } from '@common/transformers/to-boolean.transformer';
+
+export class AdminUserQueryDto {
+  @ApiPropertyOptional({
+    example: 'jane',
+    description: 'Case-insensitive match on email or name',
+  })
+  @IsString({ message: 'Search must be a string' })
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({ enum: Role })
+  @IsEnum(Role, { message: 'Role must be USER or ADMIN' })
+  @IsOptional()
+  role?: Role;
+
+  @ApiPropertyOptional({ example: false })
+  @ToBoolean()
+  @IsBoolean({ message: 'Disabled must be a boolean value' })
+  @IsOptional()
+  disabled?: boolean;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    example: 0,
+    description: 'Number of items to skip (ignored when cursor is set)',
+  })
+  @IsInt({ message: 'Offset must be an integer' })
+  @Min(0, { message: 'Offset must not be negative' })
+  @IsOptional()
+  offset?: number;
+
+  @ApiPropertyOptional({
+    example: 42,
+    description: 'ID of the last user from the previous page',
+  })
+  @IsInt({ message: 'Cursor must be an integer' })
+  @IsOptional()
+  cursor?: number;
+}
+
+export class UpdateUserRoleDto {
+  @ApiProperty({ enum: Role, example: Role.ADMIN })
+  @IsEnum(Role, { message: 'Role must be USER or ADMIN' })
+  role: Role;
+}
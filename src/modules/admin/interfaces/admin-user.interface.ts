@@ -0,0 +1,14 @@
+import { User } from '@prisma/client';
+
+export interface TodoCounts {
+  total: number;
+  completed: number;
+  open: number;
+}
+
+export type AdminUser = Omit<
+  User,
+  'password' | 'twoFactorSecret' | 'twoFactorLastStep'
+> & {
+  todoCounts: TodoCounts;
+};
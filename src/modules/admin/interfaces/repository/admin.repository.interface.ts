@@ -0,0 +1,12 @@
+import { Role } from '@prisma/client';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { AdminUser } from '../admin-user.interface';
+import { AdminUserQueryDto } from '../../dto/admin.dto';
+
+export interface AdminRepositoryInterface {
+  findUsers(query: AdminUserQueryDto): Promise<PaginatedResult<AdminUser>>;
+  findUser(id: number): Promise<AdminUser | null>;
+  setDisabled(id: number, disabled: boolean): Promise<AdminUser>;
+  setRole(id: number, role: Role): Promise<AdminUser>;
+  remove(id: number): Promise<void>;
+}
@@ -0,0 +1,188 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { AdminRepositoryInterface } from '@modules/admin/interfaces/repository/admin.repository.interface';
+import {
+  AdminUser,
+  TodoCounts,
+} from '@modules/admin/interfaces/admin-user.interface';
+import { AdminUserQueryDto } from '../dto/admin.dto';
+
+// Everything but the password hash and the two-factor secret
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  authProvider: true,
+  profilePicture: true,
+  role: true,
+  disabled: true,
+  emailVerifiedAt: true,
+  pendingEmail: true,
+  twoFactorEnabledAt: true,
+  twoFactorForOAuth: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+type SelectedUser = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>;
+
+@Injectable()
+export class AdminRepository implements AdminRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(AdminRepository.name);
+  }
+
+  async findUsers(
+    query: AdminUserQueryDto,
+  ): Promise<PaginatedResult<AdminUser>> {
+    this.logger.debug(`Finding users with query: ${JSON.stringify(query)}`);
+
+    const where = this.buildWhere(query);
+    const limit = query.limit ?? 20;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        select: USER_SELECT,
+        orderBy: { id: 'asc' },
+        take: limit + 1,
+        ...(query.cursor !== undefined
+          ? { cursor: { id: query.cursor }, skip: 1 }
+          : { skip: query.offset ?? 0 }),
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const users = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      items: await this.withTodoCounts(users),
+      total,
+      nextCursor: hasMore ? users[users.length - 1].id : null,
+    };
+  }
+
+  async findUser(id: number): Promise<AdminUser | null> {
+    this.logger.debug(`Finding user: ${id}`);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: USER_SELECT,
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const [withCounts] = await this.withTodoCounts([user]);
+    return withCounts;
+  }
+
+  async setDisabled(id: number, disabled: boolean): Promise<AdminUser> {
+    this.logger.debug(`Setting disabled=${disabled} for user: ${id}`);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id },
+        data: { disabled },
+        select: USER_SELECT,
+      });
+
+      // A disabled account must not keep any session alive
+      if (disabled) {
+        await tx.refreshToken.updateMany({
+          where: { userId: id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+      }
+
+      return updated;
+    });
+
+    const [withCounts] = await this.withTodoCounts([user]);
+    return withCounts;
+  }
+
+  async setRole(id: number, role: Role): Promise<AdminUser> {
+    this.logger.debug(`Setting role=${role} for user: ${id}`);
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { role },
+      select: USER_SELECT,
+    });
+
+    const [withCounts] = await this.withTodoCounts([user]);
+    return withCounts;
+  }
+
+  async remove(id: number): Promise<void> {
+    this.logger.debug(`Deleting user: ${id}`);
+
+    // Todos, projects, tags and tokens are removed by cascading foreign keys
+    await this.prisma.user.delete({ where: { id } });
+  }
+
+  private buildWhere(query: AdminUserQueryDto): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = {};
+
+    if (query.role !== undefined) {
+      where.role = query.role;
+    }
+
+    if (query.disabled !== undefined) {
+      where.disabled = query.disabled;
+    }
+
+    if (query.search) {
+      where.OR = [
+        { email: { contains: query.search, mode: 'insensitive' } },
+        { name: { contains: query.search, mode: 'insensitive' } },
+      ];
+    }
+
+    return where;
+  }
+
+  private async withTodoCounts(users: SelectedUser[]): Promise<AdminUser[]> {
+    if (!users.length) {
+      return [];
+    }
+
+    const groups = await this.prisma.todo.groupBy({
+      by: ['userId', 'completed'],
+      where: {
+        userId: { in: users.map((user) => user.id) },
+        deletedAt: null,
+      },
+      _count: { _all: true },
+    });
+
+    return users.map((user) => {
+      const counts: TodoCounts = { total: 0, completed: 0, open: 0 };
+
+      for (const group of groups) {
+        if (group.userId !== user.id) {
+          continue;
+        }
+
+        counts.total += group._count._all;
+        if (group.completed) {
+          counts.completed += group._count._all;
+        } else {
+          counts.open += group._count._all;
+        }
+      }
+
+      return { ...user, todoCounts: counts };
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Role, User } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { hashToken } from '@common/utils/token.util';
+import { AccessTokenService } from './access-token.service';
+import {
+  AccessTokenScope,
+  AccessTokenWithUser,
+} from './interfaces/access-token.interface';
+
+describe('AccessTokenService', () => {
+  let service: AccessTokenService;
+
+  const mockRepository = {
+    findAllForUser: jest.fn(),
+    findByHash: jest.fn(),
+    create: jest.fn(),
+    touch: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildAccessToken = (
+    overrides: Partial<AccessTokenWithUser> = {},
+  ): AccessTokenWithUser => ({
+    id: 4,
+    name: 'Backup script',
+    tokenHash: hashToken('pat_secret'),
+    prefix: 'pat_secret',
+    scopes: [AccessTokenScope.TODOS_READ],
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: new Date('2025-09-01T09:00:00Z'),
+    userId: 1,
+    user: {
+      id: 1,
+      email: 'ada@example.com',
+      name: 'Ada',
+      role: Role.USER,
+      disabled: false,
+      emailVerifiedAt: new Date('2025-08-01T09:00:00Z'),
+    } as User,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessTokenService,
+        { provide: 'AccessTokenRepositoryInterface', useValue: mockRepository },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<AccessTokenService>(AccessTokenService);
+  });
+
+  describe('create', () => {
+    it('should store the hash and return the token once', async () => {
+      mockRepository.create.mockImplementation((data: object) => ({
+        id: 4,
+        ...data,
+      }));
+
+      const result = await service.create(1, {
+        name: 'Backup script',
+        scopes: [AccessTokenScope.TODOS_READ],
+      });
+
+      expect(result.token).toMatch(/^pat_/);
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId: 1,
+        name: 'Backup script',
+        tokenHash: hashToken(result.token),
+        prefix: result.token.slice(0, 12),
+        scopes: [AccessTokenScope.TODOS_READ],
+        expiresAt: null,
+      });
+    });
+
+    it('should refuse an expiry in the past', async () => {
+      await expect(
+        service.create(1, {
+          name: 'Backup script',
+          scopes: [AccessTokenScope.TODOS_READ],
+          expiresAt: '2020-01-01T00:00:00Z',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should only revoke tokens of the user', async () => {
+      mockRepository.remove.mockResolvedValue(false);
+
+      await expect(service.revoke(4, 2)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(mockRepository.remove).toHaveBeenCalledWith(4, 2);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should sign in as the owner, limited to known scopes', async () => {
+      mockRepository.findByHash.mockResolvedValue(
+        buildAccessToken({
+          scopes: [AccessTokenScope.TODOS_READ, 'admin'],
+        }),
+      );
+
+      const user = await service.authenticate('pat_secret');
+
+      expect(mockRepository.findByHash).toHaveBeenCalledWith(
+        hashToken('pat_secret'),
+      );
+      expect(user).toEqual({
+        id: 1,
+        email: 'ada@example.com',
+        name: 'Ada',
+        role: Role.USER,
+        emailVerified: true,
+        scopes: [AccessTokenScope.TODOS_READ],
+      });
+      expect(mockRepository.touch).toHaveBeenCalledWith(
+        4,
+        expect.any(Date) as Date,
+      );
+    });
+
+    it('should reject expired tokens', async () => {
+      mockRepository.findByHash.mockResolvedValue(
+        buildAccessToken({ expiresAt: new Date('2025-09-02T09:00:00Z') }),
+      );
+
+      await expect(service.authenticate('pat_secret')).resolves.toBeNull();
+      expect(mockRepository.touch).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of disabled users', async () => {
+      const accessToken = buildAccessToken();
+      accessToken.user.disabled = true;
+      mockRepository.findByHash.mockResolvedValue(accessToken);
+
+      await expect(service.authenticate('pat_secret')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { generateSecureToken, hashToken } from '@common/utils/token.util';
+import { AccessTokenRepositoryInterface } from './interfaces/repository/access-token.repository.interface';
+import {
+  AccessTokenScope,
+  IssuedAccessToken,
+  PublicAccessToken,
+} from './interfaces/access-token.interface';
+import { AuthUser } from './interfaces/user.interface';
+import { CreateAccessTokenDto } from './dto/access-token.dto';
+
+// Marks API keys so they are told apart from JWTs, also by secret scanners
+export const ACCESS_TOKEN_PREFIX = 'pat_';
+
+// The last use is recorded at most this often per token
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+/** Personal access tokens that scripts use in place of a session. */
+@Injectable()
+export class AccessTokenService {
+  constructor(
+    @Inject('AccessTokenRepositoryInterface')
+    private readonly accessTokenRepository: AccessTokenRepositoryInterface,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(AccessTokenService.name);
+  }
+
+  async findAll(userId: number): Promise<PublicAccessToken[]> {
+    return this.accessTokenRepository.findAllForUser(userId);
+  }
+
+  async create(
+    userId: number,
+    createAccessTokenDto: CreateAccessTokenDto,
+  ): Promise<IssuedAccessToken> {
+    const { name, scopes, expiresAt } = createAccessTokenDto;
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+
+    if (expiry && expiry <= new Date()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const token = `${ACCESS_TOKEN_PREFIX}${generateSecureToken(32)}`;
+    const accessToken = await this.accessTokenRepository.create({
+      userId,
+      name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 8),
+      scopes,
+      expiresAt: expiry,
+    });
+
+    this.logger.log(
+      `Access token ${accessToken.id} created for user: ${userId} with scopes: ${scopes.join(', ')}`,
+    );
+
+    return { ...accessToken, token };
+  }
+
+  async revoke(id: number, userId: number): Promise<void> {
+    if (!(await this.accessTokenRepository.remove(id, userId))) {
+      throw new NotFoundException(`Access token with ID ${id} not found`);
+    }
+
+    this.logger.log(`Access token ${id} revoked by user: ${userId}`);
+  }
+
+  /**
+   * Resolves an API key to its user, limited to the key's scopes. Returns
+   * null for unknown and expired keys and for disabled users.
+   */
+  async authenticate(token: string): Promise<AuthUser | null> {
+    const accessToken = await this.accessTokenRepository.findByHash(
+      hashToken(token),
+    );
+
+    if (
+      !accessToken ||
+      (accessToken.expiresAt && accessToken.expiresAt <= new Date()) ||
+      accessToken.user.disabled
+    ) {
+      this.logger.warn(
+        `API key rejected: ${accessToken ? accessToken.id : 'unknown'}`,
+      );
+      return null;
+    }
+
+    await this.accessTokenRepository.touch(
+      accessToken.id,
+      new Date(Date.now() - LAST_USED_PRECISION_MS),
+    );
+
+    const { user } = accessToken;
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name || undefined,
+      role: user.role,
+      emailVerified: user.emailVerifiedAt !== null,
+      scopes: accessToken.scopes.filter((scope): scope is AccessTokenScope =>
+        Object.values<string>(AccessTokenScope).includes(scope),
+      ),
+      expiresAt: accessToken.expiresAt ?? undefined,
+    };
+  }
+}
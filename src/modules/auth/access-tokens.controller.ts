@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { AccessTokenService } from './access-token.service';
+import { CreateAccessTokenDto } from './dto/access-token.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthUser } from './interfaces/user.interface';
+
+@ApiTags('Access Tokens')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('auth/tokens')
+export class AccessTokensController {
+  constructor(
+    private readonly accessTokenService: AccessTokenService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(AccessTokensController.name);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the personal access tokens of the user' })
+  @ApiResponse({ status: 200, description: 'Return the tokens' })
+  findAll(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding all access tokens');
+    return this.accessTokenService.findAll(user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a personal access token',
+    description:
+      'The token is only returned now; send it as a bearer token in place of a JWT',
+  })
+  @ApiResponse({ status: 201, description: 'Return the token' })
+  @ApiResponse({ status: 400, description: 'Invalid scopes or expiry' })
+  create(
+    @CurrentUser() user: AuthUser,
+    @Body() createAccessTokenDto: CreateAccessTokenDto,
+  ) {
+    this.logger.log('Creating access token');
+    return this.accessTokenService.create(user.id, createAccessTokenDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a personal access token' })
+  @ApiParam({ name: 'id', description: 'Access token ID' })
+  @ApiResponse({ status: 204, description: 'Token revoked' })
+  @ApiResponse({ status: 404, description: 'Token not found' })
+  async revoke(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Revoking access token with id: ${id}`);
+    await this.accessTokenService.revoke(+id, user.id);
+  }
+}
@@ -1,6 +1,3 @@
-/* eslint-disable @typescript-eslint/no-unsafe-member-access */
-/* eslint-disable @typescript-eslint/no-unsafe-call */
-/* eslint-disable @typescript-eslint/no-unsafe-assignment */
 import {
   Controller,
   Post,
@@ -12,65 +9,408 @@ import {
   Req,
   Res,
   UnauthorizedException,
+  Delete,
+  Param,
+  ParseEnumPipe,
+  Ip,
+  Patch,
+  Headers,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto } from './dto/auth.dto';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import {
+  RegisterDto,
+  LoginDto,
+  RefreshTokenDto,
+  EmailDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  SetPasswordDto,
+  TwoFactorCodeDto,
+  VerifyTwoFactorDto,
+  ConfirmIdentityDto,
+  TwoFactorSettingsDto,
+} from './dto/auth.dto';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
 import { AppLogger } from '@common/logger/app-logger.service';
 import { ConfigService } from '@nestjs/config';
 import { Request, Response } from 'express';
 import { AuthGuard } from '@nestjs/passport';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthUser } from './interfaces/user.interface';
+import { AllowUnverified } from './decorators/allow-unverified.decorator';
+import { OAuthLinkGuard } from './guards/oauth-link.guard';
+import {
+  AuthProvider,
+  OAuthProfile,
+  OAuthProvider,
+} from './interfaces/identity.interface';
+import { ActiveSession } from './interfaces/session.interface';
+import { RateLimit } from '@common/rate-limit/rate-limit.decorator';
+import { TwoFactorService } from './two-factor.service';
 
-interface GoogleUser {
-  email: string;
-  firstName: string;
-  lastName: string;
-  picture: string;
-  accessToken: string;
-}
-
-interface AmazonUser {
-  email: string;
-  name: string;
-  userId: string;
-  picture?: string;
-  accessToken: string;
-}
+// Auth routes are limited more tightly than the rest of the API, and routes
+// that take credentials or send mail most tightly of all
+const AUTH_RATE_LIMIT = { limit: 30, windowSeconds: 60 };
+const CREDENTIALS_RATE_LIMIT = { limit: 10, windowSeconds: 60 };
 
 @ApiTags('Authentication')
+@RateLimit(AUTH_RATE_LIMIT)
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
     private readonly configService: ConfigService,
     private readonly logger: AppLogger,
   ) {}
 
   @Post('register')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Register new user' })
   @ApiBody({ type: RegisterDto })
   @ApiResponse({ status: 201, description: 'User successfully registered' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({ status: 409, description: 'Email already exists' })
-  async register(@Body() registerDto: RegisterDto) {
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
     this.logger.debug(`Registration attempt for email: ${registerDto.email}`);
-    return this.authService.register(registerDto);
+    return this.authService.register(registerDto, { ip, userAgent });
   }
 
   @Post('login')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Login with credentials' })
   @ApiBody({ type: LoginDto })
-  @ApiResponse({ status: 200, description: 'User successfully logged in' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'User successfully logged in, or a challenge token when two-factor authentication is enabled',
+  })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() loginDto: LoginDto) {
+  @ApiResponse({
+    status: 429,
+    description: 'Account or address locked out after failed attempts',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
     this.logger.debug(`Login attempt for email: ${loginDto.email}`);
-    return this.authService.login(loginDto);
+    return this.authService.login(loginDto, { ip, userAgent });
+  }
+
+  @Post('2fa/verify')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a sign-in with the second factor',
+    description: 'Accepts a code of the authenticator or a recovery code',
+  })
+  @ApiBody({ type: VerifyTwoFactorDto })
+  @ApiResponse({ status: 200, description: 'User successfully logged in' })
+  @ApiResponse({ status: 401, description: 'Invalid code or challenge' })
+  @ApiResponse({ status: 429, description: 'Locked out after failed codes' })
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.verifyTwoFactor(
+      verifyTwoFactorDto.challengeToken,
+      verifyTwoFactorDto.code,
+      { ip, userAgent },
+    );
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange a refresh token for a new token pair' })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({ status: 200, description: 'Tokens successfully rotated' })
+  @ApiResponse({ status: 401, description: 'Invalid or revoked token' })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    this.logger.debug('Token refresh attempt');
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke the session of a refresh token' })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    await this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke every session of the current user' })
+  @ApiResponse({ status: 204, description: 'All sessions revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async logoutAll(@CurrentUser() user: AuthUser) {
+    await this.authService.logoutAll(user.id);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List the devices the current user is signed in on',
+  })
+  @ApiResponse({ status: 200, description: 'Return the active sessions' })
+  async listSessions(@CurrentUser() user: AuthUser): Promise<ActiveSession[]> {
+    return this.authService.listSessions(user.id, user.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Sign a device out',
+    description: 'Its refresh and access tokens stop working immediately',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    await this.authService.revokeSession(user.id, id);
+  }
+
+  @Post('forgot-password')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Email a password reset link',
+    description: 'Always succeeds so registered emails cannot be discovered',
+  })
+  @ApiBody({ type: EmailDto })
+  @ApiResponse({ status: 204, description: 'Reset link sent if registered' })
+  async forgotPassword(@Body() emailDto: EmailDto) {
+    this.logger.debug(`Password reset requested for: ${emailDto.email}`);
+    await this.authService.forgotPassword(emailDto.email);
+  }
+
+  @Post('reset-password')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Set a new password with a reset token',
+    description: 'Every existing session of the user is revoked',
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({ status: 204, description: 'Password changed' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Confirm an email address with a mailed token' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({ status: 204, description: 'Email verified' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Post('verify-email/resend')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Send a new verification email',
+    description: 'Always succeeds so registered emails cannot be discovered',
+  })
+  @ApiBody({ type: EmailDto })
+  @ApiResponse({ status: 204, description: 'Email sent if still unverified' })
+  async resendVerification(@Body() emailDto: EmailDto) {
+    this.logger.debug(`Verification resend requested for: ${emailDto.email}`);
+    await this.authService.resendVerification(emailDto.email);
+  }
+
+  @Get('2fa')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the two-factor status of the current user' })
+  @ApiResponse({ status: 200, description: 'Return the two-factor status' })
+  async getTwoFactorStatus(@CurrentUser() user: AuthUser) {
+    return this.twoFactorService.getStatus(user.id);
+  }
+
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start enrolling an authenticator app',
+    description:
+      'Returns a new secret and otpauth URI; confirm with POST /auth/2fa/enable',
+  })
+  @ApiResponse({ status: 200, description: 'Return the pending secret' })
+  @ApiResponse({ status: 409, description: 'Two-factor already enabled' })
+  async setupTwoFactor(@CurrentUser() user: AuthUser) {
+    return this.twoFactorService.setup(user.id);
+  }
+
+  @Post('2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Confirm the authenticator and enable two-factor',
+    description: 'Returns the recovery codes, which are only shown once',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: 'Return the recovery codes' })
+  @ApiResponse({ status: 400, description: 'Invalid code or no setup' })
+  @ApiResponse({ status: 409, description: 'Two-factor already enabled' })
+  async enableTwoFactor(
+    @CurrentUser() user: AuthUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.enable(user.id, twoFactorCodeDto.code);
+  }
+
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Replace the recovery codes',
+    description: 'Needs a code of the authenticator; old codes stop working',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: 'Return the new recovery codes' })
+  @ApiResponse({ status: 403, description: 'Invalid code' })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: AuthUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      twoFactorCodeDto.code,
+    );
+  }
+
+  @Patch('2fa/settings')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change when the second factor is asked for' })
+  @ApiBody({ type: TwoFactorSettingsDto })
+  @ApiResponse({ status: 200, description: 'Return the two-factor status' })
+  @ApiResponse({ status: 400, description: 'Two-factor not enabled' })
+  async updateTwoFactorSettings(
+    @CurrentUser() user: AuthUser,
+    @Body() twoFactorSettingsDto: TwoFactorSettingsDto,
+  ) {
+    return this.twoFactorService.updateSettings(
+      user.id,
+      twoFactorSettingsDto.requireForOAuth,
+    );
+  }
+
+  @Post('2fa/disable')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description:
+      'Needs the password, or a code when the account has no password',
+  })
+  @ApiBody({ type: ConfirmIdentityDto })
+  @ApiResponse({ status: 204, description: 'Two-factor disabled' })
+  @ApiResponse({ status: 403, description: 'Invalid password or code' })
+  async disableTwoFactor(
+    @CurrentUser() user: AuthUser,
+    @Body() confirmIdentityDto: ConfirmIdentityDto,
+  ) {
+    await this.twoFactorService.disable(user.id, confirmIdentityDto);
+  }
+
+  @Get('identities')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the sign-in methods of the current user' })
+  @ApiResponse({ status: 200, description: 'Return the linked identities' })
+  async listIdentities(@CurrentUser() user: AuthUser) {
+    return this.authService.listIdentities(user.id);
+  }
+
+  @Post('identities/link-token')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start linking an OAuth provider',
+    description:
+      'Open /auth/google or /auth/amazon with ?linkToken= to link instead of signing in',
+  })
+  @ApiResponse({ status: 200, description: 'Return a short-lived link token' })
+  createLinkToken(@CurrentUser() user: AuthUser) {
+    return this.authService.createLinkToken(user.id);
+  }
+
+  @Post('identities/local')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add password sign-in to the current user' })
+  @ApiBody({ type: SetPasswordDto })
+  @ApiResponse({ status: 204, description: 'Password set' })
+  @ApiResponse({ status: 409, description: 'A password is already set' })
+  async setPassword(
+    @CurrentUser() user: AuthUser,
+    @Body() setPasswordDto: SetPasswordDto,
+  ) {
+    await this.authService.setPassword(user.id, setPasswordDto.password);
+  }
+
+  @Delete('identities/:provider')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a sign-in method from the current user' })
+  @ApiResponse({ status: 204, description: 'Sign-in method removed' })
+  @ApiResponse({ status: 400, description: 'Last remaining sign-in method' })
+  @ApiResponse({ status: 404, description: 'Provider not linked' })
+  async unlinkIdentity(
+    @CurrentUser() user: AuthUser,
+    @Param('provider', new ParseEnumPipe(AuthProvider)) provider: AuthProvider,
+  ) {
+    await this.authService.unlinkIdentity(user.id, provider);
   }
 
   @Get('google')
-  @UseGuards(AuthGuard('google'))
+  @UseGuards(OAuthLinkGuard, AuthGuard('google'))
   @ApiOperation({ summary: 'Initiate Google OAuth authentication' })
   @ApiResponse({
     status: 302,
@@ -85,52 +425,11 @@ export class AuthController {
   @ApiOperation({ summary: 'Handle Google OAuth callback' })
   @ApiResponse({ status: 302, description: 'Redirect to frontend with token' })
   async googleAuthCallback(@Req() req: Request, @Res() res: Response) {
-    try {
-      if (!req.user) {
-        this.logger.error(
-          'Google authentication failed: No user data received',
-        );
-        throw new UnauthorizedException('Authentication failed');
-      }
-
-      const result = await this.authService.validateOrCreateGoogleUser(
-        req.user as GoogleUser,
-      );
-
-      if (!result || !result.token) {
-        this.logger.error('Failed to get token for Google user');
-        throw new UnauthorizedException('Authentication failed');
-      }
-
-      // Get frontend URL from configuration (providing proper fallbacks)
-      const frontendUrl =
-        this.configService.get<string>('FRONTEND_URL') ||
-        'http://localhost:5173';
-
-      // Use the specific /auth/callback path that React Router is configured to handle
-      const redirectUrl = `${frontendUrl}/auth/callback?token=${result.token}`;
-
-      this.logger.debug(`Redirecting to frontend: ${redirectUrl}`);
-
-      return res.redirect(302, redirectUrl);
-    } catch (error) {
-      this.logger.error(
-        `Google auth callback error: ${error instanceof Error ? error.message : String(error)}`,
-      );
-
-      // In case of error, redirect to frontend login page with error parameter
-      const frontendUrl =
-        this.configService.get<string>('FRONTEND_URL') ||
-        'http://localhost:5173';
-      return res.redirect(
-        302,
-        `${frontendUrl}/login?auth_error=true&provider=google`,
-      );
-    }
+    return this.completeOAuth(req, res, AuthProvider.GOOGLE);
   }
 
   @Get('amazon')
-  @UseGuards(AuthGuard('amazon'))
+  @UseGuards(OAuthLinkGuard, AuthGuard('amazon'))
   @ApiOperation({ summary: 'Initiate Amazon OAuth authentication' })
   @ApiResponse({
     status: 302,
@@ -151,60 +450,73 @@ export class AuthController {
   @ApiOperation({ summary: 'Handle Amazon OAuth callback' })
   @ApiResponse({ status: 302, description: 'Redirect to frontend with token' })
   async amazonAuthCallback(@Req() req: Request, @Res() res: Response) {
-    try {
-      this.logger.debug('Amazon auth callback received');
+    this.logger.debug('Amazon auth callback received');
+    return this.completeOAuth(req, res, AuthProvider.AMAZON);
+  }
+
+  /**
+   * Finishes an OAuth round trip: links the identity when the flow was
+   * started with a link token, otherwise signs the user in.
+   */
+  private async completeOAuth(
+    req: Request,
+    res: Response,
+    provider: OAuthProvider,
+  ) {
+    // Get frontend URL from configuration (providing proper fallbacks)
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:5173';
+    const linkUserId = req.session.linkUserId;
+    delete req.session.linkUserId;
 
+    try {
       if (!req.user) {
         this.logger.error(
-          'Amazon authentication failed: No user data received',
+          `${provider} authentication failed: No user data received`,
         );
         throw new UnauthorizedException('Authentication failed');
       }
 
-      // Detailed logging of the user object received from the strategy
-      this.logger.debug('User data received from Amazon strategy:');
-      this.logger.debug(JSON.stringify(req.user, null, 2));
+      const profile = req.user as OAuthProfile;
 
-      // Check specifically for email presence
-      const userData = req.user as any;
-      this.logger.debug(`Email present in user data: ${!!userData.email}`);
-      if (!userData.email) {
-        this.logger.error('Email missing in Amazon user data');
-        throw new UnauthorizedException('Email missing in authentication data');
+      if (linkUserId) {
+        await this.authService.linkIdentity(linkUserId, profile);
+        return res.redirect(
+          302,
+          `${frontendUrl}/settings/identities?linked=${provider}`,
+        );
       }
 
-      const result = await this.authService.validateOrCreateAmazonUser(
-        req.user as AmazonUser,
-      );
+      const result = await this.authService.validateOrCreateOAuthUser(profile, {
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
 
-      if (!result || !result.token) {
-        this.logger.error('Failed to get token for Amazon user');
-        throw new UnauthorizedException('Authentication failed');
+      // The frontend asks for the code and finishes with POST /auth/2fa/verify
+      if ('challengeToken' in result) {
+        return res.redirect(
+          302,
+          `${frontendUrl}/auth/two-factor?challengeToken=${result.challengeToken}`,
+        );
       }
 
-      // Get frontend URL from configuration (providing proper fallbacks)
-      const frontendUrl =
-        this.configService.get<string>('FRONTEND_URL') ||
-        'http://localhost:5173';
-
       // Use the specific /auth/callback path that React Router is configured to handle
-      const redirectUrl = `${frontendUrl}/auth/callback?token=${result.token}`;
+      const redirectUrl = `${frontendUrl}/auth/callback?token=${result.token}&refreshToken=${result.refreshToken}`;
 
       this.logger.debug(`Redirecting to frontend: ${redirectUrl}`);
 
       return res.redirect(302, redirectUrl);
     } catch (error) {
       this.logger.error(
-        `Amazon auth callback error: ${error instanceof Error ? error.message : String(error)}`,
+        `${provider} auth callback error: ${error instanceof Error ? error.message : String(error)}`,
       );
 
-      // In case of error, redirect to frontend login page with error parameter
-      const frontendUrl =
-        this.configService.get<string>('FRONTEND_URL') ||
-        'http://localhost:5173';
+      // In case of error, redirect to the page the flow started from
       return res.redirect(
         302,
-        `${frontendUrl}/login?auth_error=true&provider=amazon`,
+        linkUserId
+          ? `${frontendUrl}/settings/identities?link_error=true&provider=${provider}`
+          : `${frontendUrl}/login?auth_error=true&provider=${provider}`,
       );
     }
   }
@@ -3,32 +3,51 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { AccessTokensController } from './access-tokens.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 import { GoogleStrategy } from './strategies/google.strategy';
 import { AmazonStrategy } from './strategies/amazon.strategy';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { UserRepository } from '../../auth/repositories/user.repository';
 import { CommonModule } from '../../common/common.module';
+import { RefreshTokenRepository } from './repositories/refresh-token.repository';
+import { UserTokenRepository } from './repositories/user-token.repository';
+import { UserIdentityRepository } from './repositories/user-identity.repository';
+import { MailerModule } from '../../common/mailer/mailer.module';
+import { RateLimitModule } from '../../common/rate-limit/rate-limit.module';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+import { RecoveryCodeRepository } from './repositories/recovery-code.repository';
+import { AccessTokenService } from './access-token.service';
+import { AccessTokenRepository } from './repositories/access-token.repository';
+import { SessionRepository } from './repositories/session.repository';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     CommonModule,
+    MailerModule,
+    RateLimitModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRES_IN') || '7d',
+          expiresIn: configService.get<string>('JWT_EXPIRES_IN') || '15m',
         },
       }),
     }),
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, AccessTokensController],
   providers: [
     AuthService,
+    LoginThrottleService,
+    TwoFactorService,
+    AccessTokenService,
     JwtStrategy,
+    ApiKeyStrategy,
     GoogleStrategy,
     AmazonStrategy,
     UserRepository,
@@ -36,7 +55,31 @@ import { CommonModule } from '../../common/common.module';
       provide: 'UserRepositoryInterface',
       useClass: UserRepository,
     },
+    {
+      provide: 'RefreshTokenRepositoryInterface',
+      useClass: RefreshTokenRepository,
+    },
+    {
+      provide: 'UserTokenRepositoryInterface',
+      useClass: UserTokenRepository,
+    },
+    {
+      provide: 'UserIdentityRepositoryInterface',
+      useClass: UserIdentityRepository,
+    },
+    {
+      provide: 'RecoveryCodeRepositoryInterface',
+      useClass: RecoveryCodeRepository,
+    },
+    {
+      provide: 'AccessTokenRepositoryInterface',
+      useClass: AccessTokenRepository,
+    },
+    {
+      provide: 'SessionRepositoryInterface',
+      useClass: SessionRepository,
+    },
   ],
-  exports: [AuthService],
+  exports: [AuthService, LoginThrottleService, TwoFactorService],
 })
 export class AuthModule {}
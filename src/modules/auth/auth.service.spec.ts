@@ -0,0 +1,572 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  RefreshToken,
+  Role,
+  Session,
+  User,
+  UserTokenType,
+} from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { hashToken } from '@common/utils/token.util';
+import { AuthService } from './auth.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+import { AuthProvider } from './interfaces/identity.interface';
+import { TwoFactorChallenge } from './interfaces/two-factor.interface';
+import { JwtPayload } from './interfaces/user.interface';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const mockUserRepository = {
+    findById: jest.fn(),
+    findByEmail: jest.fn(),
+    updateUser: jest.fn(),
+  };
+
+  const mockUserIdentityRepository = {
+    findAllForUser: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockRefreshTokenRepository = {
+    create: jest.fn(),
+    findByHash: jest.fn(),
+    rotate: jest.fn(),
+    revokeFamily: jest.fn(),
+    revokeAllForUser: jest.fn(),
+  };
+
+  const mockUserTokenRepository = {
+    create: jest.fn(),
+    consume: jest.fn(),
+  };
+
+  const mockMailer = {
+    send: jest.fn(),
+  };
+
+  const mockSessionRepository = {
+    create: jest.fn(),
+    findActive: jest.fn(),
+    findActiveForUser: jest.fn(),
+  };
+
+  const mockLoginThrottle = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+    unlock: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    verifyCode: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: 1,
+      email: 'user@example.com',
+      password: 'hash',
+      name: 'User',
+      emailVerifiedAt: new Date(),
+      disabled: false,
+      twoFactorEnabledAt: null,
+      twoFactorForOAuth: false,
+      ...overrides,
+    }) as User;
+
+  const buildSession = (overrides: Partial<Session> = {}): Session => ({
+    id: 'session-1',
+    authMethod: AuthProvider.LOCAL,
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15',
+    ip: '203.0.113.7',
+    createdAt: new Date('2025-09-10T09:00:00Z'),
+    lastSeenAt: new Date('2025-09-12T09:00:00Z'),
+    userId: 1,
+    ...overrides,
+  });
+
+  const buildRefreshToken = (
+    overrides: Partial<RefreshToken> = {},
+  ): RefreshToken => ({
+    id: 5,
+    tokenHash: hashToken('refresh'),
+    familyId: 'session-1',
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    replacedById: null,
+    createdAt: new Date('2025-09-10T09:00:00Z'),
+    userId: 1,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: 'UserRepositoryInterface', useValue: mockUserRepository },
+        {
+          provide: 'RefreshTokenRepositoryInterface',
+          useValue: mockRefreshTokenRepository,
+        },
+        {
+          provide: 'UserTokenRepositoryInterface',
+          useValue: mockUserTokenRepository,
+        },
+        {
+          provide: 'UserIdentityRepositoryInterface',
+          useValue: mockUserIdentityRepository,
+        },
+        {
+          provide: 'SessionRepositoryInterface',
+          useValue: mockSessionRepository,
+        },
+        { provide: 'MailerService', useValue: mockMailer },
+        { provide: LoginThrottleService, useValue: mockLoginThrottle },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('login', () => {
+    let password: string;
+
+    beforeAll(async () => {
+      password = await bcrypt.hash('correct horse', 4);
+    });
+
+    it('should issue tokens to users without a second factor', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(buildUser({ password }));
+
+      const result = await service.login(
+        { email: 'user@example.com', password: 'correct horse' },
+        { ip: '203.0.113.7' },
+      );
+
+      expect(result).toMatchObject({
+        id: 1,
+        token: expect.any(String) as string,
+      });
+      expect(mockSessionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, authMethod: AuthProvider.LOCAL }),
+      );
+    });
+
+    it('should only return a challenge when two-factor is enabled', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(
+        buildUser({ password, twoFactorEnabledAt: new Date() }),
+      );
+
+      const result = await service.login({
+        email: 'user@example.com',
+        password: 'correct horse',
+      });
+
+      expect(result).toEqual({
+        twoFactorRequired: true,
+        challengeToken: expect.any(String) as string,
+      });
+      expect(mockSessionRepository.create).not.toHaveBeenCalled();
+      expect(mockRefreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should answer accounts without a password like a wrong one', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(
+        buildUser({ password: null }),
+      );
+
+      await expect(
+        service.login(
+          { email: 'user@example.com', password: 'correct horse' },
+          { ip: '203.0.113.7' },
+        ),
+      ).rejects.toThrow(new UnauthorizedException('Invalid credentials'));
+      expect(mockLoginThrottle.recordFailure).toHaveBeenCalledWith(
+        'user@example.com',
+        '203.0.113.7',
+      );
+    });
+  });
+
+  describe('verifyTwoFactor', () => {
+    const challengeFor = async (user: User) => {
+      mockUserRepository.findByEmail.mockResolvedValue(user);
+      const challenge = (await service.login({
+        email: user.email,
+        password: 'correct horse',
+      })) as TwoFactorChallenge;
+
+      return challenge.challengeToken;
+    };
+
+    let user: User;
+
+    beforeAll(async () => {
+      user = buildUser({
+        password: await bcrypt.hash('correct horse', 4),
+        twoFactorEnabledAt: new Date(),
+      });
+    });
+
+    it('should sign in once the code checks out', async () => {
+      const challengeToken = await challengeFor(user);
+      mockUserRepository.findById.mockResolvedValue(user);
+      mockTwoFactorService.verifyCode.mockResolvedValue(true);
+
+      const result = await service.verifyTwoFactor(challengeToken, '123456', {
+        ip: '203.0.113.7',
+      });
+
+      expect(mockTwoFactorService.verifyCode).toHaveBeenCalledWith(
+        user,
+        '123456',
+      );
+      expect(result).toMatchObject({
+        id: 1,
+        refreshToken: expect.any(String) as string,
+      });
+      expect(mockSessionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ authMethod: AuthProvider.LOCAL }),
+      );
+    });
+
+    it('should count wrong codes towards the lockout', async () => {
+      const challengeToken = await challengeFor(user);
+      mockUserRepository.findById.mockResolvedValue(user);
+      mockTwoFactorService.verifyCode.mockResolvedValue(false);
+
+      await expect(
+        service.verifyTwoFactor(challengeToken, '000000', {
+          ip: '203.0.113.7',
+        }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(mockLoginThrottle.recordFailure).toHaveBeenCalledWith(
+        'user@example.com',
+        '203.0.113.7',
+      );
+      expect(mockSessionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take other tokens as a challenge', async () => {
+      const { linkToken } = service.createLinkToken(1);
+      mockUserRepository.findById.mockResolvedValue(user);
+
+      await expect(
+        service.verifyTwoFactor(linkToken, '123456'),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(mockTwoFactorService.verifyCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should swap the token for a new one of the same session', async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        buildRefreshToken(),
+      );
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockRefreshTokenRepository.rotate.mockResolvedValue(
+        buildRefreshToken({ id: 6 }),
+      );
+
+      const result = await service.refresh('refresh');
+
+      expect(result.refreshToken).not.toBe('refresh');
+      expect(mockRefreshTokenRepository.rotate).toHaveBeenCalledWith(5, {
+        userId: 1,
+        familyId: 'session-1',
+        tokenHash: hashToken(result.refreshToken),
+        expiresAt: expect.any(Date) as Date,
+      });
+      expect(
+        new JwtService({ secret: 'test' }).verify<JwtPayload>(result.token),
+      ).toMatchObject({ sub: 1, sid: 'session-1' });
+      expect(mockRefreshTokenRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a rotated token is replayed', async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        buildRefreshToken({ revokedAt: new Date(), replacedById: 6 }),
+      );
+
+      await expect(service.refresh('refresh')).rejects.toThrow(
+        new UnauthorizedException('Refresh token has been revoked'),
+      );
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith(
+        'session-1',
+      );
+      expect(mockRefreshTokenRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when another refresh rotated it first', async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        buildRefreshToken(),
+      );
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockRefreshTokenRepository.rotate.mockResolvedValue(null);
+
+      await expect(service.refresh('refresh')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith(
+        'session-1',
+      );
+    });
+
+    it('should refuse expired tokens without rotating them', async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(
+        buildRefreshToken({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(service.refresh('refresh')).rejects.toThrow(
+        new UnauthorizedException('Refresh token expired'),
+      );
+      expect(mockRefreshTokenRepository.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the session of the refresh token', async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue({
+        userId: 1,
+        familyId: 'session-1',
+      });
+
+      await service.logout('refresh');
+
+      expect(mockRefreshTokenRepository.findByHash).toHaveBeenCalledWith(
+        hashToken('refresh'),
+      );
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith(
+        'session-1',
+      );
+    });
+
+    it('should ignore unknown refresh tokens', async () => {
+      mockRefreshTokenRepository.findByHash.mockResolvedValue(null);
+
+      await expect(service.logout('refresh')).resolves.toBeUndefined();
+      expect(mockRefreshTokenRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke every session of the user', async () => {
+      mockRefreshTokenRepository.revokeAllForUser.mockResolvedValue(4);
+
+      await service.logoutAll(1);
+
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+        1,
+      );
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should describe each device and mark the current one', async () => {
+      mockSessionRepository.findActiveForUser.mockResolvedValue([
+        buildSession(),
+        buildSession({ id: 'session-2', userAgent: null }),
+      ]);
+
+      const sessions = await service.listSessions(1, 'session-2');
+
+      expect(sessions.map(({ id, current }) => ({ id, current }))).toEqual([
+        { id: 'session-1', current: false },
+        { id: 'session-2', current: true },
+      ]);
+      expect(sessions[0].device).toContain('Safari');
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the refresh tokens of the session', async () => {
+      mockSessionRepository.findActive.mockResolvedValue(buildSession());
+
+      await service.revokeSession(1, 'session-1');
+
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith(
+        'session-1',
+      );
+    });
+
+    it('should not reveal sessions of other users', async () => {
+      mockSessionRepository.findActive.mockResolvedValue(
+        buildSession({ userId: 2 }),
+      );
+
+      await expect(
+        service.revokeSession(1, 'session-1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockRefreshTokenRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should keep the current session', async () => {
+      mockRefreshTokenRepository.revokeAllForUser.mockResolvedValue(3);
+
+      await service.revokeOtherSessions(1, 'session-1');
+
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+        1,
+        'session-1',
+      );
+    });
+  });
+
+  describe('isStillSignedIn', () => {
+    const authUser = {
+      id: 1,
+      email: 'user@example.com',
+      role: Role.USER,
+      emailVerified: true,
+      sessionId: 'session-1',
+    };
+
+    it('should hold while the session is active and the user enabled', async () => {
+      mockSessionRepository.findActive.mockResolvedValue(buildSession());
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+
+      await expect(service.isStillSignedIn(authUser)).resolves.toBe(true);
+      expect(mockSessionRepository.findActive).toHaveBeenCalledWith(
+        'session-1',
+      );
+    });
+
+    it('should end with the session', async () => {
+      mockSessionRepository.findActive.mockResolvedValue(null);
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+
+      await expect(service.isStillSignedIn(authUser)).resolves.toBe(false);
+    });
+
+    it('should end when the account is disabled', async () => {
+      mockSessionRepository.findActive.mockResolvedValue(buildSession());
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ disabled: true }),
+      );
+
+      await expect(service.isStillSignedIn(authUser)).resolves.toBe(false);
+    });
+
+    it('should end when the token expires', async () => {
+      await expect(
+        service.isStillSignedIn({
+          ...authUser,
+          expiresAt: new Date(Date.now() - 1000),
+        }),
+      ).resolves.toBe(false);
+      expect(mockSessionRepository.findActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should mail a link whose token is only stored hashed', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(buildUser());
+
+      await service.forgotPassword('user@example.com');
+
+      const [[message]] = mockMailer.send.mock.calls as [[{ text: string }]];
+      const token = /token=(\S+)/.exec(message.text)?.[1] ?? '';
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'user@example.com' }),
+      );
+      expect(mockUserTokenRepository.create).toHaveBeenCalledWith({
+        userId: 1,
+        type: UserTokenType.PASSWORD_RESET,
+        tokenHash: hashToken(token),
+        expiresAt: expect.any(Date) as Date,
+      });
+    });
+
+    it('should not tell unknown addresses apart', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.forgotPassword('nobody@example.com'),
+      ).resolves.toBeUndefined();
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the password and sign out every session', async () => {
+      mockUserTokenRepository.consume.mockResolvedValue({ userId: 1 });
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+
+      await service.resetPassword('token', 'new secret');
+
+      expect(mockUserTokenRepository.consume).toHaveBeenCalledWith(
+        hashToken('token'),
+        UserTokenType.PASSWORD_RESET,
+      );
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ password: expect.any(String) as string }),
+      );
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+        1,
+      );
+      expect(mockLoginThrottle.unlock).toHaveBeenCalledWith('user@example.com');
+    });
+
+    it('should reject used or unknown tokens', async () => {
+      mockUserTokenRepository.consume.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword('token', 'new secret'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    it('should clear the password to null', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockUserIdentityRepository.findAllForUser.mockResolvedValue([
+        { id: 3, provider: AuthProvider.GOOGLE },
+      ]);
+
+      await service.unlinkIdentity(1, AuthProvider.LOCAL);
+
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(1, {
+        password: null,
+      });
+    });
+
+    it('should keep the last sign-in method', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockUserIdentityRepository.findAllForUser.mockResolvedValue([]);
+
+      await expect(
+        service.unlinkIdentity(1, AuthProvider.LOCAL),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+});
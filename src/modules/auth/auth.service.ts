@@ -4,35 +4,61 @@ import {
   Injectable,
   UnauthorizedException,
   ConflictException,
+  ForbiddenException,
+  BadRequestException,
+  NotFoundException,
   Inject,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
 // import { PrismaService } from '@core/database/prisma/prisma.service';
 import { RegisterDto, LoginDto } from './dto/auth.dto';
 import * as bcrypt from 'bcrypt';
 import { AppLogger } from '@common/logger/app-logger.service';
-import { User } from '@prisma/client';
+import { RefreshToken, User, UserTokenType } from '@prisma/client';
 import { UserRepositoryInterface } from '@app/auth/interfaces/repository/user.repository.interface';
+import { RefreshTokenRepositoryInterface } from './interfaces/repository/refresh-token.repository.interface';
+import { UserTokenRepositoryInterface } from './interfaces/repository/user-token.repository.interface';
+import { UserIdentityRepositoryInterface } from './interfaces/repository/user-identity.repository.interface';
+import { SessionRepositoryInterface } from './interfaces/repository/session.repository.interface';
+import {
+  AuthProvider,
+  LinkedIdentities,
+  OAuthProfile,
+} from './interfaces/identity.interface';
+import { generateSecureToken, hashToken } from '@common/utils/token.util';
+import { MailerService } from '@common/mailer/mailer.interface';
+import {
+  getUnverifiedAccountPolicy,
+  UnverifiedAccountPolicy,
+} from './utils/unverified-account-policy';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorChallenge } from './interfaces/two-factor.interface';
+import { ActiveSession, ClientInfo } from './interfaces/session.interface';
+import { describeUserAgent } from './utils/user-agent.util';
+import { AuthUser } from './interfaces/user.interface';
 type AuthenticatedUser = Pick<User, 'id' | 'email'> & {
   name: string | null;
   token: string;
+  refreshToken: string;
   picture?: string | null;
 };
 
-interface GoogleUser {
-  email: string;
-  firstName: string;
-  lastName: string;
-  picture: string;
-  accessToken: string;
+const LINK_TOKEN_PURPOSE = 'link-identity';
+const TWO_FACTOR_TOKEN_PURPOSE = 'two-factor';
+
+interface TokenPair {
+  token: string;
+  refreshToken: string;
 }
 
-interface AmazonUser {
-  email: string;
-  name: string;
-  userId: string;
-  picture?: string;
-  accessToken: string;
+interface PurposeTokenPayload {
+  sub: number;
+  purpose: string;
+  // Sign-in method a two-factor challenge continues
+  method?: AuthProvider;
 }
 
 @Injectable()
@@ -40,13 +66,29 @@ export class AuthService {
   constructor(
     @Inject('UserRepositoryInterface')
     private readonly userRepository: UserRepositoryInterface,
+    @Inject('RefreshTokenRepositoryInterface')
+    private readonly refreshTokenRepository: RefreshTokenRepositoryInterface,
+    @Inject('UserTokenRepositoryInterface')
+    private readonly userTokenRepository: UserTokenRepositoryInterface,
+    @Inject('UserIdentityRepositoryInterface')
+    private readonly userIdentityRepository: UserIdentityRepositoryInterface,
+    @Inject('SessionRepositoryInterface')
+    private readonly sessionRepository: SessionRepositoryInterface,
+    @Inject('MailerService')
+    private readonly mailer: MailerService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly twoFactorService: TwoFactorService,
     private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
     private readonly logger: AppLogger,
   ) {
     this.logger.setContext(AuthService.name);
   }
 
-  async register(registerDto: RegisterDto): Promise<AuthenticatedUser> {
+  async register(
+    registerDto: RegisterDto,
+    client: ClientInfo = {},
+  ): Promise<AuthenticatedUser> {
     const { email } = registerDto;
 
     const existingUser = await this.userRepository.findByEmail(email);
@@ -60,214 +102,759 @@ export class AuthService {
 
     this.logger.log(`User registered successfully: ${user.id}`);
 
-    const token = this.generateToken(
-      user.id,
-      user.email,
-      user.name,
-      user.profilePicture,
-    );
+    // A failed mail must not fail the registration; the user can resend it
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification email to user: ${user.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
 
-    return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      token,
-      picture: user.profilePicture,
-    };
+    return this.createSession(user, AuthProvider.LOCAL, client);
   }
 
-  async login(loginDto: LoginDto): Promise<AuthenticatedUser> {
+  /**
+   * Failed passwords count towards a lockout of the account and of the
+   * client IP; while locked, even the right password is refused. Users with
+   * two-factor authentication get a challenge instead of tokens.
+   */
+  async login(
+    loginDto: LoginDto,
+    client: ClientInfo = {},
+  ): Promise<AuthenticatedUser | TwoFactorChallenge> {
     const { email, password } = loginDto;
+    const { ip } = client;
+
+    await this.loginThrottle.assertNotLocked(email, ip);
 
     const user = await this.userRepository.findByEmail(email);
 
     if (!user) {
       this.logger.warn(`Login attempt with non-existent email: ${email}`);
+      await this.loginThrottle.recordFailure(email, ip);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    if (user.authProvider === 'google') {
-      this.logger.warn(`Local login attempt for Google user: ${user.id}`);
-      throw new UnauthorizedException(
-        'This account uses Google authentication. Please sign in with Google.',
-      );
-    }
-
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    // Accounts created through a provider have no password until one is set;
+    // they get the same answer as a wrong password, so they stay unknown
+    const isPasswordValid =
+      !!user.password && (await bcrypt.compare(password, user.password));
 
     if (!isPasswordValid) {
       this.logger.warn(`Invalid password attempt for user: ${user.id}`);
+      await this.loginThrottle.recordFailure(email, ip);
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    await this.loginThrottle.recordSuccess(email);
+
+    this.assertNotDisabled(user);
+
+    if (
+      !user.emailVerifiedAt &&
+      getUnverifiedAccountPolicy(this.configService) ===
+        UnverifiedAccountPolicy.BLOCK
+    ) {
+      this.logger.warn(`Login attempt for unverified user: ${user.id}`);
+      throw new ForbiddenException(
+        'Please verify your email address before signing in',
+      );
+    }
+
     this.logger.log(`User logged in successfully: ${user.id}`);
 
-    const token = this.generateToken(
+    return this.completeSignIn(
+      user,
+      AuthProvider.LOCAL,
+      client,
+      !!user.twoFactorEnabledAt,
+    );
+  }
+
+  /**
+   * Second step of a sign-in that returned a challenge. Wrong codes count
+   * towards the same lockout as wrong passwords.
+   */
+  async verifyTwoFactor(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo = {},
+  ): Promise<AuthenticatedUser> {
+    const { ip } = client;
+    const challenge = this.verifyPurposeToken(
+      challengeToken,
+      TWO_FACTOR_TOKEN_PURPOSE,
+    );
+    const user = challenge
+      ? await this.userRepository.findById(challenge.sub)
+      : null;
+
+    if (!user?.twoFactorEnabledAt) {
+      this.logger.warn('Two-factor attempt with invalid challenge token');
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    await this.loginThrottle.assertNotLocked(user.email, ip);
+
+    if (!(await this.twoFactorService.verifyCode(user, code))) {
+      this.logger.warn(`Invalid two-factor code for user: ${user.id}`);
+      await this.loginThrottle.recordFailure(user.email, ip);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    await this.loginThrottle.recordSuccess(user.email);
+
+    this.assertNotDisabled(user);
+
+    this.logger.log(`Two-factor sign-in completed for user: ${user.id}`);
+
+    return this.createSession(
+      user,
+      challenge?.method ?? AuthProvider.LOCAL,
+      client,
+    );
+  }
+
+  /**
+   * Signs in through an OAuth provider. The identity is matched by the
+   * provider's user ID; an email that already belongs to another account is
+   * never merged silently and has to be linked from a signed-in session.
+   */
+  async validateOrCreateOAuthUser(
+    profile: OAuthProfile,
+    client: ClientInfo = {},
+  ): Promise<AuthenticatedUser | TwoFactorChallenge> {
+    const { provider, providerUserId, email } = profile;
+    this.logger.debug(`${provider} login attempt for: ${email}`);
+
+    const identity = await this.userIdentityRepository.findByProviderUserId(
+      provider,
+      providerUserId,
+    );
+    let user = identity
+      ? await this.userRepository.findById(identity.userId)
+      : null;
+
+    if (!user) {
+      user = await this.userRepository.findByEmail(email);
+
+      if (!user) {
+        user = await this.userRepository.createOAuthUser(profile);
+        this.logger.log(`New ${provider} user created with ID: ${user.id}`);
+      } else if (!(await this.claimLegacyIdentity(user, profile))) {
+        this.logger.warn(
+          `${provider} login for email of existing user: ${user.id}`,
+        );
+        throw new ConflictException(
+          `An account with this email already exists. Sign in and link your ${provider} account instead.`,
+        );
+      }
+    }
+
+    this.assertNotDisabled(user);
+
+    // Provider pictures only fill a gap, they never replace the user's own
+    if (!user.profilePicture && profile.picture) {
+      user = await this.userRepository.updateUser(user.id, {
+        profilePicture: profile.picture,
+      });
+    }
+
+    return this.completeSignIn(
+      user,
+      provider,
+      client,
+      !!user.twoFactorEnabledAt && user.twoFactorForOAuth,
+    );
+  }
+
+  async listIdentities(userId: number): Promise<LinkedIdentities> {
+    const user = await this.getUser(userId);
+    const identities = await this.userIdentityRepository.findAllForUser(
       user.id,
-      user.email,
-      user.name,
-      user.profilePicture,
     );
 
     return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      token,
-      picture: user.profilePicture,
+      hasPassword: !!user.password,
+      identities: identities.map(({ provider, email, linkedAt }) => ({
+        provider,
+        email,
+        linkedAt,
+      })),
     };
   }
 
-  async validateOrCreateGoogleUser(
-    googleUser: GoogleUser,
-  ): Promise<AuthenticatedUser> {
-    const { email, firstName, lastName, picture } = googleUser;
-    this.logger.debug(`Google login attempt for: ${email}`);
-    this.logger.debug(
-      `Google profile details: firstName=${firstName}, lastName=${lastName}, picture=${picture ? 'present' : 'absent'}`,
+  /**
+   * Issues a short-lived token that carries the signed-in user through an
+   * OAuth redirect, so the provider callback links instead of signing in.
+   */
+  createLinkToken(userId: number): { linkToken: string } {
+    const linkToken = this.jwtService.sign(
+      { sub: userId, purpose: LINK_TOKEN_PURPOSE },
+      { expiresIn: '5m' },
     );
 
-    let user = await this.userRepository.findByEmail(email);
+    return { linkToken };
+  }
 
-    if (!user) {
-      const fullName = `${firstName} ${lastName}`.trim();
-      user = await this.userRepository.createGoogleUser(
-        email,
-        fullName,
-        picture || null,
-      );
+  verifyLinkToken(linkToken: string): number {
+    const payload = this.verifyPurposeToken(linkToken, LINK_TOKEN_PURPOSE);
 
-      this.logger.log(`New Google user created with ID: ${user.id}`);
+    if (!payload) {
+      throw new UnauthorizedException('Invalid or expired link token');
+    }
 
-      const token = this.generateToken(
-        user.id,
-        user.email,
-        user.name,
-        user.profilePicture,
-      );
+    return payload.sub;
+  }
+
+  async linkIdentity(userId: number, profile: OAuthProfile): Promise<void> {
+    const { provider, providerUserId, email } = profile;
+    this.logger.debug(`Linking ${provider} identity to user: ${userId}`);
 
-      return {
-        id: user.id,
-        email: user.email,
-        name: user.name || null,
-        token,
-        picture: user.profilePicture || null,
-      };
-    } else if (user.authProvider !== 'google') {
-      this.logger.debug(
-        `Updating existing user (id=${user.id}) to use Google auth`,
+    const owner = await this.userIdentityRepository.findByProviderUserId(
+      provider,
+      providerUserId,
+    );
+
+    if (owner) {
+      if (owner.userId !== userId) {
+        throw new ConflictException(
+          `This ${provider} account is linked to another user`,
+        );
+      }
+      return;
+    }
+
+    const existing = await this.userIdentityRepository.findForUser(
+      userId,
+      provider,
+    );
+
+    if (existing?.providerUserId) {
+      throw new ConflictException(
+        `A ${provider} account is already linked; unlink it first`,
       );
+    }
 
-      user = await this.userRepository.updateUser(user.id, {
-        authProvider: 'google',
-        profilePicture: picture || null,
+    if (existing) {
+      await this.userIdentityRepository.update(existing.id, {
+        providerUserId,
+        email,
+      });
+    } else {
+      await this.userIdentityRepository.create({
+        userId,
+        provider,
+        providerUserId,
+        email,
       });
+    }
+
+    this.logger.log(`${provider} identity linked to user: ${userId}`);
+  }
+
+  async setPassword(userId: number, password: string): Promise<void> {
+    const user = await this.getUser(userId);
 
-      this.logger.log(`Existing user updated to use Google auth: ${user.id}`);
+    if (user.password) {
+      throw new ConflictException('A password is already set');
     }
 
-    this.logger.debug(
-      `User data for token: id=${user.id}, email=${user.email}, name=${user.name || 'null'}, picture=${user.profilePicture ? 'present' : 'null'}`,
+    await this.userRepository.updateUser(user.id, {
+      password: await bcrypt.hash(password, 10),
+    });
+
+    this.logger.log(`Password sign-in added for user: ${user.id}`);
+  }
+
+  async unlinkIdentity(userId: number, provider: AuthProvider): Promise<void> {
+    const user = await this.getUser(userId);
+    const identities = await this.userIdentityRepository.findAllForUser(
+      user.id,
+    );
+    const signInMethods = identities.length + (user.password ? 1 : 0);
+    const identity = identities.find(
+      (item) => item.provider === (provider as string),
     );
 
+    if (provider === AuthProvider.LOCAL ? !user.password : !identity) {
+      throw new NotFoundException(`No ${provider} sign-in method is linked`);
+    }
+
+    if (signInMethods <= 1) {
+      this.logger.warn(`User ${user.id} tried to unlink last sign-in method`);
+      throw new BadRequestException(
+        'You cannot remove your last sign-in method',
+      );
+    }
+
+    if (identity) {
+      await this.userIdentityRepository.remove(identity.id);
+    } else {
+      await this.userRepository.updateUser(user.id, { password: null });
+    }
+
+    this.logger.log(`${provider} sign-in removed for user: ${user.id}`);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthenticatedUser> {
+    const stored = await this.refreshTokenRepository.findByHash(
+      hashToken(refreshToken),
+    );
+
+    if (!stored) {
+      this.logger.warn('Refresh attempt with unknown token');
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (stored.revokedAt) {
+      return this.handleRefreshTokenReuse(stored);
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      this.logger.warn(`Expired refresh token used by user: ${stored.userId}`);
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const user = await this.userRepository.findById(stored.userId);
+
+    if (!user) {
+      this.logger.warn(
+        `Refresh token belongs to missing user: ${stored.userId}`,
+      );
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    this.assertNotDisabled(user);
+
+    const nextRefreshToken = generateSecureToken();
+    const rotated = await this.refreshTokenRepository.rotate(stored.id, {
+      userId: user.id,
+      familyId: stored.familyId,
+      tokenHash: hashToken(nextRefreshToken),
+      expiresAt: this.getRefreshTokenExpiry(),
+    });
+
+    if (!rotated) {
+      return this.handleRefreshTokenReuse(stored);
+    }
+
+    this.logger.log(`Refresh token rotated for user: ${user.id}`);
+
     const token = this.generateToken(
       user.id,
       user.email,
       user.name,
       user.profilePicture,
+      stored.familyId,
     );
 
-    if (token) {
-      const tokenPrefix = token.substring(0, 15) + '...';
-      this.logger.debug(`Generated token: ${tokenPrefix}`);
-    }
-
     return {
       id: user.id,
       email: user.email,
-      name: user.name || null,
+      name: user.name,
       token,
-      picture: user.profilePicture || null,
+      refreshToken: nextRefreshToken,
+      picture: user.profilePicture,
     };
   }
 
-  async validateOrCreateAmazonUser(
-    amazonUser: AmazonUser,
-  ): Promise<AuthenticatedUser> {
-    const { email, name, picture } = amazonUser;
-    this.logger.debug(`Amazon login attempt for: ${email}`);
-    this.logger.debug(
-      `Amazon profile details: name=${name}, picture=${picture ? 'present' : 'absent'}`,
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByHash(
+      hashToken(refreshToken),
     );
 
-    let user = await this.userRepository.findByEmail(email);
+    // Unknown tokens are ignored so logout never reveals token validity
+    if (!stored) {
+      return;
+    }
 
-    if (!user) {
-      user = await this.userRepository.createAmazonUser(
-        email,
-        name,
-        picture || null,
-      );
+    await this.refreshTokenRepository.revokeFamily(stored.familyId);
+    this.logger.log(`User logged out: ${stored.userId}`);
+  }
 
-      this.logger.log(`New Amazon user created with ID: ${user.id}`);
+  async logoutAll(userId: number): Promise<void> {
+    const revoked = await this.refreshTokenRepository.revokeAllForUser(userId);
+    this.logger.log(
+      `User logged out from all sessions: ${userId} (${revoked} tokens revoked)`,
+    );
+  }
 
-      const token = this.generateToken(
-        user.id,
-        user.email,
-        user.name,
-        user.profilePicture,
-      );
+  /** Lists the devices the user is signed in on, most recent first. */
+  async listSessions(
+    userId: number,
+    currentSessionId?: string,
+  ): Promise<ActiveSession[]> {
+    const sessions = await this.sessionRepository.findActiveForUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      authMethod: session.authMethod,
+      device: describeUserAgent(session.userAgent),
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /** Signs a device out remotely; its access token stops working at once. */
+  async revokeSession(userId: number, sessionId: string): Promise<void> {
+    const session = await this.sessionRepository.findActive(sessionId);
+
+    if (!session || session.userId !== userId) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+
+    await this.refreshTokenRepository.revokeFamily(session.id);
+    this.logger.log(`Session ${session.id} revoked by user: ${userId}`);
+  }
+
+  /** Signs out every other device, e.g. after the password changed. */
+  async revokeOtherSessions(userId: number, sessionId?: string): Promise<void> {
+    const revoked = await this.refreshTokenRepository.revokeAllForUser(
+      userId,
+      sessionId,
+    );
+    this.logger.log(
+      `Other sessions of user revoked: ${userId} (${revoked} tokens revoked)`,
+    );
+  }
+
+  /**
+   * Whether a user signed in earlier would still be let in, for connections
+   * that outlive the request: the token has not expired, its session is not
+   * revoked and the account is not disabled.
+   */
+  async isStillSignedIn(authUser: AuthUser): Promise<boolean> {
+    if (authUser.expiresAt && authUser.expiresAt <= new Date()) {
+      return false;
+    }
 
-      return {
-        id: user.id,
-        email: user.email,
-        name: user.name || null,
-        token,
-        picture: user.profilePicture || null,
-      };
-    } else if (user.authProvider !== 'amazon') {
-      this.logger.debug(
-        `Updating existing user (id=${user.id}) to use Amazon auth`,
+    if (authUser.sessionId) {
+      const session = await this.sessionRepository.findActive(
+        authUser.sessionId,
       );
 
-      user = await this.userRepository.updateUser(user.id, {
-        authProvider: 'amazon',
-        profilePicture: picture || null,
-      });
+      if (!session || session.userId !== authUser.id) {
+        return false;
+      }
+    }
+
+    const user = await this.userRepository.findById(authUser.id);
 
-      this.logger.log(`Existing user updated to use Amazon auth: ${user.id}`);
+    return !!user && !user.disabled;
+  }
+
+  private assertNotDisabled(user: User): void {
+    if (user.disabled) {
+      this.logger.warn(`Sign-in attempt for disabled user: ${user.id}`);
+      throw new UnauthorizedException('Account is disabled');
     }
+  }
 
-    this.logger.debug(
-      `User data for token: id=${user.id}, email=${user.email}, name=${user.name || 'null'}, picture=${user.profilePicture ? 'present' : 'null'}`,
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+
+    // Unknown and disabled accounts get the same response as valid ones so
+    // the endpoint cannot be used to discover registered emails
+    if (!user || user.disabled) {
+      this.logger.warn(`Password reset requested for unknown email: ${email}`);
+      return;
+    }
+
+    const ttlMinutes = Number(
+      this.configService.get<string>('PASSWORD_RESET_TTL_MINUTES') || 60,
+    );
+    const token = await this.createUserToken(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+      ttlMinutes * 60 * 1000,
     );
 
-    const token = this.generateToken(
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'Someone asked to reset the password of your account. Choose a new one here:',
+        `${this.getFrontendUrl()}/reset-password?token=${token}`,
+        '',
+        `The link expires in ${ttlMinutes} minutes. If you did not ask for it, ignore this email.`,
+      ].join('\n'),
+    });
+
+    this.logger.log(`Password reset email sent to user: ${user.id}`);
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    const used = await this.userTokenRepository.consume(
+      hashToken(token),
+      UserTokenType.PASSWORD_RESET,
+    );
+    const user = used && (await this.userRepository.findById(used.userId));
+
+    if (!user) {
+      this.logger.warn('Password reset attempt with invalid token');
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Opening the mailed link also proves the user owns the address
+    await this.userRepository.updateUser(user.id, {
+      password: await bcrypt.hash(password, 10),
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+    });
+    await this.refreshTokenRepository.revokeAllForUser(user.id);
+    // Proving access to the mailbox is enough to get past a lockout
+    await this.loginThrottle.unlock(user.email);
+
+    this.logger.log(`Password reset for user: ${user.id}`);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const used = await this.userTokenRepository.consume(
+      hashToken(token),
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+
+    if (!used) {
+      this.logger.warn('Email verification attempt with invalid token');
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.userRepository.updateUser(used.userId, {
+      emailVerifiedAt: new Date(),
+    });
+
+    this.logger.log(`Email verified for user: ${used.userId}`);
+  }
+
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+
+    if (!user || user.disabled || user.emailVerifiedAt) {
+      this.logger.debug(`No verification email needed for: ${email}`);
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Identities carried over from the old authProvider column have no
+   * provider user ID yet; the first sign-in with a matching email claims it.
+   */
+  private async claimLegacyIdentity(
+    user: User,
+    profile: OAuthProfile,
+  ): Promise<boolean> {
+    const legacy = await this.userIdentityRepository.findForUser(
       user.id,
-      user.email,
-      user.name,
-      user.profilePicture,
+      profile.provider,
+    );
+
+    if (!legacy || legacy.providerUserId) {
+      return false;
+    }
+
+    await this.userIdentityRepository.update(legacy.id, {
+      providerUserId: profile.providerUserId,
+      email: profile.email,
+    });
+
+    return true;
+  }
+
+  private async getUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private async sendVerificationEmail(user: User): Promise<void> {
+    const ttlHours = Number(
+      this.configService.get<string>('EMAIL_VERIFICATION_TTL_HOURS') || 48,
+    );
+    const token = await this.createUserToken(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      ttlHours * 60 * 60 * 1000,
+    );
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        `${this.getFrontendUrl()}/verify-email?token=${token}`,
+        '',
+        `The link expires in ${ttlHours} hours.`,
+      ].join('\n'),
+    });
+
+    this.logger.log(`Verification email sent to user: ${user.id}`);
+  }
+
+  private async createUserToken(
+    userId: number,
+    type: UserTokenType,
+    ttlMs: number,
+  ): Promise<string> {
+    const token = generateSecureToken();
+
+    await this.userTokenRepository.create({
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+
+    return token;
+  }
+
+  private getFrontendUrl(): string {
+    return (
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:5173'
+    );
+  }
+
+  /**
+   * A rotated token being presented again means it was stolen or replayed,
+   * so every token descended from the same login is revoked.
+   */
+  private async handleRefreshTokenReuse(stored: RefreshToken): Promise<never> {
+    this.logger.warn(
+      `Refresh token reuse detected for user: ${stored.userId}, revoking family: ${stored.familyId}`,
     );
+    await this.refreshTokenRepository.revokeFamily(stored.familyId);
+    throw new UnauthorizedException('Refresh token has been revoked');
+  }
 
-    if (token) {
-      const tokenPrefix = token.substring(0, 15) + '...';
-      this.logger.debug(`Generated token: ${tokenPrefix}`);
+  /**
+   * Issues tokens, unless the second factor is still to be checked; then
+   * only a short-lived challenge token for POST /auth/2fa/verify.
+   */
+  private async completeSignIn(
+    user: User,
+    method: AuthProvider,
+    client: ClientInfo,
+    requireTwoFactor: boolean,
+  ): Promise<AuthenticatedUser | TwoFactorChallenge> {
+    if (!requireTwoFactor) {
+      return this.createSession(user, method, client);
     }
 
+    this.logger.log(`Two-factor challenge issued for user: ${user.id}`);
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: this.jwtService.sign(
+        { sub: user.id, purpose: TWO_FACTOR_TOKEN_PURPOSE, method },
+        { expiresIn: '5m' },
+      ),
+    };
+  }
+
+  private async createSession(
+    user: User,
+    method: AuthProvider,
+    client: ClientInfo,
+  ): Promise<AuthenticatedUser> {
+    const { token, refreshToken } = await this.issueTokens(
+      user,
+      method,
+      client,
+    );
+
     return {
       id: user.id,
       email: user.email,
       name: user.name || null,
       token,
+      refreshToken,
       picture: user.profilePicture || null,
     };
   }
 
+  // Short-lived tokens for one purpose, such as linking or a challenge
+  private verifyPurposeToken(
+    token: string,
+    purpose: string,
+  ): PurposeTokenPayload | null {
+    try {
+      const payload = this.jwtService.verify<PurposeTokenPayload>(token);
+
+      if (payload.purpose === purpose) {
+        return payload;
+      }
+    } catch {
+      // Treated the same as a token with the wrong purpose
+    }
+
+    return null;
+  }
+
+  /**
+   * Starts a session for a sign-in. Its ID doubles as the refresh token
+   * family and the sid claim of the access tokens.
+   */
+  private async issueTokens(
+    user: User,
+    method: AuthProvider,
+    client: ClientInfo,
+  ): Promise<TokenPair> {
+    const familyId = randomUUID();
+    const refreshToken = generateSecureToken();
+
+    await this.sessionRepository.create({
+      id: familyId,
+      userId: user.id,
+      authMethod: method,
+      userAgent: client.userAgent?.slice(0, 512) ?? null,
+      ip: client.ip ?? null,
+    });
+
+    await this.refreshTokenRepository.create({
+      userId: user.id,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: this.getRefreshTokenExpiry(),
+    });
+
+    const token = this.generateToken(
+      user.id,
+      user.email,
+      user.name,
+      user.profilePicture,
+      familyId,
+    );
+
+    return { token, refreshToken };
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    const ttlDays = Number(
+      this.configService.get<string>('REFRESH_TOKEN_TTL_DAYS') || 30,
+    );
+
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+
   private generateToken(
     userId: number,
     email: string,
     name: string | null | undefined,
     picture: string | null | undefined,
+    sessionId: string,
   ): string {
     this.logger.debug(
       `Generating token with: userId=${userId}, email=${email}, name=${name || 'null'}, picture=${picture ? 'present' : 'null'}`,
@@ -278,6 +865,7 @@ export class AuthService {
       email,
       name: name || null,
       picture: picture || null,
+      sid: sessionId,
     };
 
     this.logger.debug(`JWT payload: ${JSON.stringify(payload)}`);
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_UNVERIFIED_KEY = 'allowUnverified';
+
+/**
+ * Exempts a route from the unverified account restriction, e.g. so that
+ * unverified users can still sign out.
+ */
+export const AllowUnverified = () => SetMetadata(ALLOW_UNVERIFIED_KEY, true);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { AccessTokenScope } from '../interfaces/access-token.interface';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/**
+ * Scopes an API key needs for the route. Routes without them cannot be
+ * used with API keys at all; JWT sessions are not limited by scopes.
+ */
+export const RequireScopes = (...scopes: AccessTokenScope[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
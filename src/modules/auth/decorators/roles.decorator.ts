@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '@prisma/client';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restricts a route or controller to users holding one of the given roles.
+ * Must be combined with JwtAuthGuard and RolesGuard.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
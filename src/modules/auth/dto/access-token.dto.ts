@@ -0,0 +1,48 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AccessTokenScope } from '../interfaces/access-token.interface';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class CreateAccessTokenDto {
+  @ApiProperty({ example: 'CI pipeline' })
+  @Transform(trim)
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    enum: AccessTokenScope,
+    isArray: true,
+    example: [AccessTokenScope.TODOS_READ, AccessTokenScope.TODOS_WRITE],
+  })
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'Scopes must not be empty' })
+  @ArrayUnique({ message: 'Scopes must be unique' })
+  @IsEnum(AccessTokenScope, {
+    each: true,
+    message: 'Each scope must be todos:read or todos:write',
+  })
+  scopes: AccessTokenScope[];
+
+  @ApiPropertyOptional({
+    example: '2026-12-31T23:59:59Z',
+    description: 'The token never expires when left out',
+  })
+  @IsDateString({}, { message: 'Expiry must be a valid date' })
+  @IsOptional()
+  expiresAt?: string;
+}
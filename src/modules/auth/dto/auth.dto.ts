@@ -1,5 +1,12 @@
-import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class RegisterDto {
   @ApiProperty({ example: 'user@example.com' })
@@ -30,3 +37,95 @@ export class LoginDto {
   @IsNotEmpty({ message: 'Password is required' })
   password: string;
 }
+
+export class RefreshTokenDto {
+  @ApiProperty({ example: 'bXkgcmVmcmVzaCB0b2tlbg' })
+  @IsString({ message: 'Refresh token must be a string' })
+  @IsNotEmpty({ message: 'Refresh token is required' })
+  refreshToken: string;
+}
+
+export class EmailDto {
+  @ApiProperty({ example: 'user@example.com' })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ example: 'cmVzZXQgdG9rZW4' })
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  @ApiProperty({ example: 'NewPassword123!' })
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+}
+
+export class VerifyEmailDto {
+  @ApiProperty({ example: 'dmVyaWZ5IHRva2Vu' })
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+}
+
+export class SetPasswordDto {
+  @ApiProperty({ example: 'Password123!' })
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456', description: 'Code of the authenticator' })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
+
+export class VerifyTwoFactorDto {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiJ9' })
+  @IsString({ message: 'Challenge token must be a string' })
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+
+  @ApiProperty({
+    example: '123456',
+    description: 'Code of the authenticator or an unused recovery code',
+  })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
+
+/** Re-authentication before a sensitive change to the account. */
+export class ConfirmIdentityDto {
+  @ApiPropertyOptional({
+    example: 'Password123!',
+    description: 'Required when the account has a password',
+  })
+  @IsOptional()
+  @IsString({ message: 'Password must be a string' })
+  password?: string;
+
+  @ApiPropertyOptional({
+    example: '123456',
+    description: 'Required instead of the password when there is none',
+  })
+  @IsOptional()
+  @IsString({ message: 'Code must be a string' })
+  code?: string;
+}
+
+export class TwoFactorSettingsDto {
+  @ApiProperty({
+    example: true,
+    description: 'Ask for the second factor after OAuth sign-ins too',
+  })
+  @IsBoolean({ message: 'requireForOAuth must be a boolean' })
+  requireForOAuth: boolean;
+}
@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { AccessTokenScope } from '../interfaces/access-token.interface';
+import { AuthUser } from '../interfaces/user.interface';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+class TodosController {
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  findAll() {}
+
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  create() {}
+
+  exportAll() {}
+}
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  // Stands in for a request that passport already signed in
+  const buildContext = (
+    handler: keyof TodosController,
+    user: Partial<AuthUser> = {},
+  ) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => TodosController.prototype[handler],
+      getClass: () => TodosController,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'GET',
+          user: {
+            id: 1,
+            email: 'ada@example.com',
+            role: Role.USER,
+            emailVerified: true,
+            ...user,
+          },
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest
+      .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtAuthGuard,
+        Reflector,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    guard = module.get<JwtAuthGuard>(JwtAuthGuard);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not limit sessions by scopes', async () => {
+    await expect(guard.canActivate(buildContext('exportAll'))).resolves.toBe(
+      true,
+    );
+  });
+
+  it('should let API keys use routes within their scopes', async () => {
+    await expect(
+      guard.canActivate(
+        buildContext('findAll', { scopes: [AccessTokenScope.TODOS_READ] }),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('should refuse API keys missing a scope of the route', async () => {
+    await expect(
+      guard.canActivate(
+        buildContext('create', { scopes: [AccessTokenScope.TODOS_READ] }),
+      ),
+    ).rejects.toThrow(
+      new ForbiddenException('API key is missing the scope: todos:write'),
+    );
+  });
+
+  it('should refuse API keys on routes without scopes', async () => {
+    await expect(
+      guard.canActivate(
+        buildContext('exportAll', {
+          scopes: [AccessTokenScope.TODOS_READ, AccessTokenScope.TODOS_WRITE],
+        }),
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
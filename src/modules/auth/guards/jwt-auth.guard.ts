@@ -1,15 +1,97 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
 import { AppLogger } from '../../../common/logger/app-logger.service';
+import { AuthUser } from '../interfaces/user.interface';
+import { ALLOW_UNVERIFIED_KEY } from '../decorators/allow-unverified.decorator';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import { AccessTokenScope } from '../interfaces/access-token.interface';
+import {
+  getUnverifiedAccountPolicy,
+  UnverifiedAccountPolicy,
+} from '../utils/unverified-account-policy';
 
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Accepts a JWT session or, on routes that declare scopes, an API key. */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private readonly logger: AppLogger) {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(
+    private readonly logger: AppLogger,
+    private readonly configService: ConfigService,
+    private readonly reflector: Reflector,
+  ) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     this.logger.debug('Validating JWT token');
-    return super.canActivate(context);
+
+    const activated = (await super.canActivate(context)) as boolean;
+
+    if (activated) {
+      this.assertScopes(context);
+      this.assertVerificationPolicy(context);
+    }
+
+    return activated;
+  }
+
+  private assertScopes(context: ExecutionContext): void {
+    const { scopes } = context.switchToHttp().getRequest<Request>()
+      .user as AuthUser;
+
+    if (!scopes) {
+      return;
+    }
+
+    const required = this.reflector.getAllAndOverride<
+      AccessTokenScope[] | undefined
+    >(REQUIRED_SCOPES_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!required) {
+      throw new ForbiddenException('This route cannot be used with an API key');
+    }
+
+    const missing = required.filter((scope) => !scopes.includes(scope));
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing the scope: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  private assertVerificationPolicy(context: ExecutionContext): void {
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as AuthUser;
+    const policy = getUnverifiedAccountPolicy(this.configService);
+
+    if (
+      user.emailVerified ||
+      policy === UnverifiedAccountPolicy.ALLOW ||
+      this.reflector.getAllAndOverride<boolean>(ALLOW_UNVERIFIED_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ])
+    ) {
+      return;
+    }
+
+    if (policy === UnverifiedAccountPolicy.BLOCK) {
+      throw new ForbiddenException('Please verify your email address');
+    }
+
+    if (!READ_METHODS.includes(request.method)) {
+      throw new ForbiddenException(
+        'Please verify your email address before making changes',
+      );
+    }
   }
 }
@@ -0,0 +1,28 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthService } from '../auth.service';
+import '../interfaces/session.interface';
+
+/**
+ * Runs before the OAuth redirect guard and remembers in the session whether
+ * the flow was started with a link token, i.e. to link a provider to the
+ * signed-in user rather than to sign in.
+ */
+@Injectable()
+export class OAuthLinkGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const { linkToken } = request.query;
+
+    if (typeof linkToken === 'string') {
+      request.session.linkUserId = this.authService.verifyLinkToken(linkToken);
+    } else {
+      // A plain sign-in must not pick up an abandoned link attempt
+      delete request.session.linkUserId;
+    }
+
+    return true;
+  }
+}
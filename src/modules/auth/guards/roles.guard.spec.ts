@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { Roles } from '../decorators/roles.decorator';
+import { AuthUser } from '../interfaces/user.interface';
+import { RolesGuard } from './roles.guard';
+
+@Roles(Role.ADMIN)
+class AdminController {
+  list() {}
+}
+
+class TodosController {
+  list() {}
+}
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildContext = (
+    controller: typeof AdminController | typeof TodosController,
+    user?: Partial<AuthUser>,
+  ) =>
+    ({
+      getHandler: () => controller.prototype.list,
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          user: user && { id: 1, role: Role.USER, ...user },
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesGuard,
+        Reflector,
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    guard = module.get<RolesGuard>(RolesGuard);
+  });
+
+  it('should let admins in', () => {
+    expect(
+      guard.canActivate(buildContext(AdminController, { role: Role.ADMIN })),
+    ).toBe(true);
+  });
+
+  it('should refuse other roles', () => {
+    expect(() =>
+      guard.canActivate(buildContext(AdminController, { role: Role.USER })),
+    ).toThrow(new ForbiddenException('Insufficient permissions'));
+  });
+
+  it('should refuse anonymous requests', () => {
+    expect(() => guard.canActivate(buildContext(AdminController))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should not limit routes without roles', () => {
+    expect(guard.canActivate(buildContext(TodosController))).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { Request } from 'express';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { AuthUser } from '../interfaces/user.interface';
+import { AppLogger } from '../../../common/logger/app-logger.service';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly logger: AppLogger,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!roles?.length) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest<Request>().user as
+      | AuthUser
+      | undefined;
+
+    if (!user || !roles.includes(user.role)) {
+      this.logger.warn(`Access denied for user: ${user?.id ?? 'anonymous'}`);
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,14 @@
+import { AccessToken, User } from '@prisma/client';
+
+export enum AccessTokenScope {
+  TODOS_READ = 'todos:read',
+  TODOS_WRITE = 'todos:write',
+}
+
+/** Token details without the hash. */
+export type PublicAccessToken = Omit<AccessToken, 'tokenHash'>;
+
+/** Returned when a token is created; the token cannot be shown again. */
+export type IssuedAccessToken = PublicAccessToken & { token: string };
+
+export type AccessTokenWithUser = AccessToken & { user: User };
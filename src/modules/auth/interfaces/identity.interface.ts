@@ -0,0 +1,23 @@
+import { UserIdentity } from '@prisma/client';
+
+export enum AuthProvider {
+  LOCAL = 'local',
+  GOOGLE = 'google',
+  AMAZON = 'amazon',
+}
+
+export type OAuthProvider = AuthProvider.GOOGLE | AuthProvider.AMAZON;
+
+/** Profile handed over by an OAuth strategy after the provider callback. */
+export interface OAuthProfile {
+  provider: OAuthProvider;
+  providerUserId: string;
+  email: string;
+  name: string;
+  picture: string | null;
+}
+
+export interface LinkedIdentities {
+  hasPassword: boolean;
+  identities: Pick<UserIdentity, 'provider' | 'email' | 'linkedAt'>[];
+}
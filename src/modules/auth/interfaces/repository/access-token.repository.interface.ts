@@ -0,0 +1,21 @@
+import {
+  AccessTokenWithUser,
+  PublicAccessToken,
+} from '../access-token.interface';
+
+export interface CreateAccessTokenData {
+  userId: number;
+  name: string;
+  tokenHash: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+}
+
+export interface AccessTokenRepositoryInterface {
+  findAllForUser(userId: number): Promise<PublicAccessToken[]>;
+  findByHash(tokenHash: string): Promise<AccessTokenWithUser | null>;
+  create(data: CreateAccessTokenData): Promise<PublicAccessToken>;
+  touch(id: number, usedBefore: Date): Promise<void>;
+  remove(id: number, userId: number): Promise<boolean>;
+}
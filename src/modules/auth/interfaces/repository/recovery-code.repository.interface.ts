@@ -0,0 +1,6 @@
+export interface RecoveryCodeRepositoryInterface {
+  replaceAll(userId: number, codeHashes: string[]): Promise<void>;
+  consume(userId: number, codeHash: string): Promise<boolean>;
+  countUnused(userId: number): Promise<number>;
+  removeAll(userId: number): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { RefreshToken } from '@prisma/client';
+
+export interface CreateRefreshTokenData {
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+export interface RefreshTokenRepositoryInterface {
+  create(data: CreateRefreshTokenData): Promise<RefreshToken>;
+  findByHash(tokenHash: string): Promise<RefreshToken | null>;
+  rotate(
+    currentId: number,
+    next: CreateRefreshTokenData,
+  ): Promise<RefreshToken | null>;
+  revokeFamily(familyId: string): Promise<number>;
+  revokeAllForUser(userId: number, exceptFamilyId?: string): Promise<number>;
+}
@@ -0,0 +1,16 @@
+import { Session } from '@prisma/client';
+
+export interface CreateSessionData {
+  id: string;
+  userId: number;
+  authMethod: string;
+  userAgent: string | null;
+  ip: string | null;
+}
+
+export interface SessionRepositoryInterface {
+  create(data: CreateSessionData): Promise<Session>;
+  findActive(id: string): Promise<Session | null>;
+  findActiveForUser(userId: number): Promise<Session[]>;
+  touch(id: string, seenBefore: Date): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { UserIdentity } from '@prisma/client';
+
+export interface CreateUserIdentityData {
+  userId: number;
+  provider: string;
+  providerUserId: string;
+  email: string | null;
+}
+
+export interface UserIdentityRepositoryInterface {
+  create(data: CreateUserIdentityData): Promise<UserIdentity>;
+  findByProviderUserId(
+    provider: string,
+    providerUserId: string,
+  ): Promise<UserIdentity | null>;
+  findForUser(userId: number, provider: string): Promise<UserIdentity | null>;
+  findAllForUser(userId: number): Promise<UserIdentity[]>;
+  update(
+    id: number,
+    data: Pick<CreateUserIdentityData, 'providerUserId' | 'email'>,
+  ): Promise<UserIdentity>;
+  remove(id: number): Promise<void>;
+}
@@ -0,0 +1,13 @@
+import { UserToken, UserTokenType } from '@prisma/client';
+
+export interface CreateUserTokenData {
+  userId: number;
+  type: UserTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+export interface UserTokenRepositoryInterface {
+  create(data: CreateUserTokenData): Promise<UserToken>;
+  consume(tokenHash: string, type: UserTokenType): Promise<UserToken | null>;
+}
@@ -0,0 +1,26 @@
+import 'express-session';
+
+declare module 'express-session' {
+  interface SessionData {
+    // Set while an OAuth redirect links an identity instead of signing in
+    linkUserId?: number;
+  }
+}
+
+/** Where a sign-in came from, recorded on its session. */
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+/** A signed-in device as shown to its user. */
+export interface ActiveSession {
+  id: string;
+  authMethod: string;
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,20 @@
+/** Returned by a sign-in that still needs the second factor. */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  requiredForOAuth: boolean;
+  recoveryCodesLeft: number;
+}
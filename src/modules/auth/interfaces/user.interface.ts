@@ -1,10 +1,23 @@
+import { Role } from '@prisma/client';
+import { AccessTokenScope } from './access-token.interface';
+
 export interface JwtPayload {
   sub: number;
   email: string;
+  sid?: string;
+  exp?: number;
 }
 
 export interface AuthUser {
   id: number;
   email: string;
   name?: string;
+  role: Role;
+  emailVerified: boolean;
+  // Refresh token family the access token was issued for
+  sessionId?: string;
+  // Set when signed in with an API key, which only reaches these scopes
+  scopes?: AccessTokenScope[];
+  // When the access token or API key stops working, if it expires at all
+  expiresAt?: Date;
 }
@@ -0,0 +1,147 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { RateLimitStore } from '@common/rate-limit/rate-limit.interface';
+import { TooManyRequestsException } from '@common/rate-limit/too-many-requests.exception';
+
+// Failed sign-ins are counted in windows of this length
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// Each lockout within this period doubles the next one
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+type LoginSubject = `account:${string}` | `ip:${string}`;
+
+/**
+ * Tracks failed password sign-ins per account and per client IP. Too many
+ * failures lock the account or IP out, for longer with every lockout, until
+ * the lock expires, an admin lifts it or the password is reset.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    @Inject('RateLimitStore')
+    private readonly store: RateLimitStore,
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(LoginThrottleService.name);
+  }
+
+  /** Throws 429 with the time left while the account or IP is locked. */
+  async assertNotLocked(email: string, ip?: string): Promise<void> {
+    for (const subject of this.getSubjects(email, ip)) {
+      const lock = await this.safely(() =>
+        this.store.get(`login-lock:${subject}`),
+      );
+
+      if (lock) {
+        this.logger.warn(`Sign-in attempt while locked out: ${subject}`);
+        throw new TooManyRequestsException(
+          Math.ceil((lock.expiresAt - Date.now()) / 1000),
+          subject.startsWith('account:')
+            ? 'Too many failed sign-in attempts. Try again later or reset your password.'
+            : 'Too many failed sign-in attempts from this address. Try again later.',
+        );
+      }
+    }
+  }
+
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    for (const subject of this.getSubjects(email, ip)) {
+      await this.safely(() => this.countFailure(subject));
+    }
+  }
+
+  /** A successful sign-in clears the account's failures, not its lockouts. */
+  async recordSuccess(email: string): Promise<void> {
+    await this.safely(() =>
+      this.store.delete([`login-failures:${this.accountSubject(email)}`]),
+    );
+  }
+
+  /**
+   * Lifts the lockout of an account and forgets its history, so the next
+   * lockout is a short one again. Returns whether it was locked.
+   */
+  async unlock(email: string): Promise<boolean> {
+    const subject = this.accountSubject(email);
+
+    const locked = await this.safely(async () => {
+      const lock = await this.store.get(`login-lock:${subject}`);
+      await this.store.delete([
+        `login-lock:${subject}`,
+        `login-failures:${subject}`,
+        `login-lockouts:${subject}`,
+      ]);
+
+      return lock !== null;
+    });
+
+    if (locked) {
+      this.logger.log(`Lifted sign-in lockout: ${subject}`);
+    }
+
+    return locked ?? false;
+  }
+
+  private async countFailure(subject: LoginSubject): Promise<void> {
+    const failures = await this.store.increment(
+      `login-failures:${subject}`,
+      FAILURE_WINDOW_MS,
+    );
+    if (failures.value < this.getMaxFailures(subject)) {
+      return;
+    }
+
+    const lockouts = await this.store.increment(
+      `login-lockouts:${subject}`,
+      LOCKOUT_MEMORY_MS,
+    );
+    const duration = Math.min(
+      this.getBaseLockoutMs() * 2 ** (lockouts.value - 1),
+      MAX_LOCKOUT_MS,
+    );
+
+    await this.store.set(`login-lock:${subject}`, lockouts.value, duration);
+    await this.store.delete([`login-failures:${subject}`]);
+
+    this.logger.warn(
+      `Locked out ${subject} for ${Math.round(duration / 60_000)} minutes after ${failures.value} failed sign-ins`,
+    );
+  }
+
+  // Sign-ins keep working, without protection, while the store is down
+  private async safely<T>(action: () => Promise<T>): Promise<T | null> {
+    try {
+      return await action();
+    } catch (error) {
+      this.logger.error(
+        `Login throttle store failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private getSubjects(email: string, ip?: string): LoginSubject[] {
+    return [this.accountSubject(email), ...(ip ? [`ip:${ip}` as const] : [])];
+  }
+
+  // Unknown emails are tracked too, so lockouts reveal nothing about accounts
+  private accountSubject(email: string): LoginSubject {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private getMaxFailures(subject: LoginSubject): number {
+    return subject.startsWith('account:')
+      ? Number(this.configService.get<string>('LOGIN_MAX_FAILURES') || 5)
+      : Number(this.configService.get<string>('LOGIN_IP_MAX_FAILURES') || 20);
+  }
+
+  private getBaseLockoutMs(): number {
+    return (
+      Number(this.configService.get<string>('LOGIN_LOCKOUT_MINUTES') || 15) *
+      60_000
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  AccessTokenRepositoryInterface,
+  CreateAccessTokenData,
+} from '@modules/auth/interfaces/repository/access-token.repository.interface';
+import {
+  AccessTokenWithUser,
+  PublicAccessToken,
+} from '@modules/auth/interfaces/access-token.interface';
+
+// Everything but the token hash
+const PUBLIC_ACCESS_TOKEN = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+  userId: true,
+} satisfies Prisma.AccessTokenSelect;
+
+@Injectable()
+export class AccessTokenRepository implements AccessTokenRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(AccessTokenRepository.name);
+  }
+
+  async findAllForUser(userId: number): Promise<PublicAccessToken[]> {
+    return this.prisma.accessToken.findMany({
+      where: { userId },
+      select: PUBLIC_ACCESS_TOKEN,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findByHash(tokenHash: string): Promise<AccessTokenWithUser | null> {
+    return this.prisma.accessToken.findUnique({
+      where: { tokenHash },
+      include: { user: true },
+    });
+  }
+
+  async create(data: CreateAccessTokenData): Promise<PublicAccessToken> {
+    this.logger.debug(`Creating access token for user: ${data.userId}`);
+
+    return this.prisma.accessToken.create({
+      data,
+      select: PUBLIC_ACCESS_TOKEN,
+    });
+  }
+
+  /**
+   * Records a use of the token, skipping the write when the last recorded
+   * use is more recent than `usedBefore`.
+   */
+  async touch(id: number, usedBefore: Date): Promise<void> {
+    await this.prisma.accessToken.updateMany({
+      where: {
+        id,
+        OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: usedBefore } }],
+      },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  async remove(id: number, userId: number): Promise<boolean> {
+    this.logger.debug(`Removing access token: ${id}`);
+
+    const { count } = await this.prisma.accessToken.deleteMany({
+      where: { id, userId },
+    });
+
+    return count > 0;
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { RecoveryCodeRepositoryInterface } from '@modules/auth/interfaces/repository/recovery-code.repository.interface';
+
+@Injectable()
+export class RecoveryCodeRepository implements RecoveryCodeRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RecoveryCodeRepository.name);
+  }
+
+  /** Swaps every code of the user, used or not, for a fresh set. */
+  async replaceAll(userId: number, codeHashes: string[]): Promise<void> {
+    this.logger.debug(`Replacing recovery codes for user: ${userId}`);
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  /**
+   * Marks an unused code as used; the conditional update keeps concurrent
+   * sign-ins from using the same code twice.
+   */
+  async consume(userId: number, codeHash: string): Promise<boolean> {
+    const { count } = await this.prisma.recoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  async countUnused(userId: number): Promise<number> {
+    return this.prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+  }
+
+  async removeAll(userId: number): Promise<void> {
+    this.logger.debug(`Removing recovery codes for user: ${userId}`);
+    await this.prisma.recoveryCode.deleteMany({ where: { userId } });
+  }
+}
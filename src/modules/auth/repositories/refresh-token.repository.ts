@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { RefreshToken } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  CreateRefreshTokenData,
+  RefreshTokenRepositoryInterface,
+} from '@modules/auth/interfaces/repository/refresh-token.repository.interface';
+
+@Injectable()
+export class RefreshTokenRepository implements RefreshTokenRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RefreshTokenRepository.name);
+  }
+
+  async create(data: CreateRefreshTokenData): Promise<RefreshToken> {
+    this.logger.debug(
+      `Creating refresh token for user: ${data.userId} in family: ${data.familyId}`,
+    );
+
+    return this.prisma.refreshToken.create({ data });
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    return this.prisma.refreshToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  /**
+   * Replaces the current token with the next one in the same family.
+   * Returns null when the current token was already used, which means
+   * another request won the race and the caller must treat it as reuse.
+   */
+  async rotate(
+    currentId: number,
+    next: CreateRefreshTokenData,
+  ): Promise<RefreshToken | null> {
+    this.logger.debug(`Rotating refresh token: ${currentId}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: currentId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const created = await tx.refreshToken.create({ data: next });
+
+      await tx.refreshToken.update({
+        where: { id: currentId },
+        data: { replacedById: created.id },
+      });
+
+      return created;
+    });
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    this.logger.debug(`Revoking refresh token family: ${familyId}`);
+
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count;
+  }
+
+  async revokeAllForUser(
+    userId: number,
+    exceptFamilyId?: string,
+  ): Promise<number> {
+    this.logger.debug(`Revoking all refresh tokens for user: ${userId}`);
+
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptFamilyId && { familyId: { not: exceptFamilyId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return count;
+  }
+}
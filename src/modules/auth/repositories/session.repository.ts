@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Session } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  CreateSessionData,
+  SessionRepositoryInterface,
+} from '@modules/auth/interfaces/repository/session.repository.interface';
+
+// A session lives as long as its refresh token family; revoking or
+// outliving the family ends it
+const activeSession = (): Prisma.SessionWhereInput => ({
+  refreshTokens: { some: { revokedAt: null, expiresAt: { gt: new Date() } } },
+});
+
+@Injectable()
+export class SessionRepository implements SessionRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(SessionRepository.name);
+  }
+
+  async create(data: CreateSessionData): Promise<Session> {
+    this.logger.debug(`Creating session for user: ${data.userId}`);
+    return this.prisma.session.create({ data });
+  }
+
+  async findActive(id: string): Promise<Session | null> {
+    return this.prisma.session.findFirst({
+      where: { id, ...activeSession() },
+    });
+  }
+
+  async findActiveForUser(userId: number): Promise<Session[]> {
+    return this.prisma.session.findMany({
+      where: { userId, ...activeSession() },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  /**
+   * Records activity on the session, skipping the write when the last
+   * recorded activity is more recent than `seenBefore`.
+   */
+  async touch(id: string, seenBefore: Date): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { id, lastSeenAt: { lt: seenBefore } },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { UserIdentity } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  CreateUserIdentityData,
+  UserIdentityRepositoryInterface,
+} from '@modules/auth/interfaces/repository/user-identity.repository.interface';
+
+@Injectable()
+export class UserIdentityRepository implements UserIdentityRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(UserIdentityRepository.name);
+  }
+
+  async create(data: CreateUserIdentityData): Promise<UserIdentity> {
+    this.logger.debug(
+      `Linking ${data.provider} identity to user: ${data.userId}`,
+    );
+
+    return this.prisma.userIdentity.create({ data });
+  }
+
+  async findByProviderUserId(
+    provider: string,
+    providerUserId: string,
+  ): Promise<UserIdentity | null> {
+    return this.prisma.userIdentity.findUnique({
+      where: { provider_providerUserId: { provider, providerUserId } },
+    });
+  }
+
+  async findForUser(
+    userId: number,
+    provider: string,
+  ): Promise<UserIdentity | null> {
+    return this.prisma.userIdentity.findUnique({
+      where: { userId_provider: { userId, provider } },
+    });
+  }
+
+  async findAllForUser(userId: number): Promise<UserIdentity[]> {
+    return this.prisma.userIdentity.findMany({
+      where: { userId },
+      orderBy: { linkedAt: 'asc' },
+    });
+  }
+
+  async update(
+    id: number,
+    data: Pick<CreateUserIdentityData, 'providerUserId' | 'email'>,
+  ): Promise<UserIdentity> {
+    this.logger.debug(`Updating identity with id: ${id}`);
+
+    return this.prisma.userIdentity.update({ where: { id }, data });
+  }
+
+  async remove(id: number): Promise<void> {
+    this.logger.debug(`Unlinking identity with id: ${id}`);
+
+    await this.prisma.userIdentity.delete({ where: { id } });
+  }
+}
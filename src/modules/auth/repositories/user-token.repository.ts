@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { UserToken, UserTokenType } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  CreateUserTokenData,
+  UserTokenRepositoryInterface,
+} from '@modules/auth/interfaces/repository/user-token.repository.interface';
+
+@Injectable()
+export class UserTokenRepository implements UserTokenRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(UserTokenRepository.name);
+  }
+
+  /**
+   * Stores a new token and drops the unused ones of the same type, so only
+   * the most recently mailed link works.
+   */
+  async create(data: CreateUserTokenData): Promise<UserToken> {
+    this.logger.debug(`Creating ${data.type} token for user: ${data.userId}`);
+
+    const [, token] = await this.prisma.$transaction([
+      this.prisma.userToken.deleteMany({
+        where: { userId: data.userId, type: data.type, usedAt: null },
+      }),
+      this.prisma.userToken.create({ data }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Marks a valid token as used. Returns null for unknown, expired or
+   * already used tokens; the conditional update keeps concurrent requests
+   * from using the same token twice.
+   */
+  async consume(
+    tokenHash: string,
+    type: UserTokenType,
+  ): Promise<UserToken | null> {
+    const { count } = await this.prisma.userToken.updateMany({
+      where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.prisma.userToken.findUnique({ where: { tokenHash } });
+  }
+}
@@ -6,23 +6,14 @@ import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy } from 'passport-amazon';
 import { ConfigService } from '@nestjs/config';
-import { AuthService } from '../auth.service';
 import { AppLogger } from '@app/common/logger/app-logger.service';
 // import { AppLogger } from '../../common/logger/app-logger.service';
-
-type AmazonProfile = {
-  email: string;
-  name: string;
-  userId: string;
-  picture?: string;
-  accessToken: string;
-};
+import { AuthProvider, OAuthProfile } from '../interfaces/identity.interface';
 
 @Injectable()
 export class AmazonStrategy extends PassportStrategy(Strategy, 'amazon') {
   constructor(
     private readonly configService: ConfigService,
-    private readonly authService: AuthService,
     private readonly logger: AppLogger,
   ) {
     super({
@@ -36,12 +27,12 @@ export class AmazonStrategy extends PassportStrategy(Strategy, 'amazon') {
     this.logger.setContext(AmazonStrategy.name);
   }
 
-  async validate(
+  validate(
     accessToken: string,
     refreshToken: string,
     profile: any,
     done: (error: any, user: any) => void,
-  ): Promise<void> {
+  ): void {
     try {
       this.logger.debug(`Validating Amazon profile: ${profile.id}`);
 
@@ -57,11 +48,15 @@ export class AmazonStrategy extends PassportStrategy(Strategy, 'amazon') {
         );
       }
 
-      const amazonProfile: AmazonProfile = { email, name, userId, accessToken };
-      const user =
-        await this.authService.validateOrCreateAmazonUser(amazonProfile);
+      const amazonProfile: OAuthProfile = {
+        provider: AuthProvider.AMAZON,
+        providerUserId: String(userId),
+        email,
+        name,
+        picture: null,
+      };
 
-      return done(null, user);
+      return done(null, amazonProfile);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { Request } from 'express';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  ACCESS_TOKEN_PREFIX,
+  AccessTokenService,
+} from '../access-token.service';
+import { AuthUser } from '../interfaces/user.interface';
+
+/**
+ * Signs in with a personal access token sent as a bearer token. Tried
+ * after the JWT strategy, so both work on the same routes.
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private readonly accessTokenService: AccessTokenService,
+    private readonly logger: AppLogger,
+  ) {
+    super({ passReqToCallback: true });
+  }
+
+  async validate(request: Request, token: string): Promise<AuthUser | null> {
+    // The bearer strategy also reads tokens from the query string and body;
+    // API keys are only taken from the header to keep them out of URLs
+    if (
+      !token.startsWith(ACCESS_TOKEN_PREFIX) ||
+      request.headers.authorization !== `Bearer ${token}`
+    ) {
+      return null;
+    }
+
+    const user = await this.accessTokenService.authenticate(token);
+
+    if (user) {
+      this.logger.debug(`API key validated for user: ${user.id}`);
+    }
+
+    return user;
+  }
+}
@@ -2,22 +2,13 @@ import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Profile, Strategy, VerifyCallback } from 'passport-google-oauth20';
 import { ConfigService } from '@nestjs/config';
-import { AuthService } from '../auth.service';
 import { AppLogger } from '@common/logger/app-logger.service';
-
-interface GoogleProfile {
-  email: string;
-  firstName: string;
-  lastName: string;
-  picture: string;
-  accessToken: string;
-}
+import { AuthProvider, OAuthProfile } from '../interfaces/identity.interface';
 
 @Injectable()
 export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
   constructor(
     private readonly configService: ConfigService,
-    private readonly authService: AuthService,
     private readonly logger: AppLogger,
   ) {
     // Retrieve configuration values with proper typing
@@ -49,12 +40,12 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
     this.logger.log('Google authentication strategy initialized');
   }
 
-  async validate(
+  validate(
     accessToken: string,
     refreshToken: string,
     profile: Profile,
     done: VerifyCallback,
-  ): Promise<void> {
+  ): void {
     try {
       this.logger.debug(`Validating Google profile: ${profile.id}`);
       const { name, emails, photos } = profile;
@@ -67,22 +58,17 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
 
       this.logger.debug(`Google email: ${emails[0].value}`);
 
-      // Extract profile data
-      const googleProfile: GoogleProfile = {
+      // Extract profile data; the controller decides whether to sign in
+      // or to link the identity to the current user
+      const googleProfile: OAuthProfile = {
+        provider: AuthProvider.GOOGLE,
+        providerUserId: profile.id,
         email: emails[0].value,
-        firstName: name?.givenName || '',
-        lastName: name?.familyName || '',
-        picture: photos && photos.length > 0 ? photos[0].value : '',
-        accessToken,
+        name: `${name?.givenName || ''} ${name?.familyName || ''}`.trim(),
+        picture: photos && photos.length > 0 ? photos[0].value : null,
       };
 
-      // Process the user with our auth service
-      this.logger.debug('Creating or validating Google user...');
-      const user =
-        await this.authService.validateOrCreateGoogleUser(googleProfile);
-      this.logger.debug(`User validated: ${user.id}`);
-
-      return done(null, user);
+      return done(null, googleProfile);
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
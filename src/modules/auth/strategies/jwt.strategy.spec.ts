@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { JwtStrategy } from './jwt.strategy';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+
+  const mockPrisma = {
+    user: { findUnique: jest.fn() },
+  };
+
+  const mockSessionRepository = {
+    findActive: jest.fn(),
+    touch: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const payload = { sub: 1, email: 'ada@example.com', sid: 'session-1' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: ConfigService, useValue: { get: () => 'test' } },
+        {
+          provide: 'SessionRepositoryInterface',
+          useValue: mockSessionRepository,
+        },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  it('should accept tokens of an active session and record its use', async () => {
+    mockSessionRepository.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 1,
+    });
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: 1,
+      email: 'ada@example.com',
+      name: 'Ada',
+      role: Role.USER,
+      disabled: false,
+      emailVerifiedAt: new Date('2025-08-01T09:00:00Z'),
+    });
+
+    await expect(
+      strategy.validate({ ...payload, exp: 1757667600 }),
+    ).resolves.toMatchObject({
+      id: 1,
+      sessionId: 'session-1',
+      expiresAt: new Date('2025-09-12T09:00:00Z'),
+    });
+    expect(mockSessionRepository.touch).toHaveBeenCalledWith(
+      'session-1',
+      expect.any(Date) as Date,
+    );
+  });
+
+  it('should reject tokens of a revoked session at once', async () => {
+    mockSessionRepository.findActive.mockResolvedValue(null);
+
+    await expect(strategy.validate(payload)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens issued before sessions existed', async () => {
+    await expect(
+      strategy.validate({ sub: 1, email: 'ada@example.com' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(mockSessionRepository.findActive).not.toHaveBeenCalled();
+  });
+
+  it('should reject sessions of another user', async () => {
+    mockSessionRepository.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 2,
+    });
+
+    await expect(strategy.validate(payload)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+});
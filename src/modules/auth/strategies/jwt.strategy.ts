@@ -1,10 +1,29 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ExtractJwt, JwtFromRequestFunction, Strategy } from 'passport-jwt';
+import { Request } from 'express';
 import { PrismaService } from '@core/database/prisma/prisma.service';
 import { AppLogger } from '@common/logger/app-logger.service';
 import { AuthUser, JwtPayload } from '../interfaces/user.interface';
 import { ConfigService } from '@nestjs/config';
+import { SessionRepositoryInterface } from '../interfaces/repository/session.repository.interface';
+
+// The last activity of a session is recorded at most this often
+const LAST_SEEN_PRECISION_MS = 60 * 1000;
+
+/**
+ * EventSource cannot set headers, so event streams may pass the access token
+ * in the query string instead. Other requests must use the header, keeping
+ * tokens out of URLs (and logs) wherever possible.
+ */
+const fromEventStreamQuery: JwtFromRequestFunction<Request> = (request) => {
+  const token: unknown = request.query?.access_token;
+  const accept = request.headers.accept ?? '';
+
+  return accept.includes('text/event-stream') && typeof token === 'string'
+    ? token
+    : null;
+};
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -12,6 +31,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     private readonly prisma: PrismaService,
     private readonly logger: AppLogger,
     private readonly configService: ConfigService,
+    @Inject('SessionRepositoryInterface')
+    private readonly sessionRepository: SessionRepositoryInterface,
   ) {
     const jwtSecret = configService.get<string>('JWT_SECRET');
 
@@ -20,13 +41,27 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     }
 
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromEventStreamQuery,
+      ]),
       ignoreExpiration: false,
       secretOrKey: jwtSecret,
     });
   }
 
   async validate(payload: JwtPayload): Promise<AuthUser> {
+    // Access tokens are tied to a session; once it is revoked (logout,
+    // remote sign-out, reuse detection) its access tokens stop working too
+    const session = payload.sid
+      ? await this.sessionRepository.findActive(payload.sid)
+      : null;
+
+    if (!session || session.userId !== payload.sub) {
+      this.logger.warn(`JWT rejected for revoked session: ${payload.sid}`);
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
     });
@@ -36,12 +71,26 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Invalid token');
     }
 
+    if (user.disabled) {
+      this.logger.warn(`JWT rejected for disabled user: ${user.id}`);
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    await this.sessionRepository.touch(
+      session.id,
+      new Date(Date.now() - LAST_SEEN_PRECISION_MS),
+    );
+
     this.logger.debug(`JWT validated for user: ${user.id}`);
 
     return {
       id: user.id,
       email: user.email,
       name: user.name || undefined,
+      role: user.role,
+      emailVerified: user.emailVerifiedAt !== null,
+      sessionId: payload.sid,
+      expiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
     };
   }
 }
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { hashToken } from '@common/utils/token.util';
+import { TwoFactorService } from './two-factor.service';
+import { generateTotp, getTotpStep } from './utils/totp.util';
+
+// The ASCII secret "12345678901234567890" of the RFC 6238 test vectors
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const mockUserRepository = {
+    findById: jest.fn(),
+    updateUser: jest.fn(),
+    claimTwoFactorStep: jest.fn(),
+  };
+
+  const mockRecoveryCodeRepository = {
+    replaceAll: jest.fn(),
+    consume: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: 1,
+      email: 'user@example.com',
+      password: 'hash',
+      twoFactorSecret: SECRET,
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastStep: null,
+      twoFactorForOAuth: false,
+      ...overrides,
+    }) as User;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    // Keeps the time step from moving on in the middle of a test
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-08-01T09:00:10Z'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: 'UserRepositoryInterface', useValue: mockUserRepository },
+        {
+          provide: 'RecoveryCodeRepositoryInterface',
+          useValue: mockRecoveryCodeRepository,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enable', () => {
+    it('should confirm the pending secret and issue recovery codes', async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ twoFactorEnabledAt: null }),
+      );
+      mockUserRepository.claimTwoFactorStep.mockResolvedValue(true);
+
+      const { recoveryCodes } = await service.enable(
+        1,
+        generateTotp(SECRET, getTotpStep()),
+      );
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(1, {
+        twoFactorEnabledAt: expect.any(Date) as Date,
+      });
+      expect(mockRecoveryCodeRepository.replaceAll).toHaveBeenCalledWith(
+        1,
+        recoveryCodes.map((code) => hashToken(code.replace('-', ''))),
+      );
+    });
+
+    it('should need a setup first', async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ twoFactorEnabledAt: null, twoFactorSecret: null }),
+      );
+
+      await expect(service.enable(1, '123456')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a code of the current step once', async () => {
+      const step = getTotpStep();
+      mockUserRepository.claimTwoFactorStep
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      const code = generateTotp(SECRET, step);
+
+      await expect(service.verifyCode(buildUser(), code)).resolves.toBe(true);
+      await expect(service.verifyCode(buildUser(), code)).resolves.toBe(false);
+      expect(mockUserRepository.claimTwoFactorStep).toHaveBeenCalledWith(
+        1,
+        step,
+      );
+    });
+
+    it('should refuse codes of other steps', async () => {
+      const code = generateTotp(SECRET, getTotpStep() + 5);
+
+      await expect(service.verifyCode(buildUser(), code)).resolves.toBe(false);
+      expect(mockUserRepository.claimTwoFactorStep).not.toHaveBeenCalled();
+    });
+
+    it('should use up recovery codes however they are typed', async () => {
+      mockRecoveryCodeRepository.consume.mockResolvedValue(true);
+
+      await expect(
+        service.verifyCode(buildUser(), ' A1B2C-3D4E5 '),
+      ).resolves.toBe(true);
+      expect(mockRecoveryCodeRepository.consume).toHaveBeenCalledWith(
+        1,
+        hashToken('a1b2c3d4e5'),
+      );
+    });
+  });
+});
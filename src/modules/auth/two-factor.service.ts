@@ -0,0 +1,269 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { hashToken } from '@common/utils/token.util';
+import { UserRepositoryInterface } from '@app/auth/interfaces/repository/user.repository.interface';
+import { RecoveryCodeRepositoryInterface } from './interfaces/repository/recovery-code.repository.interface';
+import {
+  RecoveryCodes,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from './interfaces/two-factor.interface';
+import { ConfirmIdentityDto } from './dto/auth.dto';
+import {
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotp,
+} from './utils/totp.util';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Enrollment and checks of the TOTP second factor. Enrollment takes two
+ * steps: setup stores a pending secret, and a code from the authenticator
+ * confirms it before sign-ins ask for one.
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @Inject('UserRepositoryInterface')
+    private readonly userRepository: UserRepositoryInterface,
+    @Inject('RecoveryCodeRepositoryInterface')
+    private readonly recoveryCodeRepository: RecoveryCodeRepositoryInterface,
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TwoFactorService.name);
+  }
+
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId);
+
+    return {
+      enabled: !!user.twoFactorEnabledAt,
+      requiredForOAuth: user.twoFactorForOAuth,
+      recoveryCodesLeft: user.twoFactorEnabledAt
+        ? await this.recoveryCodeRepository.countUnused(user.id)
+        : 0,
+    };
+  }
+
+  /** Starts over with a new secret on every call until it is confirmed. */
+  async setup(userId: number): Promise<TwoFactorSetup> {
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+
+    await this.userRepository.updateUser(user.id, {
+      twoFactorSecret: secret,
+      twoFactorLastStep: null,
+    });
+
+    this.logger.log(`Two-factor setup started for user: ${user.id}`);
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(this.getIssuer(), user.email, secret),
+    };
+  }
+
+  async enable(userId: number, code: string): Promise<RecoveryCodes> {
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    if (!(await this.verifyTotpCode(user, code))) {
+      this.logger.warn(`Invalid code confirming two-factor for: ${user.id}`);
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    await this.userRepository.updateUser(user.id, {
+      twoFactorEnabledAt: new Date(),
+    });
+
+    this.logger.log(`Two-factor authentication enabled for user: ${user.id}`);
+
+    return this.issueRecoveryCodes(user.id);
+  }
+
+  async disable(
+    userId: number,
+    confirmation: ConfirmIdentityDto,
+  ): Promise<void> {
+    const user = await this.getEnabledUser(userId);
+
+    await this.confirmIdentity(user, confirmation);
+
+    await this.userRepository.updateUser(user.id, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+      twoFactorForOAuth: false,
+    });
+    await this.recoveryCodeRepository.removeAll(user.id);
+
+    this.logger.log(`Two-factor authentication disabled for user: ${user.id}`);
+  }
+
+  /** Replaces every recovery code; the old ones stop working. */
+  async regenerateRecoveryCodes(
+    userId: number,
+    code: string,
+  ): Promise<RecoveryCodes> {
+    const user = await this.getEnabledUser(userId);
+
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new ForbiddenException('Invalid authentication code');
+    }
+
+    return this.issueRecoveryCodes(user.id);
+  }
+
+  async updateSettings(
+    userId: number,
+    requireForOAuth: boolean,
+  ): Promise<TwoFactorStatus> {
+    const user = requireForOAuth
+      ? await this.getEnabledUser(userId)
+      : await this.getUser(userId);
+
+    await this.userRepository.updateUser(user.id, {
+      twoFactorForOAuth: requireForOAuth,
+    });
+
+    this.logger.log(
+      `Two-factor for OAuth sign-ins ${requireForOAuth ? 'required' : 'not required'} for user: ${user.id}`,
+    );
+
+    return this.getStatus(user.id);
+  }
+
+  /**
+   * Re-authenticates the user with the password, or with a code for
+   * accounts that only sign in through a provider.
+   */
+  async confirmIdentity(
+    user: User,
+    confirmation: ConfirmIdentityDto,
+  ): Promise<void> {
+    if (!user.password && !user.twoFactorEnabledAt) {
+      throw new ForbiddenException(
+        'Add a password or two-factor authentication to confirm this change',
+      );
+    }
+
+    const confirmed = user.password
+      ? !!confirmation.password &&
+        (await bcrypt.compare(confirmation.password, user.password))
+      : !!confirmation.code && (await this.verifyCode(user, confirmation.code));
+
+    if (!confirmed) {
+      this.logger.warn(`Failed re-authentication of user: ${user.id}`);
+      throw new ForbiddenException(
+        user.password ? 'Invalid password' : 'Invalid authentication code',
+      );
+    }
+  }
+
+  /**
+   * Accepts a code of the authenticator or an unused recovery code, which
+   * is used up.
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+      return this.verifyTotpCode(user, code);
+    }
+
+    const used = await this.recoveryCodeRepository.consume(
+      user.id,
+      hashToken(this.normalizeRecoveryCode(code)),
+    );
+
+    if (used) {
+      this.logger.log(`Recovery code used by user: ${user.id}`);
+    }
+
+    return used;
+  }
+
+  private async verifyTotpCode(user: User, code: string): Promise<boolean> {
+    const step = user.twoFactorSecret
+      ? verifyTotp(user.twoFactorSecret, code)
+      : null;
+
+    return (
+      step !== null &&
+      (await this.userRepository.claimTwoFactorStep(user.id, step))
+    );
+  }
+
+  private async issueRecoveryCodes(userId: number): Promise<RecoveryCodes> {
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      randomBytes(5)
+        .toString('hex')
+        .replace(/^(.{5})/, '$1-'),
+    );
+
+    await this.recoveryCodeRepository.replaceAll(
+      userId,
+      recoveryCodes.map((code) => hashToken(this.normalizeRecoveryCode(code))),
+    );
+
+    this.logger.log(`Recovery codes issued for user: ${userId}`);
+
+    return { recoveryCodes };
+  }
+
+  // Codes are typed by hand, so case, dashes and spaces do not matter
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^0-9a-z]/g, '');
+  }
+
+  private async getEnabledUser(userId: number): Promise<User> {
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    return user;
+  }
+
+  private async getUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private getIssuer(): string {
+    return this.configService.get<string>('TOTP_ISSUER') || 'NestJS Todo';
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  buildOtpauthUrl,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp.util';
+
+// The ASCII secret "12345678901234567890" of the RFC 6238 test vectors
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  describe('generateTotp', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ])('should match the RFC 6238 vector at %i', (seconds, code) => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000), 8)).toBe(
+        code,
+      );
+    });
+
+    it('should keep leading zeros of six digit codes', () => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe(
+        '081804',
+      );
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+    const step = getTotpStep(now);
+
+    it('should return the step of a valid code', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', 1, now)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, '081 804', 1, now)).toBe(step);
+    });
+
+    it('should accept codes one step either side', () => {
+      const previous = generateTotp(RFC_SECRET, step - 1);
+      const next = generateTotp(RFC_SECRET, step + 1);
+
+      expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, next, 1, now)).toBe(step + 1);
+    });
+
+    it('should reject codes outside the window and malformed codes', () => {
+      const old = generateTotp(RFC_SECRET, step - 2);
+
+      expect(verifyTotp(RFC_SECRET, old, 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a base32 secret of 160 bits', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(generateTotp(secret, 1)).toMatch(/^\d{6}$/);
+    });
+  });
+
+  describe('buildOtpauthUrl', () => {
+    it('should encode the label and parameters', () => {
+      expect(buildOtpauthUrl('Todo App', 'a+b@example.com', 'ABC')).toBe(
+        'otpauth://totp/Todo%20App%3Aa%2Bb%40example.com?secret=ABC&issuer=Todo+App&algorithm=SHA1&digits=6&period=30',
+      );
+    });
+  });
+});
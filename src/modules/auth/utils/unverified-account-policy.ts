@@ -0,0 +1,22 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * What accounts with an unverified email may do, set through
+ * UNVERIFIED_ACCOUNT_POLICY.
+ */
+export enum UnverifiedAccountPolicy {
+  ALLOW = 'allow',
+  READ_ONLY = 'read-only',
+  BLOCK = 'block',
+}
+
+export function getUnverifiedAccountPolicy(
+  configService: ConfigService,
+): UnverifiedAccountPolicy {
+  const value = configService.get<string>('UNVERIFIED_ACCOUNT_POLICY');
+
+  return (
+    Object.values(UnverifiedAccountPolicy).find((policy) => policy === value) ??
+    UnverifiedAccountPolicy.ALLOW
+  );
+}
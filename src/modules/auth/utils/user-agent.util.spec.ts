@@ -0,0 +1,42 @@
+import { describeUserAgent } from './user-agent.util';
+
+describe('describeUserAgent', () => {
+  it.each([
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+      'Chrome on Windows',
+    ],
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51',
+      'Edge on Windows',
+    ],
+    [
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+      'Safari on macOS',
+    ],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/124.0.6367.88 Mobile/15E148 Safari/604.1',
+      'Chrome on iOS',
+    ],
+    [
+      'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+      'Firefox on Linux',
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+      'Chrome on Android',
+    ],
+  ])('should describe browsers by name and platform', (userAgent, label) => {
+    expect(describeUserAgent(userAgent)).toBe(label);
+  });
+
+  it('should name other clients by their product token', () => {
+    expect(describeUserAgent('curl/8.5.0')).toBe('curl');
+    expect(describeUserAgent('okhttp/4.12.0')).toBe('okhttp');
+  });
+
+  it('should handle a missing user agent', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('')).toBe('Unknown device');
+  });
+});
@@ -0,0 +1,37 @@
+// Checked in order, so browsers that mention others in their user agent
+// (Edge and Opera say Chrome, Chrome says Safari) come first
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Turns a user agent into a short label like "Firefox on Windows" for
+ * session lists. Non-browser clients are named by their product token.
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser ?? platform ?? userAgent.split(/[\s/]/)[0];
+}
@@ -0,0 +1,97 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CalendarService } from './calendar.service';
+import { CalendarFeedOptionsDto } from './dto/calendar.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Calendar')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('calendar/feed')
+export class CalendarFeedController {
+  constructor(
+    private readonly calendarService: CalendarService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(CalendarFeedController.name);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the settings of own calendar feed' })
+  @ApiResponse({ status: 200, description: 'Return the feed settings' })
+  @ApiResponse({ status: 404, description: 'No calendar feed' })
+  findOne(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding calendar feed');
+    return this.calendarService.findFeed(user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a calendar feed subscription URL',
+    description:
+      'The URL contains a secret token and is only returned here and on ' +
+      'rotation; calendar apps subscribe to it without logging in',
+  })
+  @ApiResponse({ status: 201, description: 'Return the feed with its URL' })
+  @ApiResponse({ status: 404, description: 'Tag or project not found' })
+  @ApiResponse({ status: 409, description: 'Calendar feed already exists' })
+  create(
+    @CurrentUser() user: AuthUser,
+    @Body() calendarFeedOptionsDto: CalendarFeedOptionsDto,
+  ) {
+    this.logger.log('Creating calendar feed');
+    return this.calendarService.createFeed(user.id, calendarFeedOptionsDto);
+  }
+
+  @Patch()
+  @ApiOperation({ summary: 'Change what the calendar feed includes' })
+  @ApiResponse({ status: 200, description: 'Return the feed settings' })
+  @ApiResponse({ status: 404, description: 'Feed, tag or project not found' })
+  update(
+    @CurrentUser() user: AuthUser,
+    @Body() calendarFeedOptionsDto: CalendarFeedOptionsDto,
+  ) {
+    this.logger.log('Updating calendar feed');
+    return this.calendarService.updateFeed(user.id, calendarFeedOptionsDto);
+  }
+
+  @Post('rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replace the calendar feed URL',
+    description: 'The previous URL stops working immediately',
+  })
+  @ApiResponse({ status: 200, description: 'Return the feed with its URL' })
+  @ApiResponse({ status: 404, description: 'No calendar feed' })
+  rotate(@CurrentUser() user: AuthUser) {
+    this.logger.log('Rotating calendar feed');
+    return this.calendarService.rotateFeed(user.id);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Revoke the calendar feed' })
+  @ApiResponse({ status: 200, description: 'Calendar feed revoked' })
+  @ApiResponse({ status: 404, description: 'No calendar feed' })
+  remove(@CurrentUser() user: AuthUser) {
+    this.logger.log('Revoking calendar feed');
+    return this.calendarService.revokeFeed(user.id);
+  }
+}
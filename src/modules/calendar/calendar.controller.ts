@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  HttpStatus,
+  Param,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { CalendarService } from './calendar.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { matchesETag } from '@modules/todos/utils/etag.util';
+
+// Calendar apps poll often; a short cache still spares most requests
+const FEED_CACHE_CONTROL = 'private, max-age=300';
+
+/** The feed itself; the token in the path is its only credential. */
+@ApiTags('Calendar')
+@Controller('calendar')
+export class CalendarController {
+  constructor(
+    private readonly calendarService: CalendarService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(CalendarController.name);
+  }
+
+  @Get(':token.ics')
+  @ApiOperation({
+    summary: 'Get a calendar feed',
+    description:
+      'Dated todos as iCalendar events or tasks. Send the ETag back as ' +
+      'If-None-Match to get 304 while nothing changed',
+  })
+  @ApiParam({ name: 'token', description: 'Secret feed token' })
+  @ApiProduces('text/calendar')
+  @ApiResponse({ status: 200, description: 'Return the calendar' })
+  @ApiResponse({ status: 304, description: 'Calendar not modified' })
+  @ApiResponse({ status: 404, description: 'Unknown or revoked feed' })
+  async findOne(
+    @Param('token') token: string,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    this.logger.log('Rendering calendar feed');
+
+    const { body, etag } = await this.calendarService.render(token);
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', FEED_CACHE_CONTROL);
+
+    if (ifNoneMatch && matchesETag(ifNoneMatch, etag, true)) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    return body;
+  }
+}
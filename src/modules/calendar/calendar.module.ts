@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '@common/common.module';
+import { ProjectsModule } from '@modules/projects/projects.module';
+import { TagsModule } from '@modules/tags/tags.module';
+import { CalendarService } from './calendar.service';
+import { CalendarController } from './calendar.controller';
+import { CalendarFeedController } from './calendar-feed.controller';
+import { CalendarFeedRepository } from './repositories/calendar-feed.repository';
+
+@Module({
+  imports: [CommonModule, ProjectsModule, TagsModule],
+  controllers: [CalendarFeedController, CalendarController],
+  providers: [
+    CalendarService,
+    CalendarFeedRepository,
+    {
+      provide: 'CalendarFeedRepositoryInterface',
+      useClass: CalendarFeedRepository,
+    },
+  ],
+})
+export class CalendarModule {}
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CalendarEntryType, CalendarFeed, Todo } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { hashToken } from '@common/utils/token.util';
+import { ProjectsService } from '@modules/projects/projects.service';
+import { TagsService } from '@modules/tags/tags.service';
+import { CalendarService } from './calendar.service';
+
+describe('CalendarService', () => {
+  let service: CalendarService;
+
+  const mockRepository = {
+    findByUserId: jest.fn(),
+    findActiveByTokenHash: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    findTodos: jest.fn(),
+  };
+
+  const mockTagsService = {
+    resolveTagIds: jest.fn(),
+  };
+
+  const mockProjectsService = {
+    ensureExists: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildFeed = (overrides: Partial<CalendarFeed> = {}): CalendarFeed => ({
+    id: 1,
+    tokenHash: hashToken('secret'),
+    entryType: CalendarEntryType.EVENT,
+    includeCompleted: false,
+    tagIds: [],
+    projectIds: [],
+    createdAt: new Date('2025-08-01T09:00:00Z'),
+    updatedAt: new Date('2025-08-01T09:00:00Z'),
+    userId: 1,
+    ...overrides,
+  });
+
+  const buildTodo = (overrides: Partial<Todo> = {}) => ({
+    id: 1,
+    title: 'Water the plants',
+    description: null,
+    completed: false,
+    dueDate: new Date('2025-08-05T09:00:00Z'),
+    createdAt: new Date('2025-08-01T09:00:00Z'),
+    updatedAt: new Date('2025-08-01T09:00:00Z'),
+    userId: 1,
+    projectId: null,
+    parentId: null,
+    position: 0,
+    recurrence: null,
+    occurrence: 1,
+    deletedAt: null,
+    version: 1,
+    fieldVersions: {},
+    clientId: null,
+    tags: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarService,
+        {
+          provide: 'CalendarFeedRepositoryInterface',
+          useValue: mockRepository,
+        },
+        { provide: TagsService, useValue: mockTagsService },
+        { provide: ProjectsService, useValue: mockProjectsService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<CalendarService>(CalendarService);
+  });
+
+  describe('createFeed', () => {
+    it('should store only the token hash and return the URL once', async () => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'APP_URL' ? 'https://todo.example.com/' : undefined,
+      );
+      mockRepository.findByUserId.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(buildFeed());
+
+      const result = await service.createFeed(1, { projectIds: [3] });
+
+      const token = /\/calendar\/(.+)\.ics$/.exec(result.url)?.[1] ?? '';
+      expect(result.url).toMatch(/^https:\/\/todo\.example\.com\/calendar\//);
+      expect(mockRepository.create).toHaveBeenCalledWith(1, hashToken(token), {
+        projectIds: [3],
+      });
+      expect(mockProjectsService.ensureExists).toHaveBeenCalledWith(3, 1);
+    });
+
+    it('should refuse a second feed', async () => {
+      mockRepository.findByUserId.mockResolvedValue(buildFeed());
+
+      await expect(service.createFeed(1, {})).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotateFeed', () => {
+    it('should replace the token hash', async () => {
+      mockRepository.findByUserId.mockResolvedValue(buildFeed());
+      mockRepository.update.mockResolvedValue(buildFeed());
+
+      const result = await service.rotateFeed(1);
+
+      const token = /\/calendar\/(.+)\.ics$/.exec(result.url)?.[1] ?? '';
+      expect(mockRepository.update).toHaveBeenCalledWith(1, {
+        tokenHash: hashToken(token),
+      });
+    });
+  });
+
+  describe('render', () => {
+    it('should render dated todos as events and undated ones as tasks', async () => {
+      mockRepository.findActiveByTokenHash.mockResolvedValue(buildFeed());
+      mockRepository.findTodos.mockResolvedValue([
+        buildTodo(),
+        buildTodo({ id: 2, title: 'Call Ada', dueDate: null }),
+      ]);
+
+      const { body, etag } = await service.render('secret');
+
+      expect(mockRepository.findActiveByTokenHash).toHaveBeenCalledWith(
+        hashToken('secret'),
+      );
+      expect(body).toContain('BEGIN:VEVENT\r\nUID:todo-1@nestjs-todo');
+      expect(body).toContain('BEGIN:VTODO\r\nUID:todo-2@nestjs-todo');
+      expect(etag).toMatch(/^"[\w-]+"$/);
+    });
+
+    it('should keep the ETag until the todos change', async () => {
+      mockRepository.findActiveByTokenHash.mockResolvedValue(buildFeed());
+      mockRepository.findTodos.mockResolvedValueOnce([buildTodo()]);
+      mockRepository.findTodos.mockResolvedValueOnce([buildTodo()]);
+      mockRepository.findTodos.mockResolvedValueOnce([
+        buildTodo({
+          completed: true,
+          updatedAt: new Date('2025-08-02T09:00:00Z'),
+        }),
+      ]);
+
+      const first = await service.render('secret');
+      const second = await service.render('secret');
+      const third = await service.render('secret');
+
+      expect(second.etag).toBe(first.etag);
+      expect(third.etag).not.toBe(first.etag);
+    });
+
+    it('should not render revoked or unknown tokens', async () => {
+      mockRepository.findActiveByTokenHash.mockResolvedValue(null);
+
+      await expect(service.render('secret')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(mockRepository.findTodos).not.toHaveBeenCalled();
+    });
+  });
+});
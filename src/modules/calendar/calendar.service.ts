@@ -0,0 +1,180 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CalendarEntryType } from '@prisma/client';
+import { createHash } from 'crypto';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { generateSecureToken, hashToken } from '@common/utils/token.util';
+import { CalendarFeedRepositoryInterface } from '@modules/calendar/interfaces/repository/calendar-feed.repository.interface';
+import {
+  CalendarFeedBody,
+  IssuedCalendarFeed,
+  PublicCalendarFeed,
+} from '@modules/calendar/interfaces/calendar.interface';
+import { ProjectsService } from '@modules/projects/projects.service';
+import { TagsService } from '@modules/tags/tags.service';
+import {
+  icalFooter,
+  icalHeader,
+  serializeICalLines,
+  todoToICal,
+  toVEvent,
+  toVTodo,
+} from '@modules/todos/utils/ical.util';
+import { CalendarFeedOptionsDto } from './dto/calendar.dto';
+
+// Keeps a feed bounded for users with very many dated todos
+const FEED_TODO_LIMIT = 5000;
+
+// How often calendar apps are asked to poll, as an iCalendar duration
+const REFRESH_INTERVAL = 'PT15M';
+
+/**
+ * Publishes a user's dated todos as an iCalendar feed that calendar apps
+ * subscribe to. The secret token in the URL is the only credential, so it
+ * can be rotated or revoked at any time.
+ */
+@Injectable()
+export class CalendarService {
+  constructor(
+    @Inject('CalendarFeedRepositoryInterface')
+    private readonly calendarFeedRepository: CalendarFeedRepositoryInterface,
+    private readonly tagsService: TagsService,
+    private readonly projectsService: ProjectsService,
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(CalendarService.name);
+  }
+
+  async findFeed(userId: number): Promise<PublicCalendarFeed> {
+    const feed = await this.calendarFeedRepository.findByUserId(userId);
+
+    if (!feed) {
+      this.logger.warn(`Calendar feed not found for user: ${userId}`);
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    return feed;
+  }
+
+  /** The feed URL is only returned here and when the token is rotated. */
+  async createFeed(
+    userId: number,
+    options: CalendarFeedOptionsDto,
+  ): Promise<IssuedCalendarFeed> {
+    this.logger.log(`Creating calendar feed for user: ${userId}`);
+
+    if (await this.calendarFeedRepository.findByUserId(userId)) {
+      throw new ConflictException(
+        'Calendar feed already exists; rotate it for a new URL',
+      );
+    }
+    await this.validateOptions(userId, options);
+
+    const token = generateSecureToken(32);
+    const feed = await this.calendarFeedRepository.create(
+      userId,
+      hashToken(token),
+      options,
+    );
+
+    return { ...feed, url: this.feedUrl(token) };
+  }
+
+  async updateFeed(
+    userId: number,
+    options: CalendarFeedOptionsDto,
+  ): Promise<PublicCalendarFeed> {
+    this.logger.log(`Updating calendar feed for user: ${userId}`);
+
+    await this.findFeed(userId);
+    await this.validateOptions(userId, options);
+
+    return this.calendarFeedRepository.update(userId, options);
+  }
+
+  /** Issues a new URL; the old one stops working right away. */
+  async rotateFeed(userId: number): Promise<IssuedCalendarFeed> {
+    this.logger.log(`Rotating calendar feed token for user: ${userId}`);
+
+    await this.findFeed(userId);
+
+    const token = generateSecureToken(32);
+    const feed = await this.calendarFeedRepository.update(userId, {
+      tokenHash: hashToken(token),
+    });
+
+    return { ...feed, url: this.feedUrl(token) };
+  }
+
+  async revokeFeed(userId: number): Promise<PublicCalendarFeed> {
+    this.logger.log(`Revoking calendar feed for user: ${userId}`);
+
+    await this.findFeed(userId);
+
+    return this.calendarFeedRepository.remove(userId);
+  }
+
+  /**
+   * Renders the feed behind a token. The ETag is a digest of the body, which
+   * only changes with the todos since timestamps come from the todos too.
+   */
+  async render(token: string): Promise<CalendarFeedBody> {
+    const feed = await this.calendarFeedRepository.findActiveByTokenHash(
+      hashToken(token),
+    );
+
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const todos = await this.calendarFeedRepository.findTodos(
+      feed,
+      FEED_TODO_LIMIT,
+    );
+    const entries = todos.flatMap((todo) => {
+      const entry = todoToICal(todo);
+
+      return feed.entryType === CalendarEntryType.TODO || !entry.due
+        ? toVTodo(entry)
+        : toVEvent({ ...entry, due: entry.due });
+    });
+
+    const body = serializeICalLines([
+      ...icalHeader('Todos'),
+      `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+      `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+      ...entries,
+      ...icalFooter(),
+    ]);
+    const digest = createHash('sha1').update(body).digest('base64url');
+
+    return { body, etag: `"${digest}"` };
+  }
+
+  private async validateOptions(
+    userId: number,
+    options: CalendarFeedOptionsDto,
+  ): Promise<void> {
+    if (options.tagIds?.length) {
+      await this.tagsService.resolveTagIds(userId, options.tagIds);
+    }
+
+    for (const projectId of options.projectIds ?? []) {
+      await this.projectsService.ensureExists(projectId, userId);
+    }
+  }
+
+  private feedUrl(token: string): string {
+    const baseUrl =
+      this.configService.get<string>('APP_URL') ||
+      `http://localhost:${this.configService.get<string>('PORT') || 9001}`;
+
+    return `${baseUrl.replace(/\/+$/, '')}/calendar/${token}.ics`;
+  }
+}
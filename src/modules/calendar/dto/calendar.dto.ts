@@ -0,0 +1,47 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CalendarEntryType } from '@prisma/client';
+
+export class CalendarFeedOptionsDto {
+  @ApiPropertyOptional({
+    enum: CalendarEntryType,
+    default: CalendarEntryType.EVENT,
+    description:
+      'Render todos as events, which every calendar app shows, or as tasks',
+  })
+  @IsEnum(CalendarEntryType, { message: 'Entry type must be TODO or EVENT' })
+  @IsOptional()
+  entryType?: CalendarEntryType;
+
+  @ApiPropertyOptional({ example: false, default: false })
+  @IsBoolean({ message: 'includeCompleted must be a boolean' })
+  @IsOptional()
+  includeCompleted?: boolean;
+
+  @ApiPropertyOptional({
+    example: [1, 2],
+    description: 'Only todos with any of these tags; empty for all',
+  })
+  @IsArray({ message: 'Tag IDs must be an array' })
+  @ArrayUnique({ message: 'Tag IDs must be unique' })
+  @IsInt({ each: true, message: 'Each tag ID must be an integer' })
+  @IsOptional()
+  tagIds?: number[];
+
+  @ApiPropertyOptional({
+    example: [3],
+    description: 'Only todos in these projects; empty for all',
+  })
+  @IsArray({ message: 'Project IDs must be an array' })
+  @ArrayUnique({ message: 'Project IDs must be unique' })
+  @IsInt({ each: true, message: 'Each project ID must be an integer' })
+  @IsOptional()
+  projectIds?: number[];
+}
@@ -0,0 +1,12 @@
+import { CalendarFeed } from '@prisma/client';
+
+/** Feed settings without the token hash. */
+export type PublicCalendarFeed = Omit<CalendarFeed, 'tokenHash'>;
+
+/** Returned when a token is issued; the URL cannot be shown again. */
+export type IssuedCalendarFeed = PublicCalendarFeed & { url: string };
+
+export interface CalendarFeedBody {
+  body: string;
+  etag: string;
+}
@@ -0,0 +1,22 @@
+import { CalendarFeed, Todo } from '@prisma/client';
+import { PublicCalendarFeed } from '../calendar.interface';
+import { CalendarFeedOptionsDto } from '../../dto/calendar.dto';
+
+export interface CalendarFeedRepositoryInterface {
+  findByUserId(userId: number): Promise<PublicCalendarFeed | null>;
+  findActiveByTokenHash(tokenHash: string): Promise<CalendarFeed | null>;
+  create(
+    userId: number,
+    tokenHash: string,
+    options: CalendarFeedOptionsDto,
+  ): Promise<PublicCalendarFeed>;
+  update(
+    userId: number,
+    data: CalendarFeedOptionsDto & { tokenHash?: string },
+  ): Promise<PublicCalendarFeed>;
+  remove(userId: number): Promise<PublicCalendarFeed>;
+  findTodos(
+    feed: CalendarFeed,
+    take: number,
+  ): Promise<(Todo & { tags: { tag: { name: string } }[] })[]>;
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { CalendarFeed, Prisma, Todo } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { CalendarFeedRepositoryInterface } from '@modules/calendar/interfaces/repository/calendar-feed.repository.interface';
+import { PublicCalendarFeed } from '@modules/calendar/interfaces/calendar.interface';
+import { CalendarFeedOptionsDto } from '../dto/calendar.dto';
+
+// Everything but the token hash
+const PUBLIC_CALENDAR_FEED = {
+  id: true,
+  entryType: true,
+  includeCompleted: true,
+  tagIds: true,
+  projectIds: true,
+  createdAt: true,
+  updatedAt: true,
+  userId: true,
+} satisfies Prisma.CalendarFeedSelect;
+
+@Injectable()
+export class CalendarFeedRepository implements CalendarFeedRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(CalendarFeedRepository.name);
+  }
+
+  async findByUserId(userId: number): Promise<PublicCalendarFeed | null> {
+    return this.prisma.calendarFeed.findUnique({
+      where: { userId },
+      select: PUBLIC_CALENDAR_FEED,
+    });
+  }
+
+  /** Feeds of disabled users stop working without being revoked. */
+  async findActiveByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    return this.prisma.calendarFeed.findFirst({
+      where: { tokenHash, user: { disabled: false } },
+    });
+  }
+
+  async create(
+    userId: number,
+    tokenHash: string,
+    options: CalendarFeedOptionsDto,
+  ): Promise<PublicCalendarFeed> {
+    this.logger.debug(`Creating calendar feed for user: ${userId}`);
+
+    return this.prisma.calendarFeed.create({
+      data: { ...options, tokenHash, userId },
+      select: PUBLIC_CALENDAR_FEED,
+    });
+  }
+
+  async update(
+    userId: number,
+    data: CalendarFeedOptionsDto & { tokenHash?: string },
+  ): Promise<PublicCalendarFeed> {
+    this.logger.debug(`Updating calendar feed for user: ${userId}`);
+
+    return this.prisma.calendarFeed.update({
+      where: { userId },
+      data,
+      select: PUBLIC_CALENDAR_FEED,
+    });
+  }
+
+  async remove(userId: number): Promise<PublicCalendarFeed> {
+    this.logger.debug(`Removing calendar feed for user: ${userId}`);
+
+    return this.prisma.calendarFeed.delete({
+      where: { userId },
+      select: PUBLIC_CALENDAR_FEED,
+    });
+  }
+
+  /** Own live todos with a due date that pass the feed's filters, latest first. */
+  async findTodos(
+    feed: CalendarFeed,
+    take: number,
+  ): Promise<(Todo & { tags: { tag: { name: string } }[] })[]> {
+    return this.prisma.todo.findMany({
+      where: {
+        userId: feed.userId,
+        deletedAt: null,
+        dueDate: { not: null },
+        ...(feed.includeCompleted ? {} : { completed: false }),
+        ...(feed.tagIds.length > 0
+          ? { tags: { some: { tagId: { in: feed.tagIds } } } }
+          : {}),
+        ...(feed.projectIds.length > 0
+          ? { projectId: { in: feed.projectIds } }
+          : {}),
+      },
+      orderBy: [{ dueDate: 'desc' }, { id: 'asc' }],
+      take,
+      include: { tags: { select: { tag: { select: { name: true } } } } },
+    });
+  }
+}
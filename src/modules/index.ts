@@ -1,3 +1,13 @@
 export * from './auth/auth.module';
 export * from './todos/todos.module';
+export * from './projects/projects.module';
+export * from './tags/tags.module';
+export * from './admin/admin.module';
+export * from './shares/shares.module';
+export * from './notifications/notifications.module';
+export * from './reminders/reminders.module';
+export * from './webhooks/webhooks.module';
+export * from './realtime/realtime.module';
+export * from './calendar/calendar.module';
+export * from './users/users.module';
 // Export other module components as needed
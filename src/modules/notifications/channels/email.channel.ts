@@ -0,0 +1,24 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { NotificationChannelType } from '@prisma/client';
+import { MailerService } from '@common/mailer/mailer.interface';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from '@modules/notifications/interfaces/notification-channel.interface';
+
+@Injectable()
+export class EmailChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.EMAIL;
+
+  constructor(
+    @Inject('MailerService') private readonly mailerService: MailerService,
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.mailerService.send({
+      to: message.email,
+      subject: message.title,
+      text: message.body,
+    });
+  }
+}
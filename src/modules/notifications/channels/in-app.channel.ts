@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { NotificationChannelType } from '@prisma/client';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from '@modules/notifications/interfaces/notification-channel.interface';
+import { NotificationRepositoryInterface } from '@modules/notifications/interfaces/repository/notification.repository.interface';
+
+/** Stores the message in the user's notifications inbox. */
+@Injectable()
+export class InAppChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.IN_APP;
+
+  constructor(
+    @Inject('NotificationRepositoryInterface')
+    private readonly notificationRepository: NotificationRepositoryInterface,
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.notificationRepository.createOnce(message);
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannelType } from '@prisma/client';
+import { fetchPublicUrl } from '@common/utils/outbound-url.util';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from '@modules/notifications/interfaces/notification-channel.interface';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Posts the message as JSON. Receivers should use the Idempotency-Key header
+ * to drop messages that arrive twice after a retry.
+ */
+@Injectable()
+export class WebhookChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.WEBHOOK;
+
+  async send(message: NotificationMessage): Promise<void> {
+    if (!message.webhookUrl) {
+      throw new Error('No webhook URL configured');
+    }
+
+    // Redirects are not followed: they could lead to an internal address
+    const response = await fetchPublicUrl(message.webhookUrl, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': message.dedupeKey,
+      },
+      body: JSON.stringify({
+        title: message.title,
+        body: message.body,
+        todoId: message.todoId,
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
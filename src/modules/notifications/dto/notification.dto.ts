@@ -0,0 +1,26 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ToBoolean } from '@common/transformers/to-boolean.transformer';
+
+export class NotificationQueryDto {
+  @ApiPropertyOptional({ example: true, description: 'Only unread ones' })
+  @ToBoolean()
+  @IsBoolean({ message: 'Unread must be a boolean' })
+  @IsOptional()
+  unread?: boolean;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    example: 42,
+    description: 'ID of the last notification from the previous page',
+  })
+  @IsInt({ message: 'Cursor must be an integer' })
+  @IsOptional()
+  cursor?: number;
+}
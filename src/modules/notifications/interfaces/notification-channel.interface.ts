@@ -0,0 +1,21 @@
+import { NotificationChannelType } from '@prisma/client';
+
+export interface NotificationMessage {
+  userId: number;
+  email: string;
+  title: string;
+  body: string;
+  todoId?: number;
+  /** Stable per message so channels can drop repeated deliveries. */
+  dedupeKey: string;
+  webhookUrl?: string | null;
+}
+
+/**
+ * A way of reaching a user. Channels are registered under the
+ * 'NotificationChannels' token; adding one needs no change elsewhere.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(message: NotificationMessage): Promise<void>;
+}
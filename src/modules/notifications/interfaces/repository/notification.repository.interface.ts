@@ -0,0 +1,16 @@
+import { Notification } from '@prisma/client';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { NotificationMessage } from '../notification-channel.interface';
+import { NotificationQueryDto } from '../../dto/notification.dto';
+
+export interface NotificationRepositoryInterface {
+  createOnce(message: NotificationMessage): Promise<void>;
+  findMany(
+    userId: number,
+    query: NotificationQueryDto,
+  ): Promise<PaginatedResult<Notification>>;
+  countUnread(userId: number): Promise<number>;
+  findOne(id: number, userId: number): Promise<Notification | null>;
+  setRead(id: number, read: boolean): Promise<Notification>;
+  markAllRead(userId: number): Promise<number>;
+}
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { NotificationQueryDto } from './dto/notification.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Notifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(NotificationsController.name);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List in-app notifications, newest first' })
+  @ApiResponse({ status: 200, description: 'Return a page of notifications' })
+  findAll(@CurrentUser() user: AuthUser, @Query() query: NotificationQueryDto) {
+    this.logger.log('Finding notifications');
+    return this.notificationsService.findAll(user.id, query);
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Count unread notifications' })
+  @ApiResponse({ status: 200, description: 'Return the unread count' })
+  countUnread(@CurrentUser() user: AuthUser) {
+    this.logger.log('Counting unread notifications');
+    return this.notificationsService.countUnread(user.id);
+  }
+
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark every notification as read' })
+  @ApiResponse({ status: 200, description: 'Return how many were updated' })
+  markAllRead(@CurrentUser() user: AuthUser) {
+    this.logger.log('Marking all notifications read');
+    return this.notificationsService.markAllRead(user.id);
+  }
+
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  markRead(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Marking notification ${id} as read`);
+    return this.notificationsService.markRead(+id, user.id, true);
+  }
+
+  @Post(':id/unread')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a notification as unread' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({ status: 200, description: 'Notification marked as unread' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  markUnread(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Marking notification ${id} as unread`);
+    return this.notificationsService.markRead(+id, user.id, false);
+  }
+}
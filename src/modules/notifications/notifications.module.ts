@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '@common/common.module';
+import { MailerModule } from '@common/mailer/mailer.module';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { NotificationRepository } from './repositories/notification.repository';
+import { InAppChannel } from './channels/in-app.channel';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import { NotificationChannel } from './interfaces/notification-channel.interface';
+
+@Module({
+  imports: [CommonModule, MailerModule],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    NotificationRepository,
+    {
+      provide: 'NotificationRepositoryInterface',
+      useClass: NotificationRepository,
+    },
+    InAppChannel,
+    EmailChannel,
+    WebhookChannel,
+    {
+      provide: 'NotificationChannels',
+      inject: [InAppChannel, EmailChannel, WebhookChannel],
+      useFactory: (...channels: NotificationChannel[]) => channels,
+    },
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,78 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Notification, NotificationChannelType } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from '@modules/notifications/interfaces/notification-channel.interface';
+import { NotificationRepositoryInterface } from '@modules/notifications/interfaces/repository/notification.repository.interface';
+import { NotificationQueryDto } from './dto/notification.dto';
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    @Inject('NotificationRepositoryInterface')
+    private readonly notificationRepository: NotificationRepositoryInterface,
+    @Inject('NotificationChannels')
+    private readonly channels: NotificationChannel[],
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(NotificationsService.name);
+  }
+
+  /** Delivers through one channel; errors are left to the caller to retry. */
+  async send(
+    type: NotificationChannelType,
+    message: NotificationMessage,
+  ): Promise<void> {
+    const channel = this.channels.find((channel) => channel.type === type);
+
+    if (!channel) {
+      throw new Error(`No notification channel registered for ${type}`);
+    }
+
+    this.logger.log(`Sending ${message.dedupeKey} through ${type}`);
+    await channel.send(message);
+  }
+
+  async findAll(userId: number, query: NotificationQueryDto) {
+    this.logger.log(`Finding notifications for user: ${userId}`);
+    return this.notificationRepository.findMany(userId, query);
+  }
+
+  async countUnread(userId: number) {
+    return { unread: await this.notificationRepository.countUnread(userId) };
+  }
+
+  async markRead(id: number, userId: number, read: boolean) {
+    this.logger.log(`Marking notification ${id} as read: ${read}`);
+
+    const notification = await this.getNotification(id, userId);
+
+    // Keep the original read time when it is already read
+    if (!!notification.readAt === read) {
+      return notification;
+    }
+
+    return this.notificationRepository.setRead(id, read);
+  }
+
+  async markAllRead(userId: number) {
+    this.logger.log(`Marking all notifications read for user: ${userId}`);
+    return { updated: await this.notificationRepository.markAllRead(userId) };
+  }
+
+  private async getNotification(
+    id: number,
+    userId: number,
+  ): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne(id, userId);
+
+    if (!notification) {
+      this.logger.warn(`Notification ${id} not found for user: ${userId}`);
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+
+    return notification;
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { Notification, Prisma } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { NotificationRepositoryInterface } from '@modules/notifications/interfaces/repository/notification.repository.interface';
+import { NotificationMessage } from '@modules/notifications/interfaces/notification-channel.interface';
+import { NotificationQueryDto } from '../dto/notification.dto';
+
+@Injectable()
+export class NotificationRepository implements NotificationRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(NotificationRepository.name);
+  }
+
+  async createOnce(message: NotificationMessage): Promise<void> {
+    this.logger.debug(`Storing notification: ${message.dedupeKey}`);
+
+    // The unique dedupe key turns a repeated delivery into a no-op
+    await this.prisma.notification.createMany({
+      data: [
+        {
+          userId: message.userId,
+          title: message.title,
+          body: message.body,
+          todoId: message.todoId,
+          dedupeKey: message.dedupeKey,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  async findMany(
+    userId: number,
+    query: NotificationQueryDto,
+  ): Promise<PaginatedResult<Notification>> {
+    this.logger.debug(`Finding notifications for user: ${userId}`);
+
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(query.unread !== undefined && {
+        readAt: query.unread ? null : { not: null },
+      }),
+    };
+    const limit = query.limit ?? 20;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: limit + 1,
+        ...(query.cursor !== undefined
+          ? { cursor: { id: query.cursor }, skip: 1 }
+          : {}),
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      items,
+      total,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
+  async countUnread(userId: number): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  async findOne(id: number, userId: number): Promise<Notification | null> {
+    return this.prisma.notification.findFirst({ where: { id, userId } });
+  }
+
+  async setRead(id: number, read: boolean): Promise<Notification> {
+    this.logger.debug(`Marking notification ${id} as read: ${read}`);
+
+    return this.prisma.notification.update({
+      where: { id },
+      data: { readAt: read ? new Date() : null },
+    });
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    this.logger.debug(`Marking all notifications read for user: ${userId}`);
+
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return count;
+  }
+}
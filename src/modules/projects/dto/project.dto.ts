@@ -0,0 +1,87 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ToBoolean } from '@common/transformers/to-boolean.transformer';
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Work' })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiPropertyOptional({ example: '#3b82f6' })
+  @Matches(HEX_COLOR, { message: 'Color must be a hex value like #3b82f6' })
+  @IsOptional()
+  color?: string;
+
+  @ApiPropertyOptional({
+    example: 0,
+    description: 'Sort position; defaults to the end of the list',
+  })
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  position?: number;
+}
+
+export class UpdateProjectDto {
+  @ApiPropertyOptional({ example: 'Personal' })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name must not be empty' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ example: '#22c55e' })
+  @Matches(HEX_COLOR, { message: 'Color must be a hex value like #22c55e' })
+  @IsOptional()
+  color?: string;
+
+  @ApiPropertyOptional({ example: true })
+  @IsBoolean({ message: 'Archived must be a boolean' })
+  @IsOptional()
+  archived?: boolean;
+
+  @ApiPropertyOptional({ example: 2 })
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  position?: number;
+}
+
+export class ProjectQueryDto {
+  @ApiPropertyOptional({ example: false, default: false })
+  @ToBoolean()
+  @IsBoolean({ message: 'includeArchived must be a boolean' })
+  @IsOptional()
+  includeArchived?: boolean;
+}
+
+export enum ProjectDeleteMode {
+  /** Delete the project and move all of its todos to the trash */
+  CASCADE = 'cascade',
+  /** Delete the project and move its todos back to the inbox */
+  INBOX = 'inbox',
+}
+
+export class DeleteProjectQueryDto {
+  @ApiPropertyOptional({
+    enum: ProjectDeleteMode,
+    default: ProjectDeleteMode.INBOX,
+  })
+  @IsEnum(ProjectDeleteMode, { message: 'Mode must be cascade or inbox' })
+  @IsOptional()
+  mode?: ProjectDeleteMode = ProjectDeleteMode.INBOX;
+}
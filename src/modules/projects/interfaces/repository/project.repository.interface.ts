@@ -0,0 +1,15 @@
+import { Project } from '@prisma/client';
+import { CreateProjectDto, UpdateProjectDto } from '../../dto/project.dto';
+
+export interface ProjectRepositoryInterface {
+  create(userId: number, createProjectDto: CreateProjectDto): Promise<Project>;
+  findAll(userId: number, includeArchived: boolean): Promise<Project[]>;
+  findOne(id: number, userId: number): Promise<Project | null>;
+  update(
+    id: number,
+    userId: number,
+    updateProjectDto: UpdateProjectDto,
+  ): Promise<Project>;
+  remove(id: number, userId: number): Promise<Project>;
+  exists(id: number, userId: number): Promise<boolean>;
+}
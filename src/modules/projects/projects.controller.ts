@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import {
+  CreateProjectDto,
+  DeleteProjectQueryDto,
+  ProjectDeleteMode,
+  ProjectQueryDto,
+  UpdateProjectDto,
+} from './dto/project.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Projects')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects')
+export class ProjectsController {
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ProjectsController.name);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new project' })
+  @ApiResponse({ status: 201, description: 'Project successfully created' })
+  create(
+    @CurrentUser() user: AuthUser,
+    @Body() createProjectDto: CreateProjectDto,
+  ) {
+    this.logger.log('Creating project');
+    return this.projectsService.create(user.id, createProjectDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all projects for the authenticated user' })
+  @ApiResponse({ status: 200, description: 'Return projects in order' })
+  findAll(@CurrentUser() user: AuthUser, @Query() query: ProjectQueryDto) {
+    this.logger.log('Finding all projects');
+    return this.projectsService.findAll(user.id, query.includeArchived);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a project by ID' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'Return the project' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Finding project with id: ${id}`);
+    return this.projectsService.findOne(+id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a project' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'Project successfully updated' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() updateProjectDto: UpdateProjectDto,
+  ) {
+    this.logger.log(`Updating project with id: ${id}`);
+    return this.projectsService.update(+id, user.id, updateProjectDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a project',
+    description:
+      'mode=inbox (default) keeps the todos without a project; mode=cascade moves them to the trash',
+  })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'Project successfully deleted' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query() query: DeleteProjectQueryDto,
+  ) {
+    this.logger.log(`Removing project with id: ${id}`);
+    return this.projectsService.remove(
+      +id,
+      user.id,
+      query.mode ?? ProjectDeleteMode.INBOX,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+import { ProjectsController } from './projects.controller';
+import { ProjectRepository } from './repositories/project.repository';
+import { CommonModule } from '@common/common.module';
+import { TodosModule } from '@modules/todos/todos.module';
+
+@Module({
+  imports: [CommonModule, forwardRef(() => TodosModule)],
+  controllers: [ProjectsController],
+  providers: [
+    ProjectsService,
+    ProjectRepository,
+    {
+      provide: 'ProjectRepositoryInterface',
+      useClass: ProjectRepository,
+    },
+  ],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodosService } from '@modules/todos/todos.service';
+import { ProjectsService } from './projects.service';
+import { ProjectDeleteMode } from './dto/project.dto';
+
+describe('ProjectsService', () => {
+  let service: ProjectsService;
+
+  const mockRepository = {
+    remove: jest.fn(),
+    exists: jest.fn(),
+  };
+
+  const mockTodosService = {
+    removeProjectTodos: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        { provide: 'ProjectRepositoryInterface', useValue: mockRepository },
+        { provide: TodosService, useValue: mockTodosService },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+    mockRepository.exists.mockResolvedValue(true);
+  });
+
+  describe('remove', () => {
+    it('should trash the todos through the todos service in cascade mode', async () => {
+      await service.remove(3, 1, ProjectDeleteMode.CASCADE);
+
+      expect(mockTodosService.removeProjectTodos).toHaveBeenCalledWith(3, 1);
+      expect(mockRepository.remove).toHaveBeenCalledWith(3, 1);
+      expect(
+        mockTodosService.removeProjectTodos.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockRepository.remove.mock.invocationCallOrder[0]);
+    });
+
+    it('should leave the todos alone in inbox mode', async () => {
+      await service.remove(3, 1, ProjectDeleteMode.INBOX);
+
+      expect(mockTodosService.removeProjectTodos).not.toHaveBeenCalled();
+      expect(mockRepository.remove).toHaveBeenCalledWith(3, 1);
+    });
+
+    it('should not touch todos of a project the user does not own', async () => {
+      mockRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        service.remove(3, 2, ProjectDeleteMode.CASCADE),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockTodosService.removeProjectTodos).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ProjectRepositoryInterface } from '@modules/projects/interfaces/repository/project.repository.interface';
+import { TodosService } from '@modules/todos/todos.service';
+import {
+  CreateProjectDto,
+  ProjectDeleteMode,
+  UpdateProjectDto,
+} from './dto/project.dto';
+
+@Injectable()
+export class ProjectsService {
+  constructor(
+    @Inject('ProjectRepositoryInterface')
+    private readonly projectRepository: ProjectRepositoryInterface,
+    // Todos and projects depend on each other, so both are resolved lazily
+    @Inject(forwardRef(() => TodosService))
+    private readonly todosService: TodosService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ProjectsService.name);
+  }
+
+  async create(userId: number, createProjectDto: CreateProjectDto) {
+    this.logger.log(`Creating project for user: ${userId}`);
+    return this.projectRepository.create(userId, createProjectDto);
+  }
+
+  async findAll(userId: number, includeArchived = false) {
+    this.logger.log(`Finding all projects for user: ${userId}`);
+    return this.projectRepository.findAll(userId, includeArchived);
+  }
+
+  async findOne(id: number, userId: number) {
+    this.logger.log(`Finding project with id: ${id} for user: ${userId}`);
+
+    const project = await this.projectRepository.findOne(id, userId);
+
+    if (!project) {
+      this.logger.warn(`Project with id: ${id} not found`);
+      throw new NotFoundException(`Project with ID ${id} not found`);
+    }
+
+    return project;
+  }
+
+  async update(id: number, userId: number, updateProjectDto: UpdateProjectDto) {
+    this.logger.log(`Updating project with id: ${id} for user: ${userId}`);
+
+    await this.ensureExists(id, userId);
+
+    return this.projectRepository.update(id, userId, updateProjectDto);
+  }
+
+  async remove(id: number, userId: number, mode: ProjectDeleteMode) {
+    this.logger.log(
+      `Removing project with id: ${id} for user: ${userId} (mode: ${mode})`,
+    );
+
+    await this.ensureExists(id, userId);
+
+    // Trashed like any other todo, so they can be restored to the inbox
+    if (mode === ProjectDeleteMode.CASCADE) {
+      await this.todosService.removeProjectTodos(id, userId);
+    }
+
+    return this.projectRepository.remove(id, userId);
+  }
+
+  async ensureExists(id: number, userId: number): Promise<void> {
+    const exists = await this.projectRepository.exists(id, userId);
+
+    if (!exists) {
+      this.logger.warn(
+        `Project with id: ${id} not found or not owned by user: ${userId}`,
+      );
+      throw new NotFoundException(`Project with ID ${id} not found`);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Project } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ProjectRepositoryInterface } from '@modules/projects/interfaces/repository/project.repository.interface';
+import { CreateProjectDto, UpdateProjectDto } from '../dto/project.dto';
+
+// Todos in the trash do not count towards a project
+const TODO_COUNT = {
+  _count: { select: { todos: { where: { deletedAt: null } } } },
+} satisfies Prisma.ProjectInclude;
+
+@Injectable()
+export class ProjectRepository implements ProjectRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ProjectRepository.name);
+  }
+
+  async create(
+    userId: number,
+    createProjectDto: CreateProjectDto,
+  ): Promise<Project> {
+    this.logger.debug(`Creating project for user: ${userId}`);
+
+    let position = createProjectDto.position;
+
+    if (position === undefined) {
+      const { _max } = await this.prisma.project.aggregate({
+        where: { userId },
+        _max: { position: true },
+      });
+      position = _max.position === null ? 0 : _max.position + 1;
+    }
+
+    return this.prisma.project.create({
+      data: { ...createProjectDto, position, userId },
+    });
+  }
+
+  async findAll(userId: number, includeArchived: boolean): Promise<Project[]> {
+    this.logger.debug(`Finding all projects for user: ${userId}`);
+
+    return this.prisma.project.findMany({
+      where: { userId, ...(includeArchived ? {} : { archived: false }) },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      include: TODO_COUNT,
+    });
+  }
+
+  async findOne(id: number, userId: number): Promise<Project | null> {
+    this.logger.debug(`Finding project with id: ${id} for user: ${userId}`);
+
+    return this.prisma.project.findFirst({
+      where: { id, userId },
+      include: TODO_COUNT,
+    });
+  }
+
+  async update(
+    id: number,
+    userId: number,
+    updateProjectDto: UpdateProjectDto,
+  ): Promise<Project> {
+    this.logger.debug(`Updating project with id: ${id} for user: ${userId}`);
+
+    return this.prisma.project.update({
+      where: { id },
+      data: updateProjectDto,
+    });
+  }
+
+  /** Whatever todos are still filed in the project move to the inbox. */
+  async remove(id: number, userId: number): Promise<Project> {
+    this.logger.debug(`Removing project with id: ${id} for user: ${userId}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.todo.updateMany({
+        where: { projectId: id },
+        data: { projectId: null },
+      });
+
+      return tx.project.delete({ where: { id } });
+    });
+  }
+
+  async exists(id: number, userId: number): Promise<boolean> {
+    this.logger.debug(
+      `Checking if project with id: ${id} exists for user: ${userId}`,
+    );
+
+    const project = await this.prisma.project.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+
+    return !!project;
+  }
+}
@@ -0,0 +1,23 @@
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TodoStreamQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Resume after this event id; the Last-Event-ID header takes precedence',
+    example: 1042,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Last event id must be an integer' })
+  @Min(0, { message: 'Last event id must not be negative' })
+  lastEventId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Access token for clients that cannot set the Authorization header ' +
+      '(such as EventSource)',
+  })
+  @IsOptional()
+  @IsString({ message: 'Access token must be a string' })
+  access_token?: string;
+}
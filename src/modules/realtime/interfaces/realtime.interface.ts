@@ -0,0 +1,26 @@
+import { TodoEventType } from '@prisma/client';
+
+/** Event names used on the todo stream, one per kind of history event. */
+export enum TodoStreamEventType {
+  TODO_CREATED = 'todo.created',
+  TODO_UPDATED = 'todo.updated',
+  TODO_DELETED = 'todo.deleted',
+  TODO_RESTORED = 'todo.restored',
+}
+
+/**
+ * Sent instead of a replay when a client has missed more events than can be
+ * replayed; it should reload its todos and carry on from the given id.
+ */
+export const TODO_STREAM_RESET_EVENT = 'stream.reset';
+
+export const TODO_STREAM_EVENT_TYPES: Record<
+  TodoEventType,
+  TodoStreamEventType
+> = {
+  [TodoEventType.CREATED]: TodoStreamEventType.TODO_CREATED,
+  [TodoEventType.UPDATED]: TodoStreamEventType.TODO_UPDATED,
+  [TodoEventType.REVERTED]: TodoStreamEventType.TODO_UPDATED,
+  [TodoEventType.DELETED]: TodoStreamEventType.TODO_DELETED,
+  [TodoEventType.RESTORED]: TodoStreamEventType.TODO_RESTORED,
+};
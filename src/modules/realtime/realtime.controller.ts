@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Headers,
+  MessageEvent,
+  Query,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiHeader,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { TodoStreamQueryDto } from './dto/realtime.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { AccessTokenScope } from '@modules/auth/interfaces/access-token.interface';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Realtime')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('realtime')
+export class RealtimeController {
+  constructor(
+    private readonly realtimeService: RealtimeService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RealtimeController.name);
+  }
+
+  @Sse('todos')
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Stream todo changes',
+    description:
+      'Server-Sent Events for todos created, updated, deleted and restored, ' +
+      'sent to every connection of the user. Event ids are history event ' +
+      'ids; reconnecting with Last-Event-ID replays what was missed, or ' +
+      'sends "stream.reset" when too much was missed to replay. The stream ' +
+      'ends once the session is revoked, the token expires or the account ' +
+      'is disabled.',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiHeader({ name: 'Last-Event-ID', required: false })
+  streamTodos(
+    @CurrentUser() user: AuthUser,
+    @Query() query: TodoStreamQueryDto,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+  ): Observable<MessageEvent> {
+    const headerId = Number(lastEventIdHeader);
+    const lastEventId =
+      lastEventIdHeader && Number.isSafeInteger(headerId) && headerId >= 0
+        ? headerId
+        : query.lastEventId;
+
+    this.logger.log(`Opening todo stream for user ${user.id}`);
+    return this.realtimeService.stream(user, lastEventId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '@common/common.module';
+import { TodosModule } from '@modules/todos/todos.module';
+import { AuthModule } from '@modules/auth/auth.module';
+import { RealtimeService } from './realtime.service';
+import { RealtimePoller } from './realtime.poller';
+import { RealtimeController } from './realtime.controller';
+
+@Module({
+  imports: [CommonModule, TodosModule, AuthModule],
+  controllers: [RealtimeController],
+  providers: [RealtimeService, RealtimePoller],
+})
+export class RealtimeModule {}
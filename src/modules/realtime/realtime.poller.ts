@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { RealtimeService } from './realtime.service';
+
+const POLL_INTERVAL_MS = 1_000;
+
+/** Picks up new todo events for the clients connected to this instance. */
+@Injectable()
+export class RealtimePoller {
+  private running = false;
+
+  constructor(
+    private readonly realtimeService: RealtimeService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RealtimePoller.name);
+  }
+
+  @Interval(POLL_INTERVAL_MS)
+  async poll(): Promise<void> {
+    // A slow run must not overlap with the next tick
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.realtimeService.poll();
+    } catch (error) {
+      this.logger.error(
+        `Realtime poll failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
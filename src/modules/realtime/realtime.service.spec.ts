@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MessageEvent } from '@nestjs/common';
+import { Role, TodoEvent, TodoEventType } from '@prisma/client';
+import { Subscription } from 'rxjs';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodoHistoryService } from '@modules/todos/todo-history.service';
+import { AuthService } from '@modules/auth/auth.service';
+import { TODO_STREAM_RESET_EVENT } from './interfaces/realtime.interface';
+import { RealtimeService } from './realtime.service';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let subscriptions: Subscription[];
+
+  const mockHistoryService = {
+    findLatestId: jest.fn(),
+    findAfter: jest.fn(),
+    findFeedAfter: jest.fn(),
+  };
+
+  const mockAuthService = {
+    isStillSignedIn: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildEvent = (id: number, overrides: Partial<TodoEvent> = {}) => ({
+    id,
+    type: TodoEventType.UPDATED,
+    changes: {},
+    createdAt: new Date('2025-08-12T09:00:00Z'),
+    todoId: 1,
+    userId: 1,
+    actorId: 1,
+    ...overrides,
+  });
+
+  // Collects what a client receives, leaving heartbeats out
+  const connect = (userId: number, lastEventId?: number) => {
+    const received: MessageEvent[] = [];
+    const user = {
+      id: userId,
+      email: `user-${userId}@example.com`,
+      role: Role.USER,
+      emailVerified: true,
+      sessionId: `session-${userId}`,
+    };
+    subscriptions.push(
+      service.stream(user, lastEventId).subscribe((message) => {
+        if (message.type !== 'ping') {
+          received.push(message);
+        }
+      }),
+    );
+
+    return received;
+  };
+
+  // Lets the replay promise settle
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    subscriptions = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RealtimeService,
+        { provide: TodoHistoryService, useValue: mockHistoryService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<RealtimeService>(RealtimeService);
+  });
+
+  afterEach(() => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    jest.useRealTimers();
+  });
+
+  describe('poll', () => {
+    it('should publish new events to the owner and the actor only', async () => {
+      const owner = connect(1);
+      const actor = connect(2);
+      const stranger = connect(3);
+      mockHistoryService.findLatestId.mockResolvedValue(10);
+      mockHistoryService.findAfter.mockResolvedValue([
+        buildEvent(11, { userId: 1, actorId: 2 }),
+      ]);
+
+      await service.poll();
+      await service.poll();
+
+      expect(mockHistoryService.findAfter).toHaveBeenCalledWith(10, 500);
+      expect(owner.map((message) => message.id)).toEqual(['11']);
+      expect(actor.map((message) => message.id)).toEqual(['11']);
+      expect(stranger).toEqual([]);
+    });
+
+    it('should wait for a gap to fill before moving past it', async () => {
+      const received = connect(1);
+      mockHistoryService.findLatestId.mockResolvedValue(10);
+      await service.poll();
+
+      // 11 commits after 12
+      mockHistoryService.findAfter.mockResolvedValueOnce([buildEvent(12)]);
+      await service.poll();
+      mockHistoryService.findAfter.mockResolvedValueOnce([
+        buildEvent(11),
+        buildEvent(12),
+      ]);
+      await service.poll();
+      mockHistoryService.findAfter.mockResolvedValueOnce([]);
+      await service.poll();
+
+      expect(mockHistoryService.findAfter.mock.calls).toEqual([
+        [10, 500],
+        [10, 500],
+        [12, 500],
+      ]);
+      expect(received.map((message) => message.id)).toEqual(['12', '11']);
+    });
+
+    it('should not read events while no one is connected', async () => {
+      await service.poll();
+
+      expect(mockHistoryService.findLatestId).not.toHaveBeenCalled();
+      expect(mockHistoryService.findAfter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stream', () => {
+    it('should replay missed events before live ones, each once', async () => {
+      mockHistoryService.findFeedAfter.mockResolvedValue([
+        buildEvent(8),
+        buildEvent(9),
+      ]);
+      // Polling starts before 9, so 9 also arrives live
+      mockHistoryService.findLatestId.mockResolvedValue(8);
+      mockHistoryService.findAfter.mockResolvedValue([
+        buildEvent(9),
+        buildEvent(10),
+      ]);
+      const received = connect(1, 7);
+
+      await flush();
+      await service.poll();
+      await service.poll();
+
+      expect(mockHistoryService.findFeedAfter).toHaveBeenCalledWith(1, 7, 501);
+      expect(received.map((message) => message.id)).toEqual(['8', '9', '10']);
+    });
+
+    it('should ask clients that missed too much to reload', async () => {
+      mockHistoryService.findFeedAfter.mockResolvedValue(
+        Array.from({ length: 501 }, (_, index) => buildEvent(index + 1)),
+      );
+      mockHistoryService.findLatestId.mockResolvedValue(900);
+
+      const received = connect(1, 0);
+      await flush();
+
+      expect(received).toEqual([
+        { id: '900', type: TODO_STREAM_RESET_EVENT, data: {} },
+      ]);
+    });
+
+    it('should end once the user is no longer signed in', async () => {
+      jest.useFakeTimers();
+      mockAuthService.isStillSignedIn
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      let completed = false;
+      subscriptions.push(
+        service
+          .stream({
+            id: 1,
+            email: 'ada@example.com',
+            role: Role.USER,
+            emailVerified: true,
+            sessionId: 'session-1',
+          })
+          .subscribe({ complete: () => (completed = true) }),
+      );
+
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(completed).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(completed).toBe(true);
+      expect(mockAuthService.isStillSignedIn).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, sessionId: 'session-1' }),
+      );
+    });
+
+    it('should stay open when checking the sign-in fails', async () => {
+      jest.useFakeTimers();
+      mockAuthService.isStillSignedIn.mockRejectedValue(
+        new Error('Connection lost'),
+      );
+      let completed = false;
+      subscriptions.push(
+        service
+          .stream({
+            id: 1,
+            email: 'ada@example.com',
+            role: Role.USER,
+            emailVerified: true,
+          })
+          .subscribe({ complete: () => (completed = true) }),
+      );
+
+      await jest.advanceTimersByTimeAsync(10_000);
+
+      expect(completed).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { TodoEvent } from '@prisma/client';
+import { Observable, Subject } from 'rxjs';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodoHistoryService } from '@modules/todos/todo-history.service';
+import { AuthService } from '@modules/auth/auth.service';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import {
+  TODO_STREAM_EVENT_TYPES,
+  TODO_STREAM_RESET_EVENT,
+} from './interfaces/realtime.interface';
+
+const POLL_BATCH = 500;
+const REPLAY_LIMIT = 500;
+const HEARTBEAT_MS = 25_000;
+/**
+ * Streams outlive the request that opened them, so the user is checked this
+ * often to still be signed in: a revoked session, an expired token or a
+ * disabled account ends the stream.
+ */
+const SIGN_IN_CHECK_MS = 10_000;
+/**
+ * Ids are taken when a row is inserted, not when it commits, so a lower id
+ * can show up after a higher one. A gap is waited on this long before it is
+ * taken to be a rolled back insert.
+ */
+const GAP_TIMEOUT_MS = 5_000;
+
+/**
+ * Streams todo history events to connected clients. Events are read back
+ * from the history table rather than passed around in memory, so a change
+ * made through any instance reaches clients connected to every other one,
+ * and event ids double as resume points.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly events = new Subject<TodoEvent>();
+  private subscribers = 0;
+  /** Every event up to this id has been published; null while idle. */
+  private cursor: number | null = null;
+  private readonly pending = new Set<number>();
+  private readonly gapsSince = new Map<number, number>();
+
+  constructor(
+    private readonly todoHistoryService: TodoHistoryService,
+    private readonly authService: AuthService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RealtimeService.name);
+  }
+
+  /**
+   * Changes to the user's todos and to todos they changed, the same events
+   * as their activity feed. With `lastEventId` the events missed since then
+   * are replayed first. Completes once the user is no longer signed in.
+   */
+  stream(user: AuthUser, lastEventId?: number): Observable<MessageEvent> {
+    const userId = user.id;
+
+    return new Observable<MessageEvent>((subscriber) => {
+      let replaying = lastEventId !== undefined;
+      const buffered: TodoEvent[] = [];
+      // Live events are not strictly ordered by id, so replayed ones are
+      // skipped by id rather than by comparing against the last one sent
+      const replayed = new Set<number>();
+      let skipUpTo = 0;
+
+      const send = (event: TodoEvent) => {
+        if (event.id > skipUpTo && !replayed.has(event.id)) {
+          subscriber.next(this.toMessage(event));
+        }
+      };
+
+      // Subscribe before replaying so nothing published meanwhile is lost
+      this.subscribers++;
+      const live = this.events.subscribe((event) => {
+        if (event.userId !== userId && event.actorId !== userId) {
+          return;
+        }
+
+        if (replaying) {
+          buffered.push(event);
+        } else {
+          send(event);
+        }
+      });
+
+      const heartbeat = setInterval(
+        () => subscriber.next({ type: 'ping', data: {} }),
+        HEARTBEAT_MS,
+      );
+
+      const signInCheck = setInterval(() => {
+        this.authService
+          .isStillSignedIn(user)
+          .then((signedIn) => {
+            if (!signedIn) {
+              this.logger.log(
+                `Closing todo stream of signed out user ${userId}`,
+              );
+              subscriber.complete();
+            }
+          })
+          .catch((error) =>
+            // Kept open; the next check decides
+            this.logger.error(
+              `Sign-in check failed: ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          );
+      }, SIGN_IN_CHECK_MS);
+
+      if (lastEventId !== undefined) {
+        this.catchUp(userId, lastEventId)
+          .then((missed) => {
+            if (Array.isArray(missed)) {
+              missed.forEach((event) => {
+                send(event);
+                replayed.add(event.id);
+              });
+            } else {
+              // Too far behind to replay; the client reloads its todos and
+              // carries on from the latest event
+              skipUpTo = missed.latestId;
+              subscriber.next({
+                id: String(skipUpTo),
+                type: TODO_STREAM_RESET_EVENT,
+                data: {},
+              });
+            }
+
+            replaying = false;
+            buffered.forEach(send);
+            buffered.length = 0;
+          })
+          .catch((error) => subscriber.error(error));
+      }
+
+      return () => {
+        this.subscribers--;
+        live.unsubscribe();
+        clearInterval(heartbeat);
+        clearInterval(signInCheck);
+      };
+    });
+  }
+
+  /**
+   * Publishes events committed since the last poll to connected clients.
+   * Does nothing while no one is connected.
+   */
+  async poll(): Promise<void> {
+    if (this.subscribers === 0) {
+      this.cursor = null;
+      this.pending.clear();
+      this.gapsSince.clear();
+      return;
+    }
+
+    if (this.cursor === null) {
+      this.cursor = await this.todoHistoryService.findLatestId();
+      return;
+    }
+
+    const events = await this.todoHistoryService.findAfter(
+      this.cursor,
+      POLL_BATCH,
+    );
+
+    for (const event of events) {
+      if (!this.pending.has(event.id)) {
+        this.pending.add(event.id);
+        this.events.next(event);
+      }
+    }
+
+    this.advanceCursor();
+  }
+
+  /** Moves the cursor past published ids and gaps that have timed out. */
+  private advanceCursor(): void {
+    if (this.cursor === null || this.pending.size === 0) {
+      return;
+    }
+
+    const highest = Math.max(...this.pending);
+    const now = Date.now();
+
+    for (let next = this.cursor + 1; next <= highest; next++) {
+      if (!this.pending.delete(next)) {
+        const since = this.gapsSince.get(next) ?? now;
+        if (now - since < GAP_TIMEOUT_MS) {
+          this.gapsSince.set(next, since);
+          return;
+        }
+
+        this.logger.debug(`Skipping todo event id ${next}`);
+        this.gapsSince.delete(next);
+      }
+
+      this.cursor = next;
+    }
+  }
+
+  /**
+   * Events missed since `lastEventId`, or the latest event id when there
+   * are too many to replay.
+   */
+  private async catchUp(
+    userId: number,
+    lastEventId: number,
+  ): Promise<TodoEvent[] | { latestId: number }> {
+    const missed = await this.todoHistoryService.findFeedAfter(
+      userId,
+      lastEventId,
+      REPLAY_LIMIT + 1,
+    );
+
+    if (missed.length <= REPLAY_LIMIT) {
+      return missed;
+    }
+
+    return { latestId: await this.todoHistoryService.findLatestId() };
+  }
+
+  private toMessage(event: TodoEvent): MessageEvent {
+    return {
+      id: String(event.id),
+      type: TODO_STREAM_EVENT_TYPES[event.type],
+      data: {
+        eventId: event.id,
+        todoId: event.todoId,
+        actorId: event.actorId,
+        changes: event.changes,
+        createdAt: event.createdAt,
+      },
+    };
+  }
+}
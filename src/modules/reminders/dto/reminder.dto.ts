@@ -0,0 +1,60 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationChannelType } from '@prisma/client';
+import { IsOutboundUrl } from '@common/validators/is-outbound-url.validator';
+
+export class CreateReminderDto {
+  @ApiPropertyOptional({
+    example: '2025-01-06T08:00:00Z',
+    description: 'Fixed time to remind at; use this or offsetMinutes',
+  })
+  @ValidateIf((dto: CreateReminderDto) => dto.offsetMinutes === undefined)
+  @IsDateString({}, { message: 'Remind at must be a valid date' })
+  remindAt?: string;
+
+  @ApiPropertyOptional({
+    example: 30,
+    description: 'Minutes before the due date; follows due date changes',
+  })
+  @ValidateIf((dto: CreateReminderDto) => dto.remindAt === undefined)
+  @IsInt({ message: 'Offset must be an integer number of minutes' })
+  @Min(0, { message: 'Offset must not be negative' })
+  @Max(60 * 24 * 365, { message: 'Offset must not exceed a year' })
+  offsetMinutes?: number;
+
+  @ApiPropertyOptional({
+    enum: NotificationChannelType,
+    isArray: true,
+    default: [NotificationChannelType.IN_APP],
+  })
+  @IsArray({ message: 'Channels must be an array' })
+  @ArrayNotEmpty({ message: 'Channels must not be empty' })
+  @ArrayUnique({ message: 'Channels must be unique' })
+  @IsEnum(NotificationChannelType, {
+    each: true,
+    message: 'Each channel must be EMAIL, WEBHOOK or IN_APP',
+  })
+  @IsOptional()
+  channels?: NotificationChannelType[] = [NotificationChannelType.IN_APP];
+
+  @ApiPropertyOptional({
+    example: 'https://example.com/hooks/reminders',
+    description: 'Where the WEBHOOK channel posts to',
+  })
+  @ValidateIf((dto: CreateReminderDto) =>
+    (dto.channels ?? []).includes(NotificationChannelType.WEBHOOK),
+  )
+  @IsOutboundUrl({ message: 'Webhook URL must be a valid https URL' })
+  webhookUrl?: string;
+}
@@ -0,0 +1,7 @@
+import { Reminder, Todo, User } from '@prisma/client';
+
+/** A reminder claimed for delivery with what the message needs. */
+export type DueReminder = Reminder & {
+  todo: Pick<Todo, 'id' | 'title' | 'dueDate'>;
+  user: Pick<User, 'id' | 'email' | 'name'>;
+};
@@ -0,0 +1,19 @@
+import { NotificationChannelType, Reminder } from '@prisma/client';
+import { CreateReminderDto } from '../../dto/reminder.dto';
+import { DueReminder } from '../reminder.interface';
+
+export interface ReminderRepositoryInterface {
+  create(
+    userId: number,
+    todoId: number,
+    createReminderDto: CreateReminderDto,
+  ): Promise<Reminder>;
+  findForTodo(todoId: number, userId: number): Promise<Reminder[]>;
+  findPending(userId: number): Promise<Reminder[]>;
+  findOne(id: number, userId: number): Promise<Reminder | null>;
+  remove(id: number): Promise<Reminder>;
+  claimDue(now: Date, claimUntil: Date, limit: number): Promise<DueReminder[]>;
+  markDelivered(id: number, channel: NotificationChannelType): Promise<void>;
+  markSent(id: number): Promise<void>;
+  markFailed(id: number, error: string, giveUp: boolean): Promise<void>;
+}
@@ -0,0 +1,44 @@
+import { Controller, Delete, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RemindersService } from './reminders.service';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Reminders')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('reminders')
+export class RemindersController {
+  constructor(
+    private readonly remindersService: RemindersService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RemindersController.name);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List own reminders that have not fired yet' })
+  @ApiResponse({ status: 200, description: 'Return the pending reminders' })
+  findPending(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding pending reminders');
+    return this.remindersService.findPending(user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a reminder' })
+  @ApiParam({ name: 'id', description: 'Reminder ID' })
+  @ApiResponse({ status: 200, description: 'Reminder successfully deleted' })
+  @ApiResponse({ status: 404, description: 'Reminder not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Removing reminder with id: ${id}`);
+    return this.remindersService.remove(+id, user.id);
+  }
+}
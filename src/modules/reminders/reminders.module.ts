@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '@common/common.module';
+import { TodosModule } from '@modules/todos/todos.module';
+import { NotificationsModule } from '@modules/notifications/notifications.module';
+import { RemindersService } from './reminders.service';
+import { RemindersScheduler } from './reminders.scheduler';
+import { RemindersController } from './reminders.controller';
+import { TodoRemindersController } from './todo-reminders.controller';
+import { ReminderRepository } from './repositories/reminder.repository';
+
+@Module({
+  imports: [CommonModule, TodosModule, NotificationsModule],
+  controllers: [RemindersController, TodoRemindersController],
+  providers: [
+    RemindersService,
+    RemindersScheduler,
+    ReminderRepository,
+    {
+      provide: 'ReminderRepositoryInterface',
+      useClass: ReminderRepository,
+    },
+  ],
+})
+export class RemindersModule {}
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { RemindersService } from './reminders.service';
+
+/**
+ * Polls for due reminders. Every instance may run it; claiming in the
+ * database keeps them from sending the same reminder twice.
+ */
+@Injectable()
+export class RemindersScheduler {
+  private running = false;
+
+  constructor(
+    private readonly remindersService: RemindersService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RemindersScheduler.name);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async dispatch(): Promise<void> {
+    // A slow run must not overlap with the next tick
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const count = await this.remindersService.dispatchDue();
+      if (count > 0) {
+        this.logger.log(`Dispatched ${count} reminders`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Reminder dispatch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { NotificationChannelType } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { NotificationsService } from '@modules/notifications/notifications.service';
+import { TodosService } from '@modules/todos/todos.service';
+import { DueReminder } from './interfaces/reminder.interface';
+import { RemindersService } from './reminders.service';
+
+describe('RemindersService', () => {
+  let service: RemindersService;
+
+  const mockRepository = {
+    create: jest.fn(),
+    claimDue: jest.fn(),
+    markDelivered: jest.fn(),
+    markSent: jest.fn(),
+    markFailed: jest.fn(),
+  };
+
+  const mockTodosService = {
+    ensureAccess: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildReminder = (
+    overrides: Partial<DueReminder> = {},
+  ): DueReminder => ({
+    id: 5,
+    remindAt: new Date('2025-08-05T08:00:00Z'),
+    offsetMinutes: null,
+    channels: [NotificationChannelType.IN_APP, NotificationChannelType.WEBHOOK],
+    webhookUrl: 'https://hooks.example.com/reminders',
+    deliveredChannels: [],
+    attempts: 0,
+    lastError: null,
+    claimedUntil: new Date('2025-08-05T08:05:00Z'),
+    sentAt: null,
+    failedAt: null,
+    createdAt: new Date('2025-08-01T08:00:00Z'),
+    todoId: 1,
+    userId: 1,
+    todo: { id: 1, title: 'Water the plants', dueDate: null },
+    user: { id: 1, email: 'ada@example.com', name: 'Ada' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RemindersService,
+        { provide: 'ReminderRepositoryInterface', useValue: mockRepository },
+        { provide: TodosService, useValue: mockTodosService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<RemindersService>(RemindersService);
+  });
+
+  describe('create', () => {
+    it('should need a due date for reminders relative to it', async () => {
+      mockTodosService.ensureAccess.mockResolvedValue({ id: 1, dueDate: null });
+
+      await expect(
+        service.create(1, 1, { offsetMinutes: 30 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should take either a time or an offset', async () => {
+      await expect(service.create(1, 1, {})).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockTodosService.ensureAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('should send through every channel and mark the reminder sent', async () => {
+      mockRepository.claimDue.mockResolvedValue([buildReminder()]);
+
+      await expect(service.dispatchDue()).resolves.toBe(1);
+
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        NotificationChannelType.WEBHOOK,
+        expect.objectContaining({
+          dedupeKey: 'reminder:5',
+          webhookUrl: 'https://hooks.example.com/reminders',
+        }),
+      );
+      expect(mockRepository.markDelivered).toHaveBeenCalledTimes(2);
+      expect(mockRepository.markSent).toHaveBeenCalledWith(5);
+    });
+
+    it('should only retry the channels not delivered yet', async () => {
+      mockRepository.claimDue.mockResolvedValue([
+        buildReminder({
+          attempts: 1,
+          deliveredChannels: [NotificationChannelType.IN_APP],
+        }),
+      ]);
+
+      await service.dispatchDue();
+
+      expect(mockNotificationsService.send).toHaveBeenCalledTimes(1);
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        NotificationChannelType.WEBHOOK,
+        expect.any(Object),
+      );
+    });
+
+    it('should record a failed channel for a later retry', async () => {
+      mockRepository.claimDue.mockResolvedValue([buildReminder()]);
+      mockNotificationsService.send
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(
+          new Error('hooks.example.com resolves to the internal address'),
+        );
+
+      await service.dispatchDue();
+
+      expect(mockRepository.markDelivered).toHaveBeenCalledWith(
+        5,
+        NotificationChannelType.IN_APP,
+      );
+      expect(mockRepository.markSent).not.toHaveBeenCalled();
+      expect(mockRepository.markFailed).toHaveBeenCalledWith(
+        5,
+        'hooks.example.com resolves to the internal address',
+        false,
+      );
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockRepository.claimDue.mockResolvedValue([
+        buildReminder({ attempts: 4 }),
+      ]);
+      mockNotificationsService.send.mockRejectedValue(new Error('offline'));
+
+      await service.dispatchDue();
+
+      expect(mockRepository.markFailed).toHaveBeenCalledWith(
+        5,
+        'offline',
+        true,
+      );
+    });
+  });
+});
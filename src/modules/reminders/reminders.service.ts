@@ -0,0 +1,136 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reminder } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ReminderRepositoryInterface } from '@modules/reminders/interfaces/repository/reminder.repository.interface';
+import { DueReminder } from '@modules/reminders/interfaces/reminder.interface';
+import { NotificationsService } from '@modules/notifications/notifications.service';
+import { TodosService } from '@modules/todos/todos.service';
+import { CreateReminderDto } from './dto/reminder.dto';
+
+// How long an instance owns a claimed reminder; doubles as the retry delay
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 5;
+
+@Injectable()
+export class RemindersService {
+  constructor(
+    @Inject('ReminderRepositoryInterface')
+    private readonly reminderRepository: ReminderRepositoryInterface,
+    private readonly todosService: TodosService,
+    private readonly notificationsService: NotificationsService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(RemindersService.name);
+  }
+
+  async create(
+    todoId: number,
+    userId: number,
+    createReminderDto: CreateReminderDto,
+  ) {
+    this.logger.log(`Creating reminder on todo: ${todoId} for user: ${userId}`);
+
+    const { remindAt, offsetMinutes } = createReminderDto;
+    if ((remindAt === undefined) === (offsetMinutes === undefined)) {
+      throw new BadRequestException('Set either remindAt or offsetMinutes');
+    }
+
+    // Anyone who can see a todo may set reminders on it for themselves
+    const todo = await this.todosService.ensureAccess(todoId, userId, 'VIEWER');
+
+    if (offsetMinutes !== undefined && !todo.dueDate) {
+      throw new BadRequestException(
+        'Reminders relative to the due date need a todo with a due date',
+      );
+    }
+
+    return this.reminderRepository.create(userId, todoId, createReminderDto);
+  }
+
+  async findForTodo(todoId: number, userId: number) {
+    this.logger.log(`Finding reminders on todo: ${todoId} for user: ${userId}`);
+
+    await this.todosService.ensureAccess(todoId, userId, 'VIEWER');
+
+    return this.reminderRepository.findForTodo(todoId, userId);
+  }
+
+  async findPending(userId: number) {
+    this.logger.log(`Finding pending reminders for user: ${userId}`);
+    return this.reminderRepository.findPending(userId);
+  }
+
+  async remove(id: number, userId: number): Promise<Reminder> {
+    this.logger.log(`Removing reminder with id: ${id} for user: ${userId}`);
+
+    const reminder = await this.reminderRepository.findOne(id, userId);
+
+    if (!reminder) {
+      this.logger.warn(`Reminder with id: ${id} not found for user: ${userId}`);
+      throw new NotFoundException(`Reminder with ID ${id} not found`);
+    }
+
+    return this.reminderRepository.remove(id);
+  }
+
+  /** Claims the reminders that are due and delivers them. */
+  async dispatchDue(now = new Date()): Promise<number> {
+    const reminders = await this.reminderRepository.claimDue(
+      now,
+      new Date(now.getTime() + CLAIM_LEASE_MS),
+      BATCH_SIZE,
+    );
+
+    for (const reminder of reminders) {
+      await this.deliver(reminder);
+    }
+
+    return reminders.length;
+  }
+
+  /**
+   * Sends through every channel not delivered yet. Each delivered channel is
+   * recorded right away, so a retry only repeats the channel that failed.
+   */
+  private async deliver(reminder: DueReminder): Promise<void> {
+    const { todo, user } = reminder;
+    const message = {
+      userId: user.id,
+      email: user.email,
+      title: `Reminder: ${todo.title}`,
+      body: todo.dueDate
+        ? `"${todo.title}" is due ${todo.dueDate.toUTCString()}.`
+        : `This is your reminder for "${todo.title}".`,
+      todoId: todo.id,
+      dedupeKey: `reminder:${reminder.id}`,
+      webhookUrl: reminder.webhookUrl,
+    };
+
+    try {
+      for (const channel of reminder.channels) {
+        if (reminder.deliveredChannels.includes(channel)) {
+          continue;
+        }
+
+        await this.notificationsService.send(channel, message);
+        await this.reminderRepository.markDelivered(reminder.id, channel);
+      }
+
+      await this.reminderRepository.markSent(reminder.id);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const giveUp = reminder.attempts + 1 >= MAX_ATTEMPTS;
+
+      this.logger.warn(
+        `Reminder ${reminder.id} failed (attempt ${reminder.attempts + 1}): ${reason}`,
+      );
+      await this.reminderRepository.markFailed(reminder.id, reason, giveUp);
+    }
+  }
+}
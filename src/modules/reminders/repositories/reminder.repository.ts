@@ -0,0 +1,171 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannelType, Prisma, Reminder } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ReminderRepositoryInterface } from '@modules/reminders/interfaces/repository/reminder.repository.interface';
+import { DueReminder } from '@modules/reminders/interfaces/reminder.interface';
+import { CreateReminderDto } from '../dto/reminder.dto';
+
+const PENDING = {
+  sentAt: null,
+  failedAt: null,
+} satisfies Prisma.ReminderWhereInput;
+
+@Injectable()
+export class ReminderRepository implements ReminderRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ReminderRepository.name);
+  }
+
+  async create(
+    userId: number,
+    todoId: number,
+    createReminderDto: CreateReminderDto,
+  ): Promise<Reminder> {
+    this.logger.debug(`Creating reminder for todo: ${todoId}`);
+
+    return this.prisma.reminder.create({
+      data: {
+        remindAt: createReminderDto.remindAt
+          ? new Date(createReminderDto.remindAt)
+          : null,
+        offsetMinutes: createReminderDto.offsetMinutes,
+        channels: createReminderDto.channels,
+        webhookUrl: createReminderDto.webhookUrl,
+        todoId,
+        userId,
+      },
+    });
+  }
+
+  async findForTodo(todoId: number, userId: number): Promise<Reminder[]> {
+    this.logger.debug(`Finding reminders of todo: ${todoId}`);
+
+    return this.prisma.reminder.findMany({
+      where: { todoId, userId },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async findPending(userId: number): Promise<Reminder[]> {
+    this.logger.debug(`Finding pending reminders for user: ${userId}`);
+
+    return this.prisma.reminder.findMany({
+      where: { userId, ...PENDING, todo: { deletedAt: null } },
+      orderBy: { id: 'asc' },
+      include: { todo: { select: { id: true, title: true, dueDate: true } } },
+    });
+  }
+
+  async findOne(id: number, userId: number): Promise<Reminder | null> {
+    return this.prisma.reminder.findFirst({ where: { id, userId } });
+  }
+
+  async remove(id: number): Promise<Reminder> {
+    this.logger.debug(`Removing reminder with id: ${id}`);
+
+    return this.prisma.reminder.delete({ where: { id } });
+  }
+
+  /**
+   * Takes a lease on reminders that are due, so every instance running the
+   * scheduler picks different rows. A lease that runs out without the
+   * reminder being sent, e.g. after a crash, makes it due again. Reminders
+   * of users who lost access to the todo, e.g. through a revoked share, are
+   * left alone; the access rules are those of TodosService: the owner, or
+   * an accepted share of the todo, one of its ancestors or its project.
+   */
+  async claimDue(
+    now: Date,
+    claimUntil: Date,
+    limit: number,
+  ): Promise<DueReminder[]> {
+    // Columns hold UTC without a time zone
+    const nowUtc = Prisma.sql`(${now.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+    const untilUtc = Prisma.sql`(${claimUntil.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+
+    const claimed = await this.prisma.$queryRaw<{ id: number }[]>`
+      UPDATE "reminders" SET "claimed_until" = ${untilUtc}
+      WHERE "id" IN (
+        SELECT r."id" FROM "reminders" r
+        JOIN "todos" t ON t."id" = r."todo_id"
+        WHERE r."sent_at" IS NULL
+          AND r."failed_at" IS NULL
+          AND (r."claimed_until" IS NULL OR r."claimed_until" < ${nowUtc})
+          AND t."deleted_at" IS NULL
+          AND t."completed" = false
+          AND (
+            t."user_id" = r."user_id"
+            OR EXISTS (
+              WITH RECURSIVE "ancestors" ("id", "parent_id") AS (
+                SELECT t."id", t."parent_id"
+                UNION ALL
+                SELECT p."id", p."parent_id" FROM "todos" p
+                JOIN "ancestors" a ON p."id" = a."parent_id"
+              )
+              SELECT 1 FROM "shares" s
+              WHERE s."invitee_id" = r."user_id"
+                AND s."status" = 'ACCEPTED'
+                AND (
+                  s."project_id" = t."project_id"
+                  OR s."todo_id" IN (SELECT "id" FROM "ancestors")
+                )
+            )
+          )
+          AND COALESCE(
+            r."remind_at",
+            t."due_date" - make_interval(mins => r."offset_minutes")
+          ) <= ${nowUtc}
+        ORDER BY r."id"
+        LIMIT ${limit}
+        FOR UPDATE OF r SKIP LOCKED
+      )
+      RETURNING "id"`;
+
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    this.logger.debug(`Claimed ${claimed.length} due reminders`);
+
+    return this.prisma.reminder.findMany({
+      where: { id: { in: claimed.map((row) => row.id) } },
+      include: {
+        todo: { select: { id: true, title: true, dueDate: true } },
+        user: { select: { id: true, email: true, name: true } },
+      },
+    });
+  }
+
+  async markDelivered(
+    id: number,
+    channel: NotificationChannelType,
+  ): Promise<void> {
+    await this.prisma.reminder.update({
+      where: { id },
+      data: { deliveredChannels: { push: channel } },
+    });
+  }
+
+  async markSent(id: number): Promise<void> {
+    await this.prisma.reminder.update({
+      where: { id },
+      data: { sentAt: new Date(), claimedUntil: null, lastError: null },
+    });
+  }
+
+  /** Keeps the lease as a back-off unless the reminder is given up on. */
+  async markFailed(id: number, error: string, giveUp: boolean): Promise<void> {
+    await this.prisma.reminder.update({
+      where: { id },
+      data: {
+        attempts: { increment: 1 },
+        lastError: error,
+        ...(giveUp && { failedAt: new Date(), claimedUntil: null }),
+      },
+    });
+  }
+}
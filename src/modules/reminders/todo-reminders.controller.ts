@@ -0,0 +1,55 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RemindersService } from './reminders.service';
+import { CreateReminderDto } from './dto/reminder.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Reminders')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('todos/:id/reminders')
+export class TodoRemindersController {
+  constructor(
+    private readonly remindersService: RemindersService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoRemindersController.name);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Set a reminder on a todo',
+    description: 'At a fixed time, or a number of minutes before it is due',
+  })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 201, description: 'Reminder successfully created' })
+  @ApiResponse({ status: 400, description: 'Invalid reminder time' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  create(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() createReminderDto: CreateReminderDto,
+  ) {
+    this.logger.log(`Creating reminder on todo with id: ${id}`);
+    return this.remindersService.create(+id, user.id, createReminderDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List own reminders on a todo' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 200, description: 'Return the reminders' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  findAll(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Finding reminders on todo with id: ${id}`);
+    return this.remindersService.findForTodo(+id, user.id);
+  }
+}
@@ -0,0 +1,36 @@
+import { IsEmail, IsEnum, IsNotEmpty, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SharePermission, ShareStatus } from '@prisma/client';
+
+export class CreateShareDto {
+  @ApiProperty({ example: 'partner@example.com' })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+
+  @ApiPropertyOptional({
+    enum: SharePermission,
+    default: SharePermission.VIEWER,
+  })
+  @IsEnum(SharePermission, { message: 'Permission must be VIEWER or EDITOR' })
+  @IsOptional()
+  permission?: SharePermission = SharePermission.VIEWER;
+}
+
+export class UpdateShareDto {
+  @ApiProperty({ enum: SharePermission, example: SharePermission.EDITOR })
+  @IsEnum(SharePermission, { message: 'Permission must be VIEWER or EDITOR' })
+  permission: SharePermission;
+}
+
+export class ReceivedSharesQueryDto {
+  @ApiPropertyOptional({
+    enum: ShareStatus,
+    description: 'Defaults to pending invitations and accepted shares',
+  })
+  @IsEnum(ShareStatus, {
+    message: 'Status must be PENDING, ACCEPTED or DECLINED',
+  })
+  @IsOptional()
+  status?: ShareStatus;
+}
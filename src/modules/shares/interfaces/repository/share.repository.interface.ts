@@ -0,0 +1,31 @@
+import { Share, SharePermission, ShareStatus } from '@prisma/client';
+import { ShareTarget } from '../share.interface';
+
+export type CreateShareData = ShareTarget & {
+  ownerId: number;
+  email: string;
+  permission: SharePermission;
+};
+
+export interface ShareRepositoryInterface {
+  create(data: CreateShareData): Promise<Share>;
+  findById(id: number): Promise<Share | null>;
+  findByTarget(target: ShareTarget): Promise<Share[]>;
+  findForEmail(target: ShareTarget, email: string): Promise<Share | null>;
+  findReceived(inviteeId: number, statuses: ShareStatus[]): Promise<Share[]>;
+  update(
+    id: number,
+    data: { permission?: SharePermission; status?: ShareStatus },
+  ): Promise<Share>;
+  remove(id: number): Promise<void>;
+  findAcceptedPermissions(
+    inviteeId: number,
+    todoIds: number[],
+    projectId: number | null,
+  ): Promise<SharePermission[]>;
+  findTodoOwnerId(todoId: number): Promise<number | null>;
+  findProjectOwnerId(projectId: number): Promise<number | null>;
+  findUserIdByEmail(email: string): Promise<number | null>;
+  findVerifiedEmail(userId: number): Promise<string | null>;
+  claimByEmail(email: string, inviteeId: number): Promise<void>;
+}
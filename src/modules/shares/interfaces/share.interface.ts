@@ -0,0 +1,14 @@
+import { SharePermission } from '@prisma/client';
+
+/** What a user may do with a todo or project, from weakest to strongest. */
+export type AccessLevel = SharePermission | 'OWNER';
+
+/** A share covers either one todo or one whole project. */
+export type ShareTarget =
+  | { todoId: number; projectId?: undefined }
+  | { projectId: number; todoId?: undefined };
+
+export interface ProjectAccess {
+  ownerId: number;
+  level: AccessLevel;
+}
@@ -0,0 +1,56 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SharesService } from './shares.service';
+import { CreateShareDto } from './dto/share.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Projects')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:id/shares')
+export class ProjectSharesController {
+  constructor(
+    private readonly sharesService: SharesService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ProjectSharesController.name);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Invite a user to the project by email' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 409, description: 'Email already invited' })
+  invite(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() createShareDto: CreateShareDto,
+  ) {
+    this.logger.log(`Sharing project with id: ${id}`);
+    return this.sharesService.invite(
+      { projectId: +id },
+      user.id,
+      createShareDto,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the members and invitations of a project' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'Return the shares' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  findAll(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Finding shares of project with id: ${id}`);
+    return this.sharesService.findByTarget({ projectId: +id }, user.id);
+  }
+}
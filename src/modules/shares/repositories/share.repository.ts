@@ -0,0 +1,189 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Share, SharePermission, ShareStatus } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  CreateShareData,
+  ShareRepositoryInterface,
+} from '@modules/shares/interfaces/repository/share.repository.interface';
+import { ShareTarget } from '@modules/shares/interfaces/share.interface';
+
+// Enough to tell who is involved and what is shared without a second request
+const SHARE_INCLUDE = {
+  owner: { select: { id: true, email: true, name: true } },
+  invitee: { select: { id: true, email: true, name: true } },
+  todo: { select: { id: true, title: true } },
+  project: { select: { id: true, name: true } },
+} satisfies Prisma.ShareInclude;
+
+@Injectable()
+export class ShareRepository implements ShareRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ShareRepository.name);
+  }
+
+  async create(data: CreateShareData): Promise<Share> {
+    this.logger.debug(
+      `Creating share for: ${data.email} by owner: ${data.ownerId}`,
+    );
+
+    return this.prisma.share.create({ data, include: SHARE_INCLUDE });
+  }
+
+  async findById(id: number): Promise<Share | null> {
+    this.logger.debug(`Finding share with id: ${id}`);
+
+    return this.prisma.share.findUnique({
+      where: { id },
+      include: SHARE_INCLUDE,
+    });
+  }
+
+  async findByTarget(target: ShareTarget): Promise<Share[]> {
+    this.logger.debug(`Finding shares of: ${JSON.stringify(target)}`);
+
+    return this.prisma.share.findMany({
+      where: this.targetWhere(target),
+      orderBy: { createdAt: 'asc' },
+      include: SHARE_INCLUDE,
+    });
+  }
+
+  async findForEmail(
+    target: ShareTarget,
+    email: string,
+  ): Promise<Share | null> {
+    return this.prisma.share.findFirst({
+      where: { ...this.targetWhere(target), email },
+    });
+  }
+
+  async findReceived(
+    inviteeId: number,
+    statuses: ShareStatus[],
+  ): Promise<Share[]> {
+    this.logger.debug(`Finding shares received by user: ${inviteeId}`);
+
+    return this.prisma.share.findMany({
+      where: { inviteeId, status: { in: statuses } },
+      orderBy: { createdAt: 'desc' },
+      include: SHARE_INCLUDE,
+    });
+  }
+
+  async update(
+    id: number,
+    data: { permission?: SharePermission; status?: ShareStatus },
+  ): Promise<Share> {
+    this.logger.debug(`Updating share with id: ${id}`);
+
+    // Answering an invitation records when; re-sending it clears that again
+    let respondedAt: Date | null | undefined;
+    if (data.status !== undefined) {
+      respondedAt = data.status === ShareStatus.PENDING ? null : new Date();
+    }
+
+    return this.prisma.share.update({
+      where: { id },
+      data: { ...data, respondedAt },
+      include: SHARE_INCLUDE,
+    });
+  }
+
+  async remove(id: number): Promise<void> {
+    this.logger.debug(`Removing share with id: ${id}`);
+
+    await this.prisma.share.delete({ where: { id } });
+  }
+
+  async findAcceptedPermissions(
+    inviteeId: number,
+    todoIds: number[],
+    projectId: number | null,
+  ): Promise<SharePermission[]> {
+    const targets: Prisma.ShareWhereInput[] = [{ todoId: { in: todoIds } }];
+
+    if (projectId !== null) {
+      targets.push({ projectId });
+    }
+
+    const shares = await this.prisma.share.findMany({
+      where: { inviteeId, status: ShareStatus.ACCEPTED, OR: targets },
+      select: { permission: true },
+    });
+
+    return shares.map((share) => share.permission);
+  }
+
+  async findTodoOwnerId(todoId: number): Promise<number | null> {
+    const todo = await this.prisma.todo.findFirst({
+      where: { id: todoId, deletedAt: null },
+      select: { userId: true },
+    });
+
+    return todo?.userId ?? null;
+  }
+
+  async findProjectOwnerId(projectId: number): Promise<number | null> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { userId: true },
+    });
+
+    return project?.userId ?? null;
+  }
+
+  async findUserIdByEmail(email: string): Promise<number | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    return user?.id ?? null;
+  }
+
+  async findVerifiedEmail(userId: number): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, emailVerifiedAt: true },
+    });
+
+    return user?.emailVerifiedAt ? user.email : null;
+  }
+
+  async claimByEmail(email: string, inviteeId: number): Promise<void> {
+    const unclaimed = await this.prisma.share.findMany({
+      where: { email, inviteeId: null },
+      select: { id: true },
+    });
+
+    for (const { id } of unclaimed) {
+      this.logger.debug(`User ${inviteeId} claiming share with id: ${id}`);
+
+      try {
+        await this.prisma.share.update({
+          where: { id, inviteeId: null },
+          data: { inviteeId },
+        });
+      } catch (error) {
+        // Already shared with the user under a previous address, or claimed
+        // by a concurrent request
+        if (
+          !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+          !['P2002', 'P2025'].includes(error.code)
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private targetWhere(target: ShareTarget): Prisma.ShareWhereInput {
+    return target.todoId !== undefined
+      ? { todoId: target.todoId }
+      : { projectId: target.projectId };
+  }
+}
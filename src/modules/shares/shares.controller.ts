@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SharesService } from './shares.service';
+import { ReceivedSharesQueryDto, UpdateShareDto } from './dto/share.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Sharing')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('shares')
+export class SharesController {
+  constructor(
+    private readonly sharesService: SharesService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(SharesController.name);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List invitations and shares received by the user',
+  })
+  @ApiResponse({ status: 200, description: 'Return the received shares' })
+  findReceived(
+    @CurrentUser() user: AuthUser,
+    @Query() query: ReceivedSharesQueryDto,
+  ) {
+    this.logger.log('Finding received shares');
+    return this.sharesService.findReceived(user.id, query.status);
+  }
+
+  @Post(':id/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accept an invitation' })
+  @ApiParam({ name: 'id', description: 'Share ID' })
+  @ApiResponse({ status: 200, description: 'Invitation accepted' })
+  @ApiResponse({ status: 400, description: 'Invitation already answered' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  accept(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Accepting share with id: ${id}`);
+    return this.sharesService.accept(+id, user.id);
+  }
+
+  @Post(':id/decline')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Decline an invitation' })
+  @ApiParam({ name: 'id', description: 'Share ID' })
+  @ApiResponse({ status: 200, description: 'Invitation declined' })
+  @ApiResponse({ status: 400, description: 'Invitation already answered' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  decline(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Declining share with id: ${id}`);
+    return this.sharesService.decline(+id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Change the permission of a share' })
+  @ApiParam({ name: 'id', description: 'Share ID' })
+  @ApiResponse({ status: 200, description: 'Share successfully updated' })
+  @ApiResponse({ status: 404, description: 'Share not found' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() updateShareDto: UpdateShareDto,
+  ) {
+    this.logger.log(`Updating share with id: ${id}`);
+    return this.sharesService.update(+id, user.id, updateShareDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke a share or leave a shared todo or project',
+  })
+  @ApiParam({ name: 'id', description: 'Share ID' })
+  @ApiResponse({ status: 204, description: 'Share removed' })
+  @ApiResponse({ status: 404, description: 'Share not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Removing share with id: ${id}`);
+    return this.sharesService.remove(+id, user.id);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { SharesService } from './shares.service';
+import { SharesController } from './shares.controller';
+import { TodoSharesController } from './todo-shares.controller';
+import { ProjectSharesController } from './project-shares.controller';
+import { ShareRepository } from './repositories/share.repository';
+import { CommonModule } from '@common/common.module';
+
+@Module({
+  imports: [CommonModule],
+  controllers: [
+    SharesController,
+    TodoSharesController,
+    ProjectSharesController,
+  ],
+  providers: [
+    SharesService,
+    ShareRepository,
+    {
+      provide: 'ShareRepositoryInterface',
+      useClass: ShareRepository,
+    },
+  ],
+  exports: [SharesService],
+})
+export class SharesModule {}
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Share, SharePermission, ShareStatus } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { SharesService } from './shares.service';
+
+describe('SharesService', () => {
+  let service: SharesService;
+
+  const mockRepository = {
+    create: jest.fn(),
+    findById: jest.fn(),
+    findByTarget: jest.fn(),
+    findForEmail: jest.fn(),
+    findReceived: jest.fn(),
+    update: jest.fn(),
+    findTodoOwnerId: jest.fn(),
+    findUserIdByEmail: jest.fn(),
+    findVerifiedEmail: jest.fn(),
+    claimByEmail: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildShare = (overrides: Partial<Share> = {}): Share => ({
+    id: 7,
+    permission: SharePermission.VIEWER,
+    status: ShareStatus.PENDING,
+    todoId: 1,
+    projectId: null,
+    ownerId: 1,
+    email: 'friend@example.com',
+    inviteeId: null,
+    createdAt: new Date('2025-07-01T09:00:00Z'),
+    respondedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SharesService,
+        { provide: 'ShareRepositoryInterface', useValue: mockRepository },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<SharesService>(SharesService);
+    mockRepository.findTodoOwnerId.mockResolvedValue(1);
+    mockRepository.findForEmail.mockResolvedValue(null);
+    mockRepository.create.mockImplementation((data: Partial<Share>) =>
+      Promise.resolve(buildShare(data)),
+    );
+  });
+
+  describe('invite', () => {
+    const invite = (email: string) =>
+      service.invite({ todoId: 1 }, 1, { email });
+
+    it('should answer the same for registered and unknown emails', async () => {
+      mockRepository.findUserIdByEmail.mockResolvedValueOnce(2);
+      const registered = await invite('friend@example.com');
+
+      mockRepository.findUserIdByEmail.mockResolvedValueOnce(null);
+      const unknown = await invite('nobody@example.com');
+
+      expect(registered).toEqual({ ...unknown, email: 'friend@example.com' });
+    });
+
+    it('should reject sharing with yourself', async () => {
+      mockRepository.findUserIdByEmail.mockResolvedValue(1);
+
+      await expect(invite('me@example.com')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('should reject an email with a pending invitation', async () => {
+      mockRepository.findForEmail.mockResolvedValue(buildShare());
+
+      await expect(invite('friend@example.com')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+
+    it('should send a declined invitation again', async () => {
+      mockRepository.findForEmail.mockResolvedValue(
+        buildShare({ status: ShareStatus.DECLINED, inviteeId: 2 }),
+      );
+      mockRepository.update.mockResolvedValue(buildShare({ inviteeId: 2 }));
+
+      const share = await invite('friend@example.com');
+
+      expect(mockRepository.update).toHaveBeenCalledWith(7, {
+        permission: SharePermission.VIEWER,
+        status: ShareStatus.PENDING,
+      });
+      expect(share.inviteeId).toBeNull();
+    });
+  });
+
+  describe('findByTarget', () => {
+    it('should hide the invitee until the invitation is answered', async () => {
+      mockRepository.findByTarget.mockResolvedValue([
+        buildShare({ inviteeId: 2 }),
+        buildShare({ id: 8, inviteeId: 3, status: ShareStatus.ACCEPTED }),
+      ]);
+
+      const shares = await service.findByTarget({ todoId: 1 }, 1);
+
+      expect(shares.map((share) => share.inviteeId)).toEqual([null, 3]);
+    });
+  });
+
+  describe('findReceived', () => {
+    it('should claim invitations sent to a verified email', async () => {
+      mockRepository.findVerifiedEmail.mockResolvedValue('friend@example.com');
+      mockRepository.findReceived.mockResolvedValue([]);
+
+      await service.findReceived(2);
+
+      expect(mockRepository.claimByEmail).toHaveBeenCalledWith(
+        'friend@example.com',
+        2,
+      );
+    });
+
+    it('should not claim invitations for an unverified email', async () => {
+      mockRepository.findVerifiedEmail.mockResolvedValue(null);
+      mockRepository.findReceived.mockResolvedValue([]);
+
+      await service.findReceived(2);
+
+      expect(mockRepository.claimByEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Share, SharePermission, ShareStatus } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ShareRepositoryInterface } from '@modules/shares/interfaces/repository/share.repository.interface';
+import {
+  AccessLevel,
+  ProjectAccess,
+  ShareTarget,
+} from '@modules/shares/interfaces/share.interface';
+import { hasAccess, strongestAccess } from './utils/access.util';
+import { CreateShareDto, UpdateShareDto } from './dto/share.dto';
+
+@Injectable()
+export class SharesService {
+  constructor(
+    @Inject('ShareRepositoryInterface')
+    private readonly shareRepository: ShareRepositoryInterface,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(SharesService.name);
+  }
+
+  /**
+   * Invites an email address rather than an account, so the reply does not
+   * tell whether someone is registered with it. The invitation reaches the
+   * account that holds the address once the address is verified.
+   */
+  async invite(
+    target: ShareTarget,
+    ownerId: number,
+    createShareDto: CreateShareDto,
+  ) {
+    const { email } = createShareDto;
+    this.logger.log(
+      `User ${ownerId} sharing ${JSON.stringify(target)} with ${email}`,
+    );
+
+    await this.ensureTargetOwner(target, ownerId);
+
+    if ((await this.shareRepository.findUserIdByEmail(email)) === ownerId) {
+      throw new BadRequestException('You cannot share with yourself');
+    }
+
+    const permission = createShareDto.permission ?? SharePermission.VIEWER;
+    const existing = await this.shareRepository.findForEmail(target, email);
+
+    if (!existing) {
+      return this.hidePendingInvitee(
+        await this.shareRepository.create({
+          ...target,
+          ownerId,
+          email,
+          permission,
+        }),
+      );
+    }
+
+    // A declined invitation may be sent again
+    if (existing.status !== ShareStatus.DECLINED) {
+      throw new ConflictException(
+        'This email already has access or a pending invitation',
+      );
+    }
+
+    return this.hidePendingInvitee(
+      await this.shareRepository.update(existing.id, {
+        permission,
+        status: ShareStatus.PENDING,
+      }),
+    );
+  }
+
+  async findByTarget(target: ShareTarget, ownerId: number) {
+    this.logger.log(`Finding shares of ${JSON.stringify(target)}`);
+
+    await this.ensureTargetOwner(target, ownerId);
+
+    const shares = await this.shareRepository.findByTarget(target);
+
+    return shares.map((share) => this.hidePendingInvitee(share));
+  }
+
+  async findReceived(userId: number, status?: ShareStatus) {
+    this.logger.log(`Finding shares received by user: ${userId}`);
+
+    await this.claimInvitations(userId);
+
+    return this.shareRepository.findReceived(
+      userId,
+      status ? [status] : [ShareStatus.PENDING, ShareStatus.ACCEPTED],
+    );
+  }
+
+  async accept(id: number, userId: number) {
+    return this.respond(id, userId, ShareStatus.ACCEPTED);
+  }
+
+  async decline(id: number, userId: number) {
+    return this.respond(id, userId, ShareStatus.DECLINED);
+  }
+
+  async update(id: number, ownerId: number, updateShareDto: UpdateShareDto) {
+    this.logger.log(`Updating share with id: ${id}`);
+
+    const share = await this.getShare(id);
+
+    if (share.ownerId !== ownerId) {
+      throw new NotFoundException(`Share with ID ${id} not found`);
+    }
+
+    return this.hidePendingInvitee(
+      await this.shareRepository.update(id, {
+        permission: updateShareDto.permission,
+      }),
+    );
+  }
+
+  /** Owners revoke access; invitees leave a share they no longer want. */
+  async remove(id: number, userId: number) {
+    this.logger.log(`Removing share with id: ${id} by user: ${userId}`);
+
+    const share = await this.getShare(id);
+
+    if (share.ownerId !== userId && share.inviteeId !== userId) {
+      throw new NotFoundException(`Share with ID ${id} not found`);
+    }
+
+    await this.shareRepository.remove(id);
+  }
+
+  /**
+   * Resolves the access a user has to a todo owned by someone else, through
+   * a share of the todo itself, one of its ancestors or its project.
+   */
+  async resolveTodoAccess(
+    userId: number,
+    todoIds: number[],
+    projectId: number | null,
+  ): Promise<AccessLevel | null> {
+    const permissions = await this.shareRepository.findAcceptedPermissions(
+      userId,
+      todoIds,
+      projectId,
+    );
+
+    return strongestAccess(permissions);
+  }
+
+  async requireProjectAccess(
+    projectId: number,
+    userId: number,
+    required: AccessLevel,
+  ): Promise<ProjectAccess> {
+    const ownerId = await this.shareRepository.findProjectOwnerId(projectId);
+    let level: AccessLevel | null = null;
+
+    if (ownerId === userId) {
+      level = 'OWNER';
+    } else if (ownerId !== null) {
+      level = await this.resolveTodoAccess(userId, [], projectId);
+    }
+
+    if (ownerId === null || level === null) {
+      this.logger.warn(
+        `Project with id: ${projectId} not accessible for user: ${userId}`,
+      );
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+
+    if (!hasAccess(level, required)) {
+      throw new ForbiddenException(
+        `You do not have ${required.toLowerCase()} access to this project`,
+      );
+    }
+
+    return { ownerId, level };
+  }
+
+  private async respond(id: number, userId: number, status: ShareStatus) {
+    this.logger.log(`User ${userId} answering share ${id} with ${status}`);
+
+    await this.claimInvitations(userId);
+    const share = await this.getShare(id);
+
+    if (share.inviteeId !== userId) {
+      throw new NotFoundException(`Share with ID ${id} not found`);
+    }
+
+    if (share.status !== ShareStatus.PENDING) {
+      throw new BadRequestException('This invitation was already answered');
+    }
+
+    return this.shareRepository.update(id, { status });
+  }
+
+  private async claimInvitations(userId: number): Promise<void> {
+    const email = await this.shareRepository.findVerifiedEmail(userId);
+
+    if (email) {
+      await this.shareRepository.claimByEmail(email, userId);
+    }
+  }
+
+  // Until the invitation is answered the owner only sees the address, the
+  // same whether or not an account holds it
+  private hidePendingInvitee(share: Share): Share {
+    if (share.status !== ShareStatus.PENDING) {
+      return share;
+    }
+
+    return Object.assign({}, share, { inviteeId: null, invitee: null });
+  }
+
+  private async getShare(id: number): Promise<Share> {
+    const share = await this.shareRepository.findById(id);
+
+    if (!share) {
+      this.logger.warn(`Share with id: ${id} not found`);
+      throw new NotFoundException(`Share with ID ${id} not found`);
+    }
+
+    return share;
+  }
+
+  private async ensureTargetOwner(
+    target: ShareTarget,
+    userId: number,
+  ): Promise<void> {
+    const ownerId =
+      target.todoId !== undefined
+        ? await this.shareRepository.findTodoOwnerId(target.todoId)
+        : await this.shareRepository.findProjectOwnerId(target.projectId);
+
+    if (ownerId !== userId) {
+      const resource =
+        target.todoId !== undefined
+          ? `Todo with ID ${target.todoId}`
+          : `Project with ID ${target.projectId}`;
+      throw new NotFoundException(`${resource} not found`);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SharesService } from './shares.service';
+import { CreateShareDto } from './dto/share.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Todos')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('todos/:id/shares')
+export class TodoSharesController {
+  constructor(
+    private readonly sharesService: SharesService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoSharesController.name);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Invite a user to the todo by email' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  @ApiResponse({ status: 409, description: 'Email already invited' })
+  invite(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() createShareDto: CreateShareDto,
+  ) {
+    this.logger.log(`Sharing todo with id: ${id}`);
+    return this.sharesService.invite({ todoId: +id }, user.id, createShareDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the members and invitations of a todo' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 200, description: 'Return the shares' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  findAll(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Finding shares of todo with id: ${id}`);
+    return this.sharesService.findByTarget({ todoId: +id }, user.id);
+  }
+}
@@ -0,0 +1,26 @@
+import { hasAccess, strongestAccess } from './access.util';
+
+describe('access', () => {
+  describe('hasAccess', () => {
+    it('should let stronger levels satisfy weaker requirements', () => {
+      expect(hasAccess('OWNER', 'EDITOR')).toBe(true);
+      expect(hasAccess('EDITOR', 'VIEWER')).toBe(true);
+      expect(hasAccess('EDITOR', 'EDITOR')).toBe(true);
+    });
+
+    it('should reject weaker levels', () => {
+      expect(hasAccess('VIEWER', 'EDITOR')).toBe(false);
+      expect(hasAccess('EDITOR', 'OWNER')).toBe(false);
+    });
+  });
+
+  describe('strongestAccess', () => {
+    it('should pick the most permissive level', () => {
+      expect(strongestAccess(['VIEWER', 'EDITOR', 'VIEWER'])).toBe('EDITOR');
+    });
+
+    it('should return null without any level', () => {
+      expect(strongestAccess([])).toBeNull();
+    });
+  });
+});
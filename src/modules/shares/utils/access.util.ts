@@ -0,0 +1,24 @@
+import { SharePermission } from '@prisma/client';
+import { AccessLevel } from '../interfaces/share.interface';
+
+const ACCESS_RANK: Record<AccessLevel, number> = {
+  [SharePermission.VIEWER]: 1,
+  [SharePermission.EDITOR]: 2,
+  OWNER: 3,
+};
+
+export function hasAccess(level: AccessLevel, required: AccessLevel): boolean {
+  return ACCESS_RANK[level] >= ACCESS_RANK[required];
+}
+
+/**
+ * A user can be reached by several shares at once (the todo, one of its
+ * parents, its project); the most permissive one wins.
+ */
+export function strongestAccess(levels: AccessLevel[]): AccessLevel | null {
+  return levels.reduce<AccessLevel | null>(
+    (best, level) =>
+      best === null || ACCESS_RANK[level] > ACCESS_RANK[best] ? level : best,
+    null,
+  );
+}
@@ -0,0 +1,53 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class CreateTagDto {
+  @ApiProperty({ example: 'urgent' })
+  @Transform(trim)
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(50, { message: 'Name must not exceed 50 characters' })
+  name: string;
+
+  @ApiPropertyOptional({ example: '#ef4444' })
+  @Matches(HEX_COLOR, { message: 'Color must be a hex value like #ef4444' })
+  @IsOptional()
+  color?: string;
+}
+
+export class UpdateTagDto {
+  @ApiPropertyOptional({ example: 'high-priority' })
+  @Transform(trim)
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name must not be empty' })
+  @MaxLength(50, { message: 'Name must not exceed 50 characters' })
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ example: '#f97316' })
+  @Matches(HEX_COLOR, { message: 'Color must be a hex value like #f97316' })
+  @IsOptional()
+  color?: string;
+}
+
+export class MergeTagDto {
+  @ApiProperty({
+    example: 4,
+    description: 'Tag that absorbs the todos of the merged tag',
+  })
+  @IsInt({ message: 'Target tag ID must be an integer' })
+  targetTagId: number;
+}
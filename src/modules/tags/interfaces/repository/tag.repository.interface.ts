@@ -0,0 +1,15 @@
+import { Tag } from '@prisma/client';
+import { CreateTagDto, UpdateTagDto } from '../../dto/tag.dto';
+
+export interface TagRepositoryInterface {
+  create(userId: number, createTagDto: CreateTagDto): Promise<Tag>;
+  findAll(userId: number): Promise<Tag[]>;
+  findOne(id: number, userId: number): Promise<Tag | null>;
+  findByName(name: string, userId: number): Promise<Tag | null>;
+  findByIds(ids: number[], userId: number): Promise<Tag[]>;
+  findOrCreateByNames(names: string[], userId: number): Promise<Tag[]>;
+  update(id: number, userId: number, updateTagDto: UpdateTagDto): Promise<Tag>;
+  remove(id: number, userId: number): Promise<Tag>;
+  merge(sourceId: number, targetId: number): Promise<Tag>;
+  exists(id: number, userId: number): Promise<boolean>;
+}
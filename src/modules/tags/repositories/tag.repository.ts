@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Tag } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TagRepositoryInterface } from '@modules/tags/interfaces/repository/tag.repository.interface';
+import { CreateTagDto, UpdateTagDto } from '../dto/tag.dto';
+
+// Todos in the trash do not count towards a tag
+const TODO_COUNT = {
+  _count: { select: { todos: { where: { todo: { deletedAt: null } } } } },
+} satisfies Prisma.TagInclude;
+
+@Injectable()
+export class TagRepository implements TagRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TagRepository.name);
+  }
+
+  async create(userId: number, createTagDto: CreateTagDto): Promise<Tag> {
+    this.logger.debug(`Creating tag for user: ${userId}`);
+
+    return this.prisma.tag.create({
+      data: { ...createTagDto, userId },
+    });
+  }
+
+  async findAll(userId: number): Promise<Tag[]> {
+    this.logger.debug(`Finding all tags for user: ${userId}`);
+
+    return this.prisma.tag.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: TODO_COUNT,
+    });
+  }
+
+  async findOne(id: number, userId: number): Promise<Tag | null> {
+    this.logger.debug(`Finding tag with id: ${id} for user: ${userId}`);
+
+    return this.prisma.tag.findFirst({
+      where: { id, userId },
+      include: TODO_COUNT,
+    });
+  }
+
+  async findByName(name: string, userId: number): Promise<Tag | null> {
+    return this.prisma.tag.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+  }
+
+  async findByIds(ids: number[], userId: number): Promise<Tag[]> {
+    return this.prisma.tag.findMany({
+      where: { id: { in: ids }, userId },
+    });
+  }
+
+  async findOrCreateByNames(names: string[], userId: number): Promise<Tag[]> {
+    this.logger.debug(
+      `Resolving ${names.length} tag names for user: ${userId}`,
+    );
+
+    // Concurrent requests may create the same name; skipDuplicates absorbs that
+    await this.prisma.tag.createMany({
+      data: names.map((name) => ({ name, userId })),
+      skipDuplicates: true,
+    });
+
+    return this.prisma.tag.findMany({
+      where: { userId, name: { in: names } },
+    });
+  }
+
+  async update(
+    id: number,
+    userId: number,
+    updateTagDto: UpdateTagDto,
+  ): Promise<Tag> {
+    this.logger.debug(`Updating tag with id: ${id} for user: ${userId}`);
+
+    return this.prisma.tag.update({
+      where: { id },
+      data: updateTagDto,
+    });
+  }
+
+  async remove(id: number, userId: number): Promise<Tag> {
+    this.logger.debug(`Removing tag with id: ${id} for user: ${userId}`);
+
+    return this.prisma.tag.delete({
+      where: { id },
+    });
+  }
+
+  async merge(sourceId: number, targetId: number): Promise<Tag> {
+    this.logger.debug(`Merging tag: ${sourceId} into tag: ${targetId}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      const assignments = await tx.todoTag.findMany({
+        where: { tagId: sourceId },
+        select: { todoId: true },
+      });
+
+      await tx.todoTag.createMany({
+        data: assignments.map(({ todoId }) => ({ todoId, tagId: targetId })),
+        skipDuplicates: true,
+      });
+
+      // Deleting the source cascades to its remaining assignments
+      await tx.tag.delete({ where: { id: sourceId } });
+
+      return tx.tag.findUniqueOrThrow({
+        where: { id: targetId },
+        include: TODO_COUNT,
+      });
+    });
+  }
+
+  async exists(id: number, userId: number): Promise<boolean> {
+    this.logger.debug(
+      `Checking if tag with id: ${id} exists for user: ${userId}`,
+    );
+
+    const tag = await this.prisma.tag.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+
+    return !!tag;
+  }
+}
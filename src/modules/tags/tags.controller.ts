@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { CreateTagDto, MergeTagDto, UpdateTagDto } from './dto/tag.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Tags')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('tags')
+export class TagsController {
+  constructor(
+    private readonly tagsService: TagsService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TagsController.name);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new tag' })
+  @ApiResponse({ status: 201, description: 'Tag successfully created' })
+  @ApiResponse({ status: 409, description: 'Tag name already exists' })
+  create(@CurrentUser() user: AuthUser, @Body() createTagDto: CreateTagDto) {
+    this.logger.log('Creating tag');
+    return this.tagsService.create(user.id, createTagDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all tags for the authenticated user' })
+  @ApiResponse({ status: 200, description: 'Return all tags' })
+  findAll(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding all tags');
+    return this.tagsService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a tag by ID' })
+  @ApiParam({ name: 'id', description: 'Tag ID' })
+  @ApiResponse({ status: 200, description: 'Return the tag' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Finding tag with id: ${id}`);
+    return this.tagsService.findOne(+id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename or recolor a tag' })
+  @ApiParam({ name: 'id', description: 'Tag ID' })
+  @ApiResponse({ status: 200, description: 'Tag successfully updated' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({ status: 409, description: 'Tag name already exists' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() updateTagDto: UpdateTagDto,
+  ) {
+    this.logger.log(`Updating tag with id: ${id}`);
+    return this.tagsService.update(+id, user.id, updateTagDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a tag and unassign it from all todos' })
+  @ApiParam({ name: 'id', description: 'Tag ID' })
+  @ApiResponse({ status: 200, description: 'Tag successfully deleted' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Removing tag with id: ${id}`);
+    return this.tagsService.remove(+id, user.id);
+  }
+
+  @Post(':id/merge')
+  @ApiOperation({
+    summary: 'Merge a tag into another',
+    description:
+      'Every todo carrying this tag gets the target tag instead; this tag is deleted',
+  })
+  @ApiParam({ name: 'id', description: 'Tag ID to merge away' })
+  @ApiResponse({ status: 201, description: 'Return the target tag' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  merge(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() mergeTagDto: MergeTagDto,
+  ) {
+    this.logger.log(`Merging tag with id: ${id}`);
+    return this.tagsService.merge(+id, mergeTagDto.targetTagId, user.id);
+  }
+}
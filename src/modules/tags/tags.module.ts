@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TagsService } from './tags.service';
+import { TagsController } from './tags.controller';
+import { TagRepository } from './repositories/tag.repository';
+import { CommonModule } from '@common/common.module';
+
+@Module({
+  imports: [CommonModule],
+  controllers: [TagsController],
+  providers: [
+    TagsService,
+    TagRepository,
+    {
+      provide: 'TagRepositoryInterface',
+      useClass: TagRepository,
+    },
+  ],
+  exports: [TagsService],
+})
+export class TagsModule {}
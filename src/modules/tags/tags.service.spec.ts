@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TagsService } from './tags.service';
+
+describe('TagsService', () => {
+  let service: TagsService;
+
+  const mockRepository = {
+    findByName: jest.fn(),
+    update: jest.fn(),
+    merge: jest.fn(),
+    exists: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagsService,
+        { provide: 'TagRepositoryInterface', useValue: mockRepository },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+    mockRepository.exists.mockResolvedValue(true);
+  });
+
+  describe('merge', () => {
+    it('should move the assignments to the target tag', async () => {
+      mockRepository.merge.mockResolvedValue({ id: 2, name: 'garden' });
+
+      await expect(service.merge(1, 2, 1)).resolves.toEqual({
+        id: 2,
+        name: 'garden',
+      });
+      expect(mockRepository.exists).toHaveBeenCalledWith(1, 1);
+      expect(mockRepository.exists).toHaveBeenCalledWith(2, 1);
+      expect(mockRepository.merge).toHaveBeenCalledWith(1, 2);
+    });
+
+    it('should refuse to merge a tag into itself', async () => {
+      await expect(service.merge(1, 1, 1)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockRepository.merge).not.toHaveBeenCalled();
+    });
+
+    it('should not merge into tags of other users', async () => {
+      mockRepository.exists.mockImplementation((id: number) => id === 1);
+
+      await expect(service.merge(1, 2, 1)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(mockRepository.merge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should point renames onto an existing name to merging', async () => {
+      mockRepository.findByName.mockResolvedValue({ id: 2, name: 'garden' });
+
+      await expect(service.update(1, 1, { name: 'garden' })).rejects.toThrow(
+        new ConflictException(
+          'Tag "garden" already exists; merge the tags instead',
+        ),
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
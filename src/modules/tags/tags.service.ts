@@ -0,0 +1,140 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TagRepositoryInterface } from '@modules/tags/interfaces/repository/tag.repository.interface';
+import { CreateTagDto, UpdateTagDto } from './dto/tag.dto';
+
+@Injectable()
+export class TagsService {
+  constructor(
+    @Inject('TagRepositoryInterface')
+    private readonly tagRepository: TagRepositoryInterface,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TagsService.name);
+  }
+
+  async create(userId: number, createTagDto: CreateTagDto) {
+    this.logger.log(`Creating tag for user: ${userId}`);
+
+    await this.ensureNameAvailable(createTagDto.name, userId);
+
+    return this.tagRepository.create(userId, createTagDto);
+  }
+
+  async findAll(userId: number) {
+    this.logger.log(`Finding all tags for user: ${userId}`);
+    return this.tagRepository.findAll(userId);
+  }
+
+  async findOne(id: number, userId: number) {
+    this.logger.log(`Finding tag with id: ${id} for user: ${userId}`);
+
+    const tag = await this.tagRepository.findOne(id, userId);
+
+    if (!tag) {
+      this.logger.warn(`Tag with id: ${id} not found`);
+      throw new NotFoundException(`Tag with ID ${id} not found`);
+    }
+
+    return tag;
+  }
+
+  async update(id: number, userId: number, updateTagDto: UpdateTagDto) {
+    this.logger.log(`Updating tag with id: ${id} for user: ${userId}`);
+
+    await this.ensureExists(id, userId);
+
+    if (updateTagDto.name) {
+      await this.ensureNameAvailable(updateTagDto.name, userId, id);
+    }
+
+    return this.tagRepository.update(id, userId, updateTagDto);
+  }
+
+  async remove(id: number, userId: number) {
+    this.logger.log(`Removing tag with id: ${id} for user: ${userId}`);
+
+    await this.ensureExists(id, userId);
+
+    return this.tagRepository.remove(id, userId);
+  }
+
+  async merge(sourceId: number, targetId: number, userId: number) {
+    this.logger.log(`Merging tag: ${sourceId} into tag: ${targetId}`);
+
+    if (sourceId === targetId) {
+      throw new BadRequestException('A tag cannot be merged into itself');
+    }
+
+    await this.ensureExists(sourceId, userId);
+    await this.ensureExists(targetId, userId);
+
+    return this.tagRepository.merge(sourceId, targetId);
+  }
+
+  /**
+   * Turns tag references from a todo payload into tag IDs. IDs must belong
+   * to the user; unknown names are created on the fly.
+   */
+  async resolveTagIds(
+    userId: number,
+    tagIds: number[] = [],
+    tagNames: string[] = [],
+  ): Promise<number[]> {
+    const resolved = new Set<number>();
+
+    if (tagIds.length > 0) {
+      const tags = await this.tagRepository.findByIds(tagIds, userId);
+
+      if (tags.length !== new Set(tagIds).size) {
+        const found = new Set(tags.map((tag) => tag.id));
+        const missing = tagIds.filter((id) => !found.has(id));
+        throw new NotFoundException(`Tags not found: ${missing.join(', ')}`);
+      }
+
+      tags.forEach((tag) => resolved.add(tag.id));
+    }
+
+    const names = [...new Set(tagNames.map((name) => name.trim()))].filter(
+      (name) => name.length > 0,
+    );
+
+    if (names.length > 0) {
+      const tags = await this.tagRepository.findOrCreateByNames(names, userId);
+      tags.forEach((tag) => resolved.add(tag.id));
+    }
+
+    return [...resolved];
+  }
+
+  private async ensureExists(id: number, userId: number): Promise<void> {
+    const exists = await this.tagRepository.exists(id, userId);
+
+    if (!exists) {
+      this.logger.warn(
+        `Tag with id: ${id} not found or not owned by user: ${userId}`,
+      );
+      throw new NotFoundException(`Tag with ID ${id} not found`);
+    }
+  }
+
+  private async ensureNameAvailable(
+    name: string,
+    userId: number,
+    exceptId?: number,
+  ): Promise<void> {
+    const existing = await this.tagRepository.findByName(name, userId);
+
+    if (existing && existing.id !== exceptId) {
+      throw new ConflictException(
+        `Tag "${name}" already exists; merge the tags instead`,
+      );
+    }
+  }
+}
@@ -1,11 +1,87 @@
 import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
   IsBoolean,
   IsDateString,
+  IsDefined,
+  IsEnum,
+  IsInt,
+  IsJSON,
   IsNotEmpty,
   IsOptional,
   IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
 } from 'class-validator';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { ToBoolean } from '@common/transformers/to-boolean.transformer';
+import { ToStringArray } from '@common/transformers/to-string-array.transformer';
+import { RecurrenceFrequency, RecurrenceRule } from '../utils/recurrence.util';
+import { SyncConflictStrategy } from '../utils/sync.util';
+
+export class RecurrenceRuleDto implements RecurrenceRule {
+  @ApiProperty({
+    enum: RecurrenceFrequency,
+    example: RecurrenceFrequency.WEEKLY,
+  })
+  @IsEnum(RecurrenceFrequency, {
+    message: 'Frequency must be daily, weekly or monthly',
+  })
+  frequency: RecurrenceFrequency;
+
+  @ApiPropertyOptional({
+    example: 1,
+    default: 1,
+    description: 'Repeat every N days, weeks or months',
+  })
+  @IsInt({ message: 'Interval must be an integer' })
+  @Min(1, { message: 'Interval must be at least 1' })
+  @Max(365, { message: 'Interval must not exceed 365' })
+  @IsOptional()
+  interval?: number;
+
+  @ApiPropertyOptional({
+    example: [1, 3, 5],
+    description: 'Weekdays for weekly rules (0 = Sunday)',
+  })
+  @IsArray({ message: 'Weekdays must be an array' })
+  @ArrayUnique({ message: 'Weekdays must be unique' })
+  @IsInt({ each: true, message: 'Each weekday must be an integer' })
+  @Min(0, { each: true, message: 'Weekdays range from 0 to 6' })
+  @Max(6, { each: true, message: 'Weekdays range from 0 to 6' })
+  @IsOptional()
+  weekdays?: number[];
+
+  @ApiPropertyOptional({
+    example: 15,
+    description: 'Day of the month for monthly rules',
+  })
+  @IsInt({ message: 'Month day must be an integer' })
+  @Min(1, { message: 'Month day ranges from 1 to 31' })
+  @Max(31, { message: 'Month day ranges from 1 to 31' })
+  @IsOptional()
+  monthDay?: number;
+
+  @ApiPropertyOptional({ example: '2025-12-31T23:59:59Z' })
+  @IsDateString({}, { message: 'Until must be a valid date' })
+  @IsOptional()
+  until?: string;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Total number of occurrences',
+  })
+  @IsInt({ message: 'Count must be an integer' })
+  @Min(1, { message: 'Count must be at least 1' })
+  @IsOptional()
+  count?: number;
+}
 
 export class CreateTodoDto {
   @ApiProperty({ example: 'Complete NestJS project' })
@@ -22,6 +98,36 @@ export class CreateTodoDto {
   @IsDateString({}, { message: 'Due date must be a valid date' })
   @IsOptional()
   dueDate?: string;
+
+  @ApiPropertyOptional({ example: 1, description: 'Project to file it under' })
+  @IsInt({ message: 'Project ID must be an integer' })
+  @IsOptional()
+  projectId?: number;
+
+  @ApiPropertyOptional({
+    type: RecurrenceRuleDto,
+    description: 'Makes the todo repeat; requires a due date',
+  })
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  @IsOptional()
+  recurrence?: RecurrenceRuleDto;
+
+  @ApiPropertyOptional({ example: [1, 2], description: 'IDs of existing tags' })
+  @IsArray({ message: 'Tag IDs must be an array' })
+  @IsInt({ each: true, message: 'Each tag ID must be an integer' })
+  @IsOptional()
+  tagIds?: number[];
+
+  @ApiPropertyOptional({
+    example: ['home', 'errands'],
+    description: 'Tag names; unknown names are created',
+  })
+  @IsArray({ message: 'Tag names must be an array' })
+  @IsString({ each: true, message: 'Each tag name must be a string' })
+  @IsNotEmpty({ each: true, message: 'Tag names must not be empty' })
+  @IsOptional()
+  tagNames?: string[];
 }
 
 export class UpdateTodoDto {
@@ -44,4 +150,562 @@ export class UpdateTodoDto {
   @IsDateString({}, { message: 'Due date must be a valid date' })
   @IsOptional()
   dueDate?: string;
+
+  @ApiPropertyOptional({
+    example: 1,
+    nullable: true,
+    description: 'Project to move it to, or null for the inbox',
+  })
+  @IsInt({ message: 'Project ID must be an integer' })
+  @IsOptional()
+  projectId?: number | null;
+
+  @ApiPropertyOptional({
+    type: RecurrenceRuleDto,
+    nullable: true,
+    description: 'New recurrence rule, or null to stop repeating',
+  })
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  @IsOptional()
+  recurrence?: RecurrenceRuleDto | null;
+
+  @ApiPropertyOptional({
+    example: [1, 2],
+    description: 'Replaces the assigned tags (combined with tagNames)',
+  })
+  @IsArray({ message: 'Tag IDs must be an array' })
+  @IsInt({ each: true, message: 'Each tag ID must be an integer' })
+  @IsOptional()
+  tagIds?: number[];
+
+  @ApiPropertyOptional({
+    example: ['home'],
+    description: 'Replaces the assigned tags; unknown names are created',
+  })
+  @IsArray({ message: 'Tag names must be an array' })
+  @IsString({ each: true, message: 'Each tag name must be a string' })
+  @IsNotEmpty({ each: true, message: 'Tag names must not be empty' })
+  @IsOptional()
+  tagNames?: string[];
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'When completing, also complete every sub-todo',
+  })
+  @IsBoolean({ message: 'completeChildren must be a boolean' })
+  @IsOptional()
+  completeChildren?: boolean;
+}
+
+export class MoveTodoDto {
+  @ApiProperty({
+    example: 12,
+    nullable: true,
+    description: 'New parent todo, or null to make it a top-level todo',
+  })
+  @ValidateIf((dto: MoveTodoDto) => dto.parentId !== null)
+  @IsInt({ message: 'Parent ID must be an integer' })
+  parentId: number | null;
+
+  @ApiPropertyOptional({
+    example: 0,
+    description: 'Position among the new siblings; defaults to the end',
+  })
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  position?: number;
+}
+
+export class ReorderTodosDto {
+  @ApiProperty({
+    example: [14, 12, 13],
+    description: 'IDs of every child in the desired order',
+  })
+  @IsArray({ message: 'IDs must be an array' })
+  @ArrayNotEmpty({ message: 'IDs must not be empty' })
+  @ArrayUnique({ message: 'IDs must be unique' })
+  @IsInt({ each: true, message: 'Each ID must be an integer' })
+  ids: number[];
+}
+
+export enum TodoSortField {
+  CREATED_AT = 'createdAt',
+  UPDATED_AT = 'updatedAt',
+  DUE_DATE = 'dueDate',
+  TITLE = 'title',
+}
+
+export enum TodoScope {
+  ALL = 'all',
+  OWNED = 'owned',
+  SHARED = 'shared',
+}
+
+export enum TagMatchMode {
+  ANY = 'any',
+  ALL = 'all',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class TodoQueryDto {
+  @ApiPropertyOptional({
+    enum: TodoScope,
+    default: TodoScope.ALL,
+    description: 'Own todos, todos shared with the user, or both',
+  })
+  @IsEnum(TodoScope, { message: 'Scope must be all, owned or shared' })
+  @IsOptional()
+  scope?: TodoScope = TodoScope.ALL;
+
+  @ApiPropertyOptional({ example: false })
+  @ToBoolean()
+  @IsBoolean({ message: 'Completed must be a boolean' })
+  @IsOptional()
+  completed?: boolean;
+
+  @ApiPropertyOptional({ example: '2023-12-31T23:59:59Z' })
+  @IsDateString({}, { message: 'dueBefore must be a valid date' })
+  @IsOptional()
+  dueBefore?: string;
+
+  @ApiPropertyOptional({ example: '2023-12-01T00:00:00Z' })
+  @IsDateString({}, { message: 'dueAfter must be a valid date' })
+  @IsOptional()
+  dueAfter?: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Only incomplete todos whose due date has passed',
+  })
+  @ToBoolean()
+  @IsBoolean({ message: 'Overdue must be a boolean' })
+  @IsOptional()
+  overdue?: boolean;
+
+  @ApiPropertyOptional({ example: 1 })
+  @IsInt({ message: 'Project ID must be an integer' })
+  @IsOptional()
+  projectId?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Only todos that do not belong to a project',
+  })
+  @ToBoolean()
+  @IsBoolean({ message: 'Inbox must be a boolean' })
+  @IsOptional()
+  inbox?: boolean;
+
+  @ApiPropertyOptional({ example: 12, description: 'Only children of a todo' })
+  @IsInt({ message: 'Parent ID must be an integer' })
+  @IsOptional()
+  parentId?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Only todos that are not sub-todos',
+  })
+  @ToBoolean()
+  @IsBoolean({ message: 'topLevel must be a boolean' })
+  @IsOptional()
+  topLevel?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'home,errands',
+    description: 'Comma separated tag names',
+  })
+  @ToStringArray()
+  @IsArray({ message: 'Tags must be a list of names' })
+  @IsString({ each: true, message: 'Each tag must be a string' })
+  @IsOptional()
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    enum: TagMatchMode,
+    default: TagMatchMode.ANY,
+    description: 'Match todos with any or with all of the tags',
+  })
+  @IsEnum(TagMatchMode, { message: 'Tag mode must be any or all' })
+  @IsOptional()
+  tagMode?: TagMatchMode = TagMatchMode.ANY;
+
+  @ApiPropertyOptional({
+    example: 'groceries',
+    description: 'Case-insensitive match on title or description',
+  })
+  @IsString({ message: 'Search must be a string' })
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({
+    enum: TodoSortField,
+    default: TodoSortField.CREATED_AT,
+  })
+  @IsEnum(TodoSortField, { message: 'Invalid sort field' })
+  @IsOptional()
+  sortBy?: TodoSortField = TodoSortField.CREATED_AT;
+
+  @ApiPropertyOptional({ enum: SortOrder, default: SortOrder.DESC })
+  @IsEnum(SortOrder, { message: 'Sort order must be asc or desc' })
+  @IsOptional()
+  sortOrder?: SortOrder = SortOrder.DESC;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    example: 0,
+    description: 'Number of items to skip (ignored when cursor is set)',
+  })
+  @IsInt({ message: 'Offset must be an integer' })
+  @Min(0, { message: 'Offset must not be negative' })
+  @IsOptional()
+  offset?: number;
+
+  @ApiPropertyOptional({
+    example: 42,
+    description: 'ID of the last todo from the previous page',
+  })
+  @IsInt({ message: 'Cursor must be an integer' })
+  @IsOptional()
+  cursor?: number;
+}
+
+export class UpcomingQueryDto {
+  @ApiProperty({ example: '2025-01-01T00:00:00Z' })
+  @IsDateString({}, { message: 'From must be a valid date' })
+  from: string;
+
+  @ApiProperty({ example: '2025-01-31T23:59:59Z' })
+  @IsDateString({}, { message: 'To must be a valid date' })
+  to: string;
+}
+
+export enum BulkOperationType {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  COMPLETE = 'complete',
+}
+
+export enum BulkAction {
+  COMPLETE = 'complete',
+  UNCOMPLETE = 'uncomplete',
+  DELETE = 'delete',
+}
+
+export enum BulkMode {
+  ATOMIC = 'atomic',
+  BEST_EFFORT = 'best-effort',
+}
+
+export class BulkOperationDto {
+  @ApiProperty({ enum: BulkOperationType, example: BulkOperationType.UPDATE })
+  @IsEnum(BulkOperationType, {
+    message: 'Type must be create, update, delete or complete',
+  })
+  type: BulkOperationType;
+
+  @ApiPropertyOptional({
+    example: 12,
+    description: 'Todo to change; required unless creating',
+  })
+  @ValidateIf((dto: BulkOperationDto) => dto.type !== BulkOperationType.CREATE)
+  @IsInt({ message: 'ID must be an integer' })
+  id?: number;
+
+  @ApiPropertyOptional({
+    type: CreateTodoDto,
+    description: 'The todo to create; required for create',
+  })
+  @ValidateIf((dto: BulkOperationDto) => dto.type === BulkOperationType.CREATE)
+  @IsDefined({ message: 'Todo is required for create' })
+  @ValidateNested()
+  @Type(() => CreateTodoDto)
+  todo?: CreateTodoDto;
+
+  @ApiPropertyOptional({
+    type: UpdateTodoDto,
+    description: 'The changes to apply; required for update',
+  })
+  @ValidateIf((dto: BulkOperationDto) => dto.type === BulkOperationType.UPDATE)
+  @IsDefined({ message: 'Changes are required for update' })
+  @ValidateNested()
+  @Type(() => UpdateTodoDto)
+  changes?: UpdateTodoDto;
+}
+
+export class BulkFilterDto extends PickType(TodoQueryDto, [
+  'completed',
+  'dueBefore',
+  'dueAfter',
+  'overdue',
+  'projectId',
+  'inbox',
+  'parentId',
+  'topLevel',
+  'tags',
+  'tagMode',
+  'search',
+] as const) {}
+
+export class BulkTodosDto {
+  @ApiPropertyOptional({
+    enum: BulkMode,
+    default: BulkMode.ATOMIC,
+    description:
+      'Atomic applies every operation or none; best-effort keeps the ones that succeed',
+  })
+  @IsEnum(BulkMode, { message: 'Mode must be atomic or best-effort' })
+  @IsOptional()
+  mode?: BulkMode = BulkMode.ATOMIC;
+
+  @ApiPropertyOptional({
+    type: [BulkOperationDto],
+    description: 'Operations to run in order; required unless using a filter',
+  })
+  @ValidateIf((dto: BulkTodosDto) => dto.filter === undefined)
+  @IsArray({ message: 'Operations must be an array' })
+  @ArrayNotEmpty({ message: 'Operations must not be empty' })
+  @ValidateNested({ each: true })
+  @Type(() => BulkOperationDto)
+  operations?: BulkOperationDto[];
+
+  @ApiPropertyOptional({
+    type: BulkFilterDto,
+    description: 'Selects own todos to apply the action to',
+  })
+  @ValidateNested()
+  @Type(() => BulkFilterDto)
+  @IsOptional()
+  filter?: BulkFilterDto;
+
+  @ApiPropertyOptional({
+    enum: BulkAction,
+    example: BulkAction.COMPLETE,
+    description: 'Action applied to every todo matching the filter',
+  })
+  @ValidateIf((dto: BulkTodosDto) => dto.filter !== undefined)
+  @IsEnum(BulkAction, {
+    message: 'Action must be complete, uncomplete or delete',
+  })
+  action?: BulkAction;
+}
+
+export class TodoHistoryQueryDto {
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    example: 42,
+    description: 'ID of the last event from the previous page',
+  })
+  @IsInt({ message: 'Cursor must be an integer' })
+  @IsOptional()
+  cursor?: number;
+}
+
+export class SyncQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Change token from the previous sync; omit to download everything',
+  })
+  @IsString({ message: 'Since must be a sync token' })
+  @IsOptional()
+  since?: string;
+
+  @ApiPropertyOptional({ example: 500, default: 500, maximum: 1000 })
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(1000, { message: 'Limit must not exceed 1000' })
+  @IsOptional()
+  limit?: number = 500;
+}
+
+export enum SyncMutationType {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+export class SyncTodoChangesDto extends PickType(UpdateTodoDto, [
+  'title',
+  'description',
+  'completed',
+  'dueDate',
+  'projectId',
+  'recurrence',
+] as const) {}
+
+export class SyncMutationDto {
+  @ApiProperty({ enum: SyncMutationType, example: SyncMutationType.UPDATE })
+  @IsEnum(SyncMutationType, {
+    message: 'Type must be create, update or delete',
+  })
+  type: SyncMutationType;
+
+  @ApiPropertyOptional({
+    example: 12,
+    description: 'Todo to change; required unless creating',
+  })
+  @ValidateIf((dto: SyncMutationDto) => dto.type !== SyncMutationType.CREATE)
+  @IsInt({ message: 'ID must be an integer' })
+  id?: number;
+
+  @ApiPropertyOptional({
+    example: 41,
+    description:
+      'Version of the todo the client last saw; required unless creating',
+  })
+  @ValidateIf((dto: SyncMutationDto) => dto.type !== SyncMutationType.CREATE)
+  @IsInt({ message: 'Base version must be an integer' })
+  @Min(0, { message: 'Base version must not be negative' })
+  baseVersion?: number;
+
+  @ApiPropertyOptional({
+    example: '5f0c6a7e-3b1d-4c43-9d6e-2a8f3f1b7c10',
+    description:
+      'Client-generated ID for a created todo; retrying with the same ID ' +
+      'returns the todo instead of creating it twice',
+  })
+  @ValidateIf((dto: SyncMutationDto) => dto.type === SyncMutationType.CREATE)
+  @IsString({ message: 'Client ID must be a string' })
+  @IsNotEmpty({ message: 'Client ID is required for create' })
+  @MaxLength(64, { message: 'Client ID must not exceed 64 characters' })
+  clientId?: string;
+
+  @ApiPropertyOptional({
+    type: CreateTodoDto,
+    description: 'The todo to create; required for create',
+  })
+  @ValidateIf((dto: SyncMutationDto) => dto.type === SyncMutationType.CREATE)
+  @IsDefined({ message: 'Todo is required for create' })
+  @ValidateNested()
+  @Type(() => CreateTodoDto)
+  todo?: CreateTodoDto;
+
+  @ApiPropertyOptional({
+    type: SyncTodoChangesDto,
+    description: 'Fields the client changed; required for update',
+  })
+  @ValidateIf((dto: SyncMutationDto) => dto.type === SyncMutationType.UPDATE)
+  @IsDefined({ message: 'Changes are required for update' })
+  @ValidateNested()
+  @Type(() => SyncTodoChangesDto)
+  changes?: SyncTodoChangesDto;
+}
+
+export class SyncTodosDto {
+  @ApiPropertyOptional({
+    enum: SyncConflictStrategy,
+    default: SyncConflictStrategy.SERVER_WINS,
+    description:
+      'Which value to keep for fields changed both offline and on the server',
+  })
+  @IsEnum(SyncConflictStrategy, {
+    message: 'Conflict strategy must be server-wins or client-wins',
+  })
+  @IsOptional()
+  conflictStrategy?: SyncConflictStrategy = SyncConflictStrategy.SERVER_WINS;
+
+  @ApiProperty({
+    type: [SyncMutationDto],
+    description: 'Changes made offline, applied in order',
+  })
+  @IsArray({ message: 'Mutations must be an array' })
+  @ArrayMaxSize(500, { message: 'Mutations must not exceed 500' })
+  @ValidateNested({ each: true })
+  @Type(() => SyncMutationDto)
+  mutations: SyncMutationDto[];
+}
+
+export enum TodoFileFormat {
+  JSON = 'json',
+  CSV = 'csv',
+  ICS = 'ics',
+}
+
+export class ExportTodosQueryDto {
+  @ApiPropertyOptional({ enum: TodoFileFormat, default: TodoFileFormat.JSON })
+  @IsEnum(TodoFileFormat, { message: 'Format must be json, csv or ics' })
+  @IsOptional()
+  format?: TodoFileFormat = TodoFileFormat.JSON;
+}
+
+export enum ImportDuplicateMode {
+  SKIP = 'skip',
+  ALLOW = 'allow',
+}
+
+export class ImportTodosDto {
+  // Read by the upload interceptor; declared for the API docs only
+  @ApiProperty({ type: 'string', format: 'binary' })
+  file?: unknown;
+
+  @ApiPropertyOptional({
+    enum: TodoFileFormat,
+    description: 'Defaults to the file extension or content type',
+  })
+  @IsEnum(TodoFileFormat, { message: 'Format must be json, csv or ics' })
+  @IsOptional()
+  format?: TodoFileFormat;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Validate and report without creating anything',
+  })
+  @ToBoolean()
+  @IsBoolean({ message: 'dryRun must be a boolean' })
+  @IsOptional()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    example: '{"title":"Task","dueDate":"Deadline"}',
+    description:
+      'JSON object naming the CSV column of each field (title, description, ' +
+      'completed, dueDate, tags); by default columns match field names',
+  })
+  @IsJSON({ message: 'Mapping must be a JSON object' })
+  @IsOptional()
+  mapping?: string;
+
+  @ApiPropertyOptional({
+    enum: ImportDuplicateMode,
+    default: ImportDuplicateMode.SKIP,
+    description:
+      'Whether to skip rows with the same title and due date as an ' +
+      'existing todo or an earlier row',
+  })
+  @IsEnum(ImportDuplicateMode, {
+    message: 'Duplicates must be skip or allow',
+  })
+  @IsOptional()
+  duplicates?: ImportDuplicateMode = ImportDuplicateMode.SKIP;
+}
+
+/** One todo read from an import file. */
+export class ImportTodoRowDto extends PickType(CreateTodoDto, [
+  'title',
+  'description',
+  'dueDate',
+  'tagNames',
+] as const) {
+  @ApiPropertyOptional({ example: false })
+  @IsBoolean({ message: 'Completed must be a boolean' })
+  @IsOptional()
+  completed?: boolean;
 }
@@ -0,0 +1,25 @@
+import { TodoEvent } from '@prisma/client';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { TodoEventInput } from '../todo.interface';
+import { TodoHistoryQueryDto } from '../../dto/todo.dto';
+
+export interface TodoEventRepositoryInterface {
+  createMany(events: TodoEventInput[]): Promise<number>;
+  findForTodo(
+    todoId: number,
+    query: TodoHistoryQueryDto,
+  ): Promise<PaginatedResult<TodoEvent>>;
+  findFeed(
+    userId: number,
+    query: TodoHistoryQueryDto,
+  ): Promise<PaginatedResult<TodoEvent>>;
+  findFeedAfter(
+    userId: number,
+    afterId: number,
+    take: number,
+  ): Promise<TodoEvent[]>;
+  findAfter(afterId: number, take: number): Promise<TodoEvent[]>;
+  findLatestId(): Promise<number>;
+  findById(id: number, todoId: number): Promise<TodoEvent | null>;
+  findNewer(todoId: number, eventId: number): Promise<TodoEvent[]>;
+}
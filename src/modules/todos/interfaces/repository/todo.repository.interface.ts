@@ -1,15 +1,94 @@
-import { Todo } from '@prisma/client';
-import { CreateTodoDto, UpdateTodoDto } from '../../dto/todo.dto';
+import { Todo, TodoTombstone } from '@prisma/client';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import {
+  AccessibleTodo,
+  BulkWriteOperation,
+  BulkWriteResult,
+  SyncFeedEntry,
+  TodoWithTags,
+} from '../todo.interface';
+import {
+  BulkFilterDto,
+  CreateTodoDto,
+  TodoQueryDto,
+  UpdateTodoDto,
+} from '../../dto/todo.dto';
+import { TodoSnapshot } from '../../utils/todo-snapshot.util';
+import { SyncPosition } from '../../utils/sync.util';
 
 export interface TodoRepositoryInterface {
-  create(userId: number, createTodoDto: CreateTodoDto): Promise<Todo>;
+  create(
+    userId: number,
+    createTodoDto: CreateTodoDto,
+    clientId?: string,
+  ): Promise<Todo>;
+  findByClientId(userId: number, clientId: string): Promise<Todo | null>;
+  findSyncHorizon(): Promise<number>;
+  findChangedSince(
+    userId: number,
+    after: SyncPosition,
+    horizon: number,
+    take: number,
+    includeDeleted: boolean,
+  ): Promise<SyncFeedEntry<Todo>[]>;
+  findTombstonesSince(
+    userId: number,
+    after: SyncPosition,
+    horizon: number,
+    take: number,
+  ): Promise<SyncFeedEntry<TodoTombstone>[]>;
   findAll(userId: number): Promise<Todo[]>;
-  findOne(id: number, userId: number): Promise<Todo | null>;
+  findPageAfter(
+    userId: number,
+    afterId: number,
+    take: number,
+  ): Promise<TodoWithTags[]>;
+  findByTitles(
+    userId: number,
+    titles: string[],
+  ): Promise<Pick<Todo, 'title' | 'dueDate'>[]>;
+  findMany(
+    userId: number,
+    query: TodoQueryDto,
+  ): Promise<PaginatedResult<AccessibleTodo>>;
+  findById(id: number): Promise<Todo | null>;
   update(
     id: number,
     userId: number,
     updateTodoDto: UpdateTodoDto,
+    expectedVersion?: number,
   ): Promise<Todo>;
-  remove(id: number, userId: number): Promise<Todo>;
-  exists(id: number, userId: number): Promise<boolean>;
+  applySnapshot(id: number, snapshot: TodoSnapshot): Promise<Todo>;
+  remove(id: number, userId: number, expectedVersion?: number): Promise<Todo>;
+  findTrash(userId: number): Promise<Todo[]>;
+  findTrashed(id: number, userId: number): Promise<Todo | null>;
+  restore(id: number): Promise<Todo>;
+  removePermanently(id: number): Promise<Todo>;
+  findTrashedBefore(before: Date): Promise<Todo[]>;
+  purgeTrashed(ids: number[], before: Date): Promise<number>;
+  removeByProject(projectId: number): Promise<Todo[]>;
+  createChild(
+    userId: number,
+    parentId: number,
+    createTodoDto: CreateTodoDto,
+  ): Promise<Todo>;
+  findChildren(parentId: number): Promise<Todo[]>;
+  findDescendants(id: number): Promise<Todo[][]>;
+  getDepth(id: number): Promise<number>;
+  findAncestorIds(id: number): Promise<number[]>;
+  move(id: number, parentId: number | null, position?: number): Promise<Todo>;
+  reorderChildren(parentId: number, orderedIds: number[]): Promise<void>;
+  setCompleted(ids: number[], completed: boolean): Promise<number>;
+  createNextOccurrence(todo: Todo, dueDate: Date): Promise<Todo>;
+  advanceOccurrence(id: number, dueDate: Date): Promise<Todo>;
+  findRecurring(userId: number): Promise<Todo[]>;
+  findIds(
+    userId: number,
+    filter: BulkFilterDto,
+    take: number,
+  ): Promise<number[]>;
+  bulkWrite(
+    operations: BulkWriteOperation[],
+    atomic: boolean,
+  ): Promise<BulkWriteResult>;
 }
@@ -0,0 +1,171 @@
+import { Tag, Todo, TodoEventType } from '@prisma/client';
+import { AccessLevel } from '@modules/shares/interfaces/share.interface';
+import {
+  BulkMode,
+  BulkOperationType,
+  CreateTodoDto,
+  ImportTodoRowDto,
+  SyncMutationType,
+  UpdateTodoDto,
+} from '../dto/todo.dto';
+import { TodoChanges } from '../utils/todo-snapshot.util';
+import { SyncConflict, SyncPosition } from '../utils/sync.util';
+
+export interface TodoProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+/** Marks whether a listed todo is the user's own or shared with them. */
+export interface TodoAccess {
+  isOwner: boolean;
+  permission: AccessLevel;
+}
+
+export type AccessibleTodo = Todo & TodoAccess;
+
+export type TodoWithTags = Todo & {
+  tags: { tag: Pick<Tag, 'id' | 'name' | 'color'> }[];
+};
+
+export type TodoWithChildren = AccessibleTodo & {
+  children: Todo[];
+  progress: TodoProgress;
+};
+
+/** A todo together with the ETag of its representation. */
+export interface TaggedTodo<T extends Todo = Todo> {
+  todo: T;
+  etag: string;
+}
+
+export interface UpcomingOccurrence {
+  todoId: number;
+  title: string;
+  dueDate: Date;
+  occurrence: number;
+}
+
+/** A prepared bulk operation, already checked for access and validity. */
+export type BulkWriteOperation =
+  | {
+      type: 'create';
+      ownerId: number;
+      data: CreateTodoDto;
+      completed?: boolean;
+    }
+  | { type: 'update'; id: number; data: UpdateTodoDto; nextDueDate?: Date }
+  | { type: 'delete'; id: number };
+
+export interface BulkWriteOutcome {
+  todo?: Todo;
+  /** Sub-todos completed along with the todo, as they were before. */
+  completedDescendants?: Todo[];
+  /** Next occurrence spawned by completing a recurring todo. */
+  nextOccurrence?: Todo;
+  error?: unknown;
+}
+
+export interface BulkWriteResult {
+  committed: boolean;
+  outcomes: BulkWriteOutcome[];
+}
+
+export type BulkItemStatus = 'succeeded' | 'failed' | 'skipped' | 'rolled_back';
+
+export interface BulkItemResult {
+  index: number;
+  type: BulkOperationType;
+  id?: number;
+  status: BulkItemStatus;
+  todo?: Todo;
+  error?: { statusCode: number; message: string };
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export interface TodoEventInput {
+  type: TodoEventType;
+  todoId: number;
+  /** Owner of the todo, whose activity feed shows the event. */
+  userId: number;
+  /** Null for changes the system made on its own. */
+  actorId: number | null;
+  changes: TodoChanges;
+}
+
+/** A todo that is gone, as reported to syncing clients. */
+export interface SyncTombstone {
+  id: number;
+  version: number;
+  deletedAt: Date;
+}
+
+/** A todo or tombstone read for the sync feed, with its place in it. */
+export interface SyncFeedEntry<T> {
+  position: SyncPosition;
+  record: T;
+}
+
+export interface SyncChanges {
+  /** Live todos created or changed since the token. */
+  todos: Todo[];
+  /** Todos trashed or removed since the token. */
+  deleted: SyncTombstone[];
+  /** Pass as `since` next time. */
+  token: string;
+  /** More changes are waiting; sync again right away with the new token. */
+  hasMore: boolean;
+}
+
+export type SyncMutationStatus = 'applied' | 'conflict' | 'rejected';
+
+export interface SyncMutationResult {
+  index: number;
+  type: SyncMutationType;
+  id?: number;
+  clientId?: string;
+  status: SyncMutationStatus;
+  /** State after the mutation; null once the todo is gone. */
+  todo?: Todo | null;
+  conflicts?: SyncConflict[];
+  error?: { statusCode: number; message: string };
+}
+
+export interface SyncResult {
+  applied: number;
+  conflicts: number;
+  rejected: number;
+  results: SyncMutationResult[];
+}
+
+export interface ImportRowError {
+  /** Position in the file: CSV record (the header is 1), array element or VTODO. */
+  row: number;
+  messages: string[];
+}
+
+export interface ImportDuplicate {
+  row: number;
+  title: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  /** Created, or valid and new in a dry run. */
+  imported: number;
+  duplicates: number;
+  failed: number;
+  errors: ImportRowError[];
+  skipped: ImportDuplicate[];
+  /** The first valid rows as they would be created; dry runs only. */
+  preview?: ImportTodoRowDto[];
+}
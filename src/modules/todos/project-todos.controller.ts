@@ -0,0 +1,49 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TodosService } from './todos.service';
+import { TodoQueryDto } from './dto/todo.dto';
+import { SharesService } from '@modules/shares/shares.service';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { AccessTokenScope } from '@modules/auth/interfaces/access-token.interface';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Projects')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:id/todos')
+export class ProjectTodosController {
+  constructor(
+    private readonly todosService: TodosService,
+    private readonly sharesService: SharesService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(ProjectTodosController.name);
+  }
+
+  @Get()
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({ summary: 'Get the todos of a project' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'Return a page of todos' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findAll(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query() query: TodoQueryDto,
+  ) {
+    this.logger.log(`Finding todos for project with id: ${id}`);
+
+    await this.sharesService.requireProjectAccess(+id, user.id, 'VIEWER');
+
+    return this.todosService.findAll(user.id, { ...query, projectId: +id });
+  }
+}
@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, TodoEvent } from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { TodoEventRepositoryInterface } from '@modules/todos/interfaces/repository/todo-event.repository.interface';
+import { TodoEventInput } from '@modules/todos/interfaces/todo.interface';
+import { TodoHistoryQueryDto } from '../dto/todo.dto';
+
+const EVENT_INCLUDE = {
+  actor: { select: { id: true, name: true, email: true } },
+  todo: { select: { id: true, title: true } },
+} satisfies Prisma.TodoEventInclude;
+
+@Injectable()
+export class TodoEventRepository implements TodoEventRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoEventRepository.name);
+  }
+
+  async createMany(events: TodoEventInput[]): Promise<number> {
+    this.logger.debug(`Recording ${events.length} todo events`);
+
+    const { count } = await this.prisma.todoEvent.createMany({
+      data: events.map((event) => ({
+        ...event,
+        changes: event.changes as Prisma.InputJsonObject,
+      })),
+    });
+
+    return count;
+  }
+
+  async findForTodo(
+    todoId: number,
+    query: TodoHistoryQueryDto,
+  ): Promise<PaginatedResult<TodoEvent>> {
+    this.logger.debug(`Finding history of todo: ${todoId}`);
+
+    return this.findPage({ todoId }, query);
+  }
+
+  async findFeed(
+    userId: number,
+    query: TodoHistoryQueryDto,
+  ): Promise<PaginatedResult<TodoEvent>> {
+    this.logger.debug(`Finding activity feed for user: ${userId}`);
+
+    // Changes to the user's todos plus whatever they did on shared ones
+    return this.findPage({ OR: [{ userId }, { actorId: userId }] }, query);
+  }
+
+  /** Feed events after the given one, oldest first, to catch a client up. */
+  async findFeedAfter(
+    userId: number,
+    afterId: number,
+    take: number,
+  ): Promise<TodoEvent[]> {
+    return this.prisma.todoEvent.findMany({
+      where: { id: { gt: afterId }, OR: [{ userId }, { actorId: userId }] },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+
+  async findAfter(afterId: number, take: number): Promise<TodoEvent[]> {
+    return this.prisma.todoEvent.findMany({
+      where: { id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+
+  async findLatestId(): Promise<number> {
+    const { _max } = await this.prisma.todoEvent.aggregate({
+      _max: { id: true },
+    });
+
+    return _max.id ?? 0;
+  }
+
+  async findById(id: number, todoId: number): Promise<TodoEvent | null> {
+    return this.prisma.todoEvent.findFirst({ where: { id, todoId } });
+  }
+
+  /** Returns the events recorded after the given one, newest first. */
+  async findNewer(todoId: number, eventId: number): Promise<TodoEvent[]> {
+    return this.prisma.todoEvent.findMany({
+      where: { todoId, id: { gt: eventId } },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  private async findPage(
+    where: Prisma.TodoEventWhereInput,
+    query: TodoHistoryQueryDto,
+  ): Promise<PaginatedResult<TodoEvent>> {
+    const limit = query.limit ?? 20;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      this.prisma.todoEvent.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        include: EVENT_INCLUDE,
+        take: limit + 1,
+        ...(query.cursor !== undefined
+          ? { cursor: { id: query.cursor }, skip: 1 }
+          : {}),
+      }),
+      this.prisma.todoEvent.count({ where }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      items,
+      total,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+}
@@ -1,13 +1,53 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@core/database/prisma/prisma.service';
-import { CreateTodoDto, UpdateTodoDto } from '../dto/todo.dto';
+import {
+  BulkFilterDto,
+  CreateTodoDto,
+  SortOrder,
+  TagMatchMode,
+  TodoQueryDto,
+  TodoScope,
+  TodoSortField,
+  UpdateTodoDto,
+} from '../dto/todo.dto';
 
 // import { AppLogger } from '../../common/logger/app-logger.service';
 // import { TodoRepositoryInterface } from '../interfaces/repository/todo.repository.interface';
-import { Todo } from '@prisma/client';
+import { Prisma, ShareStatus, Todo, TodoTombstone } from '@prisma/client';
 
 import { AppLogger } from '@common/logger/app-logger.service';
-import { TodoRepositoryInterface } from '@app/todos/interfaces/repository/todo.repository.interface';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { TodoRepositoryInterface } from '@modules/todos/interfaces/repository/todo.repository.interface';
+import { RecurrenceRule } from '@modules/todos/utils/recurrence.util';
+import { TodoSnapshot } from '@modules/todos/utils/todo-snapshot.util';
+import { SyncPosition } from '@modules/todos/utils/sync.util';
+import {
+  AccessibleTodo,
+  BulkWriteOperation,
+  BulkWriteOutcome,
+  BulkWriteResult,
+  SyncFeedEntry,
+  TodoWithTags,
+} from '@modules/todos/interfaces/todo.interface';
+import { strongestAccess } from '@modules/shares/utils/access.util';
+
+// Assigned tags are returned with every todo
+const TODO_INCLUDE = {
+  tags: { select: { tag: { select: { id: true, name: true, color: true } } } },
+} satisfies Prisma.TodoInclude;
+
+// Trashed todos are hidden from every read unless asked for explicitly
+const NOT_DELETED = { deletedAt: null } satisfies Prisma.TodoWhereInput;
+
+// Large batches run longer than the default interactive transaction timeout
+const BULK_TRANSACTION_TIMEOUT_MS = 30_000;
+
+// Prisma has no type for xid8, so transaction ids are read as text
+interface SyncFeedRow {
+  id: number;
+  xid: string;
+  version: number;
+}
 
 @Injectable()
 export class TodoRepository implements TodoRepositoryInterface {
@@ -18,71 +58,900 @@ export class TodoRepository implements TodoRepositoryInterface {
     this.logger.setContext(TodoRepository.name);
   }
 
-  async create(userId: number, createTodoDto: CreateTodoDto): Promise<Todo> {
+  async create(
+    userId: number,
+    createTodoDto: CreateTodoDto,
+    clientId?: string,
+  ): Promise<Todo> {
     this.logger.debug(`Creating todo for user: ${userId}`);
 
     return this.prisma.todo.create({
-      data: {
-        ...createTodoDto,
-        dueDate: createTodoDto.dueDate ? new Date(createTodoDto.dueDate) : null,
-        userId,
-      },
+      data: { ...this.buildCreateData(userId, createTodoDto), clientId },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  async findByClientId(userId: number, clientId: string): Promise<Todo | null> {
+    return this.prisma.todo.findUnique({
+      where: { userId_clientId: { userId, clientId } },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  /**
+   * The oldest transaction still running. Every change written by an older
+   * one is committed and final, so the sync feed stops right before it.
+   */
+  async findSyncHorizon(): Promise<number> {
+    const [{ xmin }] = await this.prisma.$queryRaw<{ xmin: string }[]>`
+      SELECT pg_snapshot_xmin(pg_current_snapshot())::text AS "xmin"`;
+
+    return Number(xmin);
+  }
+
+  /** Own todos changed after the given position, trashed ones included. */
+  async findChangedSince(
+    userId: number,
+    after: SyncPosition,
+    horizon: number,
+    take: number,
+    includeDeleted: boolean,
+  ): Promise<SyncFeedEntry<Todo>[]> {
+    const changed = await this.prisma.$queryRaw<SyncFeedRow[]>`
+      SELECT "id", "change_xid"::text AS "xid", "version" FROM "todos"
+      WHERE "user_id" = ${userId}
+        AND ("change_xid", "version") > (${String(after.xid)}::xid8, ${after.version})
+        AND "change_xid" < ${String(horizon)}::xid8
+        ${includeDeleted ? Prisma.empty : Prisma.sql`AND "deleted_at" IS NULL`}
+      ORDER BY "change_xid", "version"
+      LIMIT ${take}`;
+
+    const todos = await this.prisma.todo.findMany({
+      where: { id: { in: changed.map(({ id }) => id) } },
+      include: TODO_INCLUDE,
+    });
+    const byId = new Map(todos.map((todo) => [todo.id, todo]));
+
+    // A todo removed since is left out; its tombstone comes later in the feed
+    return changed.flatMap(({ id, xid, version }) => {
+      const todo = byId.get(id);
+
+      return todo
+        ? [{ position: { xid: Number(xid), version }, record: todo }]
+        : [];
     });
   }
 
+  async findTombstonesSince(
+    userId: number,
+    after: SyncPosition,
+    horizon: number,
+    take: number,
+  ): Promise<SyncFeedEntry<TodoTombstone>[]> {
+    const tombstones = await this.prisma.$queryRaw<
+      (TodoTombstone & { xid: string })[]
+    >`
+      SELECT "id", "todo_id" AS "todoId", "version", "deleted_at" AS "deletedAt",
+        "user_id" AS "userId", "change_xid"::text AS "xid"
+      FROM "todo_tombstones"
+      WHERE "user_id" = ${userId}
+        AND ("change_xid", "version") > (${String(after.xid)}::xid8, ${after.version})
+        AND "change_xid" < ${String(horizon)}::xid8
+      ORDER BY "change_xid", "version"
+      LIMIT ${take}`;
+
+    return tombstones.map(({ xid, ...tombstone }) => ({
+      position: { xid: Number(xid), version: tombstone.version },
+      record: tombstone,
+    }));
+  }
+
   async findAll(userId: number): Promise<Todo[]> {
     this.logger.debug(`Finding all todos for user: ${userId}`);
 
     return this.prisma.todo.findMany({
-      where: { userId },
+      where: { userId, ...NOT_DELETED },
       orderBy: { createdAt: 'desc' },
     });
   }
 
-  async findOne(id: number, userId: number): Promise<Todo | null> {
-    this.logger.debug(`Finding todo with id: ${id} for user: ${userId}`);
+  /** A page of own live todos in ID order, for walking through all of them. */
+  async findPageAfter(
+    userId: number,
+    afterId: number,
+    take: number,
+  ): Promise<TodoWithTags[]> {
+    return this.prisma.todo.findMany({
+      where: { userId, id: { gt: afterId }, ...NOT_DELETED },
+      orderBy: { id: 'asc' },
+      take,
+      include: TODO_INCLUDE,
+    });
+  }
+
+  async findByTitles(
+    userId: number,
+    titles: string[],
+  ): Promise<Pick<Todo, 'title' | 'dueDate'>[]> {
+    return this.prisma.todo.findMany({
+      where: {
+        userId,
+        title: { in: titles, mode: 'insensitive' },
+        ...NOT_DELETED,
+      },
+      select: { title: true, dueDate: true },
+    });
+  }
+
+  async findMany(
+    userId: number,
+    query: TodoQueryDto,
+  ): Promise<PaginatedResult<AccessibleTodo>> {
+    this.logger.debug(
+      `Finding todos for user: ${userId} with query: ${JSON.stringify(query)}`,
+    );
+
+    const where = this.buildWhere(userId, query);
+    const limit = query.limit ?? 20;
+
+    // Shares reaching the user tell which permission they hold on each row
+    const acceptedShares = {
+      where: { inviteeId: userId, status: ShareStatus.ACCEPTED },
+      select: { permission: true },
+    };
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      this.prisma.todo.findMany({
+        where,
+        orderBy: this.buildOrderBy(query),
+        include: {
+          ...TODO_INCLUDE,
+          shares: acceptedShares,
+          project: { select: { shares: acceptedShares } },
+        },
+        take: limit + 1,
+        ...(query.cursor !== undefined
+          ? { cursor: { id: query.cursor }, skip: 1 }
+          : { skip: query.offset ?? 0 }),
+      }),
+      this.prisma.todo.count({ where }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    const items = page.map(({ shares, project, ...todo }) => {
+      const isOwner = todo.userId === userId;
+      const permission = isOwner
+        ? 'OWNER'
+        : strongestAccess(
+            [...shares, ...(project?.shares ?? [])].map(
+              (share) => share.permission,
+            ),
+          );
+
+      return { ...todo, isOwner, permission: permission ?? 'VIEWER' };
+    });
+
+    return {
+      items,
+      total,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
+  async findById(id: number): Promise<Todo | null> {
+    this.logger.debug(`Finding todo with id: ${id}`);
 
     return this.prisma.todo.findFirst({
-      where: { id, userId },
+      where: { id, ...NOT_DELETED },
+      include: TODO_INCLUDE,
     });
   }
 
+  /** With `expectedVersion` the update fails (P2025) if it changed. */
   async update(
     id: number,
     userId: number,
     updateTodoDto: UpdateTodoDto,
+    expectedVersion?: number,
   ): Promise<Todo> {
     this.logger.debug(`Updating todo with id: ${id} for user: ${userId}`);
 
     return this.prisma.todo.update({
-      where: { id },
+      where: { id, ...NOT_DELETED, version: expectedVersion },
+      data: this.buildUpdateData(updateTodoDto),
+      include: TODO_INCLUDE,
+    });
+  }
+
+  /** Overwrites the tracked fields, e.g. to revert to an older version. */
+  async applySnapshot(id: number, snapshot: TodoSnapshot): Promise<Todo> {
+    this.logger.debug(`Applying snapshot to todo with id: ${id}`);
+
+    return this.prisma.todo.update({
+      where: { id, ...NOT_DELETED },
       data: {
-        ...updateTodoDto,
-        dueDate: updateTodoDto.dueDate
-          ? new Date(updateTodoDto.dueDate)
-          : undefined,
+        title: snapshot.title,
+        description: snapshot.description,
+        completed: snapshot.completed,
+        dueDate: snapshot.dueDate ? new Date(snapshot.dueDate) : null,
+        projectId: snapshot.projectId,
+        recurrence: snapshot.recurrence ?? Prisma.DbNull,
+        tags: snapshot.tagIds && {
+          deleteMany: {},
+          create: snapshot.tagIds.map((tagId) => ({ tagId })),
+        },
       },
+      include: TODO_INCLUDE,
     });
   }
 
-  async remove(id: number, userId: number): Promise<Todo> {
+  /** With `expectedVersion` the removal fails (P2025) if it changed. */
+  async remove(
+    id: number,
+    userId: number,
+    expectedVersion?: number,
+  ): Promise<Todo> {
     this.logger.debug(`Removing todo with id: ${id} for user: ${userId}`);
 
-    return this.prisma.todo.delete({
+    return this.prisma.$transaction((tx) =>
+      this.trashSubtree(tx, id, expectedVersion),
+    );
+  }
+
+  async findTrash(userId: number): Promise<Todo[]> {
+    this.logger.debug(`Finding trashed todos for user: ${userId}`);
+
+    // Sub-todos trashed along with their parent are listed through it
+    return this.prisma.todo.findMany({
+      where: {
+        userId,
+        deletedAt: { not: null },
+        OR: [{ parentId: null }, { parent: NOT_DELETED }],
+      },
+      orderBy: { deletedAt: 'desc' },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  async findTrashed(id: number, userId: number): Promise<Todo | null> {
+    this.logger.debug(`Finding trashed todo with id: ${id}`);
+
+    return this.prisma.todo.findFirst({
+      where: { id, userId, deletedAt: { not: null } },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  /**
+   * Brings back the todo and the sub-todos trashed together with it.
+   * Sub-todos that were trashed on their own earlier stay in the trash.
+   */
+  async restore(id: number): Promise<Todo> {
+    this.logger.debug(`Restoring todo with id: ${id}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      const { deletedAt } = await tx.todo.findUniqueOrThrow({ where: { id } });
+      const descendantIds = (
+        await this.collectDescendants(tx, id, { deletedAt })
+      )
+        .flat()
+        .map((descendant) => descendant.id);
+
+      await tx.todo.updateMany({
+        where: { id: { in: [id, ...descendantIds] }, deletedAt },
+        data: { deletedAt: null },
+      });
+
+      return tx.todo.findUniqueOrThrow({
+        where: { id },
+        include: TODO_INCLUDE,
+      });
+    });
+  }
+
+  async removePermanently(id: number): Promise<Todo> {
+    this.logger.debug(`Permanently removing todo with id: ${id}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      const todo = await tx.todo.findUniqueOrThrow({ where: { id } });
+      await this.deleteSubtree(tx, id);
+
+      return todo;
+    });
+  }
+
+  async findTrashedBefore(before: Date): Promise<Todo[]> {
+    return this.prisma.todo.findMany({
+      where: { deletedAt: { lt: before } },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * Removes the given todos unless they were restored in the meantime, and
+   * drops tombstones as old as the purged todos.
+   */
+  async purgeTrashed(ids: number[], before: Date): Promise<number> {
+    this.logger.debug(`Purging todos trashed before: ${before.toISOString()}`);
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        await tx.todoTombstone.deleteMany({
+          where: { deletedAt: { lt: before } },
+        });
+
+        const purged = await tx.todo.findMany({
+          where: { id: { in: ids }, deletedAt: { lt: before } },
+          select: { id: true, userId: true },
+        });
+
+        // Left behind for offline clients that have not synced since
+        await tx.todoTombstone.createMany({
+          data: purged.map(({ id, userId }) => ({ todoId: id, userId })),
+        });
+
+        const { count } = await tx.todo.deleteMany({
+          where: { id: { in: purged.map(({ id }) => id) } },
+        });
+
+        return count;
+      },
+      { timeout: BULK_TRANSACTION_TIMEOUT_MS },
+    );
+  }
+
+  /**
+   * Moves the live todos of a project to the trash along with their
+   * sub-todos, wherever those are filed. Returns the todos at the top of
+   * each trashed subtree.
+   */
+  async removeByProject(projectId: number): Promise<Todo[]> {
+    this.logger.debug(`Removing todos of project: ${projectId}`);
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        const todos = await tx.todo.findMany({
+          where: { projectId, ...NOT_DELETED },
+          orderBy: { id: 'asc' },
+          select: { id: true, parentId: true },
+        });
+        const ids = new Set(todos.map(({ id }) => id));
+        const trashed: Todo[] = [];
+
+        for (const { id, parentId } of todos) {
+          // Sub-todos filed in the project go with their parent
+          if (parentId !== null && ids.has(parentId)) {
+            continue;
+          }
+
+          // A sub-todo reached through a todo of another project may already
+          // have gone with an earlier subtree
+          if (await tx.todo.count({ where: { id, ...NOT_DELETED } })) {
+            trashed.push(await this.trashSubtree(tx, id));
+          }
+        }
+
+        return trashed;
+      },
+      { timeout: BULK_TRANSACTION_TIMEOUT_MS },
+    );
+  }
+
+  async createChild(
+    userId: number,
+    parentId: number,
+    createTodoDto: CreateTodoDto,
+  ): Promise<Todo> {
+    this.logger.debug(`Creating child todo under: ${parentId}`);
+
+    return this.prisma.todo.create({
+      data: {
+        ...this.buildCreateData(userId, createTodoDto),
+        parentId,
+        position: await this.nextPosition(parentId),
+      },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  async findChildren(parentId: number): Promise<Todo[]> {
+    this.logger.debug(`Finding children of todo: ${parentId}`);
+
+    return this.prisma.todo.findMany({
+      where: { parentId, ...NOT_DELETED },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      include: TODO_INCLUDE,
+    });
+  }
+
+  /**
+   * Returns every todo below the given one, grouped by level: index 0 holds
+   * the direct children, index 1 the grandchildren and so on.
+   */
+  async findDescendants(id: number): Promise<Todo[][]> {
+    this.logger.debug(`Finding descendants of todo: ${id}`);
+
+    return this.collectDescendants(this.prisma, id);
+  }
+
+  async getDepth(id: number): Promise<number> {
+    return (await this.findAncestorIds(id)).length;
+  }
+
+  /** Returns the IDs above the given todo, nearest parent first. */
+  async findAncestorIds(id: number): Promise<number[]> {
+    const ancestorIds: number[] = [];
+    let current = await this.prisma.todo.findUnique({
+      where: { id },
+      select: { parentId: true },
+    });
+
+    while (current?.parentId) {
+      ancestorIds.push(current.parentId);
+      current = await this.prisma.todo.findUnique({
+        where: { id: current.parentId },
+        select: { parentId: true },
+      });
+    }
+
+    return ancestorIds;
+  }
+
+  async move(
+    id: number,
+    parentId: number | null,
+    position?: number,
+  ): Promise<Todo> {
+    this.logger.debug(`Moving todo: ${id} under parent: ${parentId}`);
+
+    return this.prisma.todo.update({
+      where: { id },
+      data: {
+        parentId,
+        position: position ?? (await this.nextPosition(parentId)),
+      },
+    });
+  }
+
+  async reorderChildren(parentId: number, orderedIds: number[]): Promise<void> {
+    this.logger.debug(`Reordering children of todo: ${parentId}`);
+
+    await this.prisma.$transaction(
+      orderedIds.map((id, position) =>
+        this.prisma.todo.update({
+          where: { id, parentId },
+          data: { position },
+        }),
+      ),
+    );
+  }
+
+  async setCompleted(ids: number[], completed: boolean): Promise<number> {
+    this.logger.debug(`Setting completed=${completed} on ${ids.length} todos`);
+
+    const { count } = await this.prisma.todo.updateMany({
+      where: { id: { in: ids } },
+      data: { completed },
+    });
+
+    return count;
+  }
+
+  async createNextOccurrence(todo: Todo, dueDate: Date): Promise<Todo> {
+    this.logger.debug(`Creating next occurrence of todo: ${todo.id}`);
+
+    return this.insertNextOccurrence(this.prisma, todo, dueDate);
+  }
+
+  async advanceOccurrence(id: number, dueDate: Date): Promise<Todo> {
+    this.logger.debug(`Advancing todo: ${id} to next occurrence`);
+
+    return this.prisma.todo.update({
       where: { id },
+      data: { dueDate, occurrence: { increment: 1 } },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  async findRecurring(userId: number): Promise<Todo[]> {
+    this.logger.debug(`Finding recurring todos for user: ${userId}`);
+
+    return this.prisma.todo.findMany({
+      where: {
+        userId,
+        ...NOT_DELETED,
+        completed: false,
+        dueDate: { not: null },
+        recurrence: { not: Prisma.DbNull },
+      },
     });
   }
 
-  async exists(id: number, userId: number): Promise<boolean> {
+  async findIds(
+    userId: number,
+    filter: BulkFilterDto,
+    take: number,
+  ): Promise<number[]> {
     this.logger.debug(
-      `Checking if todo with id: ${id} exists for user: ${userId}`,
+      `Finding todo ids for user: ${userId} with filter: ${JSON.stringify(filter)}`,
     );
 
-    const todo = await this.prisma.todo.findFirst({
-      where: { id, userId },
+    const rows = await this.prisma.todo.findMany({
+      where: this.buildWhere(userId, { ...filter, scope: TodoScope.OWNED }),
+      orderBy: { id: 'asc' },
       select: { id: true },
+      take,
+    });
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Runs the operations in order inside one transaction. Atomic batches stop
+   * and roll back on the first failure; otherwise each operation gets its own
+   * savepoint so a failure only undoes that operation.
+   */
+  async bulkWrite(
+    operations: BulkWriteOperation[],
+    atomic: boolean,
+  ): Promise<BulkWriteResult> {
+    this.logger.debug(
+      `Running ${operations.length} bulk operations (atomic: ${atomic})`,
+    );
+
+    const outcomes: BulkWriteOutcome[] = [];
+
+    try {
+      await this.prisma.$transaction(
+        async (tx) => {
+          for (const [index, operation] of operations.entries()) {
+            const savepoint = `bulk_${index}`;
+
+            if (!atomic) {
+              await tx.$executeRawUnsafe(`SAVEPOINT ${savepoint}`);
+            }
+
+            try {
+              outcomes.push(await this.applyBulkOperation(tx, operation));
+            } catch (error) {
+              outcomes.push({ error });
+
+              if (atomic) {
+                throw error;
+              }
+
+              await tx.$executeRawUnsafe(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+            }
+          }
+        },
+        { timeout: BULK_TRANSACTION_TIMEOUT_MS },
+      );
+    } catch (error) {
+      // Failures of an operation are reported, anything else is unexpected
+      if (!atomic || !outcomes[outcomes.length - 1]?.error) {
+        throw error;
+      }
+
+      return { committed: false, outcomes };
+    }
+
+    return { committed: true, outcomes };
+  }
+
+  /** Applies one operation, reporting the todos it touched on the side. */
+  private async applyBulkOperation(
+    tx: Prisma.TransactionClient,
+    operation: BulkWriteOperation,
+  ): Promise<BulkWriteOutcome> {
+    switch (operation.type) {
+      case 'create':
+        return {
+          todo: await tx.todo.create({
+            data: {
+              ...this.buildCreateData(operation.ownerId, operation.data),
+              completed: operation.completed,
+            },
+            include: TODO_INCLUDE,
+          }),
+        };
+      case 'update': {
+        const todo = await tx.todo.update({
+          where: { id: operation.id },
+          data: this.buildUpdateData(operation.data),
+          include: TODO_INCLUDE,
+        });
+        const outcome: BulkWriteOutcome = { todo };
+
+        if (operation.data.completed && operation.data.completeChildren) {
+          outcome.completedDescendants = (
+            await this.collectDescendants(tx, operation.id)
+          )
+            .flat()
+            .filter((descendant) => !descendant.completed);
+
+          await tx.todo.updateMany({
+            where: {
+              id: { in: outcome.completedDescendants.map(({ id }) => id) },
+            },
+            data: { completed: true },
+          });
+        }
+
+        if (operation.nextDueDate) {
+          outcome.nextOccurrence = await this.insertNextOccurrence(
+            tx,
+            todo,
+            operation.nextDueDate,
+          );
+        }
+
+        return outcome;
+      }
+      case 'delete':
+        // Earlier operations may already have trashed it with its parent
+        await this.trashSubtree(tx, operation.id);
+        return {};
+    }
+  }
+
+  private async collectDescendants(
+    db: Prisma.TransactionClient,
+    id: number,
+    where: Prisma.TodoWhereInput = NOT_DELETED,
+  ): Promise<Todo[][]> {
+    const levels: Todo[][] = [];
+    let parentIds = [id];
+
+    while (parentIds.length > 0) {
+      const level = await db.todo.findMany({
+        where: { ...where, parentId: { in: parentIds } },
+      });
+
+      if (level.length === 0) {
+        break;
+      }
+
+      levels.push(level);
+      parentIds = level.map((todo) => todo.id);
+    }
+
+    return levels;
+  }
+
+  /** Moves the todo and its live sub-todos to the trash in one statement. */
+  private async trashSubtree(
+    db: Prisma.TransactionClient,
+    id: number,
+    expectedVersion?: number,
+  ): Promise<Todo> {
+    const descendantIds = (await this.collectDescendants(db, id))
+      .flat()
+      .map((descendant) => descendant.id);
+    // Restoring brings back what was trashed at the same moment
+    const deletedAt = new Date();
+
+    if (expectedVersion !== undefined) {
+      await db.todo.update({
+        where: { id, ...NOT_DELETED, version: expectedVersion },
+        data: { deletedAt },
+      });
+    }
+
+    await db.todo.updateMany({
+      where: { id: { in: [id, ...descendantIds] }, ...NOT_DELETED },
+      data: { deletedAt },
+    });
+
+    return db.todo.findUniqueOrThrow({ where: { id } });
+  }
+
+  private async deleteSubtree(
+    db: Prisma.TransactionClient,
+    id: number,
+  ): Promise<void> {
+    const { userId } = await db.todo.findUniqueOrThrow({ where: { id } });
+    const ids = [
+      id,
+      ...(await this.collectDescendants(db, id, {}))
+        .flat()
+        .map((descendant) => descendant.id),
+    ];
+
+    // Left behind for offline clients that have not synced since
+    await db.todoTombstone.createMany({
+      data: ids.map((todoId) => ({ todoId, userId })),
+    });
+
+    // A single statement removes the whole subtree atomically
+    await db.todo.deleteMany({ where: { id: { in: ids } } });
+  }
+
+  private async insertNextOccurrence(
+    db: Prisma.TransactionClient,
+    todo: Todo,
+    dueDate: Date,
+  ): Promise<Todo> {
+    const assignments = await db.todoTag.findMany({
+      where: { todoId: todo.id },
+      select: { tagId: true },
+    });
+
+    return db.todo.create({
+      data: {
+        title: todo.title,
+        description: todo.description,
+        dueDate,
+        userId: todo.userId,
+        projectId: todo.projectId,
+        parentId: todo.parentId,
+        position: todo.position,
+        recurrence: todo.recurrence ?? Prisma.DbNull,
+        occurrence: todo.occurrence + 1,
+        tags: { create: assignments },
+      },
+      include: TODO_INCLUDE,
+    });
+  }
+
+  private buildUpdateData(
+    updateTodoDto: UpdateTodoDto,
+  ): Prisma.TodoUncheckedUpdateInput {
+    return {
+      title: updateTodoDto.title,
+      description: updateTodoDto.description,
+      completed: updateTodoDto.completed,
+      dueDate: updateTodoDto.dueDate
+        ? new Date(updateTodoDto.dueDate)
+        : undefined,
+      projectId: updateTodoDto.projectId,
+      recurrence: this.toRecurrenceInput(updateTodoDto.recurrence),
+      tags: updateTodoDto.tagIds && {
+        deleteMany: {},
+        create: updateTodoDto.tagIds.map((tagId) => ({ tagId })),
+      },
+    };
+  }
+
+  private buildCreateData(
+    userId: number,
+    createTodoDto: CreateTodoDto,
+  ): Prisma.TodoUncheckedCreateInput {
+    return {
+      title: createTodoDto.title,
+      description: createTodoDto.description,
+      dueDate: createTodoDto.dueDate ? new Date(createTodoDto.dueDate) : null,
+      projectId: createTodoDto.projectId,
+      recurrence: this.toRecurrenceInput(createTodoDto.recurrence),
+      userId,
+      tags: createTodoDto.tagIds && {
+        create: createTodoDto.tagIds.map((tagId) => ({ tagId })),
+      },
+    };
+  }
+
+  private toRecurrenceInput(rule: RecurrenceRule | null | undefined) {
+    if (rule === undefined) {
+      return undefined;
+    }
+
+    return rule === null
+      ? Prisma.DbNull
+      : ({ ...rule } as Prisma.InputJsonObject);
+  }
+
+  private async nextPosition(parentId: number | null): Promise<number> {
+    const { _max } = await this.prisma.todo.aggregate({
+      where: { parentId, ...NOT_DELETED },
+      _max: { position: true },
     });
 
-    return !!todo;
+    return _max.position === null ? 0 : _max.position + 1;
+  }
+
+  private buildWhere(
+    userId: number,
+    query: TodoQueryDto,
+  ): Prisma.TodoWhereInput {
+    const conditions: Prisma.TodoWhereInput[] = [
+      NOT_DELETED,
+      this.buildScope(userId, query.scope ?? TodoScope.ALL),
+    ];
+
+    if (query.completed !== undefined) {
+      conditions.push({ completed: query.completed });
+    }
+
+    if (query.dueBefore) {
+      conditions.push({ dueDate: { lte: new Date(query.dueBefore) } });
+    }
+
+    if (query.dueAfter) {
+      conditions.push({ dueDate: { gte: new Date(query.dueAfter) } });
+    }
+
+    if (query.overdue) {
+      conditions.push({ completed: false, dueDate: { lt: new Date() } });
+    }
+
+    if (query.projectId !== undefined) {
+      conditions.push({ projectId: query.projectId });
+    }
+
+    if (query.inbox) {
+      conditions.push({ projectId: null });
+    }
+
+    if (query.parentId !== undefined) {
+      conditions.push({ parentId: query.parentId });
+    }
+
+    if (query.topLevel) {
+      conditions.push({ parentId: null });
+    }
+
+    if (query.tags?.length) {
+      if (query.tagMode === TagMatchMode.ALL) {
+        conditions.push(
+          ...query.tags.map((name) => ({ tags: { some: { tag: { name } } } })),
+        );
+      } else {
+        conditions.push({
+          tags: { some: { tag: { name: { in: query.tags } } } },
+        });
+      }
+    }
+
+    if (query.search) {
+      conditions.push({
+        OR: [
+          { title: { contains: query.search, mode: 'insensitive' } },
+          { description: { contains: query.search, mode: 'insensitive' } },
+        ],
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Shared todos are the ones shared directly or through their project.
+   * Sub-todos of a shared todo are reached through that todo instead.
+   */
+  private buildScope(userId: number, scope: TodoScope): Prisma.TodoWhereInput {
+    const acceptedShare = {
+      some: { inviteeId: userId, status: ShareStatus.ACCEPTED },
+    };
+    const shared: Prisma.TodoWhereInput = {
+      userId: { not: userId },
+      OR: [{ shares: acceptedShare }, { project: { shares: acceptedShare } }],
+    };
+
+    switch (scope) {
+      case TodoScope.OWNED:
+        return { userId };
+      case TodoScope.SHARED:
+        return shared;
+      default:
+        return { OR: [{ userId }, shared] };
+    }
+  }
+
+  private buildOrderBy(
+    query: TodoQueryDto,
+  ): Prisma.TodoOrderByWithRelationInput[] {
+    const sortBy = query.sortBy ?? TodoSortField.CREATED_AT;
+    const sortOrder = query.sortOrder ?? SortOrder.DESC;
+
+    // Todos without a due date always go last, regardless of direction
+    const primary: Prisma.TodoOrderByWithRelationInput =
+      sortBy === TodoSortField.DUE_DATE
+        ? { dueDate: { sort: sortOrder, nulls: 'last' } }
+        : { [sortBy]: sortOrder };
+
+    // The id tiebreaker keeps cursor pagination stable
+    return [primary, { id: sortOrder }];
   }
 }
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TodoSyncService } from './todo-sync.service';
+import { SyncQueryDto, SyncTodosDto } from './dto/todo.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { AccessTokenScope } from '@modules/auth/interfaces/access-token.interface';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Sync')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('sync')
+export class SyncController {
+  constructor(
+    private readonly todoSyncService: TodoSyncService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(SyncController.name);
+  }
+
+  @Get()
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Get todo changes since a change token',
+    description:
+      'Returns own todos created or changed since the token and tombstones ' +
+      'for those deleted, oldest change first, with the token for next time',
+  })
+  @ApiResponse({ status: 200, description: 'Return the changes' })
+  @ApiResponse({ status: 400, description: 'Invalid sync token' })
+  @ApiResponse({
+    status: 410,
+    description: 'Sync token expired; sync again without one',
+  })
+  pull(@CurrentUser() user: AuthUser, @Query() query: SyncQueryDto) {
+    this.logger.log('Pulling sync changes');
+    return this.todoSyncService.pull(user.id, query);
+  }
+
+  @Post()
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Push changes made offline',
+    description:
+      'Applies creates, updates and deletes in order. Updates carry the ' +
+      'version they were based on; fields also changed on the server since ' +
+      'then are resolved with the conflict strategy and reported',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return the resolved state and conflicts per mutation',
+  })
+  push(@CurrentUser() user: AuthUser, @Body() syncTodosDto: SyncTodosDto) {
+    this.logger.log('Pushing sync mutations');
+    return this.todoSyncService.push(user.id, syncTodosDto);
+  }
+}
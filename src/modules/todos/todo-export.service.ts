@@ -0,0 +1,124 @@
+import { Inject, Injectable, StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { toCsvRow } from '@common/utils/csv.util';
+import { TodoRepositoryInterface } from '@modules/todos/interfaces/repository/todo.repository.interface';
+import { TodoWithTags } from '@modules/todos/interfaces/todo.interface';
+import {
+  icalFooter,
+  icalHeader,
+  serializeICalLines,
+  todoToICal,
+  toVTodo,
+} from '@modules/todos/utils/ical.util';
+import { TodoFileFormat } from './dto/todo.dto';
+
+// Todos are read and written a page at a time to keep memory flat
+const EXPORT_PAGE_SIZE = 500;
+
+const EXPORT_CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'dueDate',
+  'tags',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const CONTENT_TYPES: Record<TodoFileFormat, string> = {
+  [TodoFileFormat.JSON]: 'application/json; charset=utf-8',
+  [TodoFileFormat.CSV]: 'text/csv; charset=utf-8',
+  [TodoFileFormat.ICS]: 'text/calendar; charset=utf-8',
+};
+
+/** Streams a user's own live todos as a downloadable file. */
+@Injectable()
+export class TodoExportService {
+  constructor(
+    @Inject('TodoRepositoryInterface')
+    private readonly todoRepository: TodoRepositoryInterface,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoExportService.name);
+  }
+
+  export(userId: number, format = TodoFileFormat.JSON): StreamableFile {
+    this.logger.log(`Exporting todos for user: ${userId} as ${format}`);
+
+    const chunks =
+      format === TodoFileFormat.CSV
+        ? this.toCsv(userId)
+        : format === TodoFileFormat.ICS
+          ? this.toICal(userId)
+          : this.toJson(userId);
+
+    return new StreamableFile(Readable.from(chunks), {
+      type: CONTENT_TYPES[format],
+      disposition: `attachment; filename="todos.${format}"`,
+    });
+  }
+
+  private async *toJson(userId: number): AsyncGenerator<string> {
+    let first = true;
+
+    yield '[';
+    for await (const todo of this.readTodos(userId)) {
+      yield (first ? '\n' : ',\n') + JSON.stringify(this.toRecord(todo));
+      first = false;
+    }
+    yield first ? ']\n' : '\n]\n';
+  }
+
+  private async *toCsv(userId: number): AsyncGenerator<string> {
+    yield toCsvRow([...EXPORT_CSV_COLUMNS]);
+    for await (const todo of this.readTodos(userId)) {
+      const record = this.toRecord(todo);
+      yield toCsvRow(
+        EXPORT_CSV_COLUMNS.map((column) =>
+          column === 'tags' ? record.tags.join(';') : record[column],
+        ),
+      );
+    }
+  }
+
+  private async *toICal(userId: number): AsyncGenerator<string> {
+    yield serializeICalLines(icalHeader('Todos'));
+    for await (const todo of this.readTodos(userId)) {
+      yield serializeICalLines(toVTodo(todoToICal(todo)));
+    }
+    yield serializeICalLines(icalFooter());
+  }
+
+  private async *readTodos(userId: number): AsyncGenerator<TodoWithTags> {
+    let afterId = 0;
+
+    for (;;) {
+      const page = await this.todoRepository.findPageAfter(
+        userId,
+        afterId,
+        EXPORT_PAGE_SIZE,
+      );
+      yield* page;
+
+      if (page.length < EXPORT_PAGE_SIZE) {
+        return;
+      }
+      afterId = page[page.length - 1].id;
+    }
+  }
+
+  private toRecord(todo: TodoWithTags) {
+    return {
+      id: todo.id,
+      title: todo.title,
+      description: todo.description,
+      completed: todo.completed,
+      dueDate: todo.dueDate,
+      tags: todo.tags.map(({ tag }) => tag.name),
+      createdAt: todo.createdAt,
+      updatedAt: todo.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Todo, TodoEventType } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodoHistoryService } from './todo-history.service';
+
+describe('TodoHistoryService', () => {
+  let service: TodoHistoryService;
+
+  const mockRepository = {
+    createMany: jest.fn(),
+    findById: jest.fn(),
+    findNewer: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildTodo = (overrides: Partial<Todo> = {}): Todo => ({
+    id: 1,
+    title: 'Water the plants',
+    description: null,
+    completed: false,
+    dueDate: null,
+    createdAt: new Date('2025-07-29T09:00:00Z'),
+    updatedAt: new Date('2025-07-29T09:00:00Z'),
+    userId: 1,
+    projectId: null,
+    parentId: null,
+    position: 0,
+    recurrence: null,
+    occurrence: 1,
+    deletedAt: null,
+    version: 1,
+    fieldVersions: {},
+    clientId: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TodoHistoryService,
+        { provide: 'TodoEventRepositoryInterface', useValue: mockRepository },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<TodoHistoryService>(TodoHistoryService);
+  });
+
+  describe('recordCreated', () => {
+    it('should record every field set on creation', async () => {
+      await service.recordCreated(2, [
+        buildTodo({ description: 'Twice a week' }),
+      ]);
+
+      expect(mockRepository.createMany).toHaveBeenCalledWith([
+        {
+          type: TodoEventType.CREATED,
+          todoId: 1,
+          userId: 1,
+          actorId: 2,
+          changes: {
+            title: { from: '', to: 'Water the plants' },
+            description: { from: null, to: 'Twice a week' },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('recordUpdated', () => {
+    it('should record the changed fields with the actor', async () => {
+      await service.recordUpdated(2, [
+        { before: buildTodo(), after: buildTodo({ completed: true }) },
+      ]);
+
+      expect(mockRepository.createMany).toHaveBeenCalledWith([
+        {
+          type: TodoEventType.UPDATED,
+          todoId: 1,
+          userId: 1,
+          actorId: 2,
+          changes: { completed: { from: false, to: true } },
+        },
+      ]);
+    });
+
+    it('should skip writes that changed nothing', async () => {
+      await service.recordUpdated(1, [
+        { before: buildTodo(), after: buildTodo({ version: 2 }) },
+      ]);
+
+      expect(mockRepository.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('snapshotAt', () => {
+    it('should undo the changes made after the event', async () => {
+      mockRepository.findById.mockResolvedValue({ id: 10 });
+      mockRepository.findNewer.mockResolvedValue([
+        { changes: { completed: { from: false, to: true } } },
+        {
+          changes: { title: { from: 'Water plants', to: 'Water the plants' } },
+        },
+      ]);
+
+      await expect(
+        service.snapshotAt(buildTodo({ completed: true }), 10),
+      ).resolves.toMatchObject({ title: 'Water plants', completed: false });
+      expect(mockRepository.findNewer).toHaveBeenCalledWith(1, 10);
+    });
+
+    it('should only accept events of the same todo', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(service.snapshotAt(buildTodo(), 10)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(mockRepository.findById).toHaveBeenCalledWith(10, 1);
+    });
+  });
+});
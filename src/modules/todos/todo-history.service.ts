@@ -0,0 +1,147 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Todo, TodoEventType } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodoEventRepositoryInterface } from '@modules/todos/interfaces/repository/todo-event.repository.interface';
+import { TodoEventInput } from '@modules/todos/interfaces/todo.interface';
+import {
+  diffSnapshots,
+  rewindSnapshot,
+  TodoChanges,
+  TodoSnapshot,
+  toSnapshot,
+} from '@modules/todos/utils/todo-snapshot.util';
+import { TodoHistoryQueryDto } from './dto/todo.dto';
+
+/**
+ * Records what happened to todos and who did it. Events are only ever
+ * appended; reverting a todo is recorded as a new event.
+ */
+@Injectable()
+export class TodoHistoryService {
+  constructor(
+    @Inject('TodoEventRepositoryInterface')
+    private readonly todoEventRepository: TodoEventRepositoryInterface,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoHistoryService.name);
+  }
+
+  async recordCreated(actorId: number, todos: Todo[]): Promise<void> {
+    await this.record(
+      todos.map((todo) => {
+        const snapshot = toSnapshot(todo);
+
+        return this.toEvent(
+          TodoEventType.CREATED,
+          actorId,
+          todo,
+          diffSnapshots(this.emptySnapshot(snapshot), snapshot),
+        );
+      }),
+    );
+  }
+
+  /** Pairs of the todo before and after a change; unchanged ones are skipped. */
+  async recordUpdated(
+    actorId: number,
+    updates: { before: Todo; after: Todo }[],
+    type: TodoEventType = TodoEventType.UPDATED,
+  ): Promise<void> {
+    await this.record(
+      updates
+        .map(({ before, after }) =>
+          this.toEvent(
+            type,
+            actorId,
+            after,
+            diffSnapshots(toSnapshot(before), toSnapshot(after)),
+          ),
+        )
+        .filter((event) => Object.keys(event.changes).length > 0),
+    );
+  }
+
+  async recordDeleted(actorId: number | null, todos: Todo[]): Promise<void> {
+    await this.record(
+      todos.map((todo) =>
+        this.toEvent(TodoEventType.DELETED, actorId, todo, {}),
+      ),
+    );
+  }
+
+  async recordRestored(actorId: number, todo: Todo): Promise<void> {
+    await this.record([
+      this.toEvent(TodoEventType.RESTORED, actorId, todo, {}),
+    ]);
+  }
+
+  async findForTodo(todoId: number, query: TodoHistoryQueryDto) {
+    this.logger.log(`Finding history of todo: ${todoId}`);
+    return this.todoEventRepository.findForTodo(todoId, query);
+  }
+
+  async findFeed(userId: number, query: TodoHistoryQueryDto) {
+    this.logger.log(`Finding activity feed for user: ${userId}`);
+    return this.todoEventRepository.findFeed(userId, query);
+  }
+
+  /** Events visible in the user's feed after the given one, oldest first. */
+  async findFeedAfter(userId: number, afterId: number, take: number) {
+    return this.todoEventRepository.findFeedAfter(userId, afterId, take);
+  }
+
+  /** Every event after the given one, oldest first. */
+  async findAfter(afterId: number, take: number) {
+    return this.todoEventRepository.findAfter(afterId, take);
+  }
+
+  async findLatestId() {
+    return this.todoEventRepository.findLatestId();
+  }
+
+  /** Rebuilds the tracked fields as they were right after the given event. */
+  async snapshotAt(todo: Todo, eventId: number): Promise<TodoSnapshot> {
+    const event = await this.todoEventRepository.findById(eventId, todo.id);
+
+    if (!event) {
+      throw new NotFoundException(
+        `Event with ID ${eventId} not found for todo ${todo.id}`,
+      );
+    }
+
+    const newer = await this.todoEventRepository.findNewer(todo.id, eventId);
+
+    return rewindSnapshot(
+      toSnapshot(todo),
+      newer.map((event) => event.changes as TodoChanges),
+    );
+  }
+
+  private async record(events: TodoEventInput[]): Promise<void> {
+    if (events.length > 0) {
+      await this.todoEventRepository.createMany(events);
+    }
+  }
+
+  private toEvent(
+    type: TodoEventType,
+    actorId: number | null,
+    todo: Todo,
+    changes: TodoChanges,
+  ): TodoEventInput {
+    return { type, todoId: todo.id, userId: todo.userId, actorId, changes };
+  }
+
+  // A created todo starts from nothing, so every set field is a change
+  private emptySnapshot(snapshot: TodoSnapshot): TodoSnapshot {
+    return {
+      title: '',
+      description: null,
+      completed: false,
+      dueDate: null,
+      projectId: null,
+      recurrence: null,
+      tagIds: snapshot.tagIds && [],
+    };
+  }
+}
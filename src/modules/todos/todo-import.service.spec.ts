@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ImportDuplicateMode } from './dto/todo.dto';
+import { TodoImportService } from './todo-import.service';
+import { TodosService } from './todos.service';
+
+describe('TodoImportService', () => {
+  let service: TodoImportService;
+  let directory: string;
+
+  const mockRepository = {
+    findByTitles: jest.fn(),
+  };
+
+  const mockTodosService = {
+    importTodos: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  // Writes an upload to disk as the upload interceptor does
+  const upload = async (originalname: string, content: string) => {
+    const path = join(directory, originalname);
+    await writeFile(path, content);
+
+    return { path, originalname, mimetype: '' } as Express.Multer.File;
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    directory = await mkdtemp(join(tmpdir(), 'todo-import-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TodoImportService,
+        { provide: 'TodoRepositoryInterface', useValue: mockRepository },
+        { provide: TodosService, useValue: mockTodosService },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<TodoImportService>(TodoImportService);
+    mockRepository.findByTitles.mockResolvedValue([]);
+    mockTodosService.importTodos.mockImplementation(
+      (_userId: number, rows: unknown[]) => rows.map(() => ({})),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should import JSON rows and report the invalid ones by position', async () => {
+    const file = await upload(
+      'todos.json',
+      JSON.stringify([
+        { title: 'Water the plants', tags: 'home, garden' },
+        { description: 'No title' },
+        { title: 'Call Ada', completed: true },
+      ]),
+    );
+
+    const report = await service.import(1, file, {});
+
+    expect(report).toMatchObject({ total: 3, imported: 2, failed: 1 });
+    expect(report.errors.map(({ row }) => row)).toEqual([2]);
+    expect(mockTodosService.importTodos).toHaveBeenCalledWith(1, [
+      expect.objectContaining({
+        title: 'Water the plants',
+        tagNames: ['home', 'garden'],
+      }),
+      expect.objectContaining({ title: 'Call Ada', completed: true }),
+    ]);
+    expect(existsSync(file.path)).toBe(false);
+  });
+
+  it('should read CSV columns through the mapping', async () => {
+    const file = await upload(
+      'todos.csv',
+      'Task,Done,Deadline\nWater the plants,yes,2025-09-01T09:00:00Z\n',
+    );
+
+    const report = await service.import(1, file, {
+      mapping: '{"title":"Task","completed":"Done","dueDate":"Deadline"}',
+    });
+
+    expect(report).toMatchObject({ total: 1, imported: 1 });
+    expect(mockTodosService.importTodos).toHaveBeenCalledWith(1, [
+      expect.objectContaining({
+        title: 'Water the plants',
+        completed: true,
+        dueDate: '2025-09-01T09:00:00Z',
+      }),
+    ]);
+  });
+
+  it('should read todos from iCalendar files', async () => {
+    const file = await upload(
+      'todos.ics',
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'SUMMARY:Water the plants\\, twice',
+        'STATUS:COMPLETED',
+        'CATEGORIES:home,garden',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n'),
+    );
+
+    await service.import(1, file, {});
+
+    expect(mockTodosService.importTodos).toHaveBeenCalledWith(1, [
+      expect.objectContaining({
+        title: 'Water the plants, twice',
+        completed: true,
+        tagNames: ['home', 'garden'],
+      }),
+    ]);
+  });
+
+  it('should skip rows matching an existing todo or an earlier row', async () => {
+    mockRepository.findByTitles.mockResolvedValue([
+      { title: 'water the plants', dueDate: null },
+    ]);
+    const file = await upload(
+      'todos.json',
+      JSON.stringify([
+        { title: 'Water the plants' },
+        { title: 'Call Ada' },
+        { title: 'call ada' },
+      ]),
+    );
+
+    const report = await service.import(1, file, {
+      duplicates: ImportDuplicateMode.SKIP,
+    });
+
+    expect(report).toMatchObject({ imported: 1, duplicates: 2 });
+    expect(report.skipped).toEqual([
+      { row: 1, title: 'Water the plants' },
+      { row: 3, title: 'call ada' },
+    ]);
+  });
+
+  it('should only preview rows on a dry run', async () => {
+    const file = await upload(
+      'todos.json',
+      JSON.stringify([{ title: 'Water the plants' }]),
+    );
+
+    const report = await service.import(1, file, { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, imported: 1 });
+    expect(report.preview).toEqual([
+      expect.objectContaining({ title: 'Water the plants' }),
+    ]);
+    expect(mockTodosService.importTodos).not.toHaveBeenCalled();
+  });
+
+  it('should report rows the todos service refused', async () => {
+    mockTodosService.importTodos.mockResolvedValue([
+      { error: new NotFoundException('Project with ID 9 not found') },
+    ]);
+    const file = await upload(
+      'todos.json',
+      JSON.stringify([{ title: 'Water the plants' }]),
+    );
+
+    const report = await service.import(1, file, {});
+
+    expect(report.errors).toEqual([
+      { row: 1, messages: ['Project with ID 9 not found'] },
+    ]);
+  });
+
+  it('should keep the rows read before the file breaks off', async () => {
+    const file = await upload(
+      'todos.json',
+      '[{"title":"Water the plants"},{"title":',
+    );
+
+    const report = await service.import(1, file, {});
+
+    expect(report).toMatchObject({ total: 1, imported: 1, failed: 1 });
+    expect(report.errors[0].row).toBe(2);
+  });
+
+  it('should reject files of an unknown format', async () => {
+    const file = await upload('todos.txt', 'Water the plants');
+
+    await expect(service.import(1, file, {})).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(existsSync(file.path)).toBe(false);
+  });
+});
@@ -0,0 +1,488 @@
+import {
+  BadRequestException,
+  HttpException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { createReadStream } from 'fs';
+import { unlink } from 'fs/promises';
+import { extname } from 'path';
+import { createInterface } from 'readline';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { parseCsv } from '@common/utils/csv.util';
+import { splitJsonArray } from '@common/utils/json-stream.util';
+import { TodoRepositoryInterface } from '@modules/todos/interfaces/repository/todo.repository.interface';
+import { ImportReport } from '@modules/todos/interfaces/todo.interface';
+import {
+  ICalProperty,
+  parseICalComponents,
+  parseICalDate,
+  splitICalList,
+  unescapeICalText,
+} from '@modules/todos/utils/ical.util';
+import {
+  ImportDuplicateMode,
+  ImportTodoRowDto,
+  ImportTodosDto,
+  TodoFileFormat,
+} from './dto/todo.dto';
+import { TodosService } from './todos.service';
+
+type ImportField = 'title' | 'description' | 'completed' | 'dueDate' | 'tags';
+
+const IMPORT_FIELDS: ImportField[] = [
+  'title',
+  'description',
+  'completed',
+  'dueDate',
+  'tags',
+];
+
+/** A row as read from the file, or why it could not be read. */
+interface ImportRow {
+  row: number;
+  values?: Record<string, unknown>;
+  messages?: string[];
+}
+
+// Rows are checked for duplicates and saved this many at a time
+const IMPORT_BATCH_SIZE = 100;
+
+// Caps the rows listed in a report; the counts stay exact
+const REPORT_LIMIT = 1000;
+const PREVIEW_SIZE = 20;
+
+const EXTENSIONS: Record<string, TodoFileFormat> = {
+  '.json': TodoFileFormat.JSON,
+  '.csv': TodoFileFormat.CSV,
+  '.ics': TodoFileFormat.ICS,
+};
+
+const CONTENT_TYPES: Record<string, TodoFileFormat> = {
+  'application/json': TodoFileFormat.JSON,
+  'text/csv': TodoFileFormat.CSV,
+  'text/calendar': TodoFileFormat.ICS,
+};
+
+/**
+ * Creates todos from an uploaded JSON, CSV or iCalendar file. The file is
+ * read from disk as a stream and saved in batches, so its size is not
+ * limited by memory; every row is validated like a created todo and
+ * reported on by its position in the file.
+ */
+@Injectable()
+export class TodoImportService {
+  constructor(
+    @Inject('TodoRepositoryInterface')
+    private readonly todoRepository: TodoRepositoryInterface,
+    private readonly todosService: TodosService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoImportService.name);
+  }
+
+  async import(
+    userId: number,
+    file: Express.Multer.File | undefined,
+    importTodosDto: ImportTodosDto,
+  ): Promise<ImportReport> {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    try {
+      const format = this.detectFormat(file, importTodosDto.format);
+      this.logger.log(
+        `Importing ${format} todos for user: ${userId}` +
+          (importTodosDto.dryRun ? ' (dry run)' : ''),
+      );
+
+      return await this.importRows(
+        userId,
+        this.readRows(file.path, format, this.parseMapping(importTodosDto)),
+        importTodosDto,
+      );
+    } finally {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }
+
+  private async importRows(
+    userId: number,
+    rows: AsyncGenerator<ImportRow>,
+    importTodosDto: ImportTodosDto,
+  ): Promise<ImportReport> {
+    const report: ImportReport = {
+      dryRun: importTodosDto.dryRun ?? false,
+      total: 0,
+      imported: 0,
+      duplicates: 0,
+      failed: 0,
+      errors: [],
+      skipped: [],
+      ...(importTodosDto.dryRun ? { preview: [] } : {}),
+    };
+    // Keys of every row taken so far, to catch duplicates within the file
+    const seen = new Set<string>();
+    let batch: { row: number; todo: ImportTodoRowDto }[] = [];
+
+    const flush = async () => {
+      await this.importBatch(userId, batch, seen, importTodosDto, report);
+      batch = [];
+    };
+
+    for (;;) {
+      let next: IteratorResult<ImportRow>;
+      try {
+        next = await rows.next();
+      } catch (error) {
+        if (!(error instanceof Error) || error instanceof HttpException) {
+          throw error;
+        }
+
+        // The file is malformed; rows before the damage are still imported
+        if (report.total === 0) {
+          throw new BadRequestException(
+            `Could not read file: ${error.message}`,
+          );
+        }
+        this.addError(report, report.total + 1, [
+          `Could not read the rest of the file: ${error.message}`,
+        ]);
+        break;
+      }
+      if (next.done) {
+        break;
+      }
+
+      const { row, values, messages } = next.value;
+      report.total++;
+
+      const todo = values && (await this.toTodo(values));
+      if (!(todo instanceof ImportTodoRowDto)) {
+        this.addError(report, row, todo ?? messages ?? []);
+        continue;
+      }
+
+      batch.push({ row, todo });
+      if (batch.length === IMPORT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    await flush();
+
+    return report;
+  }
+
+  private async importBatch(
+    userId: number,
+    batch: { row: number; todo: ImportTodoRowDto }[],
+    seen: Set<string>,
+    importTodosDto: ImportTodosDto,
+    report: ImportReport,
+  ): Promise<void> {
+    if (batch.length === 0) {
+      return;
+    }
+
+    const accepted =
+      importTodosDto.duplicates === ImportDuplicateMode.ALLOW
+        ? batch
+        : await this.skipDuplicates(userId, batch, seen, report);
+
+    if (report.preview) {
+      report.imported += accepted.length;
+      report.preview.push(
+        ...accepted
+          .slice(0, PREVIEW_SIZE - report.preview.length)
+          .map(({ todo }) => todo),
+      );
+      return;
+    }
+
+    const outcomes = await this.todosService.importTodos(
+      userId,
+      accepted.map(({ todo }) => todo),
+    );
+    outcomes.forEach(({ error }, index) => {
+      if (error) {
+        this.addError(report, accepted[index].row, [this.toMessage(error)]);
+      } else {
+        report.imported++;
+      }
+    });
+  }
+
+  /**
+   * Rows with the title and due date of an existing todo or an earlier row
+   * are duplicates; titles are compared ignoring case.
+   */
+  private async skipDuplicates(
+    userId: number,
+    batch: { row: number; todo: ImportTodoRowDto }[],
+    seen: Set<string>,
+    report: ImportReport,
+  ): Promise<{ row: number; todo: ImportTodoRowDto }[]> {
+    const existing = await this.todoRepository.findByTitles(
+      userId,
+      batch.map(({ todo }) => todo.title),
+    );
+    const existingKeys = new Set(
+      existing.map((todo) => this.duplicateKey(todo.title, todo.dueDate)),
+    );
+
+    return batch.filter(({ row, todo }) => {
+      const key = this.duplicateKey(
+        todo.title,
+        todo.dueDate ? new Date(todo.dueDate) : null,
+      );
+
+      if (seen.has(key) || existingKeys.has(key)) {
+        report.duplicates++;
+        if (report.skipped.length < REPORT_LIMIT) {
+          report.skipped.push({ row, title: todo.title });
+        }
+        return false;
+      }
+
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private async *readRows(
+    path: string,
+    format: TodoFileFormat,
+    mapping: Partial<Record<ImportField, string>>,
+  ): AsyncGenerator<ImportRow> {
+    const input = createReadStream(path, { encoding: 'utf8' });
+
+    if (format === TodoFileFormat.JSON) {
+      let row = 0;
+      for await (const element of splitJsonArray(input)) {
+        yield { row: ++row, ...this.fromJson(element) };
+      }
+    } else if (format === TodoFileFormat.CSV) {
+      let columns: Partial<Record<ImportField, number>> | undefined;
+      let row = 0;
+      for await (const record of parseCsv(input)) {
+        row++;
+        if (!columns) {
+          columns = this.resolveColumns(record, mapping);
+          continue;
+        }
+        yield { row, values: this.fromCsv(record, columns) };
+      }
+    } else {
+      const lines = createInterface({ input, crlfDelay: Infinity });
+      let row = 0;
+      for await (const properties of parseICalComponents(lines, 'VTODO')) {
+        yield { row: ++row, ...this.fromICal(properties) };
+      }
+    }
+  }
+
+  private fromJson(element: string): Omit<ImportRow, 'row'> {
+    let value: unknown;
+    try {
+      value = JSON.parse(element);
+    } catch {
+      return { messages: ['Row is not valid JSON'] };
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { messages: ['Row must be an object'] };
+    }
+
+    const { title, description, completed, dueDate, tags } = value as Record<
+      string,
+      unknown
+    >;
+
+    return {
+      values: {
+        title,
+        description: description ?? undefined,
+        completed: completed ?? undefined,
+        dueDate: dueDate ?? undefined,
+        tagNames: typeof tags === 'string' ? this.splitTags(tags) : tags,
+      },
+    };
+  }
+
+  private fromCsv(
+    record: string[],
+    columns: Partial<Record<ImportField, number>>,
+  ): Record<string, unknown> {
+    const cell = (field: ImportField) => {
+      const index = columns[field];
+      const value = index === undefined ? '' : (record[index] ?? '').trim();
+      return value === '' ? undefined : value;
+    };
+
+    return {
+      title: cell('title') ?? '',
+      description: cell('description'),
+      completed: this.parseFlag(cell('completed')),
+      dueDate: cell('dueDate'),
+      tagNames: this.splitTags(cell('tags')),
+    };
+  }
+
+  private fromICal(properties: ICalProperty[]): Omit<ImportRow, 'row'> {
+    const value = (name: string) =>
+      properties.find((property) => property.name === name)?.value;
+
+    const due = value('DUE');
+    const dueDate = due === undefined ? undefined : parseICalDate(due);
+    if (dueDate === null) {
+      return { messages: ['Due date must be a valid date'] };
+    }
+
+    const categories = properties
+      .filter((property) => property.name === 'CATEGORIES')
+      .flatMap((property) => splitICalList(property.value));
+    const description = value('DESCRIPTION');
+
+    return {
+      values: {
+        title: unescapeICalText(value('SUMMARY') ?? '').trim(),
+        description: description && unescapeICalText(description),
+        completed: value('STATUS')?.toUpperCase() === 'COMPLETED',
+        dueDate: dueDate?.toISOString(),
+        tagNames: categories.length > 0 ? categories : undefined,
+      },
+    };
+  }
+
+  /** Validates a row like a created todo; returns the messages on failure. */
+  private async toTodo(
+    values: Record<string, unknown>,
+  ): Promise<ImportTodoRowDto | string[]> {
+    const todo = plainToInstance(ImportTodoRowDto, values);
+    const errors = await validate(todo, { whitelist: true });
+
+    return errors.length > 0
+      ? errors.flatMap((error) => Object.values(error.constraints ?? {}))
+      : todo;
+  }
+
+  /** Finds the column of each field; headers are matched ignoring case. */
+  private resolveColumns(
+    headers: string[],
+    mapping: Partial<Record<ImportField, string>>,
+  ): Partial<Record<ImportField, number>> {
+    const normalized = headers.map((header) => header.trim().toLowerCase());
+    const columns: Partial<Record<ImportField, number>> = {};
+
+    for (const field of IMPORT_FIELDS) {
+      const header = (mapping[field] ?? field).trim().toLowerCase();
+      const index = normalized.indexOf(header);
+
+      if (index !== -1) {
+        columns[field] = index;
+      } else if (mapping[field] !== undefined || field === 'title') {
+        throw new BadRequestException(
+          `CSV has no column "${mapping[field] ?? field}" for ${field}`,
+        );
+      }
+    }
+
+    return columns;
+  }
+
+  private parseMapping(
+    importTodosDto: ImportTodosDto,
+  ): Partial<Record<ImportField, string>> {
+    if (importTodosDto.mapping === undefined) {
+      return {};
+    }
+
+    const mapping = JSON.parse(importTodosDto.mapping) as unknown;
+    if (
+      !mapping ||
+      typeof mapping !== 'object' ||
+      Array.isArray(mapping) ||
+      Object.entries(mapping).some(
+        ([field, header]) =>
+          !IMPORT_FIELDS.includes(field as ImportField) ||
+          typeof header !== 'string',
+      )
+    ) {
+      throw new BadRequestException(
+        `Mapping must map fields (${IMPORT_FIELDS.join(', ')}) to column names`,
+      );
+    }
+
+    return mapping as Partial<Record<ImportField, string>>;
+  }
+
+  private detectFormat(
+    file: Express.Multer.File,
+    format?: TodoFileFormat,
+  ): TodoFileFormat {
+    const detected =
+      format ??
+      EXTENSIONS[extname(file.originalname).toLowerCase()] ??
+      CONTENT_TYPES[file.mimetype.split(';')[0].trim().toLowerCase()];
+
+    if (!detected) {
+      throw new BadRequestException(
+        'Could not tell the file format; set format to json, csv or ics',
+      );
+    }
+
+    return detected;
+  }
+
+  /** Spreadsheet-style flags; anything else is left for validation to reject. */
+  private parseFlag(value?: string): boolean | string | undefined {
+    const flag = value?.toLowerCase();
+    if (flag === undefined) {
+      return undefined;
+    }
+    if (['true', 'yes', 'y', '1', 'x'].includes(flag)) {
+      return true;
+    }
+    if (['false', 'no', 'n', '0'].includes(flag)) {
+      return false;
+    }
+
+    return value;
+  }
+
+  private splitTags(value?: string): string[] | undefined {
+    const tags = value
+      ?.split(/[,;]/)
+      .map((tag) => tag.trim())
+      .filter((tag) => tag !== '');
+
+    return tags?.length ? tags : undefined;
+  }
+
+  private duplicateKey(title: string, dueDate: Date | null): string {
+    return `${title.trim().toLowerCase()}\n${dueDate?.toISOString() ?? ''}`;
+  }
+
+  private addError(report: ImportReport, row: number, messages: string[]) {
+    report.failed++;
+    if (report.errors.length < REPORT_LIMIT) {
+      report.errors.push({ row, messages });
+    }
+  }
+
+  private toMessage(error: unknown): string {
+    if (error instanceof HttpException) {
+      return error.message;
+    }
+
+    this.logger.error(
+      `Imported todo could not be saved: ${error instanceof Error ? error.message : String(error)}`,
+    );
+
+    return 'Todo could not be saved';
+  }
+}
@@ -0,0 +1,331 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  HttpStatus,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Todo, TodoTombstone } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { SyncMutationType } from './dto/todo.dto';
+import { TodoSyncService } from './todo-sync.service';
+import { TodosService } from './todos.service';
+import { decodeSyncToken, encodeSyncToken } from './utils/sync.util';
+
+describe('TodoSyncService', () => {
+  let service: TodoSyncService;
+
+  const mockRepository = {
+    findByClientId: jest.fn(),
+    findSyncHorizon: jest.fn(),
+    findChangedSince: jest.fn(),
+    findTombstonesSince: jest.fn(),
+  };
+
+  const mockTodosService = {
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    getETag: jest.fn(),
+    ensureAccess: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildTodo = (overrides: Partial<Todo> = {}): Todo => ({
+    id: 1,
+    title: 'Water the plants',
+    description: null,
+    completed: false,
+    dueDate: null,
+    createdAt: new Date('2025-08-19T09:00:00Z'),
+    updatedAt: new Date('2025-08-19T09:00:00Z'),
+    userId: 1,
+    projectId: null,
+    parentId: null,
+    position: 0,
+    recurrence: null,
+    occurrence: 1,
+    deletedAt: null,
+    version: 1,
+    fieldVersions: {},
+    clientId: null,
+    ...overrides,
+  });
+
+  const buildTombstone = (
+    overrides: Partial<TodoTombstone> = {},
+  ): TodoTombstone => ({
+    id: 1,
+    todoId: 9,
+    version: 1,
+    deletedAt: new Date('2025-08-19T09:00:00Z'),
+    userId: 1,
+    ...overrides,
+  });
+
+  const tokenFor = (xid: number, version: number) =>
+    encodeSyncToken({ xid, version, issuedAt: new Date() });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TodoSyncService,
+        { provide: 'TodoRepositoryInterface', useValue: mockRepository },
+        { provide: TodosService, useValue: mockTodosService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<TodoSyncService>(TodoSyncService);
+    mockRepository.findSyncHorizon.mockResolvedValue(900);
+    mockRepository.findChangedSince.mockResolvedValue([]);
+    mockRepository.findTombstonesSince.mockResolvedValue([]);
+  });
+
+  describe('pull', () => {
+    it('should read both lists up to the same horizon', async () => {
+      await service.pull(1, { since: tokenFor(500, 40), limit: 10 });
+
+      expect(mockRepository.findChangedSince).toHaveBeenCalledWith(
+        1,
+        { xid: 500, version: 40 },
+        900,
+        11,
+        true,
+      );
+      expect(mockRepository.findTombstonesSince).toHaveBeenCalledWith(
+        1,
+        { xid: 500, version: 40 },
+        900,
+        11,
+      );
+    });
+
+    it('should order changes by transaction before version', async () => {
+      // Took its version first but committed after the other transaction
+      const late = buildTodo({ id: 1, version: 41 });
+      const early = buildTodo({ id: 2, version: 45 });
+      mockRepository.findChangedSince.mockResolvedValue([
+        { position: { xid: 510, version: 45 }, record: early },
+        { position: { xid: 520, version: 41 }, record: late },
+      ]);
+      mockRepository.findTombstonesSince.mockResolvedValue([
+        {
+          position: { xid: 515, version: 43 },
+          record: buildTombstone({ todoId: 9, version: 43 }),
+        },
+      ]);
+
+      const result = await service.pull(1, {
+        since: tokenFor(500, 40),
+        limit: 2,
+      });
+
+      expect(result.todos).toEqual([early]);
+      expect(result.deleted).toEqual([
+        { id: 9, version: 43, deletedAt: expect.any(Date) as Date },
+      ]);
+      expect(result.hasMore).toBe(true);
+      expect(decodeSyncToken(result.token)).toMatchObject({
+        xid: 515,
+        version: 43,
+      });
+    });
+
+    it('should report trashed todos as deleted', async () => {
+      const deletedAt = new Date('2025-08-20T09:00:00Z');
+      mockRepository.findChangedSince.mockResolvedValue([
+        {
+          position: { xid: 510, version: 44 },
+          record: buildTodo({ id: 3, version: 44, deletedAt }),
+        },
+      ]);
+
+      const result = await service.pull(1, { since: tokenFor(500, 40) });
+
+      expect(result.todos).toEqual([]);
+      expect(result.deleted).toEqual([{ id: 3, version: 44, deletedAt }]);
+    });
+
+    it('should keep the token when nothing changed', async () => {
+      const result = await service.pull(1, { since: tokenFor(500, 40) });
+
+      expect(decodeSyncToken(result.token)).toMatchObject({
+        xid: 500,
+        version: 40,
+      });
+      expect(result.hasMore).toBe(false);
+    });
+
+    it('should download live todos from the start without a token', async () => {
+      await service.pull(1, {});
+
+      expect(mockRepository.findChangedSince).toHaveBeenCalledWith(
+        1,
+        { xid: 0, version: 0 },
+        900,
+        501,
+        false,
+      );
+      expect(mockRepository.findTombstonesSince).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens it did not issue', async () => {
+      await expect(
+        service.pull(1, { since: 'not-a-token' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('push', () => {
+    it('should return the todo already created for a retried client ID', async () => {
+      const todo = buildTodo({ clientId: 'offline-1' });
+      mockRepository.findByClientId.mockResolvedValue(todo);
+      mockTodosService.ensureAccess.mockResolvedValue(todo);
+
+      const result = await service.push(1, {
+        mutations: [
+          {
+            type: SyncMutationType.CREATE,
+            clientId: 'offline-1',
+            todo: { title: 'Water the plants' },
+          },
+        ],
+      });
+
+      expect(mockRepository.findByClientId).toHaveBeenCalledWith(
+        1,
+        'offline-1',
+      );
+      expect(mockTodosService.create).not.toHaveBeenCalled();
+      expect(result.results[0]).toMatchObject({ status: 'applied', id: 1 });
+    });
+
+    it('should create todos for client IDs the user has not used', async () => {
+      const todo = buildTodo({ id: 4, userId: 2, clientId: 'offline-1' });
+      mockRepository.findByClientId.mockResolvedValue(null);
+      mockTodosService.create.mockResolvedValue(todo);
+
+      const result = await service.push(2, {
+        mutations: [
+          {
+            type: SyncMutationType.CREATE,
+            clientId: 'offline-1',
+            todo: { title: 'Water the plants' },
+          },
+        ],
+      });
+
+      expect(mockRepository.findByClientId).toHaveBeenCalledWith(
+        2,
+        'offline-1',
+      );
+      expect(mockTodosService.create).toHaveBeenCalledWith(
+        2,
+        { title: 'Water the plants' },
+        'offline-1',
+      );
+      expect(result.applied).toBe(1);
+    });
+
+    it('should only update while the todo is as resolved against', async () => {
+      const todo = buildTodo({ version: 7 });
+      mockTodosService.ensureAccess.mockResolvedValue(todo);
+      mockTodosService.getETag.mockResolvedValue('"7"');
+      mockTodosService.update.mockResolvedValue(
+        buildTodo({ version: 8, completed: true }),
+      );
+
+      const result = await service.push(1, {
+        mutations: [
+          {
+            type: SyncMutationType.UPDATE,
+            id: 1,
+            baseVersion: 7,
+            changes: { completed: true },
+          },
+        ],
+      });
+
+      expect(mockTodosService.getETag).toHaveBeenCalledWith(todo);
+      expect(mockTodosService.update).toHaveBeenCalledWith(
+        1,
+        1,
+        { completed: true },
+        '"7"',
+      );
+      expect(result.applied).toBe(1);
+    });
+
+    it('should resolve again against a write that got in first', async () => {
+      mockTodosService.ensureAccess
+        .mockResolvedValueOnce(buildTodo({ version: 7 }))
+        .mockResolvedValueOnce(
+          buildTodo({
+            title: 'Water the garden',
+            version: 8,
+            fieldVersions: { title: 8 },
+          }),
+        );
+      mockTodosService.getETag
+        .mockResolvedValueOnce('"7"')
+        .mockResolvedValueOnce('"8"');
+      mockTodosService.update
+        .mockRejectedValueOnce(
+          new PreconditionFailedException('Todo has been changed'),
+        )
+        .mockResolvedValueOnce(buildTodo({ version: 9, completed: true }));
+
+      const result = await service.push(1, {
+        mutations: [
+          {
+            type: SyncMutationType.UPDATE,
+            id: 1,
+            baseVersion: 7,
+            changes: { title: 'Water the plants daily', completed: true },
+          },
+        ],
+      });
+
+      expect(mockTodosService.update).toHaveBeenLastCalledWith(
+        1,
+        1,
+        { completed: true },
+        '"8"',
+      );
+      expect(result.results[0]).toMatchObject({
+        status: 'conflict',
+        conflicts: [{ field: 'title', resolution: 'server' }],
+      });
+    });
+
+    it('should report deletes that keep losing to other writes', async () => {
+      mockTodosService.ensureAccess.mockResolvedValue(buildTodo());
+      mockTodosService.getETag.mockResolvedValue('"1"');
+      mockTodosService.remove.mockRejectedValue(
+        new PreconditionFailedException('Todo has been changed'),
+      );
+
+      const result = await service.push(1, {
+        mutations: [{ type: SyncMutationType.DELETE, id: 1, baseVersion: 1 }],
+      });
+
+      expect(mockTodosService.remove).toHaveBeenCalledTimes(3);
+      expect(mockTodosService.remove).toHaveBeenCalledWith(1, 1, '"1"');
+      expect(result.results[0]).toMatchObject({
+        status: 'rejected',
+        error: { statusCode: HttpStatus.PRECONDITION_FAILED },
+      });
+    });
+  });
+});
@@ -0,0 +1,441 @@
+import {
+  BadRequestException,
+  GoneException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Todo } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodoRepositoryInterface } from '@modules/todos/interfaces/repository/todo.repository.interface';
+import {
+  SyncChanges,
+  SyncMutationResult,
+  SyncResult,
+  SyncTombstone,
+} from '@modules/todos/interfaces/todo.interface';
+import {
+  compareSyncPositions,
+  decodeSyncToken,
+  encodeSyncToken,
+  fieldsChangedSince,
+  resolveSyncChanges,
+  SyncConflictStrategy,
+  SyncPosition,
+  SyncToken,
+} from '@modules/todos/utils/sync.util';
+import {
+  TodoSnapshot,
+  toSnapshot,
+} from '@modules/todos/utils/todo-snapshot.util';
+import {
+  CreateTodoDto,
+  SyncMutationDto,
+  SyncMutationType,
+  SyncQueryDto,
+  SyncTodoChangesDto,
+  SyncTodosDto,
+  UpdateTodoDto,
+} from './dto/todo.dto';
+import { TodosService } from './todos.service';
+
+type SyncOutcome = Omit<SyncMutationResult, 'index' | 'type' | 'clientId'>;
+
+// How often a mutation is resolved again when other writes keep getting in
+const SYNC_WRITE_ATTEMPTS = 3;
+
+/**
+ * Lets offline clients catch up and push their changes. Every change to a
+ * todo gives it a new version from one shared sequence and records the
+ * transaction that wrote it. Versions are taken before commit, so the feed is
+ * ordered by transaction and stops at the oldest one still running; nothing
+ * can later appear before a token. Mutations go through TodosService to get
+ * the same validation, history and webhooks as any other write.
+ */
+@Injectable()
+export class TodoSyncService {
+  constructor(
+    @Inject('TodoRepositoryInterface')
+    private readonly todoRepository: TodoRepositoryInterface,
+    private readonly todosService: TodosService,
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TodoSyncService.name);
+  }
+
+  /**
+   * Own todos changed since the token, trashed and removed ones as
+   * tombstones. Without a token every live todo is returned.
+   */
+  async pull(userId: number, query: SyncQueryDto): Promise<SyncChanges> {
+    this.logger.log(`Collecting sync changes for user: ${userId}`);
+
+    const since =
+      query.since === undefined ? null : this.parseToken(query.since);
+    const after: SyncPosition = {
+      xid: since?.xid ?? 0,
+      version: since?.version ?? 0,
+    };
+    const limit = query.limit ?? 500;
+
+    // Taken first and shared by both reads, so neither can include a
+    // transaction the other could still miss
+    const horizon = await this.todoRepository.findSyncHorizon();
+
+    // A full download has no use for tombstones
+    const todos = await this.todoRepository.findChangedSince(
+      userId,
+      after,
+      horizon,
+      limit + 1,
+      since !== null,
+    );
+    const tombstones = since
+      ? await this.todoRepository.findTombstonesSince(
+          userId,
+          after,
+          horizon,
+          limit + 1,
+        )
+      : [];
+
+    // Both lists are ordered the same way, so merging them gives one feed
+    // that can be cut into pages anywhere
+    const changes = [
+      ...todos.map(({ position, record: todo }) => ({
+        position,
+        change: todo.deletedAt
+          ? this.toTombstone(todo.id, todo.version, todo.deletedAt)
+          : todo,
+      })),
+      ...tombstones.map(({ position, record: tombstone }) => ({
+        position,
+        change: this.toTombstone(
+          tombstone.todoId,
+          tombstone.version,
+          tombstone.deletedAt,
+        ),
+      })),
+    ].sort((a, b) => compareSyncPositions(a.position, b.position));
+    const page = changes.slice(0, limit);
+    const sent = page.map(({ change }) => change);
+
+    return {
+      todos: sent.filter((change): change is Todo => 'title' in change),
+      deleted: sent.filter(
+        (change): change is SyncTombstone => !('title' in change),
+      ),
+      token: encodeSyncToken({
+        ...(page.at(-1)?.position ?? after),
+        issuedAt: new Date(),
+      }),
+      hasMore: changes.length > limit,
+    };
+  }
+
+  /**
+   * Applies changes made offline, in order. Each mutation succeeds or fails
+   * on its own; fields changed both offline and on the server since the
+   * client's base version are resolved with the conflict strategy.
+   */
+  async push(userId: number, syncTodosDto: SyncTodosDto): Promise<SyncResult> {
+    const { mutations } = syncTodosDto;
+    const strategy =
+      syncTodosDto.conflictStrategy ?? SyncConflictStrategy.SERVER_WINS;
+    this.logger.log(
+      `Applying ${mutations.length} sync mutations for user: ${userId}`,
+    );
+
+    // Base versions only make sense against the client's own last copy
+    const ids = mutations
+      .filter((mutation) => mutation.type !== SyncMutationType.CREATE)
+      .map((mutation) => mutation.id);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException(
+        'Each todo may only be changed once per sync',
+      );
+    }
+
+    const results: SyncMutationResult[] = [];
+    for (const [index, mutation] of mutations.entries()) {
+      const base = {
+        index,
+        type: mutation.type,
+        id: mutation.id,
+        clientId: mutation.clientId,
+      };
+
+      try {
+        results.push({
+          ...base,
+          ...(await this.applyMutation(userId, mutation, strategy)),
+        });
+      } catch (error) {
+        results.push({
+          ...base,
+          status: 'rejected',
+          error: this.toError(error),
+        });
+      }
+    }
+
+    const count = (status: SyncMutationResult['status']) =>
+      results.filter((result) => result.status === status).length;
+
+    return {
+      applied: count('applied'),
+      conflicts: count('conflict'),
+      rejected: count('rejected'),
+      results,
+    };
+  }
+
+  private async applyMutation(
+    userId: number,
+    mutation: SyncMutationDto,
+    strategy: SyncConflictStrategy,
+  ): Promise<SyncOutcome> {
+    const { id, baseVersion } = mutation;
+
+    if (mutation.type === SyncMutationType.CREATE) {
+      if (!mutation.todo || !mutation.clientId) {
+        throw new BadRequestException('Client ID and todo are required');
+      }
+
+      return this.applyCreate(userId, mutation.clientId, mutation.todo);
+    }
+
+    if (id === undefined || baseVersion === undefined) {
+      throw new BadRequestException('ID and base version are required');
+    }
+
+    if (mutation.type === SyncMutationType.UPDATE) {
+      const { changes } = mutation;
+      if (!changes) {
+        throw new BadRequestException('Changes are required for update');
+      }
+
+      return this.retryLostRaces(() =>
+        this.applyUpdate(userId, id, baseVersion, changes, strategy),
+      );
+    }
+
+    return this.retryLostRaces(() =>
+      this.applyDelete(userId, id, baseVersion, strategy),
+    );
+  }
+
+  /**
+   * Conflicts are resolved against the todo as read, and the write only goes
+   * through while it is unchanged. When another write got in between, the
+   * mutation is resolved again against the new state; after the last
+   * attempt the 412 is reported.
+   */
+  private async retryLostRaces(
+    apply: () => Promise<SyncOutcome>,
+  ): Promise<SyncOutcome> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await apply();
+      } catch (error) {
+        if (
+          !(error instanceof PreconditionFailedException) ||
+          attempt >= SYNC_WRITE_ATTEMPTS
+        ) {
+          throw error;
+        }
+        this.logger.debug('Todo changed while syncing, resolving again');
+      }
+    }
+  }
+
+  private async applyCreate(
+    userId: number,
+    clientId: string,
+    createTodoDto: CreateTodoDto,
+  ): Promise<SyncOutcome> {
+    // A retried batch whose response never reached the client
+    const existing = await this.todoRepository.findByClientId(userId, clientId);
+    if (existing) {
+      const todo = await this.todosService.ensureAccess(
+        existing.id,
+        userId,
+        'VIEWER',
+      );
+      return { status: 'applied', id: todo.id, todo };
+    }
+
+    const todo = await this.todosService.create(
+      userId,
+      createTodoDto,
+      clientId,
+    );
+
+    return { status: 'applied', id: todo.id, todo };
+  }
+
+  private async applyUpdate(
+    userId: number,
+    id: number,
+    baseVersion: number,
+    changes: SyncTodoChangesDto,
+    strategy: SyncConflictStrategy,
+  ): Promise<SyncOutcome> {
+    const existing = await this.todosService.ensureAccess(id, userId, 'EDITOR');
+    const { fields, conflicts } = resolveSyncChanges(
+      toSnapshot(existing),
+      existing.fieldVersions,
+      baseVersion,
+      this.toClientSnapshot(changes),
+      strategy,
+    );
+
+    const update: UpdateTodoDto = {};
+    for (const field of fields) {
+      Object.assign(update, { [field]: changes[field] });
+    }
+
+    const todo =
+      fields.length > 0
+        ? await this.todosService.update(
+            id,
+            userId,
+            update,
+            await this.todosService.getETag(existing),
+          )
+        : existing;
+
+    return {
+      status: conflicts.length > 0 ? 'conflict' : 'applied',
+      id,
+      todo,
+      conflicts,
+    };
+  }
+
+  /**
+   * Deleting a todo that changed on the server since the client last saw it
+   * is a conflict; the server strategy keeps the todo.
+   */
+  private async applyDelete(
+    userId: number,
+    id: number,
+    baseVersion: number,
+    strategy: SyncConflictStrategy,
+  ): Promise<SyncOutcome> {
+    let existing: Todo;
+    try {
+      existing = await this.todosService.ensureAccess(id, userId, 'EDITOR');
+    } catch (error) {
+      // Already trashed or removed, which is what the client wanted
+      if (error instanceof NotFoundException) {
+        return { status: 'applied', id, todo: null };
+      }
+      throw error;
+    }
+
+    const changed = fieldsChangedSince(existing.fieldVersions, baseVersion);
+    if (changed.length > 0 && strategy === SyncConflictStrategy.SERVER_WINS) {
+      const snapshot = toSnapshot(existing);
+
+      return {
+        status: 'conflict',
+        id,
+        todo: existing,
+        conflicts: changed.map((field) => ({
+          field,
+          serverValue: snapshot[field],
+          clientValue: null,
+          resolution: 'server',
+        })),
+      };
+    }
+
+    await this.todosService.remove(
+      id,
+      userId,
+      await this.todosService.getETag(existing),
+    );
+
+    return { status: 'applied', id, todo: null };
+  }
+
+  private parseToken(value: string): SyncToken {
+    const token = decodeSyncToken(value);
+    if (!token) {
+      throw new BadRequestException('Invalid sync token');
+    }
+
+    // Trashed todos are purged after the retention period, taking their
+    // tombstones with them, so older tokens could miss deletions
+    const retentionDays = Number(
+      this.configService.get<string>('TODO_TRASH_RETENTION_DAYS') || 30,
+    );
+    if (token.issuedAt.getTime() < Date.now() - retentionDays * 86_400_000) {
+      throw new GoneException(
+        'Sync token has expired; sync again without one to download everything',
+      );
+    }
+
+    return token;
+  }
+
+  private toTombstone(
+    id: number,
+    version: number,
+    deletedAt: Date,
+  ): SyncTombstone {
+    return { id, version, deletedAt };
+  }
+
+  /** The client's values in the form the server compares them in. */
+  private toClientSnapshot(changes: SyncTodoChangesDto): Partial<TodoSnapshot> {
+    return {
+      title: changes.title,
+      description: changes.description,
+      completed: changes.completed,
+      dueDate:
+        changes.dueDate === undefined
+          ? undefined
+          : new Date(changes.dueDate).toISOString(),
+      projectId: changes.projectId,
+      recurrence:
+        changes.recurrence && ({ ...changes.recurrence } as Prisma.JsonObject),
+    };
+  }
+
+  private toError(error: unknown): SyncMutationResult['error'] {
+    if (error instanceof HttpException) {
+      return { statusCode: error.getStatus(), message: error.message };
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      // Two retries of the same create raced each other
+      if (error.code === 'P2002') {
+        return {
+          statusCode: HttpStatus.CONFLICT,
+          message: 'A todo with this client ID already exists',
+        };
+      }
+
+      // The todo was removed between the access check and the write
+      if (error.code === 'P2025') {
+        return { statusCode: HttpStatus.NOT_FOUND, message: 'Todo not found' };
+      }
+    }
+
+    this.logger.error(
+      `Sync mutation failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      message: 'Internal server error',
+    };
+  }
+}
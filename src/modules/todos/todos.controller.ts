@@ -6,21 +6,53 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
+  HttpCode,
+  HttpStatus,
+  Headers,
+  Res,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { tmpdir } from 'os';
 import { TodosService } from './todos.service';
-import { CreateTodoDto, UpdateTodoDto } from './dto/todo.dto';
+import { TodoExportService } from './todo-export.service';
+import { TodoImportService } from './todo-import.service';
+import {
+  BulkTodosDto,
+  CreateTodoDto,
+  ExportTodosQueryDto,
+  ImportTodosDto,
+  MoveTodoDto,
+  ReorderTodosDto,
+  TodoHistoryQueryDto,
+  TodoQueryDto,
+  UpcomingQueryDto,
+  UpdateTodoDto,
+} from './dto/todo.dto';
 import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { AccessTokenScope } from '@modules/auth/interfaces/access-token.interface';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiHeader,
+  ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { AuthUser } from '@modules/auth/interfaces/user.interface';
 import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
 import { AppLogger } from '@common/logger/app-logger.service';
+import { matchesETag } from './utils/etag.util';
+
+// Uploads go to a temporary file and are read back as a stream
+const IMPORT_MAX_FILE_SIZE = 50 * 1024 * 1024;
 
 @ApiTags('Todos')
 @ApiBearerAuth()
@@ -29,12 +61,15 @@ import { AppLogger } from '@common/logger/app-logger.service';
 export class TodosController {
   constructor(
     private readonly todosService: TodosService,
+    private readonly todoExportService: TodoExportService,
+    private readonly todoImportService: TodoImportService,
     private readonly logger: AppLogger,
   ) {
     this.logger.setContext(TodosController.name);
   }
 
   @Post()
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
   @ApiOperation({ summary: 'Create a new todo' })
   @ApiResponse({ status: 201, description: 'Todo successfully created' })
   create(@CurrentUser() user: AuthUser, @Body() createTodoDto: CreateTodoDto) {
@@ -42,45 +77,343 @@ export class TodosController {
     return this.todosService.create(user.id, createTodoDto);
   }
 
+  @Post('bulk')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run a batch of todo operations',
+    description:
+      'Takes a list of create, update, delete and complete operations, or a ' +
+      'filter over own todos plus an action, and runs them in one transaction',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return whether the batch was committed and per-item results',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or oversized batch' })
+  bulk(@CurrentUser() user: AuthUser, @Body() bulkTodosDto: BulkTodosDto) {
+    this.logger.log('Running bulk todo operations');
+    return this.todosService.bulk(user.id, bulkTodosDto);
+  }
+
+  @Post('import')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      dest: tmpdir(),
+      limits: { fileSize: IMPORT_MAX_FILE_SIZE },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Import todos from a JSON, CSV or iCalendar file',
+    description:
+      'Takes the formats of the export. Rows are validated one by one and ' +
+      'duplicates of existing todos are skipped; use dryRun to preview',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return counts and the errors and duplicates by row',
+  })
+  @ApiResponse({ status: 400, description: 'Missing or unreadable file' })
+  @ApiResponse({ status: 413, description: 'File is larger than 50 MB' })
+  import(
+    @CurrentUser() user: AuthUser,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() importTodosDto: ImportTodosDto,
+  ) {
+    this.logger.log('Importing todos');
+    return this.todoImportService.import(user.id, file, importTodosDto);
+  }
+
   @Get()
-  @ApiOperation({ summary: 'Get all todos for the authenticated user' })
-  @ApiResponse({ status: 200, description: 'Return all todos' })
-  findAll(@CurrentUser() user: AuthUser) {
-    this.logger.log('Finding all todos');
-    return this.todosService.findAll(user.id);
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Get todos for the authenticated user',
+    description:
+      'Supports filtering, sorting and either offset or cursor pagination',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return a page of todos with total count and next cursor',
+  })
+  findAll(@CurrentUser() user: AuthUser, @Query() query: TodoQueryDto) {
+    this.logger.log('Finding todos');
+    return this.todosService.findAll(user.id, query);
+  }
+
+  @Get('upcoming')
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'List upcoming occurrences of recurring todos',
+    description: 'Occurrences are computed on the fly and not stored',
+  })
+  @ApiResponse({ status: 200, description: 'Return occurrences by due date' })
+  findUpcoming(
+    @CurrentUser() user: AuthUser,
+    @Query() query: UpcomingQueryDto,
+  ) {
+    this.logger.log('Finding upcoming occurrences');
+    return this.todosService.findUpcoming(user.id, query);
+  }
+
+  @Get('activity')
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Get the activity feed of the authenticated user',
+    description:
+      'Changes to own todos plus changes the user made to shared todos',
+  })
+  @ApiResponse({ status: 200, description: 'Return a page of events' })
+  findActivity(
+    @CurrentUser() user: AuthUser,
+    @Query() query: TodoHistoryQueryDto,
+  ) {
+    this.logger.log('Finding activity feed');
+    return this.todosService.findActivity(user.id, query);
+  }
+
+  @Get('trash')
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'List own todos in the trash',
+    description:
+      'Sub-todos trashed with their parent are not listed separately',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return trashed todos, newest first',
+  })
+  findTrash(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding trashed todos');
+    return this.todosService.findTrash(user.id);
+  }
+
+  @Get('export')
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Export own todos as JSON, CSV or iCalendar',
+    description: 'iCalendar exports contain one VTODO per todo',
+  })
+  @ApiProduces('application/json', 'text/csv', 'text/calendar')
+  @ApiResponse({ status: 200, description: 'Return the file as a download' })
+  export(@CurrentUser() user: AuthUser, @Query() query: ExportTodosQueryDto) {
+    this.logger.log('Exporting todos');
+    return this.todoExportService.export(user.id, query.format);
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get a todo by ID' })
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Get a todo by ID',
+    description:
+      'Returns the todo with an ETag; send it back as If-None-Match to get ' +
+      '304 while unchanged, or as If-Match to update or delete safely',
+  })
   @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiHeader({ name: 'If-None-Match', required: false })
   @ApiResponse({ status: 200, description: 'Return the todo' })
+  @ApiResponse({ status: 304, description: 'Todo not modified' })
   @ApiResponse({ status: 404, description: 'Todo not found' })
-  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     this.logger.log(`Finding todo with id: ${id}`);
-    return this.todosService.findOne(+id, user.id);
+
+    const { todo, etag } = await this.todosService.findOne(+id, user.id);
+    res.setHeader('ETag', etag);
+
+    if (ifNoneMatch && matchesETag(ifNoneMatch, etag, true)) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+
+    return todo;
   }
 
   @Patch(':id')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
   @ApiOperation({ summary: 'Update a todo' })
   @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'Only update while the todo still has this ETag',
+  })
   @ApiResponse({ status: 200, description: 'Todo successfully updated' })
   @ApiResponse({ status: 404, description: 'Todo not found' })
-  update(
+  @ApiResponse({
+    status: 412,
+    description: 'Todo changed since it was read; returns its current state',
+  })
+  async update(
     @Param('id') id: string,
     @CurrentUser() user: AuthUser,
     @Body() updateTodoDto: UpdateTodoDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
   ) {
     this.logger.log(`Updating todo with id: ${id}`);
-    return this.todosService.update(+id, user.id, updateTodoDto);
+
+    const todo = await this.todosService.update(
+      +id,
+      user.id,
+      updateTodoDto,
+      ifMatch,
+    );
+    res.setHeader('ETag', await this.todosService.getETag(todo));
+
+    return todo;
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a todo' })
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @ApiOperation({
+    summary: 'Move a todo together with its sub-todos to the trash',
+  })
   @ApiParam({ name: 'id', description: 'Todo ID' })
-  @ApiResponse({ status: 200, description: 'Todo successfully deleted' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'Only delete while the todo still has this ETag',
+  })
+  @ApiResponse({ status: 200, description: 'Todo moved to the trash' })
   @ApiResponse({ status: 404, description: 'Todo not found' })
-  remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+  @ApiResponse({
+    status: 412,
+    description: 'Todo changed since it was read; returns its current state',
+  })
+  remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-match') ifMatch?: string,
+  ) {
     this.logger.log(`Removing todo with id: ${id}`);
-    return this.todosService.remove(+id, user.id);
+    return this.todosService.remove(+id, user.id, ifMatch);
+  }
+
+  @Get(':id/history')
+  @RequireScopes(AccessTokenScope.TODOS_READ)
+  @ApiOperation({
+    summary: 'Get the change history of a todo',
+    description: 'Events are newest first with field-level before and after',
+  })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 200, description: 'Return a page of events' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  findHistory(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query() query: TodoHistoryQueryDto,
+  ) {
+    this.logger.log(`Finding history of todo with id: ${id}`);
+    return this.todosService.findHistory(+id, user.id, query);
+  }
+
+  @Post(':id/history/:eventId/revert')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revert a todo to the version right after a history event',
+  })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiParam({ name: 'eventId', description: 'History event ID' })
+  @ApiResponse({ status: 200, description: 'Todo successfully reverted' })
+  @ApiResponse({ status: 404, description: 'Todo or event not found' })
+  revert(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    this.logger.log(`Reverting todo with id: ${id} to event: ${eventId}`);
+    return this.todosService.revert(+id, +eventId, user.id);
+  }
+
+  @Post(':id/restore')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a todo from the trash' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 200, description: 'Todo successfully restored' })
+  @ApiResponse({ status: 400, description: 'Parent todo is still trashed' })
+  @ApiResponse({ status: 404, description: 'Todo not found in the trash' })
+  restore(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Restoring todo with id: ${id}`);
+    return this.todosService.restore(+id, user.id);
+  }
+
+  @Delete(':id/permanent')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @ApiOperation({ summary: 'Permanently delete a todo from the trash' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 200, description: 'Todo permanently deleted' })
+  @ApiResponse({ status: 404, description: 'Todo not found in the trash' })
+  removePermanently(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Permanently removing todo with id: ${id}`);
+    return this.todosService.removePermanently(+id, user.id);
+  }
+
+  @Post(':id/children')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @ApiOperation({ summary: 'Add a sub-todo to a todo' })
+  @ApiParam({ name: 'id', description: 'Parent todo ID' })
+  @ApiResponse({ status: 201, description: 'Sub-todo successfully created' })
+  @ApiResponse({ status: 400, description: 'Maximum nesting depth exceeded' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  addChild(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() createTodoDto: CreateTodoDto,
+  ) {
+    this.logger.log(`Adding child to todo with id: ${id}`);
+    return this.todosService.addChild(+id, user.id, createTodoDto);
+  }
+
+  @Patch(':id/children/order')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @ApiOperation({ summary: 'Reorder the sub-todos of a todo' })
+  @ApiParam({ name: 'id', description: 'Parent todo ID' })
+  @ApiResponse({ status: 200, description: 'Return the reordered sub-todos' })
+  @ApiResponse({ status: 400, description: 'IDs do not match the children' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  reorderChildren(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() reorderTodosDto: ReorderTodosDto,
+  ) {
+    this.logger.log(`Reordering children of todo with id: ${id}`);
+    return this.todosService.reorderChildren(+id, user.id, reorderTodosDto.ids);
+  }
+
+  @Post(':id/move')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @ApiOperation({ summary: 'Move a todo under another parent' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 201, description: 'Todo successfully moved' })
+  @ApiResponse({ status: 400, description: 'Invalid target parent' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  move(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() moveTodoDto: MoveTodoDto,
+  ) {
+    this.logger.log(`Moving todo with id: ${id}`);
+    return this.todosService.move(+id, user.id, moveTodoDto);
+  }
+
+  @Post(':id/skip')
+  @RequireScopes(AccessTokenScope.TODOS_WRITE)
+  @ApiOperation({ summary: 'Skip the current occurrence of a recurring todo' })
+  @ApiParam({ name: 'id', description: 'Todo ID' })
+  @ApiResponse({ status: 201, description: 'Todo moved to its next due date' })
+  @ApiResponse({ status: 400, description: 'Todo is not recurring' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  skip(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Skipping occurrence of todo with id: ${id}`);
+    return this.todosService.skipOccurrence(+id, user.id);
   }
 }
@@ -1,19 +1,47 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { TodosService } from './todos.service';
 import { TodosController } from './todos.controller';
 import { TodoRepository } from './repositories/todo.repository';
-import { CommonModule } from '../common/common.module';
+import { TodoEventRepository } from './repositories/todo-event.repository';
+import { CommonModule } from '@common/common.module';
+import { ProjectsModule } from '@modules/projects/projects.module';
+import { TagsModule } from '@modules/tags/tags.module';
+import { SharesModule } from '@modules/shares/shares.module';
+import { WebhooksModule } from '@modules/webhooks/webhooks.module';
+import { ProjectTodosController } from './project-todos.controller';
+import { TrashPurgeService } from './trash-purge.service';
+import { TodoHistoryService } from './todo-history.service';
+import { TodoSyncService } from './todo-sync.service';
+import { SyncController } from './sync.controller';
+import { TodoExportService } from './todo-export.service';
+import { TodoImportService } from './todo-import.service';
 
 @Module({
-  imports: [CommonModule],
-  controllers: [TodosController],
+  imports: [
+    CommonModule,
+    forwardRef(() => ProjectsModule),
+    TagsModule,
+    SharesModule,
+    WebhooksModule,
+  ],
+  controllers: [TodosController, ProjectTodosController, SyncController],
   providers: [
     TodosService,
+    TrashPurgeService,
+    TodoHistoryService,
+    TodoSyncService,
+    TodoExportService,
+    TodoImportService,
     TodoRepository,
     {
       provide: 'TodoRepositoryInterface',
       useClass: TodoRepository,
     },
+    {
+      provide: 'TodoEventRepositoryInterface',
+      useClass: TodoEventRepository,
+    },
   ],
+  exports: [TodosService, TodoHistoryService],
 })
 export class TodosModule {}
@@ -0,0 +1,457 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Todo } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { ProjectsService } from '@modules/projects/projects.service';
+import { TagsService } from '@modules/tags/tags.service';
+import { SharesService } from '@modules/shares/shares.service';
+import { WebhooksService } from '@modules/webhooks/webhooks.service';
+import { WebhookEventType } from '@modules/webhooks/interfaces/webhook.interface';
+import { BulkAction, BulkMode, BulkOperationType } from './dto/todo.dto';
+import { TodosService } from './todos.service';
+import { TodoHistoryService } from './todo-history.service';
+
+describe('TodosService', () => {
+  let service: TodosService;
+
+  const mockRepository = {
+    findById: jest.fn(),
+    findChildren: jest.fn(),
+    findDescendants: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    findTrashed: jest.fn(),
+    findTrashedBefore: jest.fn(),
+    removePermanently: jest.fn(),
+    purgeTrashed: jest.fn(),
+    removeByProject: jest.fn(),
+    bulkWrite: jest.fn(),
+    getDepth: jest.fn(),
+    createChild: jest.fn(),
+    reorderChildren: jest.fn(),
+    move: jest.fn(),
+    findIds: jest.fn(),
+  };
+
+  const mockHistoryService = {
+    recordCreated: jest.fn(),
+    recordUpdated: jest.fn(),
+    recordDeleted: jest.fn(),
+    recordRestored: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    emit: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildTodo = (overrides: Partial<Todo> = {}): Todo => ({
+    id: 1,
+    title: 'Water the plants',
+    description: null,
+    completed: false,
+    dueDate: null,
+    createdAt: new Date('2025-07-01T09:00:00Z'),
+    updatedAt: new Date('2025-07-01T09:00:00Z'),
+    userId: 1,
+    projectId: null,
+    parentId: null,
+    position: 0,
+    recurrence: null,
+    occurrence: 1,
+    deletedAt: null,
+    version: 1,
+    fieldVersions: {},
+    clientId: null,
+    ...overrides,
+  });
+
+  // What Prisma throws when a guarded write matches no row
+  const recordNotFound = () =>
+    new Prisma.PrismaClientKnownRequestError('Record to update not found.', {
+      code: 'P2025',
+      clientVersion: Prisma.prismaVersion.client,
+    });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TodosService,
+        { provide: 'TodoRepositoryInterface', useValue: mockRepository },
+        { provide: ProjectsService, useValue: {} },
+        { provide: TagsService, useValue: {} },
+        { provide: SharesService, useValue: {} },
+        { provide: TodoHistoryService, useValue: mockHistoryService },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<TodosService>(TodosService);
+    mockRepository.findChildren.mockResolvedValue([]);
+    mockRepository.findDescendants.mockResolvedValue([]);
+  });
+
+  describe('update', () => {
+    it('should report a todo removed before the write as not found', async () => {
+      mockRepository.findById.mockResolvedValue(buildTodo());
+      mockRepository.update.mockRejectedValue(recordNotFound());
+
+      await expect(
+        service.update(1, 1, { title: 'Water the garden' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockWebhooksService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should only trash the version the ETag was read from', async () => {
+      const todo = buildTodo({ version: 7 });
+      mockRepository.findById.mockResolvedValue(todo);
+      mockRepository.remove.mockResolvedValue({
+        ...todo,
+        deletedAt: new Date(),
+      });
+
+      await service.remove(1, 1, '"7"');
+
+      expect(mockRepository.remove).toHaveBeenCalledWith(1, 1, 7);
+    });
+
+    it('should not check the version without If-Match', async () => {
+      mockRepository.findById.mockResolvedValue(buildTodo({ version: 7 }));
+      mockRepository.remove.mockResolvedValue(buildTodo());
+
+      await service.remove(1, 1);
+
+      expect(mockRepository.remove).toHaveBeenCalledWith(1, 1, undefined);
+    });
+
+    it('should fail the precondition when the todo changed before the write', async () => {
+      mockRepository.findById
+        .mockResolvedValueOnce(buildTodo({ version: 7 }))
+        .mockResolvedValueOnce(buildTodo({ version: 8 }));
+      mockRepository.remove.mockRejectedValue(recordNotFound());
+
+      await expect(service.remove(1, 1, '"7"')).rejects.toBeInstanceOf(
+        PreconditionFailedException,
+      );
+      expect(mockHistoryService.recordDeleted).not.toHaveBeenCalled();
+      expect(mockWebhooksService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addChild', () => {
+    it('should give the child the owner and project of its parent', async () => {
+      const child = buildTodo({ id: 2, parentId: 1, projectId: 3 });
+      mockRepository.findById.mockResolvedValue(buildTodo({ projectId: 3 }));
+      mockRepository.getDepth.mockResolvedValue(1);
+      mockRepository.createChild.mockResolvedValue(child);
+
+      await expect(
+        service.addChild(1, 1, { title: 'Buy seeds' }),
+      ).resolves.toBe(child);
+      expect(mockRepository.createChild).toHaveBeenCalledWith(1, 1, {
+        title: 'Buy seeds',
+        projectId: 3,
+      });
+      expect(mockHistoryService.recordCreated).toHaveBeenCalledWith(1, [child]);
+    });
+
+    it('should refuse to nest deeper than the limit', async () => {
+      mockRepository.findById.mockResolvedValue(buildTodo());
+      mockRepository.getDepth.mockResolvedValue(5);
+
+      await expect(
+        service.addChild(1, 1, { title: 'Buy seeds' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockRepository.createChild).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reorderChildren', () => {
+    it('should require every child exactly once', async () => {
+      mockRepository.findById.mockResolvedValue(buildTodo());
+      mockRepository.findChildren.mockResolvedValue([
+        buildTodo({ id: 2, parentId: 1 }),
+        buildTodo({ id: 3, parentId: 1 }),
+      ]);
+
+      await expect(
+        service.reorderChildren(1, 1, [3, 3]),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockRepository.reorderChildren).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('move', () => {
+    it('should not move a todo under one of its sub-todos', async () => {
+      mockRepository.findById.mockImplementation((id: number) =>
+        buildTodo({ id, parentId: id === 3 ? 2 : null }),
+      );
+      mockRepository.findDescendants.mockResolvedValue([
+        [buildTodo({ id: 2, parentId: 1 })],
+        [buildTodo({ id: 3, parentId: 2 })],
+      ]);
+
+      await expect(
+        service.move(1, 1, { parentId: 3, position: 0 }),
+      ).rejects.toThrow(
+        'A todo cannot be moved under itself or one of its sub-todos',
+      );
+      expect(mockRepository.move).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulk', () => {
+    it('should publish the sub-todos and next occurrence a completion touched', async () => {
+      const todo = buildTodo({
+        dueDate: new Date('2025-07-07T09:00:00Z'),
+        recurrence: { frequency: 'weekly' },
+      });
+      const child = buildTodo({ id: 2, parentId: 1 });
+      const next = buildTodo({
+        id: 3,
+        dueDate: new Date('2025-07-14T09:00:00Z'),
+        occurrence: 2,
+      });
+      mockRepository.findById.mockResolvedValue(todo);
+      mockRepository.bulkWrite.mockResolvedValue({
+        committed: true,
+        outcomes: [
+          {
+            todo: { ...todo, completed: true },
+            completedDescendants: [child],
+            nextOccurrence: next,
+          },
+        ],
+      });
+
+      await service.bulk(1, {
+        operations: [
+          {
+            type: BulkOperationType.UPDATE,
+            id: 1,
+            changes: { completed: true, completeChildren: true },
+          },
+        ],
+      });
+
+      expect(mockRepository.bulkWrite).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            type: 'update',
+            nextDueDate: new Date('2025-07-14T09:00:00Z'),
+          }),
+        ],
+        true,
+      );
+      expect(mockHistoryService.recordCreated).toHaveBeenCalledWith(1, [next]);
+      expect(mockHistoryService.recordUpdated).toHaveBeenCalledWith(
+        1,
+        [
+          {
+            before: expect.objectContaining(todo) as Todo,
+            after: { ...todo, completed: true },
+          },
+          { before: child, after: { ...child, completed: true } },
+        ],
+        undefined,
+      );
+      expect(mockWebhooksService.emit).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: WebhookEventType.TODO_COMPLETED,
+            data: expect.objectContaining({
+              todo: { ...child, completed: true },
+            }) as object,
+          }),
+        ]),
+      );
+    });
+
+    it('should write the rest of a best-effort batch when a check fails', async () => {
+      const todo = buildTodo();
+      mockRepository.findById.mockImplementation((id: number) =>
+        id === 1 ? todo : null,
+      );
+      mockRepository.bulkWrite.mockResolvedValue({
+        committed: true,
+        outcomes: [{ todo: { ...todo, completed: true } }],
+      });
+
+      const result = await service.bulk(1, {
+        mode: BulkMode.BEST_EFFORT,
+        operations: [
+          { type: BulkOperationType.COMPLETE, id: 1 },
+          { type: BulkOperationType.COMPLETE, id: 2 },
+        ],
+      });
+
+      expect(mockRepository.bulkWrite).toHaveBeenCalledWith(
+        [expect.objectContaining({ type: 'update', id: 1 })],
+        false,
+      );
+      expect(result).toMatchObject({
+        committed: true,
+        succeeded: 1,
+        failed: 1,
+        results: [
+          { index: 0, status: 'succeeded' },
+          { index: 1, status: 'failed', error: { statusCode: 404 } },
+        ],
+      });
+    });
+
+    it('should refuse filters matching more todos than a batch holds', async () => {
+      mockRepository.findIds.mockResolvedValue(
+        Array.from({ length: 101 }, (_, index) => index + 1),
+      );
+
+      await expect(
+        service.bulk(1, {
+          filter: { completed: false },
+          action: BulkAction.COMPLETE,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockRepository.findIds).toHaveBeenCalledWith(
+        1,
+        { completed: false },
+        101,
+      );
+      expect(mockRepository.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should publish nothing when an atomic batch rolls back', async () => {
+      mockRepository.findById.mockResolvedValue(buildTodo());
+      mockRepository.bulkWrite.mockResolvedValue({
+        committed: false,
+        outcomes: [{ error: new Error('Deadlock') }],
+      });
+
+      const result = await service.bulk(1, {
+        operations: [{ type: BulkOperationType.COMPLETE, id: 1 }],
+      });
+
+      expect(result.committed).toBe(false);
+      expect(mockHistoryService.recordUpdated).not.toHaveBeenCalled();
+      expect(mockWebhooksService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeProjectTodos', () => {
+    it('should record and announce every trashed todo', async () => {
+      const todos = [
+        buildTodo({ id: 1, projectId: 3, deletedAt: new Date() }),
+        buildTodo({ id: 2, projectId: 3, deletedAt: new Date() }),
+      ];
+      mockRepository.removeByProject.mockResolvedValue(todos);
+
+      await service.removeProjectTodos(3, 1);
+
+      expect(mockRepository.removeByProject).toHaveBeenCalledWith(3);
+      expect(mockHistoryService.recordDeleted).toHaveBeenCalledWith(1, todos);
+      expect(mockWebhooksService.emit).toHaveBeenCalledWith(
+        todos.map((todo) => ({
+          userId: 1,
+          type: WebhookEventType.TODO_DELETED,
+          data: { todo, permanent: false },
+        })),
+      );
+    });
+  });
+
+  describe('removePermanently', () => {
+    it('should record the deletion before the todo is gone', async () => {
+      const todo = buildTodo({ deletedAt: new Date() });
+      mockRepository.findTrashed.mockResolvedValue(todo);
+      mockRepository.removePermanently.mockResolvedValue(todo);
+
+      await service.removePermanently(1, 1);
+
+      expect(mockHistoryService.recordDeleted).toHaveBeenCalledWith(1, [todo]);
+      expect(mockWebhooksService.emit).toHaveBeenCalledWith([
+        {
+          userId: 1,
+          type: WebhookEventType.TODO_DELETED,
+          data: { todo, permanent: true },
+        },
+      ]);
+      expect(
+        mockHistoryService.recordDeleted.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockRepository.removePermanently.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should only remove todos in the trash', async () => {
+      mockRepository.findTrashed.mockResolvedValue(null);
+
+      await expect(service.removePermanently(1, 1)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(mockRepository.removePermanently).not.toHaveBeenCalled();
+      expect(mockWebhooksService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeTrashed', () => {
+    it('should announce the top of each purged subtree without an actor', async () => {
+      const before = new Date('2025-07-01T09:00:00Z');
+      const parent = buildTodo({ id: 1, deletedAt: new Date(0) });
+      const child = buildTodo({ id: 2, parentId: 1, deletedAt: new Date(0) });
+      const other = buildTodo({ id: 3, userId: 2, deletedAt: new Date(0) });
+      mockRepository.findTrashedBefore.mockResolvedValue([
+        parent,
+        child,
+        other,
+      ]);
+      mockRepository.purgeTrashed.mockResolvedValue(3);
+
+      await expect(service.purgeTrashed(before)).resolves.toBe(3);
+
+      expect(mockHistoryService.recordDeleted).toHaveBeenCalledWith(null, [
+        parent,
+        other,
+      ]);
+      expect(mockWebhooksService.emit).toHaveBeenCalledWith([
+        {
+          userId: 1,
+          type: WebhookEventType.TODO_DELETED,
+          data: { todo: parent, permanent: true },
+        },
+        {
+          userId: 2,
+          type: WebhookEventType.TODO_DELETED,
+          data: { todo: other, permanent: true },
+        },
+      ]);
+      expect(mockRepository.purgeTrashed).toHaveBeenCalledWith(
+        [1, 2, 3],
+        before,
+      );
+    });
+
+    it('should do nothing with an empty trash', async () => {
+      mockRepository.findTrashedBefore.mockResolvedValue([]);
+
+      await expect(service.purgeTrashed(new Date())).resolves.toBe(0);
+      expect(mockRepository.purgeTrashed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,71 +1,1100 @@
-import { Injectable, NotFoundException, Inject } from '@nestjs/common';
-import { CreateTodoDto, UpdateTodoDto } from './dto/todo.dto';
+import {
+  forwardRef,
+  Injectable,
+  NotFoundException,
+  Inject,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Todo, TodoEventType } from '@prisma/client';
+import {
+  BulkAction,
+  BulkMode,
+  BulkOperationDto,
+  BulkOperationType,
+  BulkTodosDto,
+  CreateTodoDto,
+  ImportTodoRowDto,
+  MoveTodoDto,
+  TodoHistoryQueryDto,
+  TodoQueryDto,
+  UpcomingQueryDto,
+  UpdateTodoDto,
+} from './dto/todo.dto';
 
 // import { TodoRepository } from './repositories/todo.repository';
 import { AppLogger } from '@common/logger/app-logger.service';
-import { TodoRepositoryInterface } from '@app/todos/interfaces/repository/todo.repository.interface';
+import { TodoRepositoryInterface } from '@modules/todos/interfaces/repository/todo.repository.interface';
+import {
+  AccessibleTodo,
+  BulkItemResult,
+  BulkResult,
+  BulkWriteOperation,
+  BulkWriteOutcome,
+  TaggedTodo,
+  TodoProgress,
+  TodoWithChildren,
+  UpcomingOccurrence,
+} from '@modules/todos/interfaces/todo.interface';
+import {
+  nextOccurrence,
+  occurrencesBetween,
+  parseRecurrenceRule,
+} from '@modules/todos/utils/recurrence.util';
+import { ProjectsService } from '@modules/projects/projects.service';
+import { TagsService } from '@modules/tags/tags.service';
+import { SharesService } from '@modules/shares/shares.service';
+import { AccessLevel } from '@modules/shares/interfaces/share.interface';
+import { hasAccess } from '@modules/shares/utils/access.util';
+import { TodoHistoryService } from './todo-history.service';
+import { WebhooksService } from '@modules/webhooks/webhooks.service';
+import { WebhookEventType } from '@modules/webhooks/interfaces/webhook.interface';
+import {
+  diffSnapshots,
+  toSnapshot,
+} from '@modules/todos/utils/todo-snapshot.util';
+import { matchesETag, todoETag } from '@modules/todos/utils/etag.util';
 @Injectable()
 export class TodosService {
   constructor(
     @Inject('TodoRepositoryInterface')
     private readonly todoRepository: TodoRepositoryInterface,
+    @Inject(forwardRef(() => ProjectsService))
+    private readonly projectsService: ProjectsService,
+    private readonly tagsService: TagsService,
+    private readonly sharesService: SharesService,
+    private readonly todoHistoryService: TodoHistoryService,
+    private readonly webhooksService: WebhooksService,
+    private readonly configService: ConfigService,
     private readonly logger: AppLogger,
   ) {
     this.logger.setContext(TodosService.name);
   }
 
-  async create(userId: number, createTodoDto: CreateTodoDto) {
+  async create(
+    userId: number,
+    createTodoDto: CreateTodoDto,
+    clientId?: string,
+  ) {
     this.logger.log(`Creating todo for user: ${userId}`);
-    return this.todoRepository.create(userId, createTodoDto);
+
+    const { ownerId, data } = await this.prepareCreate(userId, createTodoDto);
+    const todo = await this.todoRepository.create(ownerId, data, clientId);
+    await this.publishCreated(userId, [todo]);
+
+    return todo;
   }
 
-  async findAll(userId: number) {
-    this.logger.log(`Finding all todos for user: ${userId}`);
-    return this.todoRepository.findAll(userId);
+  async findAll(userId: number, query: TodoQueryDto) {
+    this.logger.log(`Finding todos for user: ${userId}`);
+    return this.todoRepository.findMany(userId, query);
   }
 
-  async findOne(id: number, userId: number) {
+  async findOne(
+    id: number,
+    userId: number,
+  ): Promise<TaggedTodo<TodoWithChildren>> {
     this.logger.log(`Finding todo with id: ${id} for user: ${userId}`);
 
-    const todo = await this.todoRepository.findOne(id, userId);
+    return this.represent(await this.getAccessibleTodo(id, userId, 'VIEWER'));
+  }
 
-    if (!todo) {
-      this.logger.warn(`Todo with id: ${id} not found`);
-      throw new NotFoundException(`Todo with ID ${id} not found`);
-    }
+  /** The current ETag of a todo, e.g. to return it after a write. */
+  async getETag(todo: Todo): Promise<string> {
+    const descendants = await this.todoRepository.findDescendants(todo.id);
 
-    return todo;
+    return todoETag(todo, descendants.flat());
   }
 
-  async update(id: number, userId: number, updateTodoDto: UpdateTodoDto) {
+  /**
+   * With `ifMatch` the update only goes through while the todo still has
+   * that ETag, and fails with 412 and the current state otherwise.
+   */
+  async update(
+    id: number,
+    userId: number,
+    updateTodoDto: UpdateTodoDto,
+    ifMatch?: string,
+  ) {
     this.logger.log(`Updating todo with id: ${id} for user: ${userId}`);
 
-    // Check if todo exists and belongs to the user
-    const exists = await this.todoRepository.exists(id, userId);
+    const existing = await this.getAccessibleTodo(id, userId, 'EDITOR');
+    if (ifMatch !== undefined) {
+      await this.checkPrecondition(existing, ifMatch);
+    }
 
-    if (!exists) {
-      this.logger.warn(
-        `Todo with id: ${id} not found or not owned by user: ${userId}`,
+    const expectedVersion = this.expectedVersion(existing, ifMatch);
+    const data = await this.prepareUpdate(existing, updateTodoDto);
+    let todo: Todo;
+    try {
+      todo = await this.todoRepository.update(
+        id,
+        userId,
+        data,
+        expectedVersion,
       );
-      throw new NotFoundException(`Todo with ID ${id} not found`);
+    } catch (error) {
+      return this.rethrowWriteError(error, id, userId, ifMatch);
     }
+    await this.publishUpdated(userId, [{ before: existing, after: todo }]);
 
-    return this.todoRepository.update(id, userId, updateTodoDto);
+    if (updateTodoDto.completed && updateTodoDto.completeChildren) {
+      const open = (await this.todoRepository.findDescendants(id))
+        .flat()
+        .filter((descendant) => !descendant.completed);
+
+      if (open.length > 0) {
+        const count = await this.todoRepository.setCompleted(
+          open.map((descendant) => descendant.id),
+          true,
+        );
+        await this.publishUpdated(
+          userId,
+          open.map((before) => ({
+            before,
+            after: { ...before, completed: true },
+          })),
+        );
+        this.logger.log(`Completed ${count} sub-todos of todo: ${id}`);
+      }
+    }
+
+    if (updateTodoDto.completed && !existing.completed) {
+      await this.spawnNextOccurrence(todo, userId);
+    }
+
+    return todo;
   }
 
-  async remove(id: number, userId: number) {
+  async remove(id: number, userId: number, ifMatch?: string) {
     this.logger.log(`Removing todo with id: ${id} for user: ${userId}`);
 
-    // Check if todo exists and belongs to the user
-    const exists = await this.todoRepository.exists(id, userId);
+    const existing = await this.getAccessibleTodo(id, userId, 'EDITOR');
+    if (ifMatch !== undefined) {
+      await this.checkPrecondition(existing, ifMatch);
+    }
+
+    let todo: Todo;
+    try {
+      todo = await this.todoRepository.remove(
+        id,
+        userId,
+        this.expectedVersion(existing, ifMatch),
+      );
+    } catch (error) {
+      return this.rethrowWriteError(error, id, userId, ifMatch);
+    }
+    await this.publishDeleted(userId, [todo]);
+
+    return todo;
+  }
+
+  /** Loads a todo for other modules, enforcing the same access rules. */
+  async ensureAccess(
+    id: number,
+    userId: number,
+    required: AccessLevel,
+  ): Promise<AccessibleTodo> {
+    return this.getAccessibleTodo(id, userId, required);
+  }
+
+  async findTrash(userId: number) {
+    this.logger.log(`Finding trashed todos for user: ${userId}`);
+    return this.todoRepository.findTrash(userId);
+  }
+
+  async restore(id: number, userId: number) {
+    this.logger.log(`Restoring todo with id: ${id} for user: ${userId}`);
+
+    const todo = await this.getTrashedTodo(id, userId);
+
+    if (todo.parentId && !(await this.todoRepository.findById(todo.parentId))) {
+      throw new BadRequestException(
+        'Its parent todo is in the trash; restore the parent first',
+      );
+    }
+
+    const restored = await this.todoRepository.restore(id);
+    await this.publishRestored(userId, restored);
+
+    return restored;
+  }
+
+  async findHistory(id: number, userId: number, query: TodoHistoryQueryDto) {
+    await this.getAccessibleTodo(id, userId, 'VIEWER');
+
+    return this.todoHistoryService.findForTodo(id, query);
+  }
+
+  async findActivity(userId: number, query: TodoHistoryQueryDto) {
+    return this.todoHistoryService.findFeed(userId, query);
+  }
+
+  /**
+   * Puts the tracked fields back the way they were right after the given
+   * event. The revert itself is recorded, so it can be undone the same way.
+   */
+  async revert(id: number, eventId: number, userId: number) {
+    this.logger.log(`Reverting todo with id: ${id} to event: ${eventId}`);
+
+    const existing = await this.getAccessibleTodo(id, userId, 'EDITOR');
+    const snapshot = await this.todoHistoryService.snapshotAt(
+      existing,
+      eventId,
+    );
+
+    // Projects and tags of that version may have been deleted since
+    if (snapshot.projectId) {
+      await this.projectsService.ensureExists(
+        snapshot.projectId,
+        existing.userId,
+      );
+    }
+    if (snapshot.tagIds?.length) {
+      await this.tagsService.resolveTagIds(existing.userId, snapshot.tagIds);
+    }
+
+    const todo = await this.todoRepository.applySnapshot(id, snapshot);
+    await this.publishUpdated(
+      userId,
+      [{ before: existing, after: todo }],
+      TodoEventType.REVERTED,
+    );
+
+    return todo;
+  }
+
+  async removePermanently(id: number, userId: number) {
+    this.logger.log(
+      `Permanently removing todo with id: ${id} for user: ${userId}`,
+    );
+
+    const todo = await this.getTrashedTodo(id, userId);
+
+    // Recorded first, while the event can still point at the todo
+    await this.publishDeleted(userId, [todo], true);
+
+    return this.todoRepository.removePermanently(id);
+  }
+
+  /** Removes todos that stayed in the trash since before the given date. */
+  async purgeTrashed(before: Date): Promise<number> {
+    const todos = await this.todoRepository.findTrashedBefore(before);
+
+    if (todos.length === 0) {
+      return 0;
+    }
+
+    // Sub-todos purged along with their parent are reported through it
+    const ids = new Set(todos.map((todo) => todo.id));
+    await this.publishDeleted(
+      null,
+      todos.filter((todo) => todo.parentId === null || !ids.has(todo.parentId)),
+      true,
+    );
+
+    return this.todoRepository.purgeTrashed([...ids], before);
+  }
+
+  /** Moves the todos of a project that is being deleted to the trash. */
+  async removeProjectTodos(projectId: number, userId: number): Promise<Todo[]> {
+    this.logger.log(`Removing todos of project: ${projectId}`);
+
+    const todos = await this.todoRepository.removeByProject(projectId);
+    await this.publishDeleted(userId, todos);
+
+    return todos;
+  }
+
+  async addChild(
+    parentId: number,
+    userId: number,
+    createTodoDto: CreateTodoDto,
+  ) {
+    this.logger.log(`Adding child to todo with id: ${parentId}`);
+
+    const parent = await this.getAccessibleTodo(parentId, userId, 'EDITOR');
+    const depth = (await this.todoRepository.getDepth(parentId)) + 1;
+
+    this.assertDepth(depth);
+
+    if (createTodoDto.projectId !== undefined) {
+      await this.projectsService.ensureExists(
+        createTodoDto.projectId,
+        parent.userId,
+      );
+    }
+
+    // Sub-todos belong to the owner of their parent and live in the same
+    // project unless told otherwise
+    const child = await this.todoRepository.createChild(
+      parent.userId,
+      parentId,
+      {
+        ...(await this.withResolvedTags(parent.userId, createTodoDto)),
+        projectId: createTodoDto.projectId ?? parent.projectId ?? undefined,
+      },
+    );
+    await this.publishCreated(userId, [child]);
+
+    return child;
+  }
+
+  async reorderChildren(parentId: number, userId: number, ids: number[]) {
+    this.logger.log(`Reordering children of todo with id: ${parentId}`);
+
+    await this.getAccessibleTodo(parentId, userId, 'EDITOR');
+
+    const children = await this.todoRepository.findChildren(parentId);
+    const childIds = new Set(children.map((child) => child.id));
+
+    if (
+      ids.length !== childIds.size ||
+      new Set(ids).size !== ids.length ||
+      ids.some((id) => !childIds.has(id))
+    ) {
+      throw new BadRequestException(
+        'IDs must list every child of the todo exactly once',
+      );
+    }
+
+    await this.todoRepository.reorderChildren(parentId, ids);
+
+    return this.todoRepository.findChildren(parentId);
+  }
+
+  async move(id: number, userId: number, moveTodoDto: MoveTodoDto) {
+    const { parentId, position } = moveTodoDto;
+    this.logger.log(`Moving todo with id: ${id} under parent: ${parentId}`);
+
+    const todo = await this.getAccessibleTodo(id, userId, 'EDITOR');
+
+    if (parentId !== null) {
+      const parent = await this.getAccessibleTodo(parentId, userId, 'EDITOR');
+
+      if (parent.userId !== todo.userId) {
+        throw new BadRequestException(
+          'A todo can only be moved under a todo of the same owner',
+        );
+      }
+
+      const descendants = await this.todoRepository.findDescendants(id);
+      const descendantIds = descendants.flat().map((todo) => todo.id);
+
+      if (parentId === id || descendantIds.includes(parentId)) {
+        throw new BadRequestException(
+          'A todo cannot be moved under itself or one of its sub-todos',
+        );
+      }
+
+      // The deepest node of the moved subtree must stay within the limit
+      const parentDepth = await this.todoRepository.getDepth(parentId);
+      this.assertDepth(parentDepth + 1 + descendants.length);
+    }
+
+    const moved = await this.todoRepository.move(id, parentId, position);
+    await this.publishUpdated(userId, [{ before: todo, after: moved }]);
+
+    return moved;
+  }
+
+  async skipOccurrence(id: number, userId: number) {
+    this.logger.log(`Skipping occurrence of todo with id: ${id}`);
+
+    const todo = await this.getAccessibleTodo(id, userId, 'EDITOR');
+    const rule = parseRecurrenceRule(todo.recurrence);
+
+    if (!rule || !todo.dueDate || todo.completed) {
+      throw new BadRequestException(
+        'Only open recurring todos with a due date can be skipped',
+      );
+    }
+
+    const next = nextOccurrence(rule, todo.dueDate);
+
+    if (!next || (rule.count && todo.occurrence + 1 > rule.count)) {
+      throw new BadRequestException('There is no later occurrence to skip to');
+    }
+
+    const advanced = await this.todoRepository.advanceOccurrence(id, next);
+    await this.publishUpdated(userId, [{ before: todo, after: advanced }]);
+
+    return advanced;
+  }
+
+  /**
+   * Runs a batch of operations, or one action over every own todo matching a
+   * filter. Each operation is checked up front; atomic batches only write
+   * when every check and every write succeeds.
+   */
+  async bulk(userId: number, bulkTodosDto: BulkTodosDto): Promise<BulkResult> {
+    const mode = bulkTodosDto.mode ?? BulkMode.ATOMIC;
+    const operations = await this.expandBulkOperations(userId, bulkTodosDto);
+    this.logger.log(
+      `Running ${operations.length} bulk operations for user: ${userId} (${mode})`,
+    );
+
+    const results: BulkItemResult[] = operations.map((operation, index) => ({
+      index,
+      type: operation.type,
+      id: operation.id,
+      status: 'skipped',
+    }));
+    const prepared: {
+      index: number;
+      operation: BulkWriteOperation;
+      existing?: Todo;
+    }[] = [];
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        prepared.push({
+          index,
+          ...(await this.prepareBulkOperation(userId, operation)),
+        });
+      } catch (error) {
+        Object.assign(results[index], this.toBulkFailure(error));
+      }
+    }
+
+    const atomic = mode === BulkMode.ATOMIC;
+    const rejected = prepared.length < operations.length;
+    let committed = !(atomic && rejected);
+
+    if (committed && prepared.length > 0) {
+      const outcome = await this.todoRepository.bulkWrite(
+        prepared.map((item) => item.operation),
+        atomic,
+      );
+      committed = outcome.committed;
+
+      outcome.outcomes.forEach(({ todo, error }, position) => {
+        const result = results[prepared[position].index];
+
+        if (error) {
+          Object.assign(result, this.toBulkFailure(error));
+        } else if (committed) {
+          Object.assign(result, {
+            status: 'succeeded',
+            id: todo?.id ?? result.id,
+            todo,
+          });
+        } else {
+          result.status = 'rolled_back';
+        }
+      });
+
+      if (committed) {
+        await this.recordBulkHistory(userId, prepared, outcome.outcomes);
+      }
+    }
+
+    const failed = results.filter((result) => result.status === 'failed');
+    const succeeded = results.filter((result) => result.status === 'succeeded');
+
+    return {
+      mode,
+      committed,
+      succeeded: succeeded.length,
+      failed: failed.length,
+      results,
+    };
+  }
+
+  /**
+   * Creates imported todos in the user's inbox. Rows are saved in one
+   * transaction but fail on their own, so the outcomes line up with the rows.
+   */
+  async importTodos(
+    userId: number,
+    rows: ImportTodoRowDto[],
+  ): Promise<BulkWriteOutcome[]> {
+    this.logger.log(`Importing ${rows.length} todos for user: ${userId}`);
+
+    const outcomes: BulkWriteOutcome[] = [];
+    const prepared: { index: number; operation: BulkWriteOperation }[] = [];
+
+    for (const [index, { completed, ...todo }] of rows.entries()) {
+      try {
+        const { ownerId, data } = await this.prepareCreate(userId, todo);
+        prepared.push({
+          index,
+          operation: { type: 'create', ownerId, data, completed },
+        });
+      } catch (error) {
+        outcomes[index] = { error };
+      }
+    }
+
+    if (prepared.length > 0) {
+      const result = await this.todoRepository.bulkWrite(
+        prepared.map((item) => item.operation),
+        false,
+      );
+      result.outcomes.forEach((outcome, position) => {
+        outcomes[prepared[position].index] = outcome;
+      });
+
+      await this.publishCreated(
+        userId,
+        result.outcomes.flatMap(({ todo }) => (todo ? [todo] : [])),
+      );
+    }
 
-    if (!exists) {
+    return outcomes;
+  }
+
+  async findUpcoming(
+    userId: number,
+    query: UpcomingQueryDto,
+  ): Promise<UpcomingOccurrence[]> {
+    this.logger.log(`Finding upcoming occurrences for user: ${userId}`);
+
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    if (from > to) {
+      throw new BadRequestException('From must be before to');
+    }
+
+    const todos = await this.todoRepository.findRecurring(userId);
+
+    return todos
+      .flatMap((todo) => {
+        const rule = parseRecurrenceRule(todo.recurrence);
+
+        if (!rule || !todo.dueDate) {
+          return [];
+        }
+
+        return occurrencesBetween(
+          rule,
+          todo.dueDate,
+          todo.occurrence,
+          from,
+          to,
+        ).map(({ date, occurrence }) => ({
+          todoId: todo.id,
+          title: todo.title,
+          dueDate: date,
+          occurrence,
+        }));
+      })
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  private async spawnNextOccurrence(
+    todo: Todo,
+    actorId: number,
+  ): Promise<Todo | null> {
+    const next = this.nextOccurrenceDate(todo);
+
+    if (!next) {
+      return null;
+    }
+
+    const spawned = await this.todoRepository.createNextOccurrence(todo, next);
+    await this.publishCreated(actorId, [spawned]);
+    this.logger.log(
+      `Spawned occurrence ${spawned.occurrence} of todo: ${todo.id} as ${spawned.id}`,
+    );
+
+    return spawned;
+  }
+
+  /** Returns the due date of the occurrence after this one, if any. */
+  private nextOccurrenceDate(
+    todo: Pick<Todo, 'id' | 'dueDate' | 'occurrence'> & { recurrence: unknown },
+  ): Date | null {
+    const rule = parseRecurrenceRule(todo.recurrence);
+
+    if (!rule || !todo.dueDate) {
+      return null;
+    }
+
+    const next = nextOccurrence(rule, todo.dueDate);
+
+    if (!next || (rule.count && todo.occurrence + 1 > rule.count)) {
+      this.logger.log(`Recurring todo with id: ${todo.id} reached its end`);
+      return null;
+    }
+
+    return next;
+  }
+
+  private async prepareCreate(
+    userId: number,
+    createTodoDto: CreateTodoDto,
+  ): Promise<{ ownerId: number; data: CreateTodoDto }> {
+    if (createTodoDto.recurrence && !createTodoDto.dueDate) {
+      throw new BadRequestException('Recurring todos require a due date');
+    }
+
+    // Editors of a shared project add todos on behalf of its owner
+    let ownerId = userId;
+    if (createTodoDto.projectId !== undefined) {
+      ({ ownerId } = await this.sharesService.requireProjectAccess(
+        createTodoDto.projectId,
+        userId,
+        'EDITOR',
+      ));
+    }
+
+    return {
+      ownerId,
+      data: await this.withResolvedTags(ownerId, createTodoDto),
+    };
+  }
+
+  private async prepareUpdate(
+    existing: Todo,
+    updateTodoDto: UpdateTodoDto,
+  ): Promise<UpdateTodoDto> {
+    // Todos can only move between projects of their owner
+    if (updateTodoDto.projectId) {
+      await this.projectsService.ensureExists(
+        updateTodoDto.projectId,
+        existing.userId,
+      );
+    }
+
+    const willRecur =
+      updateTodoDto.recurrence !== undefined
+        ? !!updateTodoDto.recurrence
+        : !!existing.recurrence;
+    if (willRecur && !updateTodoDto.dueDate && !existing.dueDate) {
+      throw new BadRequestException('Recurring todos require a due date');
+    }
+
+    return this.withResolvedTags(existing.userId, updateTodoDto);
+  }
+
+  private async expandBulkOperations(
+    userId: number,
+    bulkTodosDto: BulkTodosDto,
+  ): Promise<BulkOperationDto[]> {
+    const { operations, filter, action } = bulkTodosDto;
+    const limit = Number(
+      this.configService.get<string>('TODO_BULK_LIMIT') || 100,
+    );
+
+    if (operations && filter) {
+      throw new BadRequestException(
+        'Send either a list of operations or a filter, not both',
+      );
+    }
+
+    if (!filter || !action) {
+      if (!operations || operations.length > limit) {
+        throw new BadRequestException(
+          `A batch can hold at most ${limit} operations`,
+        );
+      }
+
+      return operations;
+    }
+
+    // One extra match tells that the filter selects too many todos
+    const ids = await this.todoRepository.findIds(userId, filter, limit + 1);
+
+    if (ids.length > limit) {
+      throw new BadRequestException(
+        `The filter matches more than ${limit} todos; narrow it down`,
+      );
+    }
+
+    return ids.map((id) =>
+      action === BulkAction.DELETE
+        ? { type: BulkOperationType.DELETE, id }
+        : {
+            type: BulkOperationType.UPDATE,
+            id,
+            changes: { completed: action === BulkAction.COMPLETE },
+          },
+    );
+  }
+
+  private async prepareBulkOperation(
+    userId: number,
+    operation: BulkOperationDto,
+  ): Promise<{ operation: BulkWriteOperation; existing?: Todo }> {
+    const { type, id, todo } = operation;
+
+    if (type === BulkOperationType.CREATE) {
+      if (!todo) {
+        throw new BadRequestException('Todo is required for create');
+      }
+
+      const { ownerId, data } = await this.prepareCreate(userId, todo);
+      return { operation: { type: 'create', ownerId, data } };
+    }
+
+    if (id === undefined) {
+      throw new BadRequestException('ID is required');
+    }
+
+    const existing = await this.getAccessibleTodo(id, userId, 'EDITOR');
+
+    if (type === BulkOperationType.DELETE) {
+      return { operation: { type: 'delete', id }, existing };
+    }
+
+    const changes =
+      type === BulkOperationType.COMPLETE
+        ? { completed: true }
+        : (operation.changes ?? {});
+    const data = await this.prepareUpdate(existing, changes);
+
+    // Completing an open recurring todo spawns its next occurrence
+    const nextDueDate =
+      data.completed && !existing.completed
+        ? this.nextOccurrenceDate({
+            ...existing,
+            dueDate: data.dueDate ? new Date(data.dueDate) : existing.dueDate,
+            recurrence:
+              data.recurrence !== undefined
+                ? data.recurrence
+                : existing.recurrence,
+          })
+        : null;
+
+    return {
+      operation: {
+        type: 'update',
+        id,
+        data,
+        nextDueDate: nextDueDate ?? undefined,
+      },
+      existing,
+    };
+  }
+
+  private async recordBulkHistory(
+    userId: number,
+    prepared: { operation: BulkWriteOperation; existing?: Todo }[],
+    outcomes: BulkWriteOutcome[],
+  ): Promise<void> {
+    const created: Todo[] = [];
+    const updated: { before: Todo; after: Todo }[] = [];
+    const deleted: Todo[] = [];
+
+    prepared.forEach(({ operation, existing }, position) => {
+      const {
+        todo,
+        completedDescendants = [],
+        nextOccurrence,
+      } = outcomes[position];
+
+      if (operation.type === 'create' && todo) {
+        created.push(todo);
+      } else if (operation.type === 'update' && todo && existing) {
+        updated.push(
+          { before: existing, after: todo },
+          ...completedDescendants.map((before) => ({
+            before,
+            after: { ...before, completed: true },
+          })),
+        );
+
+        if (nextOccurrence) {
+          created.push(nextOccurrence);
+        }
+      } else if (operation.type === 'delete' && existing) {
+        deleted.push(existing);
+      }
+    });
+
+    await this.publishCreated(userId, created);
+    await this.publishUpdated(userId, updated);
+    await this.publishDeleted(userId, deleted);
+  }
+
+  private toBulkFailure(
+    error: unknown,
+  ): Pick<BulkItemResult, 'status' | 'error'> {
+    if (error instanceof HttpException) {
+      return {
+        status: 'failed',
+        error: { statusCode: error.getStatus(), message: error.message },
+      };
+    }
+
+    // The todo was removed between the access check and the write
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return {
+        status: 'failed',
+        error: { statusCode: HttpStatus.NOT_FOUND, message: 'Todo not found' },
+      };
+    }
+
+    this.logger.error(
+      `Bulk operation failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+
+    return {
+      status: 'failed',
+      error: {
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Operation failed',
+      },
+    };
+  }
+
+  /*
+   * Every change to a todo goes through one of the publish helpers, which
+   * record it in the history and notify the owner's webhooks.
+   */
+  private async publishCreated(actorId: number, todos: Todo[]): Promise<void> {
+    await this.todoHistoryService.recordCreated(actorId, todos);
+    await this.webhooksService.emit(
+      todos.map((todo) => ({
+        userId: todo.userId,
+        type: WebhookEventType.TODO_CREATED,
+        data: { todo },
+      })),
+    );
+  }
+
+  private async publishUpdated(
+    actorId: number,
+    updates: { before: Todo; after: Todo }[],
+    type?: TodoEventType,
+  ): Promise<void> {
+    await this.todoHistoryService.recordUpdated(actorId, updates, type);
+    await this.webhooksService.emit(
+      updates.flatMap(({ before, after }) => {
+        const data = {
+          todo: after,
+          changes: diffSnapshots(toSnapshot(before), toSnapshot(after)),
+        };
+        const completed = !before.completed && after.completed;
+
+        return [
+          { userId: after.userId, type: WebhookEventType.TODO_UPDATED, data },
+          ...(completed
+            ? [
+                {
+                  userId: after.userId,
+                  type: WebhookEventType.TODO_COMPLETED,
+                  data,
+                },
+              ]
+            : []),
+        ];
+      }),
+    );
+  }
+
+  /** Without an actor when the trash is purged on schedule. */
+  private async publishDeleted(
+    actorId: number | null,
+    todos: Todo[],
+    permanent = false,
+  ): Promise<void> {
+    await this.todoHistoryService.recordDeleted(actorId, todos);
+    await this.webhooksService.emit(
+      todos.map((todo) => ({
+        userId: todo.userId,
+        type: WebhookEventType.TODO_DELETED,
+        data: { todo, permanent },
+      })),
+    );
+  }
+
+  private async publishRestored(actorId: number, todo: Todo): Promise<void> {
+    await this.todoHistoryService.recordRestored(actorId, todo);
+    await this.webhooksService.emit([
+      {
+        userId: todo.userId,
+        type: WebhookEventType.TODO_RESTORED,
+        data: { todo },
+      },
+    ]);
+  }
+
+  /**
+   * Replaces tag IDs and names with the validated IDs to assign. Payloads
+   * without either field leave the current tags untouched.
+   */
+  private async withResolvedTags<T extends CreateTodoDto | UpdateTodoDto>(
+    userId: number,
+    dto: T,
+  ): Promise<T> {
+    if (dto.tagIds === undefined && dto.tagNames === undefined) {
+      return dto;
+    }
+
+    const tagIds = await this.tagsService.resolveTagIds(
+      userId,
+      dto.tagIds,
+      dto.tagNames,
+    );
+
+    return { ...dto, tagIds, tagNames: undefined };
+  }
+
+  /** Only the owner sees and manages the trash. */
+  private async getTrashedTodo(id: number, userId: number): Promise<Todo> {
+    const todo = await this.todoRepository.findTrashed(id, userId);
+
+    if (!todo) {
       this.logger.warn(
-        `Todo with id: ${id} not found or not owned by user: ${userId}`,
+        `Trashed todo with id: ${id} not found for user: ${userId}`,
       );
+      throw new NotFoundException(`Todo with ID ${id} not found in the trash`);
+    }
+
+    return todo;
+  }
+
+  /**
+   * Loads a todo the user owns or reaches through a share. Todos the user
+   * cannot see at all are reported as missing rather than forbidden.
+   */
+  private async getAccessibleTodo(
+    id: number,
+    userId: number,
+    required: AccessLevel,
+  ): Promise<AccessibleTodo> {
+    const todo = await this.todoRepository.findById(id);
+    const permission = todo && (await this.resolveAccess(todo, userId));
+
+    if (!todo || !permission) {
+      this.logger.warn(`Todo with id: ${id} not found for user: ${userId}`);
       throw new NotFoundException(`Todo with ID ${id} not found`);
     }
 
-    return this.todoRepository.remove(id, userId);
+    if (!hasAccess(permission, required)) {
+      this.logger.warn(`User ${userId} lacks ${required} access to todo ${id}`);
+      throw new ForbiddenException(
+        `You do not have ${required.toLowerCase()} access to this todo`,
+      );
+    }
+
+    return { ...todo, isOwner: todo.userId === userId, permission };
+  }
+
+  private async resolveAccess(
+    todo: Todo,
+    userId: number,
+  ): Promise<AccessLevel | null> {
+    if (todo.userId === userId) {
+      return 'OWNER';
+    }
+
+    // Sharing a todo shares its whole subtree
+    const ancestorIds = await this.todoRepository.findAncestorIds(todo.id);
+
+    return this.sharesService.resolveTodoAccess(
+      userId,
+      [todo.id, ...ancestorIds],
+      todo.projectId,
+    );
+  }
+
+  private assertDepth(depth: number): void {
+    const maxDepth = Number(
+      this.configService.get<string>('TODO_MAX_DEPTH') || 5,
+    );
+
+    if (depth > maxDepth) {
+      throw new BadRequestException(
+        `Sub-todos cannot be nested more than ${maxDepth} levels deep`,
+      );
+    }
+  }
+
+  /** The todo as returned by GET /todos/:id, with its ETag. */
+  private async represent(
+    todo: AccessibleTodo,
+  ): Promise<TaggedTodo<TodoWithChildren>> {
+    const [children, descendants] = await Promise.all([
+      this.todoRepository.findChildren(todo.id),
+      this.todoRepository.findDescendants(todo.id),
+    ]);
+
+    return {
+      todo: {
+        ...todo,
+        children,
+        progress: this.computeProgress(descendants.flat()),
+      },
+      etag: todoETag(todo, descendants.flat()),
+    };
+  }
+
+  private async checkPrecondition(
+    existing: AccessibleTodo,
+    ifMatch: string,
+  ): Promise<void> {
+    const current = await this.represent(existing);
+
+    if (!matchesETag(ifMatch, current.etag)) {
+      throw new PreconditionFailedException({
+        statusCode: HttpStatus.PRECONDITION_FAILED,
+        error: 'Precondition Failed',
+        message: 'Todo has been changed since it was read',
+        etag: current.etag,
+        todo: current.todo,
+      });
+    }
+  }
+
+  /**
+   * The version a conditional write checks again itself, so it fails if
+   * another write got in after the precondition was checked.
+   */
+  private expectedVersion(
+    existing: AccessibleTodo,
+    ifMatch: string | undefined,
+  ): number | undefined {
+    return ifMatch !== undefined && ifMatch.trim() !== '*'
+      ? existing.version
+      : undefined;
+  }
+
+  /**
+   * A write that matched no row lost a race: with a precondition that is
+   * reported as 412 with the current state, otherwise the todo is gone.
+   */
+  private async rethrowWriteError(
+    error: unknown,
+    id: number,
+    userId: number,
+    ifMatch: string | undefined,
+  ): Promise<never> {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== 'P2025'
+    ) {
+      throw error;
+    }
+
+    if (ifMatch !== undefined) {
+      await this.checkPrecondition(
+        await this.getAccessibleTodo(id, userId, 'EDITOR'),
+        ifMatch,
+      );
+    }
+
+    throw new NotFoundException(`Todo with ID ${id} not found`);
+  }
+
+  private computeProgress(descendants: Todo[]): TodoProgress {
+    const total = descendants.length;
+    const completed = descendants.filter((todo) => todo.completed).length;
+
+    return {
+      completed,
+      total,
+      percent: total === 0 ? 0 : Math.round((completed / total) * 100),
+    };
   }
 }
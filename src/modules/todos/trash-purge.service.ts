@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TodosService } from './todos.service';
+
+/** Permanently removes todos that stayed in the trash past retention. */
+@Injectable()
+export class TrashPurgeService {
+  constructor(
+    private readonly todosService: TodosService,
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(TrashPurgeService.name);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purge(): Promise<number> {
+    const retentionDays = Number(
+      this.configService.get<string>('TODO_TRASH_RETENTION_DAYS') || 30,
+    );
+    const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const count = await this.todosService.purgeTrashed(before);
+    if (count > 0) {
+      this.logger.log(
+        `Purged ${count} todos trashed before ${before.toISOString()}`,
+      );
+    }
+
+    return count;
+  }
+}
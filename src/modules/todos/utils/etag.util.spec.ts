@@ -0,0 +1,47 @@
+import { matchesETag, todoETag } from './etag.util';
+
+describe('etag', () => {
+  describe('todoETag', () => {
+    it('should be the quoted version for todos without sub-todos', () => {
+      expect(todoETag({ version: 42 }, [])).toBe('"42"');
+    });
+
+    it('should change when a sub-todo changes', () => {
+      const before = todoETag({ version: 42 }, [{ id: 7, version: 50 }]);
+      const after = todoETag({ version: 42 }, [{ id: 7, version: 51 }]);
+
+      expect(before).toMatch(/^"42-.+"$/);
+      expect(after).not.toBe(before);
+    });
+
+    it('should not depend on the order of sub-todos', () => {
+      expect(
+        todoETag({ version: 1 }, [
+          { id: 2, version: 5 },
+          { id: 3, version: 6 },
+        ]),
+      ).toBe(
+        todoETag({ version: 1 }, [
+          { id: 3, version: 6 },
+          { id: 2, version: 5 },
+        ]),
+      );
+    });
+  });
+
+  describe('matchesETag', () => {
+    it('should match any tag in a list', () => {
+      expect(matchesETag('"41", "42"', '"42"')).toBe(true);
+      expect(matchesETag('"41"', '"42"')).toBe(false);
+    });
+
+    it('should match anything with a wildcard', () => {
+      expect(matchesETag('*', '"42"')).toBe(true);
+    });
+
+    it('should only match weak tags when comparing weakly', () => {
+      expect(matchesETag('W/"42"', '"42"')).toBe(false);
+      expect(matchesETag('W/"42"', '"42"', true)).toBe(true);
+    });
+  });
+});
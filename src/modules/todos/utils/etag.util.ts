@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { Todo } from '@prisma/client';
+
+/**
+ * A todo's ETag is its version. Todos with sub-todos add a digest of theirs,
+ * since the sub-todos and progress are part of the representation too.
+ */
+export function todoETag(
+  todo: Pick<Todo, 'version'>,
+  descendants: Pick<Todo, 'id' | 'version'>[],
+): string {
+  if (descendants.length === 0) {
+    return `"${todo.version}"`;
+  }
+
+  const digest = createHash('sha1')
+    .update(
+      descendants
+        .map(({ id, version }) => `${id}:${version}`)
+        .sort()
+        .join(','),
+    )
+    .digest('base64url')
+    .slice(0, 12);
+
+  return `"${todo.version}-${digest}"`;
+}
+
+/**
+ * Checks an If-Match or If-None-Match header against the current ETag.
+ * If-Match needs the strong comparison, so weak tags only match when
+ * `weak` is set, as for If-None-Match.
+ */
+export function matchesETag(
+  header: string,
+  etag: string,
+  weak = false,
+): boolean {
+  return header.split(',').some((candidate) => {
+    const tag = candidate.trim();
+
+    if (tag === '*') {
+      return true;
+    }
+
+    if (tag.startsWith('W/')) {
+      return weak && tag.slice(2) === etag;
+    }
+
+    return tag === etag;
+  });
+}
@@ -0,0 +1,136 @@
+import { Readable } from 'stream';
+import {
+  escapeICalText,
+  parseICalComponents,
+  parseICalDate,
+  serializeICalLines,
+  splitICalList,
+  toVEvent,
+  toVTodo,
+  unescapeICalText,
+} from './ical.util';
+
+function lines(text: string): AsyncIterable<string> {
+  return Readable.from(text.split('\n'));
+}
+
+describe('ical', () => {
+  const todo = {
+    uid: 'todo-1@nestjs-todo',
+    summary: 'Buy milk, eggs; bread',
+    description: 'Line one\nLine two',
+    due: new Date('2025-01-06T09:00:00Z'),
+    completed: true,
+    categories: ['home', 'errands'],
+    created: new Date('2025-01-01T08:00:00Z'),
+    lastModified: new Date('2025-01-02T08:00:00Z'),
+  };
+
+  describe('toVTodo', () => {
+    it('should write due date, status and escaped text', () => {
+      const vtodo = toVTodo(todo);
+
+      expect(vtodo).toEqual(
+        expect.arrayContaining([
+          'SUMMARY:Buy milk\\, eggs\\; bread',
+          'DESCRIPTION:Line one\\nLine two',
+          'DUE:20250106T090000Z',
+          'STATUS:COMPLETED',
+          'CATEGORIES:home,errands',
+        ]),
+      );
+      expect(vtodo[0]).toBe('BEGIN:VTODO');
+      expect(vtodo.at(-1)).toBe('END:VTODO');
+    });
+  });
+
+  describe('toVEvent', () => {
+    it('should start at the due time and mark completed todos', () => {
+      expect(toVEvent(todo)).toEqual(
+        expect.arrayContaining([
+          'DTSTART:20250106T090000Z',
+          'SUMMARY:✓ Buy milk\\, eggs\\; bread',
+        ]),
+      );
+    });
+
+    it('should make todos due at midnight UTC all-day events', () => {
+      expect(
+        toVEvent({ ...todo, due: new Date('2025-01-06T00:00:00Z') }),
+      ).toContain('DTSTART;VALUE=DATE:20250106');
+    });
+  });
+
+  describe('serializeICalLines', () => {
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const serialized = serializeICalLines([`SUMMARY:${'é'.repeat(60)}`]);
+      const physical = serialized.split('\r\n').filter((line) => line !== '');
+
+      expect(physical.length).toBeGreaterThan(1);
+      physical.forEach((line) =>
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75),
+      );
+      expect(
+        physical.map((line, i) => (i ? line.slice(1) : line)).join(''),
+      ).toBe(`SUMMARY:${'é'.repeat(60)}`);
+    });
+  });
+
+  describe('parseICalComponents', () => {
+    it('should read back serialized todos and skip nested components', async () => {
+      const text = serializeICalLines([
+        'BEGIN:VCALENDAR',
+        ...toVTodo({ ...todo, summary: 'x'.repeat(100) }).flatMap((line) =>
+          line === 'END:VTODO'
+            ? ['BEGIN:VALARM', 'SUMMARY:Alarm', 'END:VALARM', line]
+            : [line],
+        ),
+        'END:VCALENDAR',
+      ]);
+
+      const components: { name: string; value: string }[][] = [];
+      for await (const properties of parseICalComponents(
+        lines(text),
+        'VTODO',
+      )) {
+        components.push(properties);
+      }
+
+      expect(components).toHaveLength(1);
+      expect(
+        components[0].filter((property) => property.name === 'SUMMARY'),
+      ).toEqual([{ name: 'SUMMARY', params: {}, value: 'x'.repeat(100) }]);
+    });
+  });
+
+  describe('text values', () => {
+    it('should round-trip escaping', () => {
+      const text = 'a, b; c\\d\ne';
+
+      expect(unescapeICalText(escapeICalText(text))).toBe(text);
+    });
+
+    it('should split lists on unescaped commas only', () => {
+      expect(splitICalList('home,a\\,b, errands')).toEqual([
+        'home',
+        'a,b',
+        'errands',
+      ]);
+    });
+  });
+
+  describe('parseICalDate', () => {
+    it('should read dates and UTC or floating date-times', () => {
+      expect(parseICalDate('20250106')).toEqual(
+        new Date('2025-01-06T00:00:00Z'),
+      );
+      expect(parseICalDate('20250106T090000Z')).toEqual(
+        new Date('2025-01-06T09:00:00Z'),
+      );
+      expect(parseICalDate('20250106T090000')).toEqual(
+        new Date('2025-01-06T09:00:00Z'),
+      );
+      expect(parseICalDate('tomorrow')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { Todo } from '@prisma/client';
+
+/** What a VTODO carries, independent of how the todo is stored. */
+export interface ICalTodo {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  due?: Date | null;
+  completed: boolean;
+  categories?: string[];
+  created: Date;
+  lastModified: Date;
+}
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const PRODUCT_ID = '-//nestjs-todo//Todos//EN';
+
+/** Opening lines of a calendar; `name` is shown by most calendar apps. */
+export function icalHeader(name?: string): string[] {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(name ? [`X-WR-CALNAME:${escapeICalText(name)}`] : []),
+  ];
+}
+
+export function icalFooter(): string[] {
+  return ['END:VCALENDAR'];
+}
+
+/** Todo IDs never change, so they make stable UIDs across exports. */
+export function todoToICal(
+  todo: Todo & { tags?: { tag: { name: string } }[] },
+): ICalTodo {
+  return {
+    uid: `todo-${todo.id}@nestjs-todo`,
+    summary: todo.title,
+    description: todo.description,
+    due: todo.dueDate,
+    completed: todo.completed,
+    categories: todo.tags?.map(({ tag }) => tag.name),
+    created: todo.createdAt,
+    lastModified: todo.updatedAt,
+  };
+}
+
+/**
+ * One VTODO. DTSTAMP is the last modification rather than the time of
+ * export, so unchanged todos serialize identically.
+ */
+export function toVTodo(todo: ICalTodo): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${todo.uid}`,
+    `DTSTAMP:${formatICalDate(todo.lastModified)}`,
+    `CREATED:${formatICalDate(todo.created)}`,
+    `LAST-MODIFIED:${formatICalDate(todo.lastModified)}`,
+    `SUMMARY:${escapeICalText(todo.summary)}`,
+  ];
+
+  if (todo.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(todo.description)}`);
+  }
+  if (todo.due) {
+    lines.push(`DUE:${formatICalDate(todo.due)}`);
+  }
+  if (todo.categories?.length) {
+    lines.push(`CATEGORIES:${todo.categories.map(escapeICalText).join(',')}`);
+  }
+
+  lines.push(
+    `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    'END:VTODO',
+  );
+
+  return lines;
+}
+
+/**
+ * One VEVENT at the due time, for calendar apps that do not show tasks.
+ * Due dates at midnight UTC are taken as dates and become all-day events.
+ */
+export function toVEvent(todo: ICalTodo & { due: Date }): string[] {
+  const start =
+    todo.due.getTime() % 86_400_000 === 0
+      ? `;VALUE=DATE:${formatICalDate(todo.due).slice(0, 8)}`
+      : `:${formatICalDate(todo.due)}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${todo.uid}`,
+    `DTSTAMP:${formatICalDate(todo.lastModified)}`,
+    `CREATED:${formatICalDate(todo.created)}`,
+    `LAST-MODIFIED:${formatICalDate(todo.lastModified)}`,
+    `DTSTART${start}`,
+    // Calendars have no notion of done, so completed todos say so in the title
+    `SUMMARY:${todo.completed ? '✓ ' : ''}${escapeICalText(todo.summary)}`,
+  ];
+
+  if (todo.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(todo.description)}`);
+  }
+  if (todo.categories?.length) {
+    lines.push(`CATEGORIES:${todo.categories.map(escapeICalText).join(',')}`);
+  }
+
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+
+  return lines;
+}
+
+/** Joins content lines with CRLF, folding them at 75 octets. */
+export function serializeICalLines(lines: string[]): string {
+  return lines.map((line) => foldICalLine(line) + '\r\n').join('');
+}
+
+/** UTC date-time in the basic format, e.g. 20250101T090000Z. */
+export function formatICalDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Reads DATE and DATE-TIME values. Floating times and TZID parameters are
+ * taken as UTC, which is accurate to the day for imports.
+ */
+export function parseICalDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+  const date = new Date(
+    Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds),
+  );
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeICalText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char,
+  );
+}
+
+/** Splits a list value such as CATEGORIES on its unescaped commas. */
+export function splitICalList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeICalText(item).trim())
+    .filter((item) => item !== '');
+}
+
+/**
+ * Yields the properties of every component of the given type as the lines
+ * stream in. Nested components, such as alarms, are skipped.
+ */
+export async function* parseICalComponents(
+  lines: AsyncIterable<string>,
+  component: string,
+): AsyncGenerator<ICalProperty[]> {
+  let properties: ICalProperty[] | null = null;
+  let nested = 0;
+  let pending: string | null = null;
+
+  const handle = (line: string): ICalProperty[] | null => {
+    const property = parseICalProperty(line);
+    if (!property) {
+      return null;
+    }
+
+    const { name, value } = property;
+    if (properties === null) {
+      if (name === 'BEGIN' && value.toUpperCase() === component) {
+        properties = [];
+      }
+      return null;
+    }
+
+    if (name === 'BEGIN') {
+      nested++;
+    } else if (name === 'END' && nested > 0) {
+      nested--;
+    } else if (name === 'END' && value.toUpperCase() === component) {
+      const done = properties;
+      properties = null;
+      return done;
+    } else if (nested === 0) {
+      properties.push(property);
+    }
+
+    return null;
+  };
+
+  for await (const raw of lines) {
+    const line = raw.replace(/\r$/, '');
+
+    // Folded lines continue with a single space or tab
+    if (pending !== null && /^[ \t]/.test(line)) {
+      pending += line.slice(1);
+      continue;
+    }
+
+    if (pending !== null) {
+      const done = handle(pending);
+      if (done) {
+        yield done;
+      }
+    }
+    pending = line;
+  }
+
+  if (pending !== null) {
+    const done = handle(pending);
+    if (done) {
+      yield done;
+    }
+  }
+}
+
+function parseICalProperty(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+
+  return parts.join('\r\n ');
+}
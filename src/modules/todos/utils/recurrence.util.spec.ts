@@ -0,0 +1,78 @@
+import {
+  nextOccurrence,
+  occurrencesBetween,
+  RecurrenceFrequency,
+} from './recurrence.util';
+
+describe('recurrence', () => {
+  describe('nextOccurrence', () => {
+    it('should add the interval in days for daily rules', () => {
+      const next = nextOccurrence(
+        { frequency: RecurrenceFrequency.DAILY, interval: 3 },
+        new Date('2025-01-30T09:00:00Z'),
+      );
+
+      expect(next).toEqual(new Date('2025-02-02T09:00:00Z'));
+    });
+
+    it('should pick the next listed weekday', () => {
+      // 2025-01-06 is a Monday
+      const rule = {
+        frequency: RecurrenceFrequency.WEEKLY,
+        weekdays: [1, 3, 5],
+      };
+
+      expect(nextOccurrence(rule, new Date('2025-01-06T08:00:00Z'))).toEqual(
+        new Date('2025-01-08T08:00:00Z'),
+      );
+      expect(nextOccurrence(rule, new Date('2025-01-10T08:00:00Z'))).toEqual(
+        new Date('2025-01-13T08:00:00Z'),
+      );
+    });
+
+    it('should skip weeks according to the interval', () => {
+      const next = nextOccurrence(
+        { frequency: RecurrenceFrequency.WEEKLY, interval: 2, weekdays: [1] },
+        new Date('2025-01-06T08:00:00Z'),
+      );
+
+      expect(next).toEqual(new Date('2025-01-20T08:00:00Z'));
+    });
+
+    it('should clamp monthly rules to the end of short months', () => {
+      const next = nextOccurrence(
+        { frequency: RecurrenceFrequency.MONTHLY, monthDay: 31 },
+        new Date('2025-01-31T12:00:00Z'),
+      );
+
+      expect(next).toEqual(new Date('2025-02-28T12:00:00Z'));
+    });
+
+    it('should stop after the end date', () => {
+      const next = nextOccurrence(
+        { frequency: RecurrenceFrequency.DAILY, until: '2025-01-01T00:00:00Z' },
+        new Date('2024-12-31T09:00:00Z'),
+      );
+
+      expect(next).toBeNull();
+    });
+  });
+
+  describe('occurrencesBetween', () => {
+    it('should list occurrences inside the window and honour the count', () => {
+      const occurrences = occurrencesBetween(
+        { frequency: RecurrenceFrequency.DAILY, count: 4 },
+        new Date('2025-03-01T07:00:00Z'),
+        1,
+        new Date('2025-03-02T00:00:00Z'),
+        new Date('2025-03-10T00:00:00Z'),
+      );
+
+      expect(occurrences).toEqual([
+        { date: new Date('2025-03-02T07:00:00Z'), occurrence: 2 },
+        { date: new Date('2025-03-03T07:00:00Z'), occurrence: 3 },
+        { date: new Date('2025-03-04T07:00:00Z'), occurrence: 4 },
+      ]);
+    });
+  });
+});
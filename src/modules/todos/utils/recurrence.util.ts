@@ -0,0 +1,162 @@
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+}
+
+/**
+ * A subset of RFC 5545 RRULE. "Every N days" is DAILY with an interval of N.
+ * Weekdays use JavaScript numbering (0 = Sunday) and all dates are UTC.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  weekdays?: number[];
+  monthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that can never produce a date inside a window
+const MAX_ITERATIONS = 1000;
+
+export function parseRecurrenceRule(value: unknown): RecurrenceRule | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const rule = value as RecurrenceRule;
+
+  return Object.values(RecurrenceFrequency).includes(rule.frequency)
+    ? rule
+    : null;
+}
+
+/**
+ * Returns the first occurrence strictly after `after`, keeping its time of
+ * day, or null once the rule's end date has passed.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+  const interval = Math.max(1, rule.interval ?? 1);
+  let next: Date;
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      next = new Date(after.getTime() + interval * DAY_MS);
+      break;
+    case RecurrenceFrequency.WEEKLY:
+      next = nextWeeklyOccurrence(rule, after, interval);
+      break;
+    case RecurrenceFrequency.MONTHLY:
+      next = nextMonthlyOccurrence(rule, after, interval);
+      break;
+    default:
+      return null;
+  }
+
+  if (rule.until && next > new Date(rule.until)) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Lists the occurrences of a series that fall inside [from, to] without
+ * persisting anything. `first` is the due date of occurrence number
+ * `firstOccurrence`; numbering is needed to honour the rule's count.
+ */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  first: Date,
+  firstOccurrence: number,
+  from: Date,
+  to: Date,
+): { date: Date; occurrence: number }[] {
+  const results: { date: Date; occurrence: number }[] = [];
+  let current: Date | null = first;
+  let occurrence = firstOccurrence;
+
+  for (let i = 0; current && current <= to && i < MAX_ITERATIONS; i++) {
+    if (rule.count && occurrence > rule.count) {
+      break;
+    }
+
+    if (current >= from) {
+      results.push({ date: current, occurrence });
+    }
+
+    current = nextOccurrence(rule, current);
+    occurrence++;
+  }
+
+  return results;
+}
+
+function nextWeeklyOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  interval: number,
+): Date {
+  const weekdays = rule.weekdays?.length
+    ? [...rule.weekdays].sort((a, b) => a - b)
+    : [after.getUTCDay()];
+
+  // Later in the same week
+  const sameWeek = weekdays.find((day) => day > after.getUTCDay());
+  if (sameWeek !== undefined) {
+    return addDays(after, sameWeek - after.getUTCDay());
+  }
+
+  // Otherwise the first matching day of the week `interval` weeks ahead
+  const weekStart = addDays(after, -after.getUTCDay());
+  return addDays(weekStart, interval * 7 + weekdays[0]);
+}
+
+function nextMonthlyOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  interval: number,
+): Date {
+  const monthDay = rule.monthDay ?? after.getUTCDate();
+  const year = after.getUTCFullYear();
+  const month = after.getUTCMonth();
+
+  // Months shorter than the requested day fall back to their last day
+  const sameMonthDay = Math.min(monthDay, daysInMonth(year, month));
+  if (sameMonthDay > after.getUTCDate()) {
+    return withDate(after, year, month, sameMonthDay);
+  }
+
+  const target = new Date(Date.UTC(year, month + interval, 1));
+  const day = Math.min(
+    monthDay,
+    daysInMonth(target.getUTCFullYear(), target.getUTCMonth()),
+  );
+
+  return withDate(after, target.getUTCFullYear(), target.getUTCMonth(), day);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function withDate(time: Date, year: number, month: number, day: number): Date {
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      day,
+      time.getUTCHours(),
+      time.getUTCMinutes(),
+      time.getUTCSeconds(),
+      time.getUTCMilliseconds(),
+    ),
+  );
+}
@@ -0,0 +1,106 @@
+import { TodoSnapshot } from './todo-snapshot.util';
+import {
+  decodeSyncToken,
+  encodeSyncToken,
+  resolveSyncChanges,
+  SyncConflictStrategy,
+} from './sync.util';
+
+const server: TodoSnapshot = {
+  title: 'Buy milk',
+  description: 'Semi-skimmed',
+  completed: false,
+  dueDate: '2025-01-06T09:00:00.000Z',
+  projectId: null,
+  recurrence: null,
+};
+
+describe('sync', () => {
+  describe('sync tokens', () => {
+    it('should round-trip', () => {
+      const token = {
+        xid: 1234,
+        version: 42,
+        issuedAt: new Date('2025-08-19T10:00:00Z'),
+      };
+
+      expect(decodeSyncToken(encodeSyncToken(token))).toEqual(token);
+    });
+
+    it('should reject anything else', () => {
+      expect(decodeSyncToken('not-a-token')).toBeNull();
+      expect(
+        decodeSyncToken(
+          Buffer.from('{"x":1,"v":-1,"t":0}').toString('base64url'),
+        ),
+      ).toBeNull();
+      // Issued before changes were ordered by transaction
+      expect(
+        decodeSyncToken(Buffer.from('{"v":42,"t":0}').toString('base64url')),
+      ).toBeNull();
+    });
+  });
+
+  describe('resolveSyncChanges', () => {
+    it('should apply fields the server has not changed since the base', () => {
+      expect(
+        resolveSyncChanges(
+          server,
+          { title: 3, description: 12 },
+          10,
+          { title: 'Buy oat milk', completed: true },
+          SyncConflictStrategy.SERVER_WINS,
+        ),
+      ).toEqual({ fields: ['title', 'completed'], conflicts: [] });
+    });
+
+    it('should keep the server value of fields changed on both sides', () => {
+      expect(
+        resolveSyncChanges(
+          server,
+          { description: 12 },
+          10,
+          { title: 'Buy oat milk', description: 'Oat' },
+          SyncConflictStrategy.SERVER_WINS,
+        ),
+      ).toEqual({
+        fields: ['title'],
+        conflicts: [
+          {
+            field: 'description',
+            serverValue: 'Semi-skimmed',
+            clientValue: 'Oat',
+            resolution: 'server',
+          },
+        ],
+      });
+    });
+
+    it('should apply conflicting fields when the client wins', () => {
+      expect(
+        resolveSyncChanges(
+          server,
+          { description: 12 },
+          10,
+          { description: 'Oat' },
+          SyncConflictStrategy.CLIENT_WINS,
+        ),
+      ).toMatchObject({
+        fields: ['description'],
+        conflicts: [{ field: 'description', resolution: 'client' }],
+      });
+    });
+
+    it('should not report fields both sides changed the same way', () => {
+      expect(
+        resolveSyncChanges(
+          server,
+          { completed: 12 },
+          10,
+          { completed: false },
+          SyncConflictStrategy.SERVER_WINS,
+        ),
+      ).toEqual({ fields: [], conflicts: [] });
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { Prisma } from '@prisma/client';
+import { diffSnapshots, TodoSnapshot } from './todo-snapshot.util';
+
+/** The fields offline clients may change through sync. */
+export type SyncField = Exclude<keyof TodoSnapshot, 'tagIds'>;
+
+export const SYNC_FIELDS: SyncField[] = [
+  'title',
+  'description',
+  'completed',
+  'dueDate',
+  'projectId',
+  'recurrence',
+];
+
+export enum SyncConflictStrategy {
+  SERVER_WINS = 'server-wins',
+  CLIENT_WINS = 'client-wins',
+}
+
+/**
+ * Where a change sits in the sync feed: ordered by the transaction that
+ * wrote it, then by version within that transaction.
+ */
+export interface SyncPosition {
+  xid: number;
+  version: number;
+}
+
+export interface SyncToken extends SyncPosition {
+  /** Every change up to and including this position has been sent. */
+  issuedAt: Date;
+}
+
+export interface SyncConflict {
+  field: SyncField;
+  serverValue: unknown;
+  clientValue: unknown;
+  resolution: 'server' | 'client';
+}
+
+export interface SyncResolution {
+  /** Fields to write with the client's value. */
+  fields: SyncField[];
+  conflicts: SyncConflict[];
+}
+
+/** Tokens are opaque to clients so their contents can change later. */
+export function encodeSyncToken(token: SyncToken): string {
+  return Buffer.from(
+    JSON.stringify({
+      x: token.xid,
+      v: token.version,
+      t: token.issuedAt.getTime(),
+    }),
+  ).toString('base64url');
+}
+
+/** Returns null for anything that is not a token issued by the server. */
+export function decodeSyncToken(value: string): SyncToken | null {
+  try {
+    const { x, v, t } = JSON.parse(
+      Buffer.from(value, 'base64url').toString('utf8'),
+    ) as { x?: unknown; v?: unknown; t?: unknown };
+
+    if (
+      !isPositionPart(x) ||
+      !isPositionPart(v) ||
+      typeof t !== 'number' ||
+      !Number.isFinite(t)
+    ) {
+      return null;
+    }
+
+    return { xid: x, version: v, issuedAt: new Date(t) };
+  } catch {
+    return null;
+  }
+}
+
+/** Orders changes the way the sync feed sends them. */
+export function compareSyncPositions(a: SyncPosition, b: SyncPosition): number {
+  return a.xid - b.xid || a.version - b.version;
+}
+
+/**
+ * Decides which of a client's field changes to apply. A field conflicts when
+ * the server changed it after the version the client started from and the
+ * two now disagree; other fields the server changed meanwhile are kept.
+ */
+export function resolveSyncChanges(
+  server: TodoSnapshot,
+  fieldVersions: Prisma.JsonValue,
+  baseVersion: number,
+  client: Partial<Pick<TodoSnapshot, SyncField>>,
+  strategy: SyncConflictStrategy,
+): SyncResolution {
+  const changed = diffSnapshots(server, client);
+  const resolution: SyncResolution = { fields: [], conflicts: [] };
+
+  for (const field of SYNC_FIELDS) {
+    const change = changed[field];
+    if (!change) {
+      continue;
+    }
+
+    if (fieldVersion(fieldVersions, field) <= baseVersion) {
+      resolution.fields.push(field);
+      continue;
+    }
+
+    const clientWins = strategy === SyncConflictStrategy.CLIENT_WINS;
+    if (clientWins) {
+      resolution.fields.push(field);
+    }
+    resolution.conflicts.push({
+      field,
+      serverValue: change.from,
+      clientValue: change.to,
+      resolution: clientWins ? 'client' : 'server',
+    });
+  }
+
+  return resolution;
+}
+
+/** Fields the server changed after the given version. */
+export function fieldsChangedSince(
+  fieldVersions: Prisma.JsonValue,
+  baseVersion: number,
+): SyncField[] {
+  return SYNC_FIELDS.filter(
+    (field) => fieldVersion(fieldVersions, field) > baseVersion,
+  );
+}
+
+// Maintained by a database trigger; fields never changed have no entry
+function fieldVersion(fieldVersions: Prisma.JsonValue, field: string): number {
+  const version =
+    fieldVersions &&
+    typeof fieldVersions === 'object' &&
+    !Array.isArray(fieldVersions)
+      ? fieldVersions[field]
+      : undefined;
+
+  return typeof version === 'number' ? version : 0;
+}
+
+function isPositionPart(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
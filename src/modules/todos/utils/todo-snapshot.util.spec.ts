@@ -0,0 +1,53 @@
+import {
+  diffSnapshots,
+  rewindSnapshot,
+  TodoSnapshot,
+} from './todo-snapshot.util';
+
+const snapshot: TodoSnapshot = {
+  title: 'Buy milk',
+  description: null,
+  completed: false,
+  dueDate: '2025-01-06T09:00:00.000Z',
+  projectId: null,
+  recurrence: { frequency: 'weekly', interval: 1 },
+  tagIds: [1, 2],
+};
+
+describe('todo snapshot', () => {
+  describe('diffSnapshots', () => {
+    it('should report changed fields with both values', () => {
+      expect(
+        diffSnapshots(snapshot, { ...snapshot, title: 'Buy oat milk' }),
+      ).toEqual({ title: { from: 'Buy milk', to: 'Buy oat milk' } });
+    });
+
+    it('should ignore key order inside JSON values', () => {
+      expect(
+        diffSnapshots(snapshot, {
+          ...snapshot,
+          recurrence: { interval: 1, frequency: 'weekly' },
+        }),
+      ).toEqual({});
+    });
+
+    it('should skip fields missing on either side', () => {
+      expect(
+        diffSnapshots(snapshot, { ...snapshot, tagIds: undefined }),
+      ).toEqual({});
+    });
+  });
+
+  describe('rewindSnapshot', () => {
+    it('should undo newer changes, newest first', () => {
+      const current = { ...snapshot, title: 'Buy bread', completed: true };
+
+      expect(
+        rewindSnapshot(current, [
+          { completed: { from: false, to: true } },
+          { title: { from: 'Buy milk', to: 'Buy bread' } },
+        ]),
+      ).toEqual(snapshot);
+    });
+  });
+});
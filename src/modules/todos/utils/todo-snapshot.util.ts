@@ -0,0 +1,100 @@
+import { Prisma, Todo } from '@prisma/client';
+
+/** The fields tracked by the history, in a JSON friendly form. */
+export interface TodoSnapshot {
+  title: string;
+  description: string | null;
+  completed: boolean;
+  dueDate: string | null;
+  projectId: number | null;
+  recurrence: Prisma.JsonValue;
+  tagIds?: number[];
+}
+
+export type TodoSnapshotField = keyof TodoSnapshot;
+
+export type TodoChanges = Partial<
+  Record<TodoSnapshotField, { from: unknown; to: unknown }>
+>;
+
+const SNAPSHOT_FIELDS: TodoSnapshotField[] = [
+  'title',
+  'description',
+  'completed',
+  'dueDate',
+  'projectId',
+  'recurrence',
+  'tagIds',
+];
+
+/**
+ * Tags are only part of the snapshot when they were loaded with the todo, so
+ * callers that skip them never report tag changes.
+ */
+export function toSnapshot(
+  todo: Todo & { tags?: { tag: { id: number } }[] },
+): TodoSnapshot {
+  return {
+    title: todo.title,
+    description: todo.description,
+    completed: todo.completed,
+    dueDate: todo.dueDate?.toISOString() ?? null,
+    projectId: todo.projectId,
+    recurrence: todo.recurrence,
+    tagIds: todo.tags?.map(({ tag }) => tag.id).sort((a, b) => a - b),
+  };
+}
+
+/** Field-level differences; fields missing on either side are ignored. */
+export function diffSnapshots(
+  before: Partial<TodoSnapshot>,
+  after: Partial<TodoSnapshot>,
+): TodoChanges {
+  const changes: TodoChanges = {};
+
+  for (const field of SNAPSHOT_FIELDS) {
+    const from = before[field];
+    const to = after[field];
+
+    if (from === undefined || to === undefined) {
+      continue;
+    }
+
+    if (stableStringify(from) !== stableStringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/** Undoes the given changes, newest first, to rebuild an older snapshot. */
+export function rewindSnapshot(
+  current: TodoSnapshot,
+  newerChanges: TodoChanges[],
+): TodoSnapshot {
+  const snapshot = { ...current };
+
+  for (const changes of newerChanges) {
+    for (const field of SNAPSHOT_FIELDS) {
+      const change = changes[field];
+
+      if (change) {
+        Object.assign(snapshot, { [field]: change.from });
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+// JSON columns come back with their keys reordered
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+}
@@ -0,0 +1,67 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ConfirmIdentityDto } from '@modules/auth/dto/auth.dto';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class UpdateProfileDto {
+  @ApiPropertyOptional({ example: 'Jane Doe' })
+  @Transform(trim)
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name must not be empty' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({
+    example: 'https://example.com/avatar.png',
+    description: 'null removes the picture',
+    nullable: true,
+  })
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: 'Profile picture must be an https URL' },
+  )
+  @MaxLength(2048, {
+    message: 'Profile picture URL must not exceed 2048 characters',
+  })
+  @IsOptional()
+  profilePicture?: string | null;
+}
+
+export class ChangePasswordDto {
+  @ApiProperty({ example: 'Password123!' })
+  @IsString({ message: 'Current password must be a string' })
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+
+  @ApiProperty({ example: 'NewPassword123!' })
+  @IsString({ message: 'New password must be a string' })
+  @MinLength(6, { message: 'New password must be at least 6 characters long' })
+  @IsNotEmpty({ message: 'New password is required' })
+  newPassword: string;
+}
+
+export class ChangeEmailDto extends ConfirmIdentityDto {
+  @ApiProperty({ example: 'new@example.com' })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+}
+
+export class ConfirmEmailChangeDto {
+  @ApiProperty({ example: 'ZW1haWwgY2hhbmdlIHRva2Vu' })
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+}
@@ -0,0 +1,16 @@
+import { Role } from '@prisma/client';
+
+/** The account as its owner sees it; secrets never leave the server. */
+export interface UserProfile {
+  id: number;
+  email: string;
+  pendingEmail: string | null;
+  name: string | null;
+  profilePicture: string | null;
+  role: Role;
+  emailVerified: boolean;
+  hasPassword: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,155 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import {
+  ChangeEmailDto,
+  ChangePasswordDto,
+  ConfirmEmailChangeDto,
+  UpdateProfileDto,
+} from './dto/user.dto';
+import { ConfirmIdentityDto } from '@modules/auth/dto/auth.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AllowUnverified } from '@modules/auth/decorators/allow-unverified.decorator';
+import { RateLimit } from '@common/rate-limit/rate-limit.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+// Routes that check a password are limited like the sign-in routes
+const CREDENTIALS_RATE_LIMIT = { limit: 10, windowSeconds: 60 };
+
+@ApiTags('Users')
+@Controller('users')
+export class UsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(UsersController.name);
+  }
+
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the account of the current user' })
+  @ApiResponse({ status: 200, description: 'Return the account' })
+  getProfile(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding current user');
+    return this.usersService.getProfile(user.id);
+  }
+
+  @Patch('me')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change the name or picture of the current user' })
+  @ApiResponse({ status: 200, description: 'Return the updated account' })
+  updateProfile(
+    @CurrentUser() user: AuthUser,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ) {
+    this.logger.log('Updating current user');
+    return this.usersService.updateProfile(user.id, updateProfileDto);
+  }
+
+  @Post('me/password')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change the password of the current user',
+    description: 'Every other session of the user is revoked',
+  })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({ status: 204, description: 'Password changed' })
+  @ApiResponse({ status: 400, description: 'Account has no password' })
+  @ApiResponse({ status: 403, description: 'Current password is incorrect' })
+  @ApiResponse({
+    status: 429,
+    description: 'Account or address locked out after failed attempts',
+  })
+  async changePassword(
+    @CurrentUser() user: AuthUser,
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Ip() ip: string,
+  ) {
+    this.logger.log('Changing password of current user');
+    await this.usersService.changePassword(user, changePasswordDto, ip);
+  }
+
+  @Post('me/email')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change the email address of the current user',
+    description:
+      'Mails a link to the new address; the change applies once it is confirmed',
+  })
+  @ApiBody({ type: ChangeEmailDto })
+  @ApiResponse({ status: 200, description: 'Return the account' })
+  @ApiResponse({ status: 403, description: 'Re-authentication failed' })
+  @ApiResponse({ status: 409, description: 'Email already exists' })
+  requestEmailChange(
+    @CurrentUser() user: AuthUser,
+    @Body() changeEmailDto: ChangeEmailDto,
+  ) {
+    this.logger.log('Requesting email change of current user');
+    return this.usersService.requestEmailChange(user.id, changeEmailDto);
+  }
+
+  @Post('email/confirm')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Confirm a new email address with a mailed token' })
+  @ApiBody({ type: ConfirmEmailChangeDto })
+  @ApiResponse({ status: 204, description: 'Email changed' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  @ApiResponse({ status: 409, description: 'Email already exists' })
+  async confirmEmailChange(
+    @Body() confirmEmailChangeDto: ConfirmEmailChangeDto,
+  ) {
+    await this.usersService.confirmEmailChange(confirmEmailChangeDto.token);
+  }
+
+  @Delete('me')
+  @RateLimit(CREDENTIALS_RATE_LIMIT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Delete the account of the current user',
+    description:
+      'Needs the password, or a two-factor code when the account has no password. Todos, projects and tags are deleted too.',
+  })
+  @ApiBody({ type: ConfirmIdentityDto })
+  @ApiResponse({ status: 204, description: 'Account deleted' })
+  @ApiResponse({ status: 403, description: 'Re-authentication failed' })
+  async deleteAccount(
+    @CurrentUser() user: AuthUser,
+    @Body() confirmIdentityDto: ConfirmIdentityDto,
+  ) {
+    this.logger.log('Deleting current user');
+    await this.usersService.deleteAccount(user.id, confirmIdentityDto);
+  }
+}
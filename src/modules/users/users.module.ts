@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '@common/common.module';
+import { MailerModule } from '@common/mailer/mailer.module';
+import { AuthModule } from '@modules/auth/auth.module';
+import { UserRepository } from '@app/auth/repositories/user.repository';
+import { UserTokenRepository } from '@modules/auth/repositories/user-token.repository';
+import { UsersService } from './users.service';
+import { UsersController } from './users.controller';
+
+@Module({
+  imports: [CommonModule, MailerModule, AuthModule],
+  controllers: [UsersController],
+  providers: [
+    UsersService,
+    {
+      provide: 'UserRepositoryInterface',
+      useClass: UserRepository,
+    },
+    {
+      provide: 'UserTokenRepositoryInterface',
+      useClass: UserTokenRepository,
+    },
+  ],
+})
+export class UsersModule {}
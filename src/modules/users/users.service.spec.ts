@@ -0,0 +1,266 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Role, User, UserTokenType } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { TooManyRequestsException } from '@common/rate-limit/too-many-requests.exception';
+import { hashToken } from '@common/utils/token.util';
+import { AuthService } from '@modules/auth/auth.service';
+import { LoginThrottleService } from '@modules/auth/login-throttle.service';
+import { TwoFactorService } from '@modules/auth/two-factor.service';
+import { UsersService } from './users.service';
+
+describe('UsersService', () => {
+  let service: UsersService;
+
+  const mockUserRepository = {
+    findById: jest.fn(),
+    findByEmail: jest.fn(),
+    updateUser: jest.fn(),
+    deleteUser: jest.fn(),
+  };
+
+  const mockUserTokenRepository = {
+    create: jest.fn(),
+    consume: jest.fn(),
+  };
+
+  const mockMailer = {
+    send: jest.fn(),
+  };
+
+  const mockAuthService = {
+    revokeOtherSessions: jest.fn(),
+  };
+
+  const mockLoginThrottle = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    confirmIdentity: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: 1,
+      email: 'ada@example.com',
+      pendingEmail: null,
+      password: 'hash',
+      name: 'Ada',
+      emailVerifiedAt: new Date(),
+      twoFactorEnabledAt: null,
+      ...overrides,
+    }) as User;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        { provide: 'UserRepositoryInterface', useValue: mockUserRepository },
+        {
+          provide: 'UserTokenRepositoryInterface',
+          useValue: mockUserTokenRepository,
+        },
+        { provide: 'MailerService', useValue: mockMailer },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: LoginThrottleService, useValue: mockLoginThrottle },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+  });
+
+  describe('changePassword', () => {
+    const authUser = {
+      id: 1,
+      email: 'ada@example.com',
+      role: Role.USER,
+      emailVerified: true,
+      sessionId: 'session-1',
+    };
+
+    it('should sign out every session but the current one', async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ password: await bcrypt.hash('old secret', 4) }),
+      );
+
+      await service.changePassword(authUser, {
+        currentPassword: 'old secret',
+        newPassword: 'new secret',
+      });
+
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(1, {
+        password: expect.any(String) as string,
+      });
+      expect(mockAuthService.revokeOtherSessions).toHaveBeenCalledWith(
+        1,
+        'session-1',
+      );
+    });
+
+    it('should refuse a wrong current password', async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ password: await bcrypt.hash('old secret', 4) }),
+      );
+
+      await expect(
+        service.changePassword(
+          authUser,
+          { currentPassword: 'guess', newPassword: 'new secret' },
+          '203.0.113.7',
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(mockLoginThrottle.recordFailure).toHaveBeenCalledWith(
+        'ada@example.com',
+        '203.0.113.7',
+      );
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+      expect(mockAuthService.revokeOtherSessions).not.toHaveBeenCalled();
+    });
+
+    it('should not check passwords while the account is locked out', async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ password: await bcrypt.hash('old secret', 4) }),
+      );
+      mockLoginThrottle.assertNotLocked.mockRejectedValue(
+        new TooManyRequestsException(600),
+      );
+
+      await expect(
+        service.changePassword(authUser, {
+          currentPassword: 'old secret',
+          newPassword: 'new secret',
+        }),
+      ).rejects.toBeInstanceOf(TooManyRequestsException);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('should keep the address until the new one is confirmed', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+      mockUserRepository.updateUser.mockResolvedValue(
+        buildUser({ pendingEmail: 'ada@example.org' }),
+      );
+
+      const profile = await service.requestEmailChange(1, {
+        email: 'ada@example.org',
+        password: 'secret',
+      });
+
+      expect(profile).toMatchObject({
+        email: 'ada@example.com',
+        pendingEmail: 'ada@example.org',
+      });
+      expect(mockTwoFactorService.confirmIdentity).toHaveBeenCalled();
+      expect(mockUserTokenRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ type: UserTokenType.EMAIL_CHANGE }),
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'ada@example.org' }),
+      );
+    });
+
+    it('should refuse addresses of other accounts', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockUserRepository.findByEmail.mockResolvedValue(buildUser({ id: 2 }));
+
+      await expect(
+        service.requestEmailChange(1, {
+          email: 'taken@example.com',
+          password: 'secret',
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    it('should switch to the pending address and tell the old one', async () => {
+      mockUserTokenRepository.consume.mockResolvedValue({ userId: 1 });
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ pendingEmail: 'ada@example.org' }),
+      );
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+
+      await service.confirmEmailChange('token');
+
+      expect(mockUserTokenRepository.consume).toHaveBeenCalledWith(
+        hashToken('token'),
+        UserTokenType.EMAIL_CHANGE,
+      );
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(1, {
+        email: 'ada@example.org',
+        pendingEmail: null,
+        emailVerifiedAt: expect.any(Date) as Date,
+      });
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'ada@example.com' }),
+      );
+    });
+
+    it('should answer 409 when another account took the address meanwhile', async () => {
+      mockUserTokenRepository.consume.mockResolvedValue({ userId: 1 });
+      mockUserRepository.findById.mockResolvedValue(
+        buildUser({ pendingEmail: 'ada@example.org' }),
+      );
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+      mockUserRepository.updateUser.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError(
+          'Unique constraint failed on the fields: (`email`)',
+          { code: 'P2002', clientVersion: Prisma.prismaVersion.client },
+        ),
+      );
+
+      await expect(service.confirmEmailChange('token')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject used or unknown tokens', async () => {
+      mockUserTokenRepository.consume.mockResolvedValue(null);
+
+      await expect(service.confirmEmailChange('token')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should only delete once the identity is confirmed', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser());
+      mockTwoFactorService.confirmIdentity.mockRejectedValue(
+        new ForbiddenException('Invalid password'),
+      );
+
+      await expect(
+        service.deleteAccount(1, { password: 'guess' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(mockUserRepository.deleteUser).not.toHaveBeenCalled();
+    });
+  });
+});
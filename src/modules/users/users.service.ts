@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, User, UserTokenType } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { MailerService } from '@common/mailer/mailer.interface';
+import { generateSecureToken, hashToken } from '@common/utils/token.util';
+import { UserRepositoryInterface } from '@app/auth/interfaces/repository/user.repository.interface';
+import { UserTokenRepositoryInterface } from '@modules/auth/interfaces/repository/user-token.repository.interface';
+import { AuthService } from '@modules/auth/auth.service';
+import { LoginThrottleService } from '@modules/auth/login-throttle.service';
+import { TwoFactorService } from '@modules/auth/two-factor.service';
+import { ConfirmIdentityDto } from '@modules/auth/dto/auth.dto';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { UserProfile } from './interfaces/user-profile.interface';
+import {
+  ChangeEmailDto,
+  ChangePasswordDto,
+  UpdateProfileDto,
+} from './dto/user.dto';
+
+@Injectable()
+export class UsersService {
+  constructor(
+    @Inject('UserRepositoryInterface')
+    private readonly userRepository: UserRepositoryInterface,
+    @Inject('UserTokenRepositoryInterface')
+    private readonly userTokenRepository: UserTokenRepositoryInterface,
+    @Inject('MailerService')
+    private readonly mailer: MailerService,
+    private readonly authService: AuthService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly configService: ConfigService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(UsersService.name);
+  }
+
+  async getProfile(userId: number): Promise<UserProfile> {
+    return this.toProfile(await this.getUser(userId));
+  }
+
+  async updateProfile(
+    userId: number,
+    updateProfileDto: UpdateProfileDto,
+  ): Promise<UserProfile> {
+    this.logger.log(`Updating profile of user: ${userId}`);
+
+    const user = await this.getUser(userId);
+    const updated = await this.userRepository.updateUser(user.id, {
+      name: updateProfileDto.name,
+      profilePicture: updateProfileDto.profilePicture,
+    });
+
+    return this.toProfile(updated);
+  }
+
+  /**
+   * Signs out every other session, keeping the one making the change. Wrong
+   * current passwords count towards the same lockout as failed sign-ins.
+   */
+  async changePassword(
+    authUser: AuthUser,
+    changePasswordDto: ChangePasswordDto,
+    ip?: string,
+  ): Promise<void> {
+    const user = await this.getUser(authUser.id);
+
+    if (!user.password) {
+      throw new BadRequestException(
+        'This account has no password yet; add one instead',
+      );
+    }
+
+    await this.loginThrottle.assertNotLocked(user.email, ip);
+
+    if (
+      !(await bcrypt.compare(changePasswordDto.currentPassword, user.password))
+    ) {
+      this.logger.warn(`Password change with wrong password: ${user.id}`);
+      await this.loginThrottle.recordFailure(user.email, ip);
+      throw new ForbiddenException('Current password is incorrect');
+    }
+
+    await this.loginThrottle.recordSuccess(user.email);
+
+    await this.userRepository.updateUser(user.id, {
+      password: await bcrypt.hash(changePasswordDto.newPassword, 10),
+    });
+    await this.authService.revokeOtherSessions(user.id, authUser.sessionId);
+
+    this.logger.log(`Password changed for user: ${user.id}`);
+  }
+
+  /**
+   * Mails a confirmation link to the new address. The current address stays
+   * in use until the link is opened.
+   */
+  async requestEmailChange(
+    userId: number,
+    changeEmailDto: ChangeEmailDto,
+  ): Promise<UserProfile> {
+    const user = await this.getUser(userId);
+    const { email } = changeEmailDto;
+
+    await this.twoFactorService.confirmIdentity(user, changeEmailDto);
+
+    if (email === user.email) {
+      throw new BadRequestException('This is already your email address');
+    }
+
+    if (await this.userRepository.findByEmail(email)) {
+      this.logger.warn(`Email change to existing email by user: ${user.id}`);
+      throw new ConflictException('Email already exists');
+    }
+
+    const updated = await this.userRepository.updateUser(user.id, {
+      pendingEmail: email,
+    });
+
+    const ttlHours = Number(
+      this.configService.get<string>('EMAIL_VERIFICATION_TTL_HOURS') || 48,
+    );
+    const token = generateSecureToken();
+
+    await this.userTokenRepository.create({
+      userId: user.id,
+      type: UserTokenType.EMAIL_CHANGE,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+    });
+
+    await this.mailer.send({
+      to: email,
+      subject: 'Confirm your new email address',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'Please confirm the new email address of your account by opening this link:',
+        `${this.getFrontendUrl()}/confirm-email?token=${token}`,
+        '',
+        `The link expires in ${ttlHours} hours. Until then you keep signing in with ${user.email}.`,
+      ].join('\n'),
+    });
+
+    this.logger.log(`Email change requested by user: ${user.id}`);
+
+    return this.toProfile(updated);
+  }
+
+  async confirmEmailChange(token: string): Promise<void> {
+    const used = await this.userTokenRepository.consume(
+      hashToken(token),
+      UserTokenType.EMAIL_CHANGE,
+    );
+    const user = used && (await this.userRepository.findById(used.userId));
+
+    if (!user?.pendingEmail) {
+      this.logger.warn('Email change attempt with invalid token');
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Someone may have registered the address since the change was asked for
+    if (await this.userRepository.findByEmail(user.pendingEmail)) {
+      throw new ConflictException('Email already exists');
+    }
+
+    try {
+      await this.userRepository.updateUser(user.id, {
+        email: user.pendingEmail,
+        pendingEmail: null,
+        emailVerifiedAt: new Date(),
+      });
+    } catch (error) {
+      // Another account took the address between the check and the update
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('Email already exists');
+      }
+      throw error;
+    }
+
+    this.logger.log(`Email changed for user: ${user.id}`);
+
+    // Tell the old address, in case the change was not the owner's doing
+    try {
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Your email address was changed',
+        text: [
+          `Hi ${user.name || 'there'},`,
+          '',
+          `Your account now signs in with ${user.pendingEmail}.`,
+          'If you did not make this change, reset your password right away.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify old email of user: ${user.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /** Deletes the account with all its todos, projects and tags. */
+  async deleteAccount(
+    userId: number,
+    confirmIdentityDto: ConfirmIdentityDto,
+  ): Promise<void> {
+    const user = await this.getUser(userId);
+
+    await this.twoFactorService.confirmIdentity(user, confirmIdentityDto);
+    await this.userRepository.deleteUser(user.id);
+
+    this.logger.log(`Account deleted by user: ${user.id}`);
+  }
+
+  private async getUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private toProfile(user: User): UserProfile {
+    return {
+      id: user.id,
+      email: user.email,
+      pendingEmail: user.pendingEmail,
+      name: user.name,
+      profilePicture: user.profilePicture,
+      role: user.role,
+      emailVerified: user.emailVerifiedAt !== null,
+      hasPassword: !!user.password,
+      twoFactorEnabled: user.twoFactorEnabledAt !== null,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  private getFrontendUrl(): string {
+    return (
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:5173'
+    );
+  }
+}
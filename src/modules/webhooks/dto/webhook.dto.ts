@@ -0,0 +1,79 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOutboundUrl } from '@common/validators/is-outbound-url.validator';
+import { WebhookEventType } from '../interfaces/webhook.interface';
+
+export class CreateWebhookDto {
+  @ApiProperty({ example: 'https://tools.example.com/hooks/todos' })
+  @IsOutboundUrl({ message: 'URL must be a valid https URL' })
+  url: string;
+
+  @ApiProperty({
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.TODO_CREATED, WebhookEventType.TODO_COMPLETED],
+  })
+  @IsArray({ message: 'Events must be an array' })
+  @ArrayNotEmpty({ message: 'Events must not be empty' })
+  @ArrayUnique({ message: 'Events must be unique' })
+  @IsEnum(WebhookEventType, { each: true, message: 'Unknown event type' })
+  events: WebhookEventType[];
+
+  @ApiPropertyOptional({
+    example: 'a-long-random-string',
+    description: 'Signing secret; generated when left out',
+  })
+  @IsString({ message: 'Secret must be a string' })
+  @MinLength(16, { message: 'Secret must be at least 16 characters long' })
+  @IsOptional()
+  secret?: string;
+}
+
+export class UpdateWebhookDto {
+  @ApiPropertyOptional({ example: 'https://tools.example.com/hooks/todos' })
+  @IsOutboundUrl({ message: 'URL must be a valid https URL' })
+  @IsOptional()
+  url?: string;
+
+  @ApiPropertyOptional({ enum: WebhookEventType, isArray: true })
+  @IsArray({ message: 'Events must be an array' })
+  @ArrayNotEmpty({ message: 'Events must not be empty' })
+  @ArrayUnique({ message: 'Events must be unique' })
+  @IsEnum(WebhookEventType, { each: true, message: 'Unknown event type' })
+  @IsOptional()
+  events?: WebhookEventType[];
+
+  @ApiPropertyOptional({ example: false, description: 'Pause deliveries' })
+  @IsBoolean({ message: 'Active must be a boolean' })
+  @IsOptional()
+  active?: boolean;
+}
+
+export class WebhookDeliveryQueryDto {
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    example: 42,
+    description: 'ID of the last delivery from the previous page',
+  })
+  @IsInt({ message: 'Cursor must be an integer' })
+  @IsOptional()
+  cursor?: number;
+}
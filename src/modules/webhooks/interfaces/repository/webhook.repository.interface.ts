@@ -0,0 +1,48 @@
+import { Webhook, WebhookDelivery } from '@prisma/client';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import {
+  DueWebhookDelivery,
+  NewWebhookDelivery,
+  PublicWebhook,
+} from '../webhook.interface';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from '../../dto/webhook.dto';
+
+export interface WebhookRepositoryInterface {
+  create(
+    userId: number,
+    createWebhookDto: CreateWebhookDto & { secret: string },
+  ): Promise<Webhook>;
+  findAll(userId: number): Promise<PublicWebhook[]>;
+  findOne(id: number, userId: number): Promise<PublicWebhook | null>;
+  update(
+    id: number,
+    updateWebhookDto: UpdateWebhookDto,
+  ): Promise<PublicWebhook>;
+  remove(id: number): Promise<PublicWebhook>;
+  findSubscribed(userIds: number[], events: string[]): Promise<Webhook[]>;
+  createDeliveries(deliveries: NewWebhookDelivery[]): Promise<number>;
+  createDelivery(delivery: NewWebhookDelivery): Promise<WebhookDelivery>;
+  findDeliveries(
+    webhookId: number,
+    query: WebhookDeliveryQueryDto,
+  ): Promise<PaginatedResult<WebhookDelivery>>;
+  claimDue(
+    now: Date,
+    claimUntil: Date,
+    limit: number,
+    ids?: number[],
+  ): Promise<DueWebhookDelivery[]>;
+  markSucceeded(id: number, responseStatus: number): Promise<WebhookDelivery>;
+  markFailed(
+    id: number,
+    failure: {
+      responseStatus: number | null;
+      error: string;
+      nextAttemptAt: Date | null;
+    },
+  ): Promise<WebhookDelivery>;
+}
@@ -0,0 +1,33 @@
+import { Webhook, WebhookDelivery } from '@prisma/client';
+
+export enum WebhookEventType {
+  TODO_CREATED = 'todo.created',
+  TODO_UPDATED = 'todo.updated',
+  TODO_COMPLETED = 'todo.completed',
+  TODO_DELETED = 'todo.deleted',
+  TODO_RESTORED = 'todo.restored',
+}
+
+/** Sent by the "send test event" action; cannot be subscribed to. */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/** Something that happened to data owned by `userId`. */
+export interface WebhookEvent {
+  userId: number;
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+/** Webhooks are listed without their signing secret. */
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export interface NewWebhookDelivery {
+  webhookId: number;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+/** A delivery claimed for sending together with its endpoint. */
+export type DueWebhookDelivery = WebhookDelivery & {
+  webhook: Pick<Webhook, 'id' | 'url' | 'secret'>;
+};
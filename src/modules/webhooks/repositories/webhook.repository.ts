@@ -0,0 +1,245 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Prisma,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '@prisma/client';
+import { PrismaService } from '@core/database/prisma/prisma.service';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { PaginatedResult } from '@common/interfaces/paginated-result.interface';
+import { WebhookRepositoryInterface } from '@modules/webhooks/interfaces/repository/webhook.repository.interface';
+import {
+  DueWebhookDelivery,
+  NewWebhookDelivery,
+  PublicWebhook,
+} from '@modules/webhooks/interfaces/webhook.interface';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from '../dto/webhook.dto';
+
+// Everything but the signing secret
+const PUBLIC_WEBHOOK = {
+  id: true,
+  url: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  userId: true,
+} satisfies Prisma.WebhookSelect;
+
+@Injectable()
+export class WebhookRepository implements WebhookRepositoryInterface {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(WebhookRepository.name);
+  }
+
+  async create(
+    userId: number,
+    createWebhookDto: CreateWebhookDto & { secret: string },
+  ): Promise<Webhook> {
+    this.logger.debug(`Creating webhook for user: ${userId}`);
+
+    return this.prisma.webhook.create({
+      data: { ...createWebhookDto, userId },
+    });
+  }
+
+  async findAll(userId: number): Promise<PublicWebhook[]> {
+    this.logger.debug(`Finding webhooks for user: ${userId}`);
+
+    return this.prisma.webhook.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: PUBLIC_WEBHOOK,
+    });
+  }
+
+  async findOne(id: number, userId: number): Promise<PublicWebhook | null> {
+    return this.prisma.webhook.findFirst({
+      where: { id, userId },
+      select: PUBLIC_WEBHOOK,
+    });
+  }
+
+  async update(
+    id: number,
+    updateWebhookDto: UpdateWebhookDto,
+  ): Promise<PublicWebhook> {
+    this.logger.debug(`Updating webhook with id: ${id}`);
+
+    return this.prisma.webhook.update({
+      where: { id },
+      data: updateWebhookDto,
+      select: PUBLIC_WEBHOOK,
+    });
+  }
+
+  async remove(id: number): Promise<PublicWebhook> {
+    this.logger.debug(`Removing webhook with id: ${id}`);
+
+    return this.prisma.webhook.delete({
+      where: { id },
+      select: PUBLIC_WEBHOOK,
+    });
+  }
+
+  async findSubscribed(
+    userIds: number[],
+    events: string[],
+  ): Promise<Webhook[]> {
+    return this.prisma.webhook.findMany({
+      where: {
+        userId: { in: userIds },
+        active: true,
+        events: { hasSome: events },
+      },
+    });
+  }
+
+  async createDeliveries(deliveries: NewWebhookDelivery[]): Promise<number> {
+    this.logger.debug(`Queueing ${deliveries.length} webhook deliveries`);
+
+    const { count } = await this.prisma.webhookDelivery.createMany({
+      data: deliveries.map((delivery) => ({
+        ...delivery,
+        payload: delivery.payload as Prisma.InputJsonObject,
+      })),
+    });
+
+    return count;
+  }
+
+  async createDelivery(delivery: NewWebhookDelivery): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.create({
+      data: {
+        ...delivery,
+        payload: delivery.payload as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  async findDeliveries(
+    webhookId: number,
+    query: WebhookDeliveryQueryDto,
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    this.logger.debug(`Finding deliveries of webhook: ${webhookId}`);
+
+    const where = { webhookId };
+    const limit = query.limit ?? 20;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: limit + 1,
+        ...(query.cursor !== undefined
+          ? { cursor: { id: query.cursor }, skip: 1 }
+          : {}),
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      items,
+      total,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Takes a lease on pending deliveries that are due, so concurrent
+   * dispatchers never send the same one. Restricting to `ids` lets a single
+   * delivery be sent right away.
+   */
+  async claimDue(
+    now: Date,
+    claimUntil: Date,
+    limit: number,
+    ids?: number[],
+  ): Promise<DueWebhookDelivery[]> {
+    // Columns hold UTC without a time zone
+    const nowUtc = Prisma.sql`(${now.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+    const untilUtc = Prisma.sql`(${claimUntil.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+    // Paused webhooks keep their queue, except for deliveries sent on demand
+    const filter = ids
+      ? Prisma.sql`AND d."id" IN (${Prisma.join(ids)})`
+      : Prisma.sql`AND w."active" = true`;
+
+    const claimed = await this.prisma.$queryRaw<{ id: number }[]>`
+      UPDATE "webhook_deliveries" SET "claimed_until" = ${untilUtc}
+      WHERE "id" IN (
+        SELECT d."id" FROM "webhook_deliveries" d
+        JOIN "webhooks" w ON w."id" = d."webhook_id"
+        WHERE d."status" = 'PENDING'
+          AND d."next_attempt_at" <= ${nowUtc}
+          AND (d."claimed_until" IS NULL OR d."claimed_until" < ${nowUtc})
+          ${filter}
+        ORDER BY d."next_attempt_at", d."id"
+        LIMIT ${limit}
+        FOR UPDATE OF d SKIP LOCKED
+      )
+      RETURNING "id"`;
+
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    return this.prisma.webhookDelivery.findMany({
+      where: { id: { in: claimed.map((row) => row.id) } },
+      orderBy: { id: 'asc' },
+      include: { webhook: { select: { id: true, url: true, secret: true } } },
+    });
+  }
+
+  async markSucceeded(
+    id: number,
+    responseStatus: number,
+  ): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: { increment: 1 },
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+        claimedUntil: null,
+      },
+    });
+  }
+
+  /** Schedules the next attempt, or gives up when there is none. */
+  async markFailed(
+    id: number,
+    failure: {
+      responseStatus: number | null;
+      error: string;
+      nextAttemptAt: Date | null;
+    },
+  ): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: failure.nextAttemptAt
+          ? WebhookDeliveryStatus.PENDING
+          : WebhookDeliveryStatus.FAILED,
+        attempts: { increment: 1 },
+        responseStatus: failure.responseStatus,
+        lastError: failure.error,
+        nextAttemptAt: failure.nextAttemptAt ?? undefined,
+        claimedUntil: null,
+      },
+    });
+  }
+}
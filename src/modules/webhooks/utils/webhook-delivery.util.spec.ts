@@ -0,0 +1,34 @@
+import { createHmac } from 'crypto';
+import { retryDelay, signPayload } from './webhook-delivery.util';
+
+describe('webhook delivery', () => {
+  describe('signPayload', () => {
+    it('should sign the timestamp and body with the secret', () => {
+      const expected = createHmac('sha256', 'secret')
+        .update('1700000000.{"a":1}')
+        .digest('hex');
+
+      expect(signPayload('secret', 1700000000, '{"a":1}')).toBe(
+        `sha256=${expected}`,
+      );
+    });
+
+    it('should change when the body changes', () => {
+      expect(signPayload('secret', 1, 'a')).not.toBe(
+        signPayload('secret', 1, 'b'),
+      );
+    });
+  });
+
+  describe('retryDelay', () => {
+    it('should double with every failed attempt', () => {
+      expect(retryDelay(1)).toBe(30_000);
+      expect(retryDelay(2)).toBe(60_000);
+      expect(retryDelay(3)).toBe(120_000);
+    });
+
+    it('should be capped at six hours', () => {
+      expect(retryDelay(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+});
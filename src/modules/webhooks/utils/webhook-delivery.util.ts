@@ -0,0 +1,28 @@
+import { createHmac } from 'crypto';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Signs `<timestamp>.<body>` so receivers can verify the sender and reject
+ * replays of old deliveries.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `sha256=${digest}`;
+}
+
+/** Exponential back-off after the given number of failed attempts. */
+export function retryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+}
@@ -0,0 +1,126 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from './dto/webhook.dto';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/user.interface';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AppLogger } from '@common/logger/app-logger.service';
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(WebhooksController.name);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Register a webhook',
+    description:
+      'Deliveries are signed with HMAC-SHA256 over "<timestamp>.<body>" in ' +
+      'the X-Webhook-Signature header. The secret is only returned here.',
+  })
+  @ApiResponse({ status: 201, description: 'Webhook successfully created' })
+  create(
+    @CurrentUser() user: AuthUser,
+    @Body() createWebhookDto: CreateWebhookDto,
+  ) {
+    this.logger.log('Creating webhook');
+    return this.webhooksService.create(user.id, createWebhookDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List own webhooks' })
+  @ApiResponse({ status: 200, description: 'Return the webhooks' })
+  findAll(@CurrentUser() user: AuthUser) {
+    this.logger.log('Finding webhooks');
+    return this.webhooksService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook by ID' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Return the webhook' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Finding webhook with id: ${id}`);
+    return this.webhooksService.findOne(+id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update or pause a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Webhook successfully updated' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+  ) {
+    this.logger.log(`Updating webhook with id: ${id}`);
+    return this.webhooksService.update(+id, user.id, updateWebhookDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a webhook and its delivery log' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Webhook successfully deleted' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Removing webhook with id: ${id}`);
+    return this.webhooksService.remove(+id, user.id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Get the delivery log of a webhook, newest first' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Return a page of deliveries' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  findDeliveries(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query() query: WebhookDeliveryQueryDto,
+  ) {
+    this.logger.log(`Finding deliveries of webhook with id: ${id}`);
+    return this.webhooksService.findDeliveries(+id, user.id, query);
+  }
+
+  @Post(':id/test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a test event to a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Return the test delivery' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  sendTest(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.log(`Sending test event to webhook with id: ${id}`);
+    return this.webhooksService.sendTest(+id, user.id);
+  }
+}
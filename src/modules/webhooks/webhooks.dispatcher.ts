@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { WebhooksService } from './webhooks.service';
+
+/**
+ * Works through the delivery queue. Every instance may run it; deliveries
+ * are claimed in the database so each is sent by one of them.
+ */
+@Injectable()
+export class WebhooksDispatcher {
+  private running = false;
+
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(WebhooksDispatcher.name);
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async dispatch(): Promise<void> {
+    // A slow run must not overlap with the next tick
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const count = await this.webhooksService.dispatchDue();
+      if (count > 0) {
+        this.logger.log(`Attempted ${count} webhook deliveries`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Webhook dispatch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '@common/common.module';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksDispatcher } from './webhooks.dispatcher';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookRepository } from './repositories/webhook.repository';
+
+@Module({
+  imports: [CommonModule],
+  controllers: [WebhooksController],
+  providers: [
+    WebhooksService,
+    WebhooksDispatcher,
+    WebhookRepository,
+    {
+      provide: 'WebhookRepositoryInterface',
+      useClass: WebhookRepository,
+    },
+  ],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { lookup } from 'dns/promises';
+import { AppLogger } from '@common/logger/app-logger.service';
+import {
+  DueWebhookDelivery,
+  WebhookEventType,
+} from './interfaces/webhook.interface';
+import { WebhooksService } from './webhooks.service';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  let fetchSpy: jest.SpyInstance;
+
+  const mockLookup = lookup as unknown as jest.Mock;
+
+  const mockRepository = {
+    findSubscribed: jest.fn(),
+    createDeliveries: jest.fn(),
+    claimDue: jest.fn(),
+    markSucceeded: jest.fn(),
+    markFailed: jest.fn(),
+  };
+
+  const mockLogger = {
+    setContext: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const buildDelivery = (url: string): DueWebhookDelivery => ({
+    id: 7,
+    event: WebhookEventType.TODO_CREATED,
+    payload: { event: WebhookEventType.TODO_CREATED, data: {} },
+    status: WebhookDeliveryStatus.PENDING,
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    claimedUntil: new Date(),
+    responseStatus: null,
+    lastError: null,
+    deliveredAt: null,
+    createdAt: new Date(),
+    webhookId: 3,
+    webhook: { id: 3, url, secret: 'a-long-random-secret' },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    fetchSpy = jest.spyOn(global, 'fetch');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        { provide: 'WebhookRepositoryInterface', useValue: mockRepository },
+        { provide: AppLogger, useValue: mockLogger },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  describe('emit', () => {
+    it('should queue deliveries for subscribed webhooks of the owner only', async () => {
+      mockRepository.findSubscribed.mockResolvedValue([
+        { id: 3, userId: 1, events: [WebhookEventType.TODO_CREATED] },
+        { id: 4, userId: 1, events: [WebhookEventType.TODO_DELETED] },
+        { id: 5, userId: 2, events: [WebhookEventType.TODO_CREATED] },
+      ]);
+
+      await service.emit([
+        {
+          userId: 1,
+          type: WebhookEventType.TODO_CREATED,
+          data: { todo: { id: 1 } },
+        },
+      ]);
+
+      expect(mockRepository.createDeliveries).toHaveBeenCalledWith([
+        expect.objectContaining({
+          webhookId: 3,
+          event: WebhookEventType.TODO_CREATED,
+        }),
+      ]);
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('should sign and send deliveries to public hosts without following redirects', async () => {
+      mockRepository.claimDue.mockResolvedValue([
+        buildDelivery('https://hooks.example.com/todos'),
+      ]);
+      mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      fetchSpy.mockResolvedValue(new Response(null, { status: 204 }));
+
+      await expect(service.dispatchDue()).resolves.toBe(1);
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://hooks.example.com/todos',
+        expect.objectContaining({ method: 'POST', redirect: 'manual' }),
+      );
+      expect(mockRepository.markSucceeded).toHaveBeenCalledWith(7, 204);
+    });
+
+    it('should not send to hosts that resolve to internal addresses', async () => {
+      mockRepository.claimDue.mockResolvedValue([
+        buildDelivery('https://metadata.example.com/latest'),
+      ]);
+      mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+      await service.dispatchDue();
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(mockRepository.markFailed).toHaveBeenCalledWith(
+        7,
+        expect.objectContaining({
+          responseStatus: null,
+          error:
+            'metadata.example.com resolves to the internal address 169.254.169.254',
+        }),
+      );
+    });
+
+    it('should treat a redirect as a failed attempt', async () => {
+      mockRepository.claimDue.mockResolvedValue([
+        buildDelivery('https://hooks.example.com/todos'),
+      ]);
+      mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      fetchSpy.mockResolvedValue(
+        new Response(null, {
+          status: 302,
+          headers: { Location: 'http://127.0.0.1/' },
+        }),
+      );
+
+      await service.dispatchDue();
+
+      expect(mockRepository.markSucceeded).not.toHaveBeenCalled();
+      expect(mockRepository.markFailed).toHaveBeenCalledWith(
+        7,
+        expect.objectContaining({ responseStatus: 302 }),
+      );
+    });
+  });
+});
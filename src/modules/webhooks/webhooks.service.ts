@@ -0,0 +1,226 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { WebhookDelivery } from '@prisma/client';
+import { AppLogger } from '@common/logger/app-logger.service';
+import { fetchPublicUrl } from '@common/utils/outbound-url.util';
+import { generateSecureToken } from '@common/utils/token.util';
+import { WebhookRepositoryInterface } from '@modules/webhooks/interfaces/repository/webhook.repository.interface';
+import {
+  DueWebhookDelivery,
+  PublicWebhook,
+  WEBHOOK_TEST_EVENT,
+  WebhookEvent,
+} from '@modules/webhooks/interfaces/webhook.interface';
+import {
+  retryDelay,
+  signPayload,
+} from '@modules/webhooks/utils/webhook-delivery.util';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from './dto/webhook.dto';
+
+// How long a dispatcher owns a claimed delivery before others may retry it
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 10;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    @Inject('WebhookRepositoryInterface')
+    private readonly webhookRepository: WebhookRepositoryInterface,
+    private readonly logger: AppLogger,
+  ) {
+    this.logger.setContext(WebhooksService.name);
+  }
+
+  /** The secret is only ever returned here, when the webhook is created. */
+  async create(userId: number, createWebhookDto: CreateWebhookDto) {
+    this.logger.log(`Creating webhook for user: ${userId}`);
+
+    return this.webhookRepository.create(userId, {
+      ...createWebhookDto,
+      secret: createWebhookDto.secret ?? generateSecureToken(32),
+    });
+  }
+
+  async findAll(userId: number) {
+    this.logger.log(`Finding webhooks for user: ${userId}`);
+    return this.webhookRepository.findAll(userId);
+  }
+
+  async findOne(id: number, userId: number): Promise<PublicWebhook> {
+    const webhook = await this.webhookRepository.findOne(id, userId);
+
+    if (!webhook) {
+      this.logger.warn(`Webhook with id: ${id} not found for user: ${userId}`);
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+
+    return webhook;
+  }
+
+  async update(id: number, userId: number, updateWebhookDto: UpdateWebhookDto) {
+    this.logger.log(`Updating webhook with id: ${id}`);
+
+    await this.findOne(id, userId);
+
+    return this.webhookRepository.update(id, updateWebhookDto);
+  }
+
+  async remove(id: number, userId: number) {
+    this.logger.log(`Removing webhook with id: ${id}`);
+
+    await this.findOne(id, userId);
+
+    return this.webhookRepository.remove(id);
+  }
+
+  async findDeliveries(
+    id: number,
+    userId: number,
+    query: WebhookDeliveryQueryDto,
+  ) {
+    await this.findOne(id, userId);
+
+    return this.webhookRepository.findDeliveries(id, query);
+  }
+
+  /** Queues a test event and sends it right away, returning the outcome. */
+  async sendTest(id: number, userId: number): Promise<WebhookDelivery> {
+    this.logger.log(`Sending test event to webhook with id: ${id}`);
+
+    const webhook = await this.findOne(id, userId);
+    const delivery = await this.webhookRepository.createDelivery({
+      webhookId: webhook.id,
+      event: WEBHOOK_TEST_EVENT,
+      payload: this.toPayload(WEBHOOK_TEST_EVENT, { webhookId: webhook.id }),
+    });
+
+    const [claimed] = await this.claim([delivery.id]);
+
+    // Another dispatcher got to it first; it is sent either way
+    return claimed ? this.deliver(claimed) : delivery;
+  }
+
+  /**
+   * Queues a delivery for every active webhook of the data owner that
+   * subscribes to the event. Sending happens in the background.
+   */
+  async emit(events: WebhookEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const webhooks = await this.webhookRepository.findSubscribed(
+      [...new Set(events.map((event) => event.userId))],
+      [...new Set(events.map((event) => event.type))],
+    );
+
+    const deliveries = events.flatMap((event) =>
+      webhooks
+        .filter(
+          (webhook) =>
+            webhook.userId === event.userId &&
+            webhook.events.includes(event.type),
+        )
+        .map((webhook) => ({
+          webhookId: webhook.id,
+          event: event.type,
+          payload: this.toPayload(event.type, event.data),
+        })),
+    );
+
+    if (deliveries.length > 0) {
+      await this.webhookRepository.createDeliveries(deliveries);
+    }
+  }
+
+  /** Sends the deliveries that are due; called by the dispatcher. */
+  async dispatchDue(): Promise<number> {
+    const deliveries = await this.claim();
+
+    for (const delivery of deliveries) {
+      await this.deliver(delivery);
+    }
+
+    return deliveries.length;
+  }
+
+  private claim(ids?: number[]): Promise<DueWebhookDelivery[]> {
+    const now = new Date();
+
+    return this.webhookRepository.claimDue(
+      now,
+      new Date(now.getTime() + CLAIM_LEASE_MS),
+      BATCH_SIZE,
+      ids,
+    );
+  }
+
+  private async deliver(
+    delivery: DueWebhookDelivery,
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+
+    try {
+      // Checked on every attempt, as the host may have been re-pointed
+      const response = await fetchPublicUrl(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'todo-webhooks/1.0',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signPayload(
+            delivery.webhook.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+
+      if (response.ok) {
+        return this.webhookRepository.markSucceeded(
+          delivery.id,
+          response.status,
+        );
+      }
+
+      throw new Error(`Endpoint responded with ${response.status}`);
+    } catch (error) {
+      const attempts = delivery.attempts + 1;
+      const reason = error instanceof Error ? error.message : String(error);
+      const nextAttemptAt =
+        attempts < MAX_ATTEMPTS
+          ? new Date(Date.now() + retryDelay(attempts))
+          : null;
+
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} failed (attempt ${attempts}): ${reason}`,
+      );
+
+      return this.webhookRepository.markFailed(delivery.id, {
+        responseStatus,
+        error: reason,
+        nextAttemptAt,
+      });
+    }
+  }
+
+  private toPayload(event: string, data: Record<string, unknown>) {
+    // Round-trip through JSON so dates are stored the way they are sent
+    return JSON.parse(
+      JSON.stringify({ event, occurredAt: new Date(), data }),
+    ) as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,59 @@
+import { PrismaClient } from '@prisma/client';
+import { AppLogger } from '../src/common/logger/app-logger.service';
+import { PrismaService } from '../src/core/database/prisma/prisma.service';
+import { ProjectRepository } from '../src/modules/projects/repositories/project.repository';
+
+// Todos are moved out in the same transaction as the delete, so these run
+// against the migrated database in DATABASE_URL
+describe('Project deletion (e2e)', () => {
+  const prisma = new PrismaClient();
+  const repository = new ProjectRepository(
+    prisma as PrismaService,
+    new AppLogger(),
+  );
+  let userId: number;
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: { email: `projects-${Date.now()}@example.com` },
+    });
+    userId = user.id;
+  });
+
+  afterAll(async () => {
+    await prisma.user.delete({ where: { id: userId } });
+    await prisma.$disconnect();
+  });
+
+  it('should move its todos to the inbox, trashed ones included', async () => {
+    const project = await prisma.project.create({
+      data: { name: 'Garden', userId },
+    });
+    const [open, trashed] = await prisma.todo.createManyAndReturn({
+      data: [
+        { title: 'Water the plants', userId, projectId: project.id },
+        {
+          title: 'Mow the lawn',
+          userId,
+          projectId: project.id,
+          deletedAt: new Date(),
+        },
+      ],
+    });
+
+    await repository.remove(project.id, userId);
+
+    await expect(
+      prisma.project.findUnique({ where: { id: project.id } }),
+    ).resolves.toBeNull();
+    await expect(
+      prisma.todo.findMany({
+        where: { id: { in: [open.id, trashed.id] } },
+        orderBy: { id: 'asc' },
+      }),
+    ).resolves.toMatchObject([
+      { id: open.id, projectId: null, deletedAt: null },
+      { id: trashed.id, projectId: null, deletedAt: trashed.deletedAt },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { AppLogger } from '../src/common/logger/app-logger.service';
+import { hashToken } from '../src/common/utils/token.util';
+import { PrismaService } from '../src/core/database/prisma/prisma.service';
+import { RefreshTokenRepository } from '../src/modules/auth/repositories/refresh-token.repository';
+import { SessionRepository } from '../src/modules/auth/repositories/session.repository';
+
+// Rotation relies on a conditional update inside a transaction, so these
+// run against the migrated database in DATABASE_URL
+describe('Refresh tokens (e2e)', () => {
+  const prisma = new PrismaClient();
+  const refreshTokens = new RefreshTokenRepository(
+    prisma as PrismaService,
+    new AppLogger(),
+  );
+  const sessions = new SessionRepository(
+    prisma as PrismaService,
+    new AppLogger(),
+  );
+  let userId: number;
+
+  const startSession = async () => {
+    const session = await sessions.create({
+      id: randomUUID(),
+      userId,
+      authMethod: 'local',
+      userAgent: null,
+      ip: null,
+    });
+    const token = await refreshTokens.create({
+      userId,
+      familyId: session.id,
+      tokenHash: hashToken(randomUUID()),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    return { session, token };
+  };
+
+  const nextToken = (familyId: string) => ({
+    userId,
+    familyId,
+    tokenHash: hashToken(randomUUID()),
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: { email: `refresh-tokens-${Date.now()}@example.com` },
+    });
+    userId = user.id;
+  });
+
+  afterAll(async () => {
+    await prisma.user.delete({ where: { id: userId } });
+    await prisma.$disconnect();
+  });
+
+  it('should rotate a token only once', async () => {
+    const { session, token } = await startSession();
+
+    const rotated = await refreshTokens.rotate(token.id, nextToken(session.id));
+    const replayed = await refreshTokens.rotate(
+      token.id,
+      nextToken(session.id),
+    );
+
+    expect(rotated).not.toBeNull();
+    expect(replayed).toBeNull();
+    await expect(
+      prisma.refreshToken.findUniqueOrThrow({ where: { id: token.id } }),
+    ).resolves.toMatchObject({ replacedById: rotated?.id });
+    await expect(sessions.findActive(session.id)).resolves.not.toBeNull();
+  });
+
+  it('should end the session with its family', async () => {
+    const { session, token } = await startSession();
+    await refreshTokens.rotate(token.id, nextToken(session.id));
+
+    await refreshTokens.revokeFamily(session.id);
+
+    await expect(sessions.findActive(session.id)).resolves.toBeNull();
+  });
+
+  it('should revoke every other session of the user', async () => {
+    const current = await startSession();
+    const other = await startSession();
+
+    await refreshTokens.revokeAllForUser(userId, current.session.id);
+
+    await expect(
+      sessions.findActive(current.session.id),
+    ).resolves.not.toBeNull();
+    await expect(sessions.findActive(other.session.id)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { PrismaClient, ShareStatus } from '@prisma/client';
+import { AppLogger } from '../src/common/logger/app-logger.service';
+import { PrismaService } from '../src/core/database/prisma/prisma.service';
+import { ReminderRepository } from '../src/modules/reminders/repositories/reminder.repository';
+
+// Claiming is a single SQL statement, so this runs against the migrated
+// database in DATABASE_URL
+describe('Reminder claims (e2e)', () => {
+  const prisma = new PrismaClient();
+  const repository = new ReminderRepository(
+    prisma as PrismaService,
+    new AppLogger(),
+  );
+  let ownerId: number;
+  let inviteeId: number;
+
+  const claimNow = () =>
+    repository.claimDue(new Date(), new Date(Date.now() + 60_000), 100);
+
+  beforeAll(async () => {
+    const [owner, invitee] = await prisma.user.createManyAndReturn({
+      data: [
+        { email: `reminders-owner-${Date.now()}@example.com` },
+        { email: `reminders-invitee-${Date.now()}@example.com` },
+      ],
+    });
+    ownerId = owner.id;
+    inviteeId = invitee.id;
+  });
+
+  afterAll(async () => {
+    await prisma.user.deleteMany({
+      where: { id: { in: [ownerId, inviteeId] } },
+    });
+    await prisma.$disconnect();
+  });
+
+  it('should claim reminders of invitees while the share lasts', async () => {
+    const parent = await prisma.todo.create({
+      data: { title: 'Move house', userId: ownerId },
+    });
+    const todo = await prisma.todo.create({
+      data: { title: 'Pack the books', userId: ownerId, parentId: parent.id },
+    });
+    const share = await prisma.share.create({
+      data: {
+        todoId: parent.id,
+        ownerId,
+        email: 'invitee@example.com',
+        inviteeId,
+        status: ShareStatus.ACCEPTED,
+      },
+    });
+    const reminder = await prisma.reminder.create({
+      data: { todoId: todo.id, userId: inviteeId, remindAt: new Date() },
+    });
+
+    const claimed = await claimNow();
+    expect(claimed.map(({ id }) => id)).toContain(reminder.id);
+
+    await prisma.share.delete({ where: { id: share.id } });
+    await prisma.reminder.update({
+      where: { id: reminder.id },
+      data: { claimedUntil: null },
+    });
+
+    const reclaimed = await claimNow();
+    expect(reclaimed.map(({ id }) => id)).not.toContain(reminder.id);
+  });
+});
@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client';
+import { AppLogger } from '../src/common/logger/app-logger.service';
+import { PrismaService } from '../src/core/database/prisma/prisma.service';
+import { TagRepository } from '../src/modules/tags/repositories/tag.repository';
+
+// Merging relies on skipping duplicate assignments in the database, so these
+// run against the migrated database in DATABASE_URL
+describe('Tag merging (e2e)', () => {
+  const prisma = new PrismaClient();
+  const repository = new TagRepository(
+    prisma as PrismaService,
+    new AppLogger(),
+  );
+  let userId: number;
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: { email: `tags-${Date.now()}@example.com` },
+    });
+    userId = user.id;
+  });
+
+  afterAll(async () => {
+    await prisma.user.delete({ where: { id: userId } });
+    await prisma.$disconnect();
+  });
+
+  it('should tag each todo of the source once with the target', async () => {
+    const [source, target] = await prisma.tag.createManyAndReturn({
+      data: [
+        { name: 'gardening', userId },
+        { name: 'garden', userId },
+      ],
+    });
+    const both = await prisma.todo.create({
+      data: {
+        title: 'Water the plants',
+        userId,
+        tags: { create: [{ tagId: source.id }, { tagId: target.id }] },
+      },
+    });
+    const sourceOnly = await prisma.todo.create({
+      data: {
+        title: 'Mow the lawn',
+        userId,
+        tags: { create: [{ tagId: source.id }] },
+      },
+    });
+
+    await repository.merge(source.id, target.id);
+
+    await expect(
+      prisma.tag.findUnique({ where: { id: source.id } }),
+    ).resolves.toBeNull();
+    await expect(
+      prisma.todoTag.findMany({
+        where: { todoId: { in: [both.id, sourceOnly.id] } },
+        orderBy: { todoId: 'asc' },
+      }),
+    ).resolves.toMatchObject([
+      { todoId: both.id, tagId: target.id },
+      { todoId: sourceOnly.id, tagId: target.id },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { PrismaClient } from '@prisma/client';
+import { AppLogger } from '../src/common/logger/app-logger.service';
+import { PrismaService } from '../src/core/database/prisma/prisma.service';
+import {
+  SortOrder,
+  TagMatchMode,
+  TodoSortField,
+} from '../src/modules/todos/dto/todo.dto';
+import { TodoRepository } from '../src/modules/todos/repositories/todo.repository';
+
+// Filters and sorting are translated into SQL, so these run against the
+// migrated database in DATABASE_URL
+describe('Todo queries (e2e)', () => {
+  const prisma = new PrismaClient();
+  const repository = new TodoRepository(
+    prisma as PrismaService,
+    new AppLogger(),
+  );
+  let userId: number;
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: { email: `todo-queries-${Date.now()}@example.com` },
+    });
+    userId = user.id;
+
+    const [garden, urgent] = await prisma.tag.createManyAndReturn({
+      data: [
+        { name: 'garden', userId },
+        { name: 'urgent', userId },
+      ],
+    });
+    await prisma.todo.create({
+      data: {
+        title: 'Water the plants',
+        userId,
+        dueDate: new Date('2025-07-02T09:00:00Z'),
+        tags: { create: [{ tagId: garden.id }, { tagId: urgent.id }] },
+      },
+    });
+    await prisma.todo.create({
+      data: {
+        title: 'Mow the lawn',
+        userId,
+        dueDate: new Date('2025-07-01T09:00:00Z'),
+        tags: { create: [{ tagId: garden.id }] },
+      },
+    });
+    await prisma.todo.create({
+      data: { title: 'Call the plumber', userId, completed: true },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.user.delete({ where: { id: userId } });
+    await prisma.$disconnect();
+  });
+
+  const titles = (items: { title: string }[]) =>
+    items.map(({ title }) => title);
+
+  it('should sort todos without a due date last either way', async () => {
+    for (const sortOrder of [SortOrder.ASC, SortOrder.DESC]) {
+      const { items } = await repository.findMany(userId, {
+        sortBy: TodoSortField.DUE_DATE,
+        sortOrder,
+      });
+
+      expect(titles(items)[2]).toBe('Call the plumber');
+    }
+  });
+
+  it('should only match todos with every tag in all mode', async () => {
+    const { items, total } = await repository.findMany(userId, {
+      tags: ['garden', 'urgent'],
+      tagMode: TagMatchMode.ALL,
+    });
+
+    expect(titles(items)).toEqual(['Water the plants']);
+    expect(total).toBe(1);
+  });
+
+  it('should filter by completion', async () => {
+    const { items } = await repository.findMany(userId, { completed: true });
+
+    expect(titles(items)).toEqual(['Call the plumber']);
+  });
+
+  it('should page through every todo once with the cursor', async () => {
+    const seen: string[] = [];
+    let cursor: number | undefined;
+
+    do {
+      const page = await repository.findMany(userId, { limit: 2, cursor });
+      seen.push(...titles(page.items));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+
+    expect(seen).toHaveLength(3);
+    expect(new Set(seen).size).toBe(3);
+  });
+});
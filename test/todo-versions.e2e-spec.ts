@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+import { todoETag } from '../src/modules/todos/utils/etag.util';
+
+// Versions are maintained by database triggers, so these run against the
+// migrated database in DATABASE_URL
+describe('Todo versions (e2e)', () => {
+  const prisma = new PrismaClient();
+  let userId: number;
+
+  const findTodo = (id: number) =>
+    prisma.todo.findUniqueOrThrow({ where: { id } });
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: { email: `todo-versions-${Date.now()}@example.com` },
+    });
+    userId = user.id;
+  });
+
+  afterAll(async () => {
+    await prisma.user.delete({ where: { id: userId } });
+    await prisma.$disconnect();
+  });
+
+  it('should version field changes', async () => {
+    const todo = await prisma.todo.create({
+      data: { title: 'Water the plants', userId },
+    });
+
+    const updated = await prisma.todo.update({
+      where: { id: todo.id },
+      data: { title: 'Water the garden' },
+    });
+
+    expect(updated.version).toBeGreaterThan(todo.version);
+    expect(updated.fieldVersions).toEqual({ title: updated.version });
+  });
+
+  it('should not version a write that changes nothing', async () => {
+    const todo = await prisma.todo.create({
+      data: { title: 'Water the plants', userId },
+    });
+
+    const touched = await prisma.todo.update({
+      where: { id: todo.id },
+      data: { updatedAt: new Date() },
+    });
+
+    expect(touched.version).toBe(todo.version);
+  });
+
+  describe('tag changes', () => {
+    it('should version the todo when a tag is assigned or removed', async () => {
+      const todo = await prisma.todo.create({
+        data: { title: 'Water the plants', userId },
+      });
+      const tag = await prisma.tag.create({
+        data: { name: `garden-${todo.id}`, userId },
+      });
+
+      await prisma.todoTag.create({ data: { todoId: todo.id, tagId: tag.id } });
+      const tagged = await findTodo(todo.id);
+
+      expect(tagged.version).toBeGreaterThan(todo.version);
+      expect(tagged.fieldVersions).toEqual({ tags: tagged.version });
+
+      await prisma.todoTag.delete({
+        where: { todoId_tagId: { todoId: todo.id, tagId: tag.id } },
+      });
+      const untagged = await findTodo(todo.id);
+
+      expect(untagged.version).toBeGreaterThan(tagged.version);
+      expect(untagged.fieldVersions).toEqual({ tags: untagged.version });
+    });
+
+    // Otherwise GET /todos/:id would answer 304 with the old tags
+    it('should change the ETag when only the tags change', async () => {
+      const todo = await prisma.todo.create({
+        data: { title: 'Water the plants', userId },
+      });
+      const tag = await prisma.tag.create({
+        data: { name: `plants-${todo.id}`, userId },
+      });
+
+      await prisma.todo.update({
+        where: { id: todo.id },
+        data: { tags: { create: [{ tagId: tag.id }] } },
+      });
+
+      expect(todoETag(await findTodo(todo.id), [])).not.toBe(
+        todoETag(todo, []),
+      );
+    });
+
+    it('should version every tagged todo when a tag is renamed or deleted', async () => {
+      const todos = await prisma.todo.createManyAndReturn({
+        data: [
+          { title: 'Water the plants', userId },
+          { title: 'Mow the lawn', userId },
+        ],
+      });
+      const tag = await prisma.tag.create({
+        data: {
+          name: `garden-${todos[0].id}`,
+          userId,
+          todos: { create: todos.map((todo) => ({ todoId: todo.id })) },
+        },
+      });
+      const before = await Promise.all(todos.map((todo) => findTodo(todo.id)));
+
+      await prisma.tag.update({
+        where: { id: tag.id },
+        data: { name: `yard-${todos[0].id}` },
+      });
+      const renamed = await Promise.all(todos.map((todo) => findTodo(todo.id)));
+
+      renamed.forEach((todo, index) => {
+        expect(todo.version).toBeGreaterThan(before[index].version);
+      });
+
+      await prisma.tag.delete({ where: { id: tag.id } });
+      const untagged = await Promise.all(
+        todos.map((todo) => findTodo(todo.id)),
+      );
+
+      untagged.forEach((todo, index) => {
+        expect(todo.version).toBeGreaterThan(renamed[index].version);
+      });
+    });
+  });
+});